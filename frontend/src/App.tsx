@@ -3,6 +3,7 @@ import { HomePage } from '@/features/room/pages/HomePage';
 import { LobbyPage } from '@/features/room/pages/LobbyPage';
 import { GamePage } from '@/features/game/pages/GamePage';
 import { PracticePage } from '@/features/game/pages/PracticePage';
+import { RateLimitBanner } from '@/shared/components/RateLimitBanner';
 
 function App() {
   return (
@@ -13,6 +14,7 @@ function App() {
         <Route path="/game/:roomId" element={<GamePage />} />
         <Route path="/practice" element={<PracticePage />} />
       </Routes>
+      <RateLimitBanner />
     </div>
   );
 }
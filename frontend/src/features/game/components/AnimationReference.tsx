@@ -1,3 +1,5 @@
+import { resolveImageUrl } from '@/shared/lib/api';
+
 interface AnimationReferenceProps {
   frames: string[];
   viewMode: 'previous' | 'sequence';
@@ -34,7 +36,7 @@ export function AnimationReference({ frames, viewMode, background }: AnimationRe
             </div>
             <div className="bg-white p-1">
               <img
-                src={background}
+                src={resolveImageUrl(background)}
                 alt="背景"
                 className="h-auto w-full rounded border border-amber-100 object-contain"
                 style={{ maxHeight: '200px' }}
@@ -59,7 +61,7 @@ export function AnimationReference({ frames, viewMode, background }: AnimationRe
                 </div>
                 <div className="bg-white p-1">
                   <img
-                    src={frame}
+                    src={resolveImageUrl(frame)}
                     alt={`フレーム${index + 1}`}
                     className="h-auto w-full rounded border border-gray-100 object-contain"
                     style={{ aspectRatio: '1/1' }}
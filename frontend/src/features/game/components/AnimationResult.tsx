@@ -3,6 +3,8 @@ import { useNavigate, useParams } from 'react-router-dom';
 import { useGameStore } from '@/features/game/store/gameStore';
 import { useRoomStore } from '@/features/room/store/roomStore';
 import { useWebSocket } from '@/shared/hooks/useWebSocket';
+import { resolveImageUrl } from '@/shared/lib/api';
+import { PresenterControls } from '@/features/game/components/PresenterControls';
 
 export function AnimationResult() {
   const navigate = useNavigate();
@@ -33,6 +35,8 @@ export function AnimationResult() {
 
   const players = resultPlayers.length > 0 ? resultPlayers : room?.players || [];
   const isHost = room?.hostId === playerId;
+  // 進行役（未設定ならホスト）だけが発表を進められる
+  const isPresenter = (room?.presenterId ?? room?.hostId) === playerId;
   const hasBackground = room?.settings.animationSettings.firstFrameMode === 'background';
 
   // Current entry index for current chain (-1 means nothing shown yet)
@@ -50,7 +54,7 @@ export function AnimationResult() {
   })();
 
   // Determine which chain to display
-  const displayChainIndex = !isAllRevealed ? resultChainIndex : (isHost ? resultChainIndex : localChainIndex);
+  const displayChainIndex = !isAllRevealed ? resultChainIndex : (isPresenter ? resultChainIndex : localChainIndex);
   const currentChain = chains[displayChainIndex];
 
   // Extract all drawing frames
@@ -166,7 +170,7 @@ export function AnimationResult() {
   }, [frames.length, isPlaying, speed, isAnimationUnlocked]);
 
   const handleNext = () => {
-    if (!isHost) return;
+    if (!isPresenter) return;
 
     const chain = chains[resultChainIndex];
     if (!chain) return;
@@ -186,7 +190,7 @@ export function AnimationResult() {
   };
 
   const handlePrev = () => {
-    if (!isHost) return;
+    if (!isPresenter) return;
 
     if (resultEntryIndex > 0) {
       const newEntryIndex = resultEntryIndex - 1;
@@ -211,7 +215,7 @@ export function AnimationResult() {
   };
 
   const hostJumpToChain = (chainIndex: number) => {
-    if (!isHost) return;
+    if (!isPresenter) return;
     const targetChain = chains[chainIndex];
     if (!targetChain) return;
 
@@ -280,20 +284,21 @@ export function AnimationResult() {
             チェーン {displayChainIndex + 1} / {chains.length}
             <span className="ml-2 text-sm">（{ownerName} のお題）</span>
           </p>
+          <PresenterControls chainOwnerId={currentChain.ownerPlayerId} getPlayerName={getPlayerName} />
         </div>
 
         {/* Chain selector */}
         <div className="mt-3 flex flex-wrap items-center justify-center gap-2">
           {chains.map((chain, idx) => {
             const isChainRevealed = (revealedEntryIndices[idx] ?? -1) >= 0;
-            const isAccessible = isHost || isAllRevealed || isChainRevealed;
+            const isAccessible = isPresenter || isAllRevealed || isChainRevealed;
             const isSelected = idx === displayChainIndex;
 
             return (
               <button
                 key={chain.id}
                 onClick={() => {
-                  if (isHost) {
+                  if (isPresenter) {
                     hostJumpToChain(idx);
                   } else if (isAllRevealed) {
                     switchToChain(idx);
@@ -314,7 +319,7 @@ export function AnimationResult() {
           })}
         </div>
 
-        {isAllRevealed && !isHost && (
+        {isAllRevealed && !isPresenter && (
           <p className="mt-2 text-center text-xs text-gray-500">
             自由に他のチェーンを見られます
           </p>
@@ -366,7 +371,7 @@ export function AnimationResult() {
                     <p className="text-lg font-medium text-gray-800">{entry.payload}</p>
                   ) : entry.payload ? (
                     <img
-                      src={entry.payload}
+                      src={resolveImageUrl(entry.payload)}
                       alt={isBackgroundEntry ? '背景' : 'フレーム'}
                       className="max-h-64 rounded-lg"
                     />
@@ -449,7 +454,7 @@ export function AnimationResult() {
                   {/* Background layer (fixed) */}
                   {backgroundFrame && (
                     <img
-                      src={backgroundFrame}
+                      src={resolveImageUrl(backgroundFrame)}
                       alt="背景"
                       className="h-auto w-full object-contain"
                     />
@@ -458,7 +463,7 @@ export function AnimationResult() {
                   {frames.length > 0 && (
                     <img
                       key={frameIndex}
-                      src={frames[frameIndex]}
+                      src={resolveImageUrl(frames[frameIndex])}
                       alt={`フレーム${frameIndex + 1}`}
                       className={`h-auto w-full object-contain ${backgroundFrame ? 'absolute inset-0' : ''}`}
                     />
@@ -472,7 +477,7 @@ export function AnimationResult() {
 
       {/* Navigation controls */}
       <div className="flex-shrink-0 bg-white p-4 shadow-[0_-2px_10px_rgba(0,0,0,0.1)]">
-        {isHost ? (
+        {isPresenter ? (
           <div className="flex flex-col gap-2">
             <div className="flex items-center justify-between gap-2">
               <button
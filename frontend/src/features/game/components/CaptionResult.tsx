@@ -0,0 +1,82 @@
+import { useCallback } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useGameStore } from '@/features/game/store/gameStore';
+import { useRoomStore } from '@/features/room/store/roomStore';
+import { useWebSocket } from '@/shared/hooks/useWebSocket';
+import { CaptionSubject } from './CaptionRound';
+import { FinalRanking } from './Scoreboard';
+
+export function CaptionResult() {
+  const { captionResult, reset: resetGame } = useGameStore();
+  const { room } = useRoomStore();
+  const { send } = useWebSocket(room?.id ?? null);
+  const navigate = useNavigate();
+  const { roomId } = useParams<{ roomId: string }>();
+
+  const handleReturnToLobby = useCallback(() => {
+    send({ type: 'return_to_lobby', payload: {} });
+    resetGame();
+    navigate(`/room/${roomId}`);
+  }, [send, resetGame, navigate, roomId]);
+
+  if (!captionResult) {
+    return (
+      <div className="flex min-h-screen items-center justify-center text-gray-600">
+        結果を待っています...
+      </div>
+    );
+  }
+
+  const getName = (id: string | null) => captionResult.players.find((p) => p.id === id)?.name ?? '???';
+
+  return (
+    <div className="flex min-h-screen flex-col bg-gradient-to-br from-orange-50 to-amber-100 p-4">
+      <div className="mx-auto w-full max-w-3xl space-y-6">
+        <div className="rounded-2xl bg-white p-6 shadow-xl">
+          <h2 className="mb-4 text-center text-2xl font-black text-gray-900">🏆 最終結果</h2>
+          <FinalRanking players={captionResult.players} scores={captionResult.scores} />
+        </div>
+
+        {/* ラウンドごとのベストキャプション */}
+        <div className="rounded-2xl bg-white p-6 shadow-xl">
+          <h3 className="mb-4 text-lg font-bold text-gray-800">💬 ラウンドの振り返り</h3>
+          <div className="space-y-6">
+            {captionResult.rounds.map((round) => {
+              const winners = round.captions.filter((c) => round.winnerIds.includes(c.id));
+              return (
+                <div key={round.round} className="border-t border-gray-100 pt-4 first:border-t-0 first:pt-0">
+                  <p className="mb-2 text-sm font-semibold text-gray-500">
+                    ラウンド {round.round} ・ お題: {round.prompt}
+                    {round.artistId && ` ・ 絵: ${getName(round.artistId)}`}
+                  </p>
+                  <CaptionSubject drawing={round.drawing} prompt={round.prompt} />
+                  {winners.length === 0 ? (
+                    <p className="mt-2 text-center text-sm text-gray-500">票の入ったキャプションはありませんでした</p>
+                  ) : (
+                    winners.map((caption) => (
+                      <p key={caption.id} className="mt-2 text-center text-lg font-bold text-gray-900">
+                        👑 {caption.text}
+                        <span className="ml-2 text-sm font-normal text-gray-500">
+                          {getName(caption.authorId)}・{caption.votes}票
+                        </span>
+                      </p>
+                    ))
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="flex justify-center">
+          <button
+            onClick={handleReturnToLobby}
+            className="rounded-lg bg-orange-500 px-8 py-3 font-semibold text-white transition hover:bg-orange-600"
+          >
+            ロビーに戻る
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useGameStore } from '@/features/game/store/gameStore';
+import { useRoomStore } from '@/features/room/store/roomStore';
+import { wsManager } from '@/shared/lib/websocket';
+import { resolveImageUrl } from '@/shared/lib/api';
+import { Timer } from '@/features/game/components/Timer';
+import type { CaptionState } from '@/shared/types';
+import { Scoreboard } from './Scoreboard';
+
+// キャプションを付ける対象（描く人の絵。時間切れやdeck形式のときはお題）
+export function CaptionSubject({ drawing, prompt }: { drawing: string | null; prompt: string | null }) {
+  if (drawing) {
+    return <img src={resolveImageUrl(drawing)} alt="お題の絵" className="mx-auto max-h-[45vh] rounded-xl object-contain" />;
+  }
+  return <p className="py-8 text-center text-3xl font-black text-gray-800">{prompt ? `「${prompt}」` : '🖼️'}</p>;
+}
+
+// キャプション大喜利: 描く人・キャプションを書く人以外の待機、投票、ラウンドごとの結果発表
+export function CaptionRound() {
+  const { captionState, phase } = useGameStore();
+  const { room, playerId } = useRoomStore();
+
+  if (!captionState || !room) {
+    return (
+      <div className="flex min-h-screen items-center justify-center text-gray-600">
+        準備しています...
+      </div>
+    );
+  }
+
+  const players = room.players;
+  const isPlayer = players.some((p) => p.id === playerId);
+  const getName = (id: string | null) => players.find((p) => p.id === id)?.name ?? '???';
+
+  return (
+    <div className="flex min-h-screen flex-col overflow-y-auto p-4">
+      <div className="sticky top-0 z-10 mb-4 space-y-3 rounded-2xl border border-orange-100 bg-white/90 p-4 text-center shadow-sm backdrop-blur">
+        <h1 className="text-xl font-bold text-orange-600">💬 キャプション大喜利</h1>
+        <div className="flex items-center justify-between gap-3">
+          <Timer />
+          <p className="text-sm font-semibold text-gray-600">
+            ラウンド {captionState.round} / {captionState.totalRounds}
+          </p>
+        </div>
+        <Scoreboard scores={captionState.scores} players={players} drawerId={captionState.artistId} />
+      </div>
+
+      <div className="flex flex-col gap-4 pb-4">
+        {phase === 'drawing' && (
+          <p className="py-12 text-center font-semibold text-gray-700">🎨 {getName(captionState.artistId)} さんが絵を描いています...</p>
+        )}
+
+        {phase === 'guessing' && (
+          <div className="rounded-2xl bg-white p-4 text-center shadow">
+            <CaptionSubject drawing={captionState.drawing} prompt={captionState.prompt} />
+            <p className="mt-3 font-semibold text-gray-700">✍️ みんながキャプションを考えています...</p>
+          </div>
+        )}
+
+        {phase === 'caption_voting' && <CaptionVoting captionState={captionState} canVote={isPlayer} />}
+
+        {phase === 'caption_reveal' && captionState.reveal && (
+          <div className="rounded-2xl bg-white p-4 shadow">
+            <CaptionSubject drawing={captionState.reveal.drawing} prompt={captionState.reveal.prompt} />
+            <p className="mt-2 text-center text-xs text-gray-500">
+              お題: {captionState.reveal.prompt}
+              {captionState.reveal.artistId && ` ・ 絵: ${getName(captionState.reveal.artistId)}`}
+            </p>
+            {captionState.reveal.captions.length === 0 ? (
+              <p className="mt-4 text-center text-sm text-gray-500">キャプションはありませんでした</p>
+            ) : (
+              <ol className="mt-4 space-y-2">
+                {captionState.reveal.captions.map((caption) => {
+                  const isWinner = captionState.reveal?.winnerIds.includes(caption.id);
+                  return (
+                    <li
+                      key={caption.id}
+                      className={`flex items-center justify-between gap-3 rounded-xl p-3 ${
+                        isWinner ? 'bg-yellow-100 ring-2 ring-yellow-300' : 'bg-gray-50'
+                      }`}
+                    >
+                      <div>
+                        <p className="font-semibold text-gray-900">{isWinner && '👑 '}{caption.text}</p>
+                        <p className="text-xs text-gray-500">
+                          {getName(caption.authorId)}
+                          {caption.authorId === playerId && '（あなた）'}
+                        </p>
+                      </div>
+                      <div className="shrink-0 text-right">
+                        <p className="text-sm font-bold text-orange-600">{caption.votes}票</p>
+                        <p className="text-xs text-gray-500">+{caption.points}pt</p>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// 誰が書いたかは伏せたまま投票する。自分のキャプションには投票できない
+function CaptionVoting({ captionState, canVote }: { captionState: CaptionState; canVote: boolean }) {
+  return (
+    <div className="rounded-2xl bg-white p-4 shadow">
+      <CaptionSubject drawing={captionState.drawing} prompt={captionState.prompt} />
+      <h2 className="mb-1 mt-4 text-center text-lg font-bold text-gray-800">🗳️ いちばん面白いキャプションは？</h2>
+      <p className="mb-3 text-center text-xs text-gray-500">投票済み {captionState.votedPlayerIds.length}人</p>
+      <div className="grid gap-2 sm:grid-cols-2">
+        {captionState.captions.map((caption) => (
+          <button
+            key={caption.id}
+            onClick={() => wsManager.send({ type: 'caption_vote', payload: { captionId: caption.id } })}
+            disabled={!canVote || caption.mine}
+            className={`rounded-xl border-2 p-3 text-left font-semibold transition ${
+              captionState.myVote === caption.id
+                ? 'border-orange-500 bg-orange-50'
+                : 'border-gray-100 bg-gray-50 hover:border-orange-200'
+            } disabled:cursor-not-allowed disabled:opacity-50`}
+          >
+            {caption.text}
+            {caption.mine && <span className="ml-2 text-xs text-gray-500">（あなた）</span>}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
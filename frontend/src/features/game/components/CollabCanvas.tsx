@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useGameStore } from '@/features/game/store/gameStore';
+import { useRoomStore } from '@/features/room/store/roomStore';
+import { wsManager } from '@/shared/lib/websocket';
+import { Canvas, type CanvasRef } from '@/shared/components/Canvas';
+import { Timer } from '@/features/game/components/Timer';
+import { SubmissionProgress } from '@/features/game/components/SubmissionProgress';
+import type { DrawingStroke } from '@/shared/types';
+
+// ストロークはまとめてこの間隔で送る（サーバー側の1回あたりの上限は200本）
+const STROKE_FLUSH_INTERVAL_MS = 100;
+const MAX_STROKES_PER_MESSAGE = 200;
+
+interface CollabCanvasProps {
+  onComplete: () => void;
+}
+
+// みんなでお絵描き: 全員が同じキャンバスに同時に描く
+export function CollabCanvas({ onComplete }: CollabCanvasProps) {
+  const canvasRef = useRef<CanvasRef>(null);
+  const { collabState, collabVersion, hasSubmitted } = useGameStore();
+  const { room, playerId } = useRoomStore();
+  const player = room?.players.find((p) => p.id === playerId);
+  const region = collabState?.regions?.[playerId ?? ''] ?? undefined;
+
+  // 他のプレイヤーのストロークのうち、キャンバスに描画済みの本数
+  const drawnCountRef = useRef(0);
+  const pendingStrokesRef = useRef<DrawingStroke[]>([]);
+  const hasSubmittedRef = useRef(hasSubmitted);
+
+  useEffect(() => {
+    hasSubmittedRef.current = hasSubmitted;
+  }, [hasSubmitted]);
+
+  // 状態が丸ごと届いたらキャンバスを作り直す（keyで再マウント）ので、最初から描き直す
+  useEffect(() => {
+    drawnCountRef.current = 0;
+  }, [collabVersion]);
+
+  useEffect(() => {
+    if (!collabState) return;
+    const strokes = collabState.strokes.slice(drawnCountRef.current);
+    if (strokes.length === 0) return;
+    canvasRef.current?.drawStrokes(strokes);
+    drawnCountRef.current = collabState.strokes.length;
+  }, [collabState, collabVersion]);
+
+  const flushStrokes = useCallback(() => {
+    const strokes = pendingStrokesRef.current;
+    pendingStrokesRef.current = [];
+    for (let i = 0; i < strokes.length; i += MAX_STROKES_PER_MESSAGE) {
+      wsManager.send({ type: 'collab_strokes', payload: { strokes: strokes.slice(i, i + MAX_STROKES_PER_MESSAGE) } });
+    }
+  }, []);
+
+  useEffect(() => {
+    const interval = setInterval(flushStrokes, STROKE_FLUSH_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      flushStrokes();
+    };
+  }, [flushStrokes]);
+
+  const handleStroke = useCallback((stroke: DrawingStroke) => {
+    pendingStrokesRef.current.push(stroke);
+  }, []);
+
+  // 完成品はサーバーが受け付けたストロークから作るので、画像は送らずに残りのストロークと合図だけ送る
+  const handleSubmit = useCallback(() => {
+    flushStrokes();
+    onComplete();
+  }, [flushStrokes, onComplete]);
+
+  // 時間切れ時は自動で合図を出す
+  const handleTimeout = useCallback(() => {
+    if (hasSubmittedRef.current) return;
+    handleSubmit();
+  }, [handleSubmit]);
+
+  if (!collabState) {
+    return (
+      <div className="flex min-h-screen items-center justify-center text-gray-600">
+        キャンバスを準備しています...
+      </div>
+    );
+  }
+
+  const rules = [
+    collabState.lockColor && '自分の色だけ',
+    region && '点線の枠の中だけ',
+  ].filter(Boolean);
+
+  return (
+    <div className="flex min-h-screen flex-col overflow-y-auto p-4">
+      <div className="sticky top-0 z-10 mb-4 space-y-3 rounded-2xl border border-sky-100 bg-white/90 p-4 text-center shadow-sm backdrop-blur">
+        <h1 className="text-xl font-bold text-sky-700">🤝 みんなでお絵描き</h1>
+        <div className="rounded-lg bg-sky-50 p-3 text-left shadow-inner">
+          <p className="text-xs font-semibold uppercase tracking-wide text-sky-800">お題</p>
+          <p className="text-lg font-semibold text-gray-800">{collabState.prompt}</p>
+          {rules.length > 0 && <p className="mt-1 text-xs text-sky-700">ルール: {rules.join('・')}で描けます</p>}
+        </div>
+        <div className="flex items-center justify-between gap-3">
+          <Timer onTimeout={handleTimeout} />
+          <SubmissionProgress />
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-4 pb-4">
+        <Canvas
+          key={collabVersion}
+          ref={canvasRef}
+          onStroke={handleStroke}
+          colors={collabState.lockColor && player ? [player.color] : undefined}
+          region={region}
+          allowUndo={false}
+        />
+        <div className="flex items-center justify-end gap-3">
+          {hasSubmitted && <span className="text-sm text-gray-500">完成の合図を出しました。他の人を待っています...</span>}
+          <button
+            onClick={handleSubmit}
+            disabled={hasSubmitted}
+            className="rounded-lg bg-sky-600 px-6 py-3 font-semibold text-white hover:bg-sky-700 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            完成！
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
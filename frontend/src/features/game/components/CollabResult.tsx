@@ -0,0 +1,91 @@
+import { useCallback, useMemo } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useGameStore } from '@/features/game/store/gameStore';
+import { useRoomStore } from '@/features/room/store/roomStore';
+import { useWebSocket } from '@/shared/hooks/useWebSocket';
+import { CANVAS_WIDTH, CANVAS_HEIGHT } from '@/shared/components/Canvas';
+import { renderStrokes } from '@/shared/lib/strokeRenderer';
+import { DrawingTimelapse } from './DrawingTimelapse';
+
+export function CollabResult() {
+  const { collabResult, reset: resetGame } = useGameStore();
+  const { room, playerId } = useRoomStore();
+  const { send } = useWebSocket(room?.id ?? null);
+  const navigate = useNavigate();
+  const { roomId } = useParams<{ roomId: string }>();
+
+  const handleReturnToLobby = useCallback(() => {
+    send({ type: 'return_to_lobby', payload: {} });
+    resetGame();
+    navigate(`/room/${roomId}`);
+  }, [send, resetGame, navigate, roomId]);
+
+  // 完成品はサーバーが受け付けたストロークから描き直す
+  const finalImage = useMemo(
+    () => (collabResult && collabResult.strokes.length > 0 ? renderStrokes(collabResult.strokes, CANVAS_WIDTH, CANVAS_HEIGHT) : null),
+    [collabResult]
+  );
+
+  if (!collabResult) {
+    return (
+      <div className="flex min-h-screen items-center justify-center text-gray-600">
+        結果を待っています...
+      </div>
+    );
+  }
+
+  // 描いたストロークの本数（貢献度の目安）
+  const strokeCounts = new Map<string, number>();
+  collabResult.strokes.forEach((stroke) => {
+    strokeCounts.set(stroke.playerId, (strokeCounts.get(stroke.playerId) ?? 0) + 1);
+  });
+
+  return (
+    <div className="flex min-h-screen flex-col bg-gradient-to-br from-sky-50 to-cyan-100 p-4">
+      <div className="mx-auto w-full max-w-4xl">
+        <h2 className="mb-2 text-center text-3xl font-bold text-gray-800">🤝 完成！</h2>
+        <p className="mb-6 text-center text-lg text-gray-600">お題: {collabResult.prompt}</p>
+
+        <div className="rounded-2xl bg-white p-6 shadow-xl">
+          <div className="flex justify-center">
+            {finalImage ? (
+              <DrawingTimelapse
+                strokes={collabResult.strokes}
+                finalImage={finalImage}
+                maxWidth={800}
+                maxHeight={600}
+              />
+            ) : (
+              <p className="py-12 text-gray-400">何も描かれませんでした</p>
+            )}
+          </div>
+
+          <div className="mt-6 border-t border-gray-200 pt-4">
+            <h3 className="mb-3 text-sm font-semibold text-gray-700">描いた人</h3>
+            <ul className="flex flex-wrap gap-2">
+              {collabResult.players.map((player) => (
+                <li key={player.id} className="flex items-center gap-1.5 rounded-full bg-gray-50 px-3 py-1 text-sm">
+                  <span className="h-3 w-3 rounded-full" style={{ backgroundColor: player.color }} />
+                  <span className="font-semibold text-gray-700">
+                    {player.name}
+                    {player.id === playerId && '（あなた）'}
+                  </span>
+                  <span className="text-xs text-gray-500">{strokeCounts.get(player.id) ?? 0}画</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="mt-8 flex justify-center border-t border-gray-200 pt-6">
+            <button
+              onClick={handleReturnToLobby}
+              className="rounded-lg bg-sky-600 px-8 py-3 font-semibold text-white transition hover:bg-sky-700"
+            >
+              ロビーに戻る
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useGameStore } from '@/features/game/store/gameStore';
+import { useRoomStore } from '@/features/room/store/roomStore';
+import { Timer } from '@/features/game/components/Timer';
+import { SubmissionProgress } from '@/features/game/components/SubmissionProgress';
+import { TurnIndicator } from '@/features/game/components/TurnIndicator';
+import { Canvas, type CanvasRef } from '@/shared/components/Canvas';
+import { useDrawingModifiers } from '@/shared/hooks/useDrawingModifiers';
+import type { DrawingStroke } from '@/shared/types';
+
+interface CorpseDrawingProps {
+  onSubmit: (imageData: string, strokes?: DrawingStroke[], edgeStrip?: string) => void;
+  onRetry?: () => void;
+}
+
+// 3段なら頭・胴体・脚、それ以外は上から何段目か
+export function getSegmentLabel(segment: number, segmentCount: number): string {
+  if (segmentCount === 3) return ['頭', '胴体', '脚'][segment];
+  return `${segment + 1}段目`;
+}
+
+// 合体お絵描き: 前の人の段は下端の帯だけを見て、続きの1段を描く
+export function CorpseDrawing({ onSubmit, onRetry }: CorpseDrawingProps) {
+  const canvasRef = useRef<CanvasRef>(null);
+  const { modifiers, colors } = useDrawingModifiers();
+  const { hasSubmitted, receivedContent, setHasSubmitted } = useGameStore();
+  const { room } = useRoomStore();
+  const stripHeight = room?.settings.corpseSettings.stripHeightPx ?? 40;
+  const content = receivedContent?.type === 'edge_strip' ? receivedContent : null;
+  const isLastSegment = !!content && content.segment === content.segmentCount - 1;
+
+  const hasSubmittedRef = useRef(hasSubmitted);
+  useEffect(() => {
+    hasSubmittedRef.current = hasSubmitted;
+  }, [hasSubmitted]);
+
+  // 新しい段が届いたらキャンバスをクリア
+  const prevReceivedContentRef = useRef(receivedContent);
+  useEffect(() => {
+    if (prevReceivedContentRef.current !== receivedContent && canvasRef.current) {
+      canvasRef.current.clear();
+    }
+    prevReceivedContentRef.current = receivedContent;
+  }, [receivedContent]);
+
+  const handleSubmit = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    // 最後の段の下端は誰にも渡さないので送らない
+    onSubmit(canvas.getImageData(), canvas.getStrokeHistory(), isLastSegment ? undefined : canvas.getEdgeStrip(stripHeight));
+  }, [onSubmit, isLastSegment, stripHeight]);
+
+  // 時間切れ時に現在の描画を自動提出
+  const handleTimeout = useCallback(() => {
+    if (hasSubmittedRef.current) return;
+    handleSubmit();
+  }, [handleSubmit]);
+
+  const handleRetry = useCallback(() => {
+    setHasSubmitted(false);
+    onRetry?.();
+  }, [setHasSubmitted, onRetry]);
+
+  return (
+    <div className="flex min-h-screen flex-col overflow-y-auto p-4">
+      {/* 提出完了オーバーレイ */}
+      {hasSubmitted && (
+        <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/40 backdrop-blur-sm">
+          <div className="mx-4 w-full max-w-sm rounded-2xl bg-white p-6 shadow-xl">
+            <div className="text-center">
+              <div className="text-5xl">🧩</div>
+              <h2 className="mt-3 text-xl font-bold text-gray-800">提出完了!</h2>
+              <p className="mt-2 text-sm text-gray-600">他のプレイヤーを待っています...</p>
+            </div>
+            <div className="mt-5">
+              <SubmissionProgress />
+            </div>
+            <button
+              onClick={handleRetry}
+              className="mt-5 w-full rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-semibold text-gray-700 shadow-sm transition hover:bg-gray-50"
+            >
+              ✏️ 書き直す
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="sticky top-0 z-10 mb-4 space-y-3 rounded-2xl border border-lime-100 bg-white/90 p-4 text-center shadow-sm backdrop-blur">
+        <h1 className="text-xl font-bold text-lime-700">🧩 合体お絵描き</h1>
+        <TurnIndicator />
+        <div className="rounded-lg bg-lime-50 p-3 text-left shadow-inner">
+          <p className="text-xs font-semibold uppercase tracking-wide text-lime-800">あなたが描く段</p>
+          <p className="text-lg font-semibold text-gray-800">
+            {content ? `${getSegmentLabel(content.segment, content.segmentCount)}（${content.segment + 1} / ${content.segmentCount}）` : '準備中...'}
+          </p>
+          <p className="mt-1 text-xs text-lime-700">
+            {content?.payload
+              ? '点線の上は前の人が描いた段の下端です。線をつなげて続きを描きましょう'
+              : content && content.segment > 0
+                ? '前の段は描かれませんでした。自由に描きましょう'
+                : 'いちばん上の段です。下の端は次の人に少しだけ見えます'}
+          </p>
+        </div>
+        <div className="flex items-center justify-between gap-3">
+          <Timer onTimeout={handleTimeout} />
+          <SubmissionProgress />
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-4 pb-4">
+        <Canvas ref={canvasRef} edgeStripImage={content?.payload ?? undefined} modifiers={modifiers} colors={colors} />
+        <div className="flex justify-end">
+          <button
+            onClick={handleSubmit}
+            disabled={hasSubmitted}
+            className="rounded-lg bg-lime-600 px-6 py-3 font-semibold text-white hover:bg-lime-700 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            提出する
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
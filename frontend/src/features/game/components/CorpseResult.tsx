@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useGameStore } from '@/features/game/store/gameStore';
+import { useRoomStore } from '@/features/room/store/roomStore';
+import { useWebSocket } from '@/shared/hooks/useWebSocket';
+import { CANVAS_WIDTH, CANVAS_HEIGHT } from '@/shared/components/Canvas';
+import { resolveImageUrl } from '@/shared/lib/api';
+import type { Entry } from '@/shared/types';
+import { getSegmentLabel } from './CorpseDrawing';
+
+// 時間切れの段は画像ではなく '(timeout)' が入っている
+function isImagePayload(payload: string): boolean {
+  return payload.startsWith('/api/') || payload.startsWith('data:');
+}
+
+// 段の画像を上から順に縦につなげて1枚の絵にする。まだめくっていない段は隠す
+function StitchedImage({ bands, revealedCount }: { bands: Entry[]; revealedCount: number }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT * bands.length);
+
+    bands.forEach((band, index) => {
+      if (!isImagePayload(band.payload)) return;
+      const image = new Image();
+      image.onload = () => ctx.drawImage(image, 0, index * CANVAS_HEIGHT, CANVAS_WIDTH, CANVAS_HEIGHT);
+      image.src = resolveImageUrl(band.payload);
+    });
+  }, [bands]);
+
+  return (
+    <div className="relative w-full max-w-md">
+      <canvas
+        ref={canvasRef}
+        width={CANVAS_WIDTH}
+        height={CANVAS_HEIGHT * bands.length}
+        className="w-full rounded-xl border border-gray-200"
+      />
+      {bands.map((band, index) =>
+        index < revealedCount ? null : (
+          <div
+            key={band.order}
+            className="absolute left-0 flex w-full items-center justify-center border-t-2 border-dashed border-lime-300 bg-lime-50 text-3xl"
+            style={{ top: `${(index / bands.length) * 100}%`, height: `${100 / bands.length}%` }}
+          >
+            ❓
+          </div>
+        )
+      )}
+    </div>
+  );
+}
+
+export function CorpseResult() {
+  const { chains, resultPlayers, reset: resetGame } = useGameStore();
+  const { room, playerId } = useRoomStore();
+  const { send } = useWebSocket(room?.id ?? null);
+  const navigate = useNavigate();
+  const { roomId } = useParams<{ roomId: string }>();
+  const [chainIndex, setChainIndex] = useState(0);
+  const [revealedCounts, setRevealedCounts] = useState<Record<string, number>>({});
+
+  const handleReturnToLobby = useCallback(() => {
+    send({ type: 'return_to_lobby', payload: {} });
+    resetGame();
+    navigate(`/room/${roomId}`);
+  }, [send, resetGame, navigate, roomId]);
+
+  const chain = chains[chainIndex];
+  if (!chain) {
+    return (
+      <div className="flex min-h-screen items-center justify-center text-gray-600">
+        結果を待っています...
+      </div>
+    );
+  }
+
+  const players = resultPlayers.length > 0 ? resultPlayers : room?.players ?? [];
+  const getPlayerName = (id: string) => players.find((p) => p.id === id)?.name ?? '???';
+  const bands = [...chain.entries].sort((a, b) => a.order - b.order);
+  const revealedCount = revealedCounts[chain.id] ?? 1;
+  const setRevealed = (count: number) => setRevealedCounts((prev) => ({ ...prev, [chain.id]: count }));
+
+  return (
+    <div className="flex min-h-screen flex-col bg-gradient-to-br from-lime-50 to-green-100 p-4">
+      <div className="mx-auto w-full max-w-4xl">
+        <h2 className="mb-2 text-center text-3xl font-bold text-gray-800">🧩 合体！</h2>
+        <p className="mb-6 text-center text-sm text-gray-600">
+          {chainIndex + 1} / {chains.length} 枚目 ・ 上から1段ずつめくっていきましょう
+        </p>
+
+        <div className="rounded-2xl bg-white p-6 shadow-xl">
+          <div className="flex flex-col items-center gap-6 md:flex-row md:items-start md:justify-center">
+            <StitchedImage bands={bands} revealedCount={revealedCount} />
+
+            <ol className="w-full max-w-xs space-y-2">
+              {bands.map((band, index) => (
+                <li
+                  key={band.order}
+                  className={`flex items-center justify-between rounded-lg px-3 py-2 text-sm ${
+                    index < revealedCount ? 'bg-lime-50 text-gray-800' : 'bg-gray-50 text-gray-400'
+                  }`}
+                >
+                  <span className="font-semibold">{getSegmentLabel(index, bands.length)}</span>
+                  <span>
+                    {index < revealedCount ? getPlayerName(band.authorId) : '???'}
+                    {index < revealedCount && band.authorId === playerId && '（あなた）'}
+                  </span>
+                </li>
+              ))}
+              <li className="flex gap-2 pt-2">
+                <button
+                  onClick={() => setRevealed(revealedCount + 1)}
+                  disabled={revealedCount >= bands.length}
+                  className="flex-1 rounded-lg bg-lime-600 px-4 py-2 font-semibold text-white transition hover:bg-lime-700 disabled:opacity-50"
+                >
+                  次の段をめくる
+                </button>
+                <button
+                  onClick={() => setRevealed(bands.length)}
+                  disabled={revealedCount >= bands.length}
+                  className="rounded-lg border border-lime-300 px-3 py-2 text-sm font-semibold text-lime-700 transition hover:bg-lime-50 disabled:opacity-50"
+                >
+                  全部
+                </button>
+              </li>
+            </ol>
+          </div>
+
+          <div className="mt-6 flex items-center justify-between border-t border-gray-200 pt-4">
+            <button
+              onClick={() => setChainIndex(chainIndex - 1)}
+              disabled={chainIndex === 0}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-semibold text-gray-700 transition hover:bg-gray-50 disabled:opacity-40"
+            >
+              ← 前の絵
+            </button>
+            <button
+              onClick={() => setChainIndex(chainIndex + 1)}
+              disabled={chainIndex >= chains.length - 1}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-semibold text-gray-700 transition hover:bg-gray-50 disabled:opacity-40"
+            >
+              次の絵 →
+            </button>
+          </div>
+
+          <div className="mt-6 flex justify-center border-t border-gray-200 pt-6">
+            <button
+              onClick={handleReturnToLobby}
+              className="rounded-lg bg-lime-600 px-8 py-3 font-semibold text-white transition hover:bg-lime-700"
+            >
+              ロビーに戻る
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
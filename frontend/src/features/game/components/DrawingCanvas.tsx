@@ -5,6 +5,7 @@ import { SubmissionProgress } from '@/features/game/components/SubmissionProgres
 import { TurnIndicator } from '@/features/game/components/TurnIndicator';
 import { Canvas, CanvasRef } from '@/shared/components/Canvas';
 import { useRoomStore } from '@/features/room/store/roomStore';
+import { useDrawingModifiers } from '@/shared/hooks/useDrawingModifiers';
 import { AnimationReference } from '@/features/game/components/AnimationReference';
 import type { DrawingStroke } from '@/shared/types';
 
@@ -15,6 +16,7 @@ interface DrawingCanvasProps {
 
 export function DrawingCanvas({ onSubmit, onRetry }: DrawingCanvasProps) {
   const canvasRef = useRef<CanvasRef>(null);
+  const { modifiers, colors } = useDrawingModifiers();
   const { hasSubmitted, receivedContent, setHasSubmitted, phase } = useGameStore();
   const { room } = useRoomStore();
   const prompt = receivedContent?.type === 'text' ? receivedContent.payload : '';
@@ -156,6 +158,8 @@ export function DrawingCanvas({ onSubmit, onRetry }: DrawingCanvasProps) {
             onionSkinOpacity={onionSkinOpacity}
             onOnionSkinOpacityChange={setOnionSkinOpacity}
             backgroundImage={backgroundImage}
+            modifiers={modifiers}
+            colors={colors}
           />
           <div className="flex justify-end">
             <button
@@ -4,6 +4,9 @@ import { useGameStore } from '@/features/game/store/gameStore';
 import { useRoomStore } from '@/features/room/store/roomStore';
 import { useWebSocket } from '@/shared/hooks/useWebSocket';
 import { DrawingTimelapse } from '@/features/game/components/DrawingTimelapse';
+import { resolveImageUrl } from '@/shared/lib/api';
+import { PresenterControls } from '@/features/game/components/PresenterControls';
+import { ResultVoting } from '@/features/game/components/ResultVoting';
 
 export function GameResult() {
   const navigate = useNavigate();
@@ -21,6 +24,7 @@ export function GameResult() {
     resetAllEntryIndices,
     updateRevealedPosition,
     setResultDisplayOrder,
+    voteAwards,
     reset: resetGame,
   } = useGameStore();
   const { room, playerId } = useRoomStore();
@@ -35,9 +39,13 @@ export function GameResult() {
   const [localChainIndex, setLocalChainIndex] = useState(0);
   // Local display order for when user can freely choose (after all revealed)
   const [localDisplayOrder, setLocalDisplayOrder] = useState<'first-to-last' | 'last-to-first'>('first-to-last');
+  // 全チェーンを見終わった後の投票・表彰の表示
+  const [showVoting, setShowVoting] = useState(false);
   
   const players = resultPlayers.length > 0 ? resultPlayers : room?.players || [];
   const isHost = room?.hostId === playerId;
+  // 進行役（未設定ならホスト）だけが発表を進められる
+  const isPresenter = (room?.presenterId ?? room?.hostId) === playerId;
   
   // Check if all content has been revealed
   // All revealed when we've shown all entries of ALL chains
@@ -74,7 +82,7 @@ export function GameResult() {
 
   // Determine which chain to display
   // During reveal, everyone follows resultChainIndex. After all revealed, guests can browse freely.
-  const displayChainIndex = !isAllRevealed ? resultChainIndex : (isHost ? resultChainIndex : localChainIndex);
+  const displayChainIndex = !isAllRevealed ? resultChainIndex : (isPresenter ? resultChainIndex : localChainIndex);
   const currentChain = chains[displayChainIndex];
 
   // Initialize display order from settings (only once on mount)
@@ -82,9 +90,10 @@ export function GameResult() {
     const defaultOrder = room?.settings?.normalSettings?.resultOrder === 'last' ? 'last-to-first' : 'first-to-last';
     setLocalDisplayOrder(defaultOrder);
     if (isHost && chains.length > 0) {
-      setResultDisplayOrder(defaultOrder);
       // Do NOT reveal anything on load. Start with entryIndex = -1.
+      // ホストが途中で交代したときは、進行中の表示順を上書きしない
       if (resultEntryIndices[0] === undefined) {
+        setResultDisplayOrder(defaultOrder);
         setResultPosition(0, -1);
         send({
           type: 'result_navigate',
@@ -97,10 +106,10 @@ export function GameResult() {
   
   // Sync local display order with store when it changes (for non-host during reveal)
   useEffect(() => {
-    if (!isHost && !isAllRevealed) {
+    if (!isPresenter && !isAllRevealed) {
       setLocalDisplayOrder(resultDisplayOrder);
     }
-  }, [resultDisplayOrder, isHost, isAllRevealed]);
+  }, [resultDisplayOrder, isPresenter, isAllRevealed]);
   
   // Calculate visible range for the current chain based on current position and display order
   const getVisibleRange = (chainIdx: number): { min: number; max: number } => {
@@ -149,6 +158,13 @@ export function GameResult() {
     return players.find((p) => p.id === pid)?.name || '不明';
   };
 
+  // 投票が締め切られたら全員を表彰に移す
+  useEffect(() => {
+    if (voteAwards) {
+      setShowVoting(true);
+    }
+  }, [voteAwards]);
+
   // Sync local view with host when not all revealed
   useEffect(() => {
     if (!isAllRevealed) {
@@ -164,7 +180,7 @@ export function GameResult() {
   }, [displayChainIndex, orderedEntries.length]);
 
   const handleNext = () => {
-    if (!isHost) return;
+    if (!isPresenter) return;
 
     // Use resultChainIndex to get the current chain, not displayChainIndex
     const chain = chains[resultChainIndex];
@@ -212,7 +228,7 @@ export function GameResult() {
   };
 
   const handlePrev = () => {
-    if (!isHost) return;
+    if (!isPresenter) return;
     
     // Use resultChainIndex to get the current chain
     const chain = chains[resultChainIndex];
@@ -266,7 +282,7 @@ export function GameResult() {
 
   // Host jumping to chain - allow jumping to any chain regardless of order
   const hostJumpToChain = (chainIndex: number) => {
-    if (!isHost) return;
+    if (!isPresenter) return;
     const targetChain = chains[chainIndex];
     if (!targetChain) return;
     
@@ -287,13 +303,13 @@ export function GameResult() {
   };
 
   const toggleDisplayOrder = () => {
-    if (!isHost && !isAllRevealed) return; // Only host or after all revealed can toggle
+    if (!isPresenter && !isAllRevealed) return; // Only presenter or after all revealed can toggle
     
     const newOrder = localDisplayOrder === 'first-to-last' ? 'last-to-first' : 'first-to-last';
     setLocalDisplayOrder(newOrder);
     
-    // If host (regardless of reveal state), sync with everyone and reset ALL chains
-    if (isHost) {
+    // If presenter (regardless of reveal state), sync with everyone and reset ALL chains
+    if (isPresenter) {
       setResultDisplayOrder(newOrder);
       // Reset all chains and start from chain 0 with new order
       resetAllEntryIndices();
@@ -360,32 +376,42 @@ export function GameResult() {
       <div className="flex-shrink-0 bg-white p-4 shadow">
         <div className="text-center">
           <h1 className="text-2xl font-bold text-primary-700">🎉 結果発表</h1>
-          <p className="mt-1 text-gray-600">
-            チェーン {displayChainIndex + 1} / {chains.length}
-            <span className="ml-2 text-sm">
-              （{getPlayerName(currentChain.ownerPlayerId)} のお題）
-            </span>
-          </p>
+          {showVoting ? (
+            <p className="mt-1 text-gray-600">投票・表彰</p>
+          ) : (
+            <>
+              <p className="mt-1 text-gray-600">
+                チェーン {displayChainIndex + 1} / {chains.length}
+                <span className="ml-2 text-sm">
+                  （{getPlayerName(currentChain.ownerPlayerId)} のお題）
+                </span>
+              </p>
+              <PresenterControls chainOwnerId={currentChain.ownerPlayerId} getPlayerName={getPlayerName} />
+            </>
+          )}
         </div>
 
         {/* Chain selector */}
         <div className="mt-3 flex flex-wrap items-center justify-center gap-2 overflow-x-auto">
           <div className="flex flex-wrap items-center gap-2">
             {chains.map((chain, idx) => {
-              // Host can always access any chain, non-host can only access revealed chains or after all revealed
+              // Presenter can always access any chain, others can only access revealed chains or after all revealed
               const isChainRevealed = (revealedEntryIndices[idx] ?? -1) >= 0;
-              const isAccessible = isHost || isAllRevealed || isChainRevealed;
-              const isSelected = idx === displayChainIndex;
+              const isAccessible = isPresenter || isAllRevealed || isChainRevealed;
+              const isSelected = idx === displayChainIndex && !showVoting;
               
               return (
                 <button
                   key={chain.id}
                   onClick={() => {
-                    if (isHost) {
+                    if (isPresenter) {
                       hostJumpToChain(idx);
                     } else if (isAllRevealed) {
                       switchToChain(idx);
                     }
+                    if (isPresenter || isAllRevealed) {
+                      setShowVoting(false);
+                    }
                   }}
                   disabled={!isAccessible}
                   className={`flex-shrink-0 rounded-full px-3 py-1 text-sm transition ${
@@ -400,13 +426,23 @@ export function GameResult() {
                 </button>
               );
             })}
+            {isAllRevealed && (
+              <button
+                onClick={() => setShowVoting(true)}
+                className={`flex-shrink-0 rounded-full px-3 py-1 text-sm transition ${
+                  showVoting ? 'bg-primary-600 text-white' : 'bg-amber-100 text-amber-700 hover:bg-amber-200'
+                }`}
+              >
+                🏆
+              </button>
+            )}
           </div>
 
           <button
             onClick={toggleDisplayOrder}
-            disabled={!isHost && !isAllRevealed}
+            disabled={!isPresenter && !isAllRevealed}
             className={`flex items-center gap-2 rounded-full border border-gray-200 px-3 py-1 text-xs font-semibold shadow-sm transition ${
-              !isHost && !isAllRevealed
+              !isPresenter && !isAllRevealed
                 ? 'cursor-not-allowed bg-gray-100 text-gray-400'
                 : 'bg-white text-gray-700 hover:-translate-y-0.5 hover:shadow'
             }`}
@@ -415,7 +451,7 @@ export function GameResult() {
           </button>
         </div>
         
-        {isAllRevealed && !isHost && (
+        {isAllRevealed && !isPresenter && (
           <p className="mt-2 text-center text-xs text-gray-500">
             自由に他のチェーンを見られます
           </p>
@@ -425,7 +461,8 @@ export function GameResult() {
       {/* Chat-like entries display */}
       <div ref={scrollContainerRef} className="flex-1 overflow-y-auto bg-gray-50 p-4">
         <div className="mx-auto max-w-2xl space-y-4">
-          {orderedEntries.map((entry, idx) => {
+          {showVoting && <ResultVoting chains={chains} getPlayerName={getPlayerName} />}
+          {!showVoting && orderedEntries.map((entry, idx) => {
             const isLastVisible = idx === orderedEntries.length - 1;
             const isCurrentUser = entry.authorId === playerId;
 
@@ -466,7 +503,7 @@ export function GameResult() {
                         />
                       ) : (
                         <img
-                          src={entry.payload}
+                          src={resolveImageUrl(entry.payload)}
                           alt="描かれた絵"
                           className="max-h-64 rounded-lg"
                         />
@@ -489,7 +526,22 @@ export function GameResult() {
 
       {/* Navigation controls */}
       <div className="flex-shrink-0 bg-white p-4 shadow-[0_-2px_10px_rgba(0,0,0,0.1)]">
-        {isHost ? (
+        {isAllRevealed && !showVoting && (
+          <button
+            onClick={() => setShowVoting(true)}
+            className="mb-2 w-full rounded-lg bg-amber-100 px-4 py-3 font-semibold text-amber-700 hover:bg-amber-200"
+          >
+            {voteAwards ? '🎖️ 表彰を見る' : '🗳️ 投票・表彰へ'}
+          </button>
+        )}
+        {showVoting ? (
+          <button
+            onClick={handleBackToLobby}
+            className="w-full rounded-lg bg-primary-600 px-4 py-3 font-semibold text-white hover:bg-primary-700"
+          >
+            🎮 ロビーに戻る
+          </button>
+        ) : isPresenter ? (
           <div className="flex flex-col gap-2">
             <div className="flex items-center justify-between gap-2">
               <button
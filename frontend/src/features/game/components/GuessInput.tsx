@@ -3,15 +3,28 @@ import { useGameStore } from '@/features/game/store/gameStore';
 import { Timer } from '@/features/game/components/Timer';
 import { SubmissionProgress } from '@/features/game/components/SubmissionProgress';
 import { TurnIndicator } from '@/features/game/components/TurnIndicator';
+import { resolveImageUrl } from '@/shared/lib/api';
 
 interface GuessInputProps {
   onSubmit: (text: string) => void;
+  // 見出しや説明文の差し替え（キャプション大喜利などで使う）
+  title?: string;
+  description?: string;
+  label?: string;
+  placeholder?: string;
 }
 
-export function GuessInput({ onSubmit }: GuessInputProps) {
+export function GuessInput({
+  onSubmit,
+  title = '🤔 これは何？',
+  description = 'この絵が何を表しているか当ててください',
+  label = '💡 回答（140文字まで）',
+  placeholder = 'これは○○だと思う',
+}: GuessInputProps) {
   const [text, setText] = useState('');
   const { hasSubmitted, receivedContent } = useGameStore();
   const imageUrl = receivedContent?.type === 'drawing' ? receivedContent.payload : '';
+  const promptText = receivedContent?.type === 'text' ? receivedContent.payload : '';
   const textRef = useRef(text);
   textRef.current = text;
   
@@ -60,11 +73,11 @@ export function GuessInput({ onSubmit }: GuessInputProps) {
     <div className="flex min-h-screen flex-col p-4">
       {/* Header */}
       <div className="mb-4 text-center animate-slide-down">
-        <h1 className="text-2xl font-black gradient-text mb-2">🤔 これは何？</h1>
+        <h1 className="text-2xl font-black gradient-text mb-2">{title}</h1>
         <div className="flex justify-center mb-2">
           <TurnIndicator />
         </div>
-        <p className="text-sm text-gray-700 font-medium">この絵が何を表しているか当ててください</p>
+        <p className="text-sm text-gray-700 font-medium">{description}</p>
       </div>
 
       <div className="mb-4 flex items-center justify-between gap-3 animate-scale-in">
@@ -81,10 +94,12 @@ export function GuessInput({ onSubmit }: GuessInputProps) {
            style={{ animationDelay: '0.1s' }}>
         {imageUrl ? (
           <img
-            src={imageUrl}
+            src={resolveImageUrl(imageUrl)}
             alt="描かれた絵"
             className="max-h-full max-w-full rounded-xl shadow-lg object-contain"
           />
+        ) : promptText ? (
+          <p className="text-3xl font-black text-gray-800">「{promptText}」</p>
         ) : (
           <div className="text-gray-500 font-semibold">🖼️ 絵が読み込まれていません</div>
         )}
@@ -98,14 +113,14 @@ export function GuessInput({ onSubmit }: GuessInputProps) {
         <div className="space-y-4">
           <div>
             <label htmlFor="guess" className="block text-sm font-bold text-gray-800 mb-2">
-              💡 回答（140文字まで）
+              {label}
             </label>
             <input
               id="guess"
               type="text"
               value={text}
               onChange={(e) => setText(e.target.value)}
-              placeholder="これは○○だと思う"
+              placeholder={placeholder}
               maxLength={140}
               className="block w-full rounded-xl border-2 border-gray-200 px-5 py-3 
                        bg-white font-medium
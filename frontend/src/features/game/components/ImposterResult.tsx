@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useGameStore } from '@/features/game/store/gameStore';
+import { useRoomStore } from '@/features/room/store/roomStore';
+import { useWebSocket } from '@/shared/hooks/useWebSocket';
+import { CANVAS_WIDTH, CANVAS_HEIGHT } from '@/shared/components/Canvas';
+import { drawStroke } from '@/shared/lib/strokeRenderer';
+import { QUIZ_CATEGORY_LABELS } from '@/shared/types';
+import type { ImposterStroke } from '@/shared/types';
+
+// 全員の線を描いた完成図（結果には画像がないのでストロークから描く）
+function StrokeImage({ strokes }: { strokes: ImposterStroke[] }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    strokes.forEach((stroke) => drawStroke(ctx, stroke));
+  }, [strokes]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={CANVAS_WIDTH}
+      height={CANVAS_HEIGHT}
+      className="w-full max-w-2xl rounded-xl border border-gray-200"
+    />
+  );
+}
+
+export function ImposterResult() {
+  const { imposterResult, reset: resetGame } = useGameStore();
+  const { room, playerId } = useRoomStore();
+  const { send } = useWebSocket(room?.id ?? null);
+  const navigate = useNavigate();
+  const { roomId } = useParams<{ roomId: string }>();
+
+  const handleReturnToLobby = useCallback(() => {
+    send({ type: 'return_to_lobby', payload: {} });
+    resetGame();
+    navigate(`/room/${roomId}`);
+  }, [send, resetGame, navigate, roomId]);
+
+  if (!imposterResult) {
+    return (
+      <div className="flex min-h-screen items-center justify-center text-gray-600">
+        結果を待っています...
+      </div>
+    );
+  }
+
+  const getName = (id: string | null) => imposterResult.players.find((p) => p.id === id)?.name ?? '???';
+  const voteCounts = new Map<string, number>();
+  Object.values(imposterResult.votes).forEach((suspectId) => {
+    voteCounts.set(suspectId, (voteCounts.get(suspectId) ?? 0) + 1);
+  });
+
+  const summary = imposterResult.imposterLeft
+    ? 'エセ芸術家が途中で抜けてしまいました'
+    : !imposterResult.caught
+      ? imposterResult.accusedId
+        ? `${getName(imposterResult.accusedId)} さんは本物の芸術家でした…`
+        : '票が割れて誰も見破られませんでした'
+      : imposterResult.guessedCorrectly
+        ? `見破られたけれど、お題を「${imposterResult.guess}」と当てて逆転！`
+        : `見破られ、お題も${imposterResult.guess ? `「${imposterResult.guess}」と外しました` : '答えられませんでした'}`;
+
+  return (
+    <div className="flex min-h-screen flex-col bg-gradient-to-br from-violet-50 to-fuchsia-100 p-4">
+      <div className="mx-auto w-full max-w-4xl">
+        <h2 className="mb-2 text-center text-3xl font-bold text-gray-800">
+          {imposterResult.winner === 'artists' ? '🎨 芸術家チームの勝ち！' : '🎭 エセ芸術家の勝ち！'}
+        </h2>
+        <p className="mb-6 text-center text-lg text-gray-600">
+          {QUIZ_CATEGORY_LABELS[imposterResult.category]} ・ お題: {imposterResult.prompt}
+        </p>
+
+        <div className="rounded-2xl bg-white p-6 shadow-xl">
+          <div className="mb-4 text-center">
+            <p className="text-lg font-bold text-rose-600">
+              エセ芸術家は {getName(imposterResult.imposterId)} さん
+              {imposterResult.imposterId === playerId && '（あなた）'}
+            </p>
+            <p className="mt-1 text-sm text-gray-600">{summary}</p>
+          </div>
+
+          <div className="flex justify-center">
+            <StrokeImage strokes={imposterResult.strokes} />
+          </div>
+
+          <div className="mt-6 border-t border-gray-200 pt-4">
+            <h3 className="mb-3 text-sm font-semibold text-gray-700">投票結果</h3>
+            <ul className="flex flex-wrap gap-2">
+              {imposterResult.players.map((player) => (
+                <li key={player.id} className="flex items-center gap-1.5 rounded-full bg-gray-50 px-3 py-1 text-sm">
+                  <span className="h-3 w-3 rounded-full" style={{ backgroundColor: player.color }} />
+                  <span className="font-semibold text-gray-700">
+                    {player.name}
+                    {player.id === imposterResult.imposterId && ' 🎭'}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {voteCounts.get(player.id) ?? 0}票
+                    {imposterResult.votes[player.id] && ` → ${getName(imposterResult.votes[player.id])}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="mt-8 flex justify-center border-t border-gray-200 pt-6">
+            <button
+              onClick={handleReturnToLobby}
+              className="rounded-lg bg-violet-600 px-8 py-3 font-semibold text-white transition hover:bg-violet-700"
+            >
+              ロビーに戻る
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
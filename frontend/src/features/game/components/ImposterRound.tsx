@@ -0,0 +1,216 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useGameStore } from '@/features/game/store/gameStore';
+import { useRoomStore } from '@/features/room/store/roomStore';
+import { wsManager } from '@/shared/lib/websocket';
+import { Canvas, type CanvasRef } from '@/shared/components/Canvas';
+import { Timer } from '@/features/game/components/Timer';
+import type { DrawingStroke, ImposterState } from '@/shared/types';
+import { QUIZ_CATEGORY_LABELS } from '@/shared/types';
+
+// これまでの線を描いたキャンバス。自分の番のときだけ1画描ける
+function SharedCanvas({ imposterState, canDraw, color }: { imposterState: ImposterState; canDraw: boolean; color?: string }) {
+  const canvasRef = useRef<CanvasRef>(null);
+  const sentRef = useRef(false);
+  const { strokes } = imposterState;
+  const strokesRef = useRef(strokes);
+  strokesRef.current = strokes;
+  // 線が増えたとき・描ける状態が変わったときに作り直し、最初から描き直す
+  const canvasKey = `${strokes.length}-${canDraw}`;
+
+  useEffect(() => {
+    sentRef.current = false;
+    if (strokesRef.current.length > 0) {
+      canvasRef.current?.drawStrokes(strokesRef.current);
+    }
+  }, [canvasKey]);
+
+  const handleStrokeEnd = useCallback((stroke: DrawingStroke) => {
+    if (sentRef.current) return;
+    sentRef.current = true;
+    wsManager.send({ type: 'imposter_stroke', payload: { stroke } });
+  }, []);
+
+  if (!canDraw) {
+    return (
+      <div className="pointer-events-none">
+        <Canvas key={canvasKey} ref={canvasRef} showToolbar={false} />
+      </div>
+    );
+  }
+
+  return (
+    <Canvas
+      key={canvasKey}
+      ref={canvasRef}
+      colors={color ? [color] : undefined}
+      allowUndo={false}
+      allowEraser={false}
+      onStrokeEnd={handleStrokeEnd}
+    />
+  );
+}
+
+// エセ芸術家: お題を知らない1人が紛れて、全員で1画ずつ描く
+export function ImposterRound() {
+  const { imposterState, phase } = useGameStore();
+  const { room, playerId } = useRoomStore();
+  const [guess, setGuess] = useState('');
+  const [hasGuessed, setHasGuessed] = useState(false);
+  const guessRef = useRef(guess);
+  guessRef.current = guess;
+
+  const isAccusedImposter = !!imposterState?.isImposter && imposterState.accusedId === playerId;
+
+  const submitGuess = useCallback(() => {
+    if (hasGuessed) return;
+    setHasGuessed(true);
+    wsManager.send({ type: 'imposter_guess', payload: { text: guessRef.current.trim() } });
+  }, [hasGuessed]);
+
+  // 時間切れ時は入力中の答えを自動提出
+  const handleTimeout = useCallback(() => {
+    if (phase === 'imposter_guess' && isAccusedImposter && guessRef.current.trim()) {
+      submitGuess();
+    }
+  }, [phase, isAccusedImposter, submitGuess]);
+
+  if (!imposterState || !room) {
+    return (
+      <div className="flex min-h-screen items-center justify-center text-gray-600">
+        準備しています...
+      </div>
+    );
+  }
+
+  const players = room.players;
+  const isPlayer = players.some((p) => p.id === playerId);
+  const me = players.find((p) => p.id === playerId);
+  const getName = (id: string | null) => players.find((p) => p.id === id)?.name ?? '???';
+  const isMyTurn = phase === 'imposter_drawing' && imposterState.drawerId === playerId;
+
+  const renderHeader = () => (
+    <div className="sticky top-0 z-10 mb-4 space-y-3 rounded-2xl border border-violet-100 bg-white/90 p-4 text-center shadow-sm backdrop-blur">
+      <h1 className="text-xl font-bold text-violet-700">🎭 エセ芸術家</h1>
+      <div className="rounded-lg bg-violet-50 p-3 text-left shadow-inner">
+        <p className="text-xs font-semibold uppercase tracking-wide text-violet-800">
+          カテゴリ: {QUIZ_CATEGORY_LABELS[imposterState.category]}
+        </p>
+        {imposterState.isImposter ? (
+          <p className="text-lg font-semibold text-rose-600">あなたはエセ芸術家です！お題を知っているふりをしましょう</p>
+        ) : imposterState.prompt ? (
+          <p className="text-lg font-semibold text-gray-800">お題: {imposterState.prompt}</p>
+        ) : (
+          <p className="text-sm text-gray-500">観戦中（お題は結果発表で公開されます）</p>
+        )}
+      </div>
+      <div className="flex items-center justify-between gap-3">
+        <Timer onTimeout={handleTimeout} />
+        {phase === 'imposter_drawing' && (
+          <p className="text-sm font-semibold text-gray-600">
+            {imposterState.round} / {imposterState.totalRounds} 周目
+          </p>
+        )}
+      </div>
+    </div>
+  );
+
+  // 誰の線か分かるようにプレイヤーカラーを並べる
+  const renderLegend = () => (
+    <ul className="flex flex-wrap justify-center gap-2">
+      {players.map((player) => (
+        <li
+          key={player.id}
+          className={`flex items-center gap-1.5 rounded-full px-3 py-1 text-sm ${
+            player.id === imposterState.drawerId ? 'bg-violet-100 ring-2 ring-violet-400' : 'bg-gray-50'
+          }`}
+        >
+          <span className="h-3 w-3 rounded-full" style={{ backgroundColor: player.color }} />
+          <span className="font-semibold text-gray-700">
+            {player.name}
+            {player.id === playerId && '（あなた）'}
+          </span>
+          {phase === 'imposter_voting' && imposterState.votedPlayerIds.includes(player.id) && (
+            <span className="text-xs text-gray-500">投票済み</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="flex min-h-screen flex-col overflow-y-auto p-4">
+      {renderHeader()}
+
+      <div className="flex flex-col gap-4 pb-4">
+        {phase === 'imposter_drawing' && (
+          <p className="text-center font-semibold text-gray-700">
+            {isMyTurn ? 'あなたの番です！1画だけ描いてください' : `${getName(imposterState.drawerId)} さんが描いています...`}
+          </p>
+        )}
+
+        {phase === 'imposter_voting' && (
+          <div className="rounded-2xl bg-white p-4 shadow">
+            <h2 className="mb-1 text-center text-lg font-bold text-gray-800">🗳️ エセ芸術家は誰？</h2>
+            <p className="mb-3 text-center text-xs text-gray-500">
+              投票済み {imposterState.votedPlayerIds.length} / {players.filter((p) => p.connected).length}人
+            </p>
+            <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+              {players.map((player) => (
+                <button
+                  key={player.id}
+                  onClick={() => wsManager.send({ type: 'imposter_vote', payload: { suspectId: player.id } })}
+                  disabled={!isPlayer || player.id === playerId}
+                  className={`flex items-center justify-center gap-2 rounded-xl border-2 p-3 font-semibold transition ${
+                    imposterState.myVote === player.id
+                      ? 'border-violet-500 bg-violet-50'
+                      : 'border-gray-100 bg-gray-50 hover:border-violet-200'
+                  } disabled:cursor-not-allowed disabled:opacity-50`}
+                >
+                  <span className="h-3 w-3 rounded-full" style={{ backgroundColor: player.color }} />
+                  {player.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {phase === 'imposter_guess' && (
+          <div className="rounded-2xl bg-white p-4 text-center shadow">
+            <h2 className="mb-2 text-lg font-bold text-gray-800">
+              🔍 {getName(imposterState.accusedId)} さんが見破られました！
+            </h2>
+            {isAccusedImposter ? (
+              hasGuessed ? (
+                <p className="text-sm text-gray-500">答えを送りました。結果を待っています...</p>
+              ) : (
+                <div className="mx-auto flex max-w-md gap-2">
+                  <input
+                    type="text"
+                    value={guess}
+                    onChange={(e) => setGuess(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && guess.trim() && submitGuess()}
+                    placeholder="お題は何だった？"
+                    maxLength={140}
+                    className="flex-1 rounded-xl border-2 border-gray-200 px-4 py-2 focus:border-violet-400 focus:outline-none"
+                  />
+                  <button
+                    onClick={submitGuess}
+                    disabled={!guess.trim()}
+                    className="rounded-xl bg-violet-600 px-4 py-2 font-semibold text-white hover:bg-violet-700 disabled:opacity-50"
+                  >
+                    回答
+                  </button>
+                </div>
+              )
+            ) : (
+              <p className="text-sm text-gray-500">お題を当てれば逆転勝利。答えを待っています...</p>
+            )}
+          </div>
+        )}
+
+        {renderLegend()}
+        <SharedCanvas imposterState={imposterState} canDraw={isMyTurn} color={me?.color} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { LiveCanvasState } from '@/shared/types';
+import { CANVAS_WIDTH, CANVAS_HEIGHT } from '@/shared/components/Canvas';
+import { resolveImageUrl } from '@/shared/lib/api';
+import { drawStroke } from '@/shared/lib/strokeRenderer';
+
+interface LiveCanvasViewProps {
+  canvas: LiveCanvasState;
+  className?: string;
+}
+
+// 他のプレイヤーが描画中のキャンバスを表示する
+// キーフレームを下地に、届いたストロークを順に描き足していく
+export function LiveCanvasView({ canvas, className = '' }: LiveCanvasViewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const latestRef = useRef(canvas);
+  // 描画済みのキーフレームと、その上に描いたストローク数
+  const renderedRef = useRef({ keyframeVersion: -1, strokeCount: 0 });
+  // キーフレーム画像の読み込み中はストロークを描かずに待つ
+  const loadingRef = useRef(false);
+
+  const drawPendingStrokes = useCallback(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || loadingRef.current) return;
+
+    const { strokes } = latestRef.current;
+    for (let i = renderedRef.current.strokeCount; i < strokes.length; i++) {
+      drawStroke(ctx, strokes[i]);
+    }
+    renderedRef.current.strokeCount = strokes.length;
+  }, []);
+
+  useEffect(() => {
+    latestRef.current = canvas;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    if (renderedRef.current.keyframeVersion === canvas.keyframeVersion) {
+      drawPendingStrokes();
+      return;
+    }
+
+    // 新しいキーフレーム: 下地から描き直す
+    const { keyframeVersion } = canvas;
+    renderedRef.current = { keyframeVersion, strokeCount: 0 };
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+    if (!canvas.keyframe) {
+      loadingRef.current = false;
+      drawPendingStrokes();
+      return;
+    }
+
+    loadingRef.current = true;
+    const image = new Image();
+    const onSettled = (loaded: boolean) => {
+      // 読み込み中に次のキーフレームが届いていたら破棄
+      if (renderedRef.current.keyframeVersion !== keyframeVersion) return;
+      if (loaded) {
+        ctx.drawImage(image, 0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+      }
+      loadingRef.current = false;
+      drawPendingStrokes();
+    };
+    image.onload = () => onSettled(true);
+    image.onerror = () => onSettled(false);
+    image.src = resolveImageUrl(canvas.keyframe);
+  }, [canvas, drawPendingStrokes]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={CANVAS_WIDTH}
+      height={CANVAS_HEIGHT}
+      className={`h-full w-full object-contain ${className}`}
+    />
+  );
+}
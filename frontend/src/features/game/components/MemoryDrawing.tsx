@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useGameStore } from '@/features/game/store/gameStore';
+import { Timer } from '@/features/game/components/Timer';
+import { SubmissionProgress } from '@/features/game/components/SubmissionProgress';
+import { TurnIndicator } from '@/features/game/components/TurnIndicator';
+import { Canvas, type CanvasRef } from '@/shared/components/Canvas';
+import { useDrawingModifiers } from '@/shared/hooks/useDrawingModifiers';
+import { resolveImageUrl } from '@/shared/lib/api';
+import type { DrawingStroke } from '@/shared/types';
+
+interface MemoryDrawingProps {
+  onSubmit: (imageData: string, strokes?: DrawingStroke[]) => void;
+  onRetry?: () => void;
+}
+
+// 記憶リレー: 見るフェーズでは前の絵だけを表示し、描くフェーズでは絵を出さない（締め切りはサーバーが管理）
+export function MemoryDrawing({ onSubmit, onRetry }: MemoryDrawingProps) {
+  const canvasRef = useRef<CanvasRef>(null);
+  const { modifiers, colors } = useDrawingModifiers();
+  const { phase, hasSubmitted, receivedContent, setHasSubmitted } = useGameStore();
+  // 前の人が時間切れだった場合は画像ではなく '(timeout)' が届く
+  const imageUrl = receivedContent?.type === 'drawing' ? receivedContent.payload : '';
+  const hasImage = imageUrl.startsWith('/api/') || imageUrl.startsWith('data:');
+  const isFirst = phase === 'first-frame';
+  // 見られるのはサーバーの締め切りまで（次のフェーズへの切り替わりを待たずに隠す）
+  const [viewExpired, setViewExpired] = useState(false);
+  useEffect(() => {
+    setViewExpired(false);
+  }, [receivedContent]);
+
+  const hasSubmittedRef = useRef(hasSubmitted);
+  useEffect(() => {
+    hasSubmittedRef.current = hasSubmitted;
+  }, [hasSubmitted]);
+
+  const handleSubmit = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    onSubmit(canvas.getImageData(), canvas.getStrokeHistory());
+  }, [onSubmit]);
+
+  // 時間切れ時に現在の描画を自動提出
+  const handleTimeout = useCallback(() => {
+    if (hasSubmittedRef.current) return;
+    handleSubmit();
+  }, [handleSubmit]);
+
+  const handleRetry = useCallback(() => {
+    setHasSubmitted(false);
+    onRetry?.();
+  }, [setHasSubmitted, onRetry]);
+
+  if (phase === 'memory_viewing') {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-4 p-4">
+        <h1 className="text-2xl font-black text-indigo-700">👀 よく覚えて！</h1>
+        <p className="text-sm text-gray-600">時間になると絵は消えます。このあと記憶だけで描き写します</p>
+        <Timer onTimeout={() => setViewExpired(true)} />
+        <div className="flex w-full max-w-3xl items-center justify-center rounded-2xl bg-white p-4 shadow-pop">
+          {viewExpired ? (
+            <p className="py-16 text-4xl">🙈</p>
+          ) : hasImage ? (
+            <img src={resolveImageUrl(imageUrl)} alt="覚える絵" className="max-h-[70vh] rounded-xl object-contain" />
+          ) : (
+            <p className="py-16 text-gray-400">前の人の絵はありません。想像で描いてみましょう</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col overflow-y-auto p-4">
+      {/* 提出完了オーバーレイ */}
+      {hasSubmitted && (
+        <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/40 backdrop-blur-sm">
+          <div className="mx-4 w-full max-w-sm rounded-2xl bg-white p-6 shadow-xl">
+            <div className="text-center">
+              <div className="text-5xl">🧠</div>
+              <h2 className="mt-3 text-xl font-bold text-gray-800">提出完了!</h2>
+              <p className="mt-2 text-sm text-gray-600">他のプレイヤーを待っています...</p>
+            </div>
+            <div className="mt-5">
+              <SubmissionProgress />
+            </div>
+            <button
+              onClick={handleRetry}
+              className="mt-5 w-full rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-semibold text-gray-700 shadow-sm transition hover:bg-gray-50"
+            >
+              ✏️ 書き直す
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="sticky top-0 z-10 mb-4 space-y-3 rounded-2xl border border-indigo-100 bg-white/90 p-4 text-center shadow-sm backdrop-blur">
+        <h1 className="text-xl font-bold text-indigo-700">🧠 記憶リレー</h1>
+        <TurnIndicator />
+        <p className="rounded-lg bg-indigo-50 p-3 text-sm font-semibold text-gray-800 shadow-inner">
+          {isFirst ? '好きな絵を自由に描いてください。次の人が記憶で描き写します' : 'さっき見た絵を、記憶だけを頼りに描き写しましょう'}
+        </p>
+        <div className="flex items-center justify-between gap-3">
+          <Timer onTimeout={handleTimeout} />
+          <SubmissionProgress />
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-4 pb-4">
+        <Canvas key={phase ?? ''} ref={canvasRef} modifiers={modifiers} colors={colors} />
+        <div className="flex justify-end">
+          <button
+            onClick={handleSubmit}
+            disabled={hasSubmitted}
+            className="rounded-lg bg-indigo-600 px-6 py-3 font-semibold text-white hover:bg-indigo-700 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            提出する
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useCallback, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useGameStore } from '@/features/game/store/gameStore';
+import { useRoomStore } from '@/features/room/store/roomStore';
+import { useWebSocket } from '@/shared/hooks/useWebSocket';
+import { resolveImageUrl } from '@/shared/lib/api';
+import type { Entry } from '@/shared/types';
+
+// 時間切れの絵は画像ではなく '(timeout)' が入っている
+function isImagePayload(payload: string): boolean {
+  return payload.startsWith('/api/') || payload.startsWith('data:');
+}
+
+function DrawingImage({ entry, className }: { entry: Entry; className: string }) {
+  if (!isImagePayload(entry.payload)) {
+    return <div className={`flex items-center justify-center bg-gray-50 text-sm text-gray-400 ${className}`}>時間切れ</div>;
+  }
+  return <img src={resolveImageUrl(entry.payload)} alt="描かれた絵" className={`bg-white object-contain ${className}`} />;
+}
+
+export function MemoryResult() {
+  const { chains, resultPlayers, reset: resetGame } = useGameStore();
+  const { room, playerId } = useRoomStore();
+  const { send } = useWebSocket(room?.id ?? null);
+  const navigate = useNavigate();
+  const { roomId } = useParams<{ roomId: string }>();
+  const [chainIndex, setChainIndex] = useState(0);
+
+  const handleReturnToLobby = useCallback(() => {
+    send({ type: 'return_to_lobby', payload: {} });
+    resetGame();
+    navigate(`/room/${roomId}`);
+  }, [send, resetGame, navigate, roomId]);
+
+  const chain = chains[chainIndex];
+  if (!chain) {
+    return (
+      <div className="flex min-h-screen items-center justify-center text-gray-600">
+        結果を待っています...
+      </div>
+    );
+  }
+
+  const players = resultPlayers.length > 0 ? resultPlayers : room?.players ?? [];
+  const getPlayerName = (id: string) => {
+    const name = players.find((p) => p.id === id)?.name ?? '???';
+    return id === playerId ? `${name}（あなた）` : name;
+  };
+  const drawings = [...chain.entries].sort((a, b) => a.order - b.order);
+  const original = drawings[0];
+  const last = drawings[drawings.length - 1];
+
+  return (
+    <div className="flex min-h-screen flex-col bg-gradient-to-br from-indigo-50 to-blue-100 p-4">
+      <div className="mx-auto w-full max-w-5xl">
+        <h2 className="mb-2 text-center text-3xl font-bold text-gray-800">🧠 どれだけ変わった？</h2>
+        <p className="mb-6 text-center text-sm text-gray-600">
+          {chainIndex + 1} / {chains.length} ・ {getPlayerName(chain.ownerPlayerId)} の絵から始まったリレー
+        </p>
+
+        <div className="rounded-2xl bg-white p-6 shadow-xl">
+          {original && last && (
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="text-center">
+                <p className="mb-2 text-sm font-bold text-gray-700">元の絵（{getPlayerName(original.authorId)}）</p>
+                <DrawingImage entry={original} className="aspect-[4/3] w-full rounded-xl border border-gray-200" />
+              </div>
+              <div className="text-center">
+                <p className="mb-2 text-sm font-bold text-indigo-700">最後の絵（{getPlayerName(last.authorId)}）</p>
+                <DrawingImage entry={last} className="aspect-[4/3] w-full rounded-xl border-2 border-indigo-300" />
+              </div>
+            </div>
+          )}
+
+          {/* 元の絵から順に、少しずつ変わっていく様子 */}
+          <div className="mt-6 border-t border-gray-200 pt-4">
+            <h3 className="mb-3 text-sm font-semibold text-gray-700">リレーの流れ</h3>
+            <ol className="flex gap-3 overflow-x-auto pb-2">
+              {drawings.map((entry, index) => (
+                <li key={entry.order} className="flex w-40 shrink-0 flex-col items-center gap-1">
+                  <DrawingImage entry={entry} className="aspect-[4/3] w-full rounded-lg border border-gray-200" />
+                  <span className="text-xs text-gray-500">
+                    {index === 0 ? '元の絵' : `${index}人目`} ・ {getPlayerName(entry.authorId)}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          </div>
+
+          <div className="mt-6 flex items-center justify-between border-t border-gray-200 pt-4">
+            <button
+              onClick={() => setChainIndex(chainIndex - 1)}
+              disabled={chainIndex === 0}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-semibold text-gray-700 transition hover:bg-gray-50 disabled:opacity-40"
+            >
+              ← 前のリレー
+            </button>
+            <button
+              onClick={() => setChainIndex(chainIndex + 1)}
+              disabled={chainIndex >= chains.length - 1}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-semibold text-gray-700 transition hover:bg-gray-50 disabled:opacity-40"
+            >
+              次のリレー →
+            </button>
+          </div>
+
+          <div className="mt-6 flex justify-center border-t border-gray-200 pt-6">
+            <button
+              onClick={handleReturnToLobby}
+              className="rounded-lg bg-indigo-600 px-8 py-3 font-semibold text-white transition hover:bg-indigo-700"
+            >
+              ロビーに戻る
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
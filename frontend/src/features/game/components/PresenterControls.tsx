@@ -0,0 +1,48 @@
+import { useRoomStore } from '@/features/room/store/roomStore';
+import { wsManager } from '@/shared/lib/websocket';
+
+interface PresenterControlsProps {
+  chainOwnerId: string;
+  getPlayerName: (playerId: string) => string;
+}
+
+// 結果発表の進行役の表示と受け渡し
+// ホストか今の発表者は、表示中のチェーンの持ち主に進行を渡せる
+export function PresenterControls({ chainOwnerId, getPlayerName }: PresenterControlsProps) {
+  const { room, playerId } = useRoomStore();
+  if (!room || !playerId) return null;
+
+  const presenterId = room.presenterId ?? room.hostId;
+  const isHost = room.hostId === playerId;
+  const canPass = isHost || presenterId === playerId;
+  const owner = room.players.find((p) => p.id === chainOwnerId);
+  const canPassToOwner = canPass && owner?.connected && owner.id !== presenterId;
+
+  const passTo = (targetId: string) => {
+    wsManager.send({ type: 'pass_presenter', payload: { playerId: targetId } });
+  };
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center justify-center gap-2 text-xs">
+      <span className="rounded-full bg-amber-50 px-3 py-1 font-semibold text-amber-700">
+        🎤 進行: {presenterId === playerId ? 'あなた' : getPlayerName(presenterId)}
+      </span>
+      {canPassToOwner && owner && (
+        <button
+          onClick={() => passTo(owner.id)}
+          className="rounded-full border border-amber-200 bg-white px-3 py-1 font-semibold text-amber-700 transition hover:bg-amber-50"
+        >
+          {owner.id === playerId ? '🎤 自分のチェーンを発表する' : `🎤 ${owner.name} に渡す`}
+        </button>
+      )}
+      {isHost && presenterId !== playerId && chainOwnerId !== playerId && (
+        <button
+          onClick={() => passTo(playerId)}
+          className="rounded-full border border-gray-200 bg-white px-3 py-1 font-semibold text-gray-600 transition hover:bg-gray-50"
+        >
+          ↩ 進行を戻す
+        </button>
+      )}
+    </div>
+  );
+}
@@ -5,11 +5,17 @@ import { useGameStore } from '@/features/game/store/gameStore';
 import { Canvas, type CanvasRef } from '@/shared/components/Canvas';
 import { Timer } from '@/features/game/components/Timer';
 import { useWebSocket } from '@/shared/hooks/useWebSocket';
+import { useLiveCanvasStream } from '@/shared/hooks/useLiveCanvasStream';
+import { useDrawingModifiers } from '@/shared/hooks/useDrawingModifiers';
 import { wsManager } from '@/shared/lib/websocket';
-import type { QuizFeedItem } from '@/shared/types';
+import type { DrawingStroke, QuizFeedItem, QuizState } from '@/shared/types';
+import { QUIZ_TEAM_LABELS } from '@/shared/types';
+import { resolveImageUrl } from '@/shared/lib/api';
+import { LiveCanvasView } from './LiveCanvasView';
+import { FinalRanking, Scoreboard } from './Scoreboard';
 
 interface QuizRoundProps {
-  onSubmitDrawing: (imageData: string) => void;
+  onSubmitDrawing: (imageData: string, strokes?: DrawingStroke[]) => void;
   onSubmitGuess: (text: string) => void;
 }
 
@@ -87,32 +93,9 @@ function DanmakuOverlay({ items }: { items: QuizFeedItem[] }) {
   );
 }
 
-// スコアボード
-function Scoreboard({ scores, players, drawerId }: { 
-  scores: Record<string, number>; 
-  players: { id: string; name: string }[];
-  drawerId: string;
-}) {
-  const sorted = [...players].sort((a, b) => (scores[b.id] ?? 0) - (scores[a.id] ?? 0));
-  
-  return (
-    <div className="flex flex-wrap gap-2">
-      {sorted.map((p, i) => (
-        <div
-          key={p.id}
-          className={`flex items-center gap-1 rounded-full px-3 py-1 text-sm font-semibold ${
-            p.id === drawerId
-              ? 'bg-violet-100 text-violet-700 ring-2 ring-violet-400'
-              : i === 0
-                ? 'bg-yellow-100 text-yellow-800'
-                : 'bg-gray-100 text-gray-700'
-          }`}
-        >
-          {i === 0 && '👑'}{p.name}: {scores[p.id] ?? 0}pt
-        </div>
-      ))}
-    </div>
-  );
+// チーム戦で親と違うチームのプレイヤーか
+function isOpponentTeam(state: QuizState, playerId: string | null): boolean {
+  return !!state.teams && !!playerId && state.teams[playerId] !== state.teams[state.drawerId];
 }
 
 // お題確認フェーズ（親のみ）
@@ -135,39 +118,23 @@ function PromptViewPhase({ prompt, hint }: { prompt: string; hint?: string }) {
 function DrawerView({ prompt, hint, onSubmit, isRevealMode }: { 
   prompt: string; 
   hint?: string;
-  onSubmit: (imageData: string) => void;
+  onSubmit: (imageData: string, strokes?: DrawingStroke[]) => void;
   isRevealMode: boolean;
 }) {
   const [showPrompt, setShowPrompt] = useState(false);
   const { hasSubmitted, phase, quizRevealedAnswer } = useGameStore();
   const canvasRef = useRef<CanvasRef>(null);
-  const lastSentRef = useRef<string>('');
-
-  const { roomId } = useParams<{ roomId: string }>();
-  const { send } = useWebSocket(roomId ?? null);
+  const { modifiers, colors } = useDrawingModifiers();
 
   const handleSubmit = () => {
     const imageData = canvasRef.current?.getImageData();
     if (imageData) {
-      onSubmit(imageData);
+      onSubmit(imageData, canvasRef.current?.getStrokeHistory());
     }
   };
 
-  // realtime形式: 描画中のキャンバスを同期（submit後一括公開ではなく、描いてる最中を見せる）
-  useEffect(() => {
-    if (isRevealMode) return;
-    if (phase !== 'quiz_drawing') return;
-
-    const interval = setInterval(() => {
-      const imageData = canvasRef.current?.getImageData();
-      if (!imageData) return;
-      if (imageData === lastSentRef.current) return;
-      lastSentRef.current = imageData;
-      send({ type: 'quiz_canvas_sync', payload: { imageData } });
-    }, 500);
-
-    return () => clearInterval(interval);
-  }, [isRevealMode, phase, send]);
+  // realtime形式: 描画中のキャンバスを配信（submit後一括公開ではなく、描いてる最中を見せる）
+  const liveStream = useLiveCanvasStream(canvasRef, !isRevealMode && phase === 'quiz_drawing');
 
   // お題表示テキスト（ヒントがあれば括弧で追加）
   const promptDisplayText = hint ? `${prompt}（${hint}）` : prompt;
@@ -205,7 +172,7 @@ function DrawerView({ prompt, hint, onSubmit, isRevealMode }: {
         )}
       </div>
       <div className="flex-1">
-        <Canvas ref={canvasRef} />
+        <Canvas ref={canvasRef} onStroke={liveStream.onStroke} onRestore={liveStream.onRestore} modifiers={modifiers} colors={colors} />
       </div>
 
       {phase === 'quiz_reveal' && quizRevealedAnswer && (
@@ -247,8 +214,12 @@ function GuesserView({
   const [guess, setGuess] = useState('');
   const [isComposing, setIsComposing] = useState(false);
   const { playerId, room } = useRoomStore();
-  const { phase, quizRevealedAnswer, addQuizFeed } = useGameStore();
+  const { phase, quizRevealedAnswer, addQuizFeed, liveCanvas, quizState } = useGameStore();
+  // 描画中はライブ配信を表示し、それ以外は提出された絵を表示する
+  const showLiveCanvas = phase === 'quiz_drawing' && liveCanvas !== null && liveCanvas.drawerId === quizState?.drawerId;
   const hasWon = winners.some((w) => w.playerId === playerId);
+  const isSpectator = room?.spectators?.some((s) => s.id === playerId) ?? false;
+  const isOwnRuleOpponent = !!quizState && quizState.teamAnswerRule === 'own' && isOpponentTeam(quizState, playerId);
 
   const handleSubmit = () => {
     if (!guess.trim() || !canGuess || !playerId) return;
@@ -290,8 +261,10 @@ function GuesserView({
             <p className="font-bold">描画中...</p>
             <p className="text-sm">完成したら公開されます</p>
           </div>
+        ) : showLiveCanvas ? (
+          <LiveCanvasView canvas={liveCanvas} />
         ) : drawing ? (
-          <img src={drawing} alt="Quiz drawing" className="h-full w-full object-contain" />
+          <img src={resolveImageUrl(drawing)} alt="Quiz drawing" className="h-full w-full object-contain" />
         ) : (
           <div className="flex h-full items-center justify-center text-gray-400">
             描画を待っています...
@@ -337,7 +310,7 @@ function GuesserView({
           </div>
         ) : (
           <div className="rounded-xl bg-gray-100 p-4 text-center text-gray-500">
-            {isRevealMode ? '絵が完成するまでお待ちください...' : '回答待機中...'}
+            {isSpectator ? '👀 観戦中' : isOwnRuleOpponent ? '🚩 相手チームの出題です（回答できません）' : isRevealMode ? '絵が完成するまでお待ちください...' : '回答待機中...'}
           </div>
         )}
         <div className="mt-2 flex items-center justify-between text-sm text-gray-500">
@@ -358,30 +331,30 @@ function QuizResultView() {
 
   if (!quizResult) return null;
 
-  const sorted = [...quizResult.players].sort(
-    (a, b) => (quizResult.scores[b.id] ?? 0) - (quizResult.scores[a.id] ?? 0)
-  );
-
   return (
     <div className="flex min-h-screen flex-col items-center justify-center p-4">
       <div className="w-full max-w-md rounded-2xl bg-white p-6 shadow-xl">
         <h2 className="mb-4 text-center text-2xl font-black text-gray-900">🏆 最終結果</h2>
-        <div className="space-y-2">
-          {sorted.map((player, i) => (
-            <div
-              key={player.id}
-              className={`flex items-center justify-between rounded-xl p-3 ${
-                i === 0 ? 'bg-yellow-100' : i === 1 ? 'bg-gray-100' : i === 2 ? 'bg-orange-100' : 'bg-gray-50'
-              }`}
-            >
-              <div className="flex items-center gap-3">
-                <span className="text-2xl">{i === 0 ? '🥇' : i === 1 ? '🥈' : i === 2 ? '🥉' : `${i + 1}.`}</span>
-                <span className="font-bold text-gray-900">{player.name}</span>
-              </div>
-              <span className="font-bold text-violet-600">{quizResult.scores[player.id] ?? 0}pt</span>
-            </div>
-          ))}
-        </div>
+        {quizResult.teamScores && (
+          <div className="mb-4 space-y-2">
+            {quizResult.teamScores
+              .map((total, team) => ({ total, team }))
+              .sort((a, b) => b.total - a.total)
+              .map(({ total, team }, i) => (
+                <div
+                  key={team}
+                  className={`flex items-center justify-between rounded-xl p-3 ${i === 0 ? 'bg-rose-100' : 'bg-gray-50'}`}
+                >
+                  <span className="font-bold text-gray-900">
+                    {i === 0 && '🏆 '}
+                    {QUIZ_TEAM_LABELS[team]}
+                  </span>
+                  <span className="font-bold text-rose-600">{total}pt</span>
+                </div>
+              ))}
+          </div>
+        )}
+        <FinalRanking players={quizResult.players} scores={quizResult.scores} teams={quizResult.teams} />
 
         <button
           type="button"
@@ -423,7 +396,10 @@ export function QuizRound({ onSubmitDrawing, onSubmitGuess }: QuizRoundProps) {
   const isRevealMode = quizState.quizFormat === 'reveal';
   // realtimeモード: quiz_drawingで回答可能
   // revealモード: quiz_guessingで回答可能
-  const canGuess = isRevealMode ? phase === 'quiz_guessing' : phase === 'quiz_drawing';
+  const isSpectator = room.spectators?.some((s) => s.id === playerId) ?? false;
+  // チーム戦のownルールでは親のチームだけが回答できる
+  const isOwnRuleOpponent = quizState.teamAnswerRule === 'own' && isOpponentTeam(quizState, playerId);
+  const canGuess = !isSpectator && !isOwnRuleOpponent && (isRevealMode ? phase === 'quiz_guessing' : phase === 'quiz_drawing');
 
   // お題確認フェーズ（親のみ表示）
   if (phase === 'quiz_prompt' && isDrawer) {
@@ -436,7 +412,7 @@ export function QuizRound({ onSubmitDrawing, onSubmitGuess }: QuizRoundProps) {
               ラウンド {currentTurn + 1}/{totalTurns}
             </span>
           </div>
-          <Scoreboard scores={quizState.scores} players={players} drawerId={quizState.drawerId} />
+          <Scoreboard scores={quizState.scores} players={players} drawerId={quizState.drawerId} teamScores={quizState.teamScores} />
         </div>
         <div className="flex-1">
           <PromptViewPhase prompt={quizState.prompt ?? ''} hint={quizState.promptHint} />
@@ -457,7 +433,7 @@ export function QuizRound({ onSubmitDrawing, onSubmitGuess }: QuizRoundProps) {
               ラウンド {currentTurn + 1}/{totalTurns}
             </span>
           </div>
-          <Scoreboard scores={quizState.scores} players={players} drawerId={quizState.drawerId} />
+          <Scoreboard scores={quizState.scores} players={players} drawerId={quizState.drawerId} teamScores={quizState.teamScores} />
         </div>
         <div className="flex flex-1 items-center justify-center">
           <div className="text-center">
@@ -486,7 +462,7 @@ export function QuizRound({ onSubmitDrawing, onSubmitGuess }: QuizRoundProps) {
             </span>
           )}
         </div>
-        <Scoreboard scores={quizState.scores} players={players} drawerId={quizState.drawerId} />
+        <Scoreboard scores={quizState.scores} players={players} drawerId={quizState.drawerId} teamScores={quizState.teamScores} />
       </div>
 
       {/* メインコンテンツ */}
@@ -0,0 +1,149 @@
+import { useGameStore } from '@/features/game/store/gameStore';
+import { useRoomStore } from '@/features/room/store/roomStore';
+import { wsManager } from '@/shared/lib/websocket';
+import { resolveImageUrl } from '@/shared/lib/api';
+import { isVoteCandidate } from '@shared/protocol';
+import type { Chain, Entry, VoteCategory } from '@/shared/types';
+
+const VOTE_CATEGORY_INFO: Record<VoteCategory, { award: string; question: string }> = {
+  drawing: { award: '🏆 ベスト作品賞', question: 'いちばん好きな絵' },
+  guess: { award: '😂 迷回答賞', question: 'いちばん笑った回答' },
+};
+
+interface ResultVotingProps {
+  chains: Chain[];
+  getPlayerName: (playerId: string) => string;
+}
+
+// 全チェーンを見終わった後の投票と受賞発表
+export function ResultVoting({ chains, getPlayerName }: ResultVotingProps) {
+  const { myVotes, votedPlayerIds, voteAwards, voterCount, setMyVote } = useGameStore();
+  const { room, playerId } = useRoomStore();
+  if (!room || !playerId) return null;
+
+  const isPresenter = (room.presenterId ?? room.hostId) === playerId;
+  const isPlayer = room.players.some((p) => p.id === playerId);
+  const voters = room.players.filter((p) => p.connected);
+
+  const findChainEntry = (chainId: string, entryOrder: number) => {
+    const chain = chains.find((c) => c.id === chainId);
+    return { chain, entry: chain?.entries.find((e) => e.order === entryOrder) };
+  };
+
+  const renderEntry = (entry: Entry, size: 'small' | 'large') =>
+    entry.type === 'drawing' ? (
+      <img
+        src={resolveImageUrl(entry.payload)}
+        alt="描かれた絵"
+        className={`rounded-lg bg-white ${size === 'large' ? 'max-h-56' : 'h-24 w-full object-contain'}`}
+      />
+    ) : (
+      <p className={`font-semibold text-gray-800 ${size === 'large' ? 'text-xl' : 'text-sm'}`}>「{entry.payload}」</p>
+    );
+
+  if (voteAwards) {
+    return (
+      <div className="space-y-4">
+        <h2 className="text-center text-xl font-bold text-primary-700">🎖️ 表彰式</h2>
+        <p className="text-center text-xs text-gray-500">{voterCount}人が投票しました</p>
+        {(Object.keys(VOTE_CATEGORY_INFO) as VoteCategory[]).map((category) => {
+          const awards = voteAwards.filter((a) => a.category === category);
+          return (
+            <div key={category} className="rounded-2xl bg-white p-4 shadow">
+              <h3 className="mb-3 text-center text-lg font-bold text-gray-800">{VOTE_CATEGORY_INFO[category].award}</h3>
+              {awards.length === 0 ? (
+                <p className="text-center text-sm text-gray-400">投票がありませんでした</p>
+              ) : (
+                <div className="flex flex-wrap justify-center gap-4">
+                  {awards.map((award) => {
+                    const { chain, entry } = findChainEntry(award.chainId, award.entryOrder);
+                    if (!chain || !entry) return null;
+                    return (
+                      <div key={`${award.chainId}-${award.entryOrder}`} className="flex flex-col items-center gap-2 animate-scale-in">
+                        {renderEntry(entry, 'large')}
+                        <p className="text-sm font-bold text-primary-700">
+                          {getPlayerName(award.authorId)}
+                          {award.authorId === playerId && '（あなた）'}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {award.votes}票 ・ {getPlayerName(chain.ownerPlayerId)} のお題
+                        </p>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  const vote = (category: VoteCategory, chainId: string, entryOrder: number) => {
+    setMyVote(category, chainId, entryOrder);
+    wsManager.send({ type: 'cast_vote', payload: { category, chainId, entryOrder } });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="text-center">
+        <h2 className="text-xl font-bold text-primary-700">🗳️ 投票タイム</h2>
+        <p className="mt-1 text-sm text-gray-600">
+          {isPlayer ? '自分以外の作品からひとつずつ選んでください' : 'プレイヤーが投票しています...'}
+        </p>
+        <p className="mt-1 text-xs text-gray-500">
+          投票済み {votedPlayerIds.length} / {voters.length}人
+        </p>
+        {isPresenter && (
+          <button
+            onClick={() => wsManager.send({ type: 'close_voting', payload: {} })}
+            className="mt-2 rounded-full border border-amber-200 bg-white px-3 py-1 text-xs font-semibold text-amber-700 transition hover:bg-amber-50"
+          >
+            ⏱️ 締め切って結果を見る
+          </button>
+        )}
+      </div>
+
+      {(Object.keys(VOTE_CATEGORY_INFO) as VoteCategory[]).map((category) => {
+        const candidates = chains.flatMap((chain) =>
+          chain.entries.filter((e) => isVoteCandidate(e, category)).map((entry) => ({ chain, entry }))
+        );
+        if (candidates.length === 0) return null;
+        const selected = myVotes[category];
+
+        return (
+          <div key={category} className="rounded-2xl bg-white p-4 shadow">
+            <h3 className="mb-3 font-bold text-gray-800">
+              {VOTE_CATEGORY_INFO[category].award}
+              <span className="ml-2 text-xs font-normal text-gray-500">{VOTE_CATEGORY_INFO[category].question}は？</span>
+            </h3>
+            <div className={category === 'drawing' ? 'grid grid-cols-2 gap-2 sm:grid-cols-3' : 'space-y-2'}>
+              {candidates.map(({ chain, entry }) => {
+                const isOwn = entry.authorId === playerId;
+                const isSelected = selected?.chainId === chain.id && selected.entryOrder === entry.order;
+                return (
+                  <button
+                    key={`${chain.id}-${entry.order}`}
+                    onClick={() => vote(category, chain.id, entry.order)}
+                    disabled={!isPlayer || isOwn}
+                    className={`flex w-full flex-col gap-1 rounded-xl border-2 p-2 text-left transition ${
+                      isSelected
+                        ? 'border-primary-500 bg-primary-50'
+                        : 'border-gray-100 bg-gray-50 hover:border-primary-200'
+                    } disabled:cursor-not-allowed disabled:opacity-50`}
+                  >
+                    {renderEntry(entry, 'small')}
+                    <span className="text-xs text-gray-500">
+                      {isOwn ? 'あなた' : getPlayerName(entry.authorId)} ・ {getPlayerName(chain.ownerPlayerId)} のお題
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
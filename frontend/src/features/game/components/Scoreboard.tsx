@@ -0,0 +1,70 @@
+import { QUIZ_TEAM_LABELS } from '@/shared/types';
+
+function sortByScore<T extends { id: string }>(players: T[], scores: Record<string, number>): T[] {
+  return [...players].sort((a, b) => (scores[b.id] ?? 0) - (scores[a.id] ?? 0));
+}
+
+// スコアボード（ラウンド中の途中経過。drawerIdは今の親・描く人を強調する）
+export function Scoreboard({ scores, players, drawerId, teamScores }: {
+  scores: Record<string, number>;
+  players: { id: string; name: string }[];
+  drawerId?: string | null;
+  teamScores?: number[];
+}) {
+  const sorted = sortByScore(players, scores);
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {teamScores?.map((total, team) => (
+        <div key={`team-${team}`} className="rounded-full bg-rose-100 px-3 py-1 text-sm font-bold text-rose-800">
+          {QUIZ_TEAM_LABELS[team]}: {total}pt
+        </div>
+      ))}
+      {sorted.map((p, i) => (
+        <div
+          key={p.id}
+          className={`flex items-center gap-1 rounded-full px-3 py-1 text-sm font-semibold ${
+            p.id === drawerId
+              ? 'bg-violet-100 text-violet-700 ring-2 ring-violet-400'
+              : i === 0
+                ? 'bg-yellow-100 text-yellow-800'
+                : 'bg-gray-100 text-gray-700'
+          }`}
+        >
+          {i === 0 && '👑'}{p.name}: {scores[p.id] ?? 0}pt
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// 最終順位
+export function FinalRanking({ players, scores, teams }: {
+  players: { id: string; name: string }[];
+  scores: Record<string, number>;
+  teams?: Record<string, number>;
+}) {
+  const sorted = sortByScore(players, scores);
+
+  return (
+    <div className="space-y-2">
+      {sorted.map((player, i) => (
+        <div
+          key={player.id}
+          className={`flex items-center justify-between rounded-xl p-3 ${
+            i === 0 ? 'bg-yellow-100' : i === 1 ? 'bg-gray-100' : i === 2 ? 'bg-orange-100' : 'bg-gray-50'
+          }`}
+        >
+          <div className="flex items-center gap-3">
+            <span className="text-2xl">{i === 0 ? '🥇' : i === 1 ? '🥈' : i === 2 ? '🥉' : `${i + 1}.`}</span>
+            <span className="font-bold text-gray-900">{player.name}</span>
+            {teams?.[player.id] !== undefined && (
+              <span className="text-xs text-gray-500">{QUIZ_TEAM_LABELS[teams[player.id]]}</span>
+            )}
+          </div>
+          <span className="font-bold text-violet-600">{scores[player.id] ?? 0}pt</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -2,32 +2,36 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useGameStore } from '@/features/game/store/gameStore';
 import { useRoomStore } from '@/features/room/store/roomStore';
 import { useWebSocket } from '@/shared/hooks/useWebSocket';
+import { useLiveCanvasStream } from '@/shared/hooks/useLiveCanvasStream';
+import { useDrawingModifiers } from '@/shared/hooks/useDrawingModifiers';
 import { wsManager } from '@/shared/lib/websocket';
 import { Canvas, type CanvasRef } from '@/shared/components/Canvas';
 import { Timer } from '@/features/game/components/Timer';
 import { SubmissionProgress } from '@/features/game/components/SubmissionProgress';
 import { ShiritoriGallery } from './ShiritoriGallery';
 import { ShiritoriAnswerInput } from './ShiritoriAnswerInput';
+import { LiveCanvasView } from './LiveCanvasView';
+import { resolveImageUrl } from '@/shared/lib/api';
 
 export function ShiritoriDrawing() {
   const canvasRef = useRef<CanvasRef>(null);
-  const syncIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const { modifiers, colors } = useDrawingModifiers();
   const {
     shiritoriGallery,
     shiritoriDrawerId,
     shiritoriHint,
     shiritoriOrder,
     shiritoriTotal,
-    shiritoriLiveCanvas,
+    liveCanvas,
     shiritoriPendingAnswer,
     shiritoriMyPendingImage,
     hasSubmitted,
     setHasSubmitted,
     setReceivedContent,
-    setShiritoriLiveCanvas,
+    clearLiveCanvas,
   } = useGameStore();
   const { room, playerId } = useRoomStore();
-  const { submitShiritori, send } = useWebSocket(room?.id ?? null);
+  const { submitShiritori } = useWebSocket(room?.id ?? null);
   const [localAnswer, setLocalAnswer] = useState('');
   // 自分の答えを保存（order -> answer）
   const [myAnswers, setMyAnswers] = useState<Map<number, string>>(new Map());
@@ -85,37 +89,12 @@ export function ShiritoriDrawing() {
   // Clear live canvas when drawer changes (but not for pending answer phase)
   useEffect(() => {
     if (!shiritoriPendingAnswer) {
-      setShiritoriLiveCanvas(null);
+      clearLiveCanvas();
     }
-  }, [shiritoriDrawerId, setShiritoriLiveCanvas, shiritoriPendingAnswer]);
+  }, [shiritoriDrawerId, clearLiveCanvas, shiritoriPendingAnswer]);
 
-  // Canvas sync for current drawer (only during drawing phase)
-  useEffect(() => {
-    if (!isDrawingPhase) {
-      if (syncIntervalRef.current) {
-        clearInterval(syncIntervalRef.current);
-        syncIntervalRef.current = null;
-      }
-      return;
-    }
-
-    // Send canvas updates every 500ms
-    syncIntervalRef.current = setInterval(() => {
-      if (canvasRef.current) {
-        const imageData = canvasRef.current.getImageData();
-        if (imageData) {
-          send({ type: 'shiritori_canvas_sync', payload: { imageData } });
-        }
-      }
-    }, 500);
-
-    return () => {
-      if (syncIntervalRef.current) {
-        clearInterval(syncIntervalRef.current);
-        syncIntervalRef.current = null;
-      }
-    };
-  }, [isDrawingPhase, send]);
+  // Stream strokes to the other players (only during drawing phase)
+  const liveStream = useLiveCanvasStream(canvasRef, isDrawingPhase);
 
   // 絵を提出（答えは後で）
   const handleSubmitImage = useCallback(() => {
@@ -123,7 +102,7 @@ export function ShiritoriDrawing() {
     if (!canvasRef.current) return;
     
     const imageData = canvasRef.current.getImageData();
-    submitShiritori(imageData, null);
+    submitShiritori(imageData, null, canvasRef.current.getStrokeHistory());
     setReceivedContent(null);
   }, [isMyTurn, shiritoriPendingAnswer, submitShiritori, setReceivedContent]);
 
@@ -153,7 +132,7 @@ export function ShiritoriDrawing() {
     if (!canvasRef.current) return;
     
     const imageData = canvasRef.current.getImageData();
-    submitShiritori(imageData, null);
+    submitShiritori(imageData, null, canvasRef.current.getStrokeHistory());
   }, [isDrawingPhase, submitShiritori]);
 
   const headerBadge = `${shiritoriOrder}/${shiritoriTotal} 枚目`;
@@ -166,14 +145,14 @@ export function ShiritoriDrawing() {
     }
     // 自分のターンでない場合、リアルタイムキャンバスまたは待機
     if (!isMyTurn && !isAnswerPhase) {
-      if (shiritoriLiveCanvas) {
-        return { type: 'live' as const, image: shiritoriLiveCanvas };
+      if (liveCanvas && liveCanvas.drawerId === shiritoriDrawerId) {
+        return { type: 'live' as const, canvas: liveCanvas };
       }
       return { type: 'waiting' as const };
     }
     // 描画中または提出済み
     return { type: 'drawing' as const };
-  }, [isMyTurn, isAnswerPhase, shiritoriMyPendingImage, shiritoriLiveCanvas]);
+  }, [isMyTurn, isAnswerPhase, shiritoriMyPendingImage, liveCanvas, shiritoriDrawerId]);
 
   return (
     <div className="flex min-h-screen flex-col p-4">
@@ -225,20 +204,20 @@ export function ShiritoriDrawing() {
             <div className="relative flex-1 overflow-hidden rounded-xl border border-gray-200 bg-white">
               {/* Canvas layer */}
               <div className={`h-full w-full ${canvasContent.type !== 'drawing' ? 'invisible' : 'visible'}`}>
-                <Canvas ref={canvasRef} className="h-full w-full" />
+                <Canvas ref={canvasRef} className="h-full w-full" onStroke={liveStream.onStroke} onRestore={liveStream.onRestore} modifiers={modifiers} colors={colors} />
               </div>
               
               {/* 自分のpending絵を表示（答え入力中） */}
               {canvasContent.type === 'my-pending' && (
                 <div className="absolute inset-0 z-10">
-                  <img src={canvasContent.image} alt="Your drawing" className="h-full w-full object-contain" />
+                  <img src={resolveImageUrl(canvasContent.image)} alt="Your drawing" className="h-full w-full object-contain" />
                 </div>
               )}
               
               {/* Live preview layer for non-drawer players */}
               {canvasContent.type === 'live' && (
                 <div className="absolute inset-0 z-10">
-                  <img src={canvasContent.image} alt="Live drawing" className="h-full w-full object-contain" />
+                  <LiveCanvasView canvas={canvasContent.canvas} />
                   <div className="absolute bottom-2 left-2 rounded-lg bg-black/60 px-3 py-1 text-xs text-white">
                     {drawerName} が描画中...
                   </div>
@@ -1,5 +1,6 @@
 import { useState } from 'react';
 import type { ShiritoriDrawingPublic } from '@/shared/types';
+import { resolveImageUrl } from '@/shared/lib/api';
 
 interface ShiritoriGalleryProps {
   drawings: ShiritoriDrawingPublic[];
@@ -57,7 +58,7 @@ export function ShiritoriGallery({ drawings, currentOrder, myPlayerId, myAnswers
                 </div>
                 <div className="aspect-square bg-white">
                   <img
-                    src={drawing.imageData}
+                    src={resolveImageUrl(drawing.imageData)}
                     alt={`drawing-${drawing.order}`}
                     className="h-full w-full object-contain"
                   />
@@ -98,7 +99,7 @@ export function ShiritoriGallery({ drawings, currentOrder, myPlayerId, myAnswers
             </div>
             <div className="mb-4 overflow-hidden rounded-lg border border-gray-200">
               <img
-                src={selectedDrawing.drawing.imageData}
+                src={resolveImageUrl(selectedDrawing.drawing.imageData)}
                 alt="your drawing"
                 className="w-full object-contain"
                 style={{ maxHeight: '300px' }}
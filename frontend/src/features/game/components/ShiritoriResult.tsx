@@ -3,6 +3,7 @@ import { useNavigate, useParams } from 'react-router-dom';
 import { useGameStore } from '@/features/game/store/gameStore';
 import { useRoomStore } from '@/features/room/store/roomStore';
 import { useWebSocket } from '@/shared/hooks/useWebSocket';
+import { resolveImageUrl } from '@/shared/lib/api';
 
 export function ShiritoriResult() {
   const { shiritoriResult, reset: resetGame } = useGameStore();
@@ -77,7 +78,7 @@ export function ShiritoriResult() {
                 >
                   <div className="aspect-square bg-gray-50">
                     <img
-                      src={item.imageData}
+                      src={resolveImageUrl(item.imageData)}
                       alt={`${item.order}番目の絵`}
                       className="h-full w-full object-contain"
                     />
@@ -126,7 +127,7 @@ export function ShiritoriResult() {
 
               <div className="mb-4 overflow-hidden rounded-lg bg-white">
                 <img
-                  src={currentItem.imageData}
+                  src={resolveImageUrl(currentItem.imageData)}
                   alt={currentItem.answer}
                   className="mx-auto w-full object-contain"
                   style={{ maxHeight: '500px' }}
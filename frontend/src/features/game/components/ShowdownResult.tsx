@@ -0,0 +1,83 @@
+import { useCallback } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useGameStore } from '@/features/game/store/gameStore';
+import { useRoomStore } from '@/features/room/store/roomStore';
+import { useWebSocket } from '@/shared/hooks/useWebSocket';
+import { resolveImageUrl } from '@/shared/lib/api';
+import { FinalRanking } from './Scoreboard';
+
+export function ShowdownResult() {
+  const { showdownResult, reset: resetGame } = useGameStore();
+  const { room } = useRoomStore();
+  const { send } = useWebSocket(room?.id ?? null);
+  const navigate = useNavigate();
+  const { roomId } = useParams<{ roomId: string }>();
+
+  const handleReturnToLobby = useCallback(() => {
+    send({ type: 'return_to_lobby', payload: {} });
+    resetGame();
+    navigate(`/room/${roomId}`);
+  }, [send, resetGame, navigate, roomId]);
+
+  if (!showdownResult) {
+    return (
+      <div className="flex min-h-screen items-center justify-center text-gray-600">
+        結果を待っています...
+      </div>
+    );
+  }
+
+  const getName = (id: string) => showdownResult.players.find((p) => p.id === id)?.name ?? '???';
+
+  return (
+    <div className="flex min-h-screen flex-col bg-gradient-to-br from-red-50 to-orange-100 p-4">
+      <div className="mx-auto w-full max-w-4xl space-y-6">
+        <div className="rounded-2xl bg-white p-6 shadow-xl">
+          <h2 className="mb-4 text-center text-2xl font-black text-gray-900">🏆 最終結果</h2>
+          <FinalRanking players={showdownResult.players} scores={showdownResult.scores} />
+        </div>
+
+        {/* ラウンドごとの上位3枚 */}
+        <div className="rounded-2xl bg-white p-6 shadow-xl">
+          <h3 className="mb-4 text-lg font-bold text-gray-800">⚡ ラウンドの振り返り</h3>
+          <div className="space-y-6">
+            {showdownResult.rounds.map((round) => (
+              <div key={round.round} className="border-t border-gray-100 pt-4 first:border-t-0 first:pt-0">
+                <p className="mb-2 text-sm font-semibold text-gray-500">
+                  ラウンド {round.round} ・ お題: {round.prompt}
+                </p>
+                {round.drawings.length === 0 ? (
+                  <p className="text-sm text-gray-400">絵がありませんでした</p>
+                ) : (
+                  <div className="grid grid-cols-3 gap-3">
+                    {round.drawings.slice(0, 3).map((drawing, index) => (
+                      <div key={drawing.id} className="text-center">
+                        <img
+                          src={resolveImageUrl(drawing.image)}
+                          alt="描かれた絵"
+                          className="w-full rounded-lg border border-gray-100 object-contain"
+                        />
+                        <p className="mt-1 text-xs text-gray-600">
+                          {['🥇', '🥈', '🥉'][index]} {getName(drawing.authorId)} ・ {drawing.rankPoints}pt
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-center">
+          <button
+            onClick={handleReturnToLobby}
+            className="rounded-lg bg-red-500 px-8 py-3 font-semibold text-white transition hover:bg-red-600"
+          >
+            ロビーに戻る
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
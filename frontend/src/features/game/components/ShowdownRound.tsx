@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { useGameStore } from '@/features/game/store/gameStore';
+import { useRoomStore } from '@/features/room/store/roomStore';
+import { wsManager } from '@/shared/lib/websocket';
+import { resolveImageUrl } from '@/shared/lib/api';
+import { Timer } from '@/features/game/components/Timer';
+import { SHOWDOWN_RANK_POINTS } from '@/shared/types';
+import type { Player, ShowdownState } from '@/shared/types';
+import { Scoreboard } from './Scoreboard';
+
+const RANK_LABELS = ['🥇', '🥈', '🥉'];
+
+// 早描き対決: 描いている間の待機（観戦者）、匿名の審査、ラウンドごとの結果発表
+export function ShowdownRound() {
+  const { showdownState, phase } = useGameStore();
+  const { room, playerId } = useRoomStore();
+
+  if (!showdownState || !room) {
+    return (
+      <div className="flex min-h-screen items-center justify-center text-gray-600">
+        準備しています...
+      </div>
+    );
+  }
+
+  const players = room.players;
+  const isPlayer = players.some((p) => p.id === playerId);
+  const getName = (id: string) => players.find((p) => p.id === id)?.name ?? '???';
+  const reveal = showdownState.reveal;
+
+  return (
+    <div className="flex min-h-screen flex-col overflow-y-auto p-4">
+      <div className="sticky top-0 z-10 mb-4 space-y-3 rounded-2xl border border-red-100 bg-white/90 p-4 text-center shadow-sm backdrop-blur">
+        <h1 className="text-xl font-bold text-red-600">⚡ 早描き対決</h1>
+        <p className="text-lg font-semibold text-gray-800">お題: {showdownState.prompt}</p>
+        <div className="flex items-center justify-between gap-3">
+          <Timer />
+          <p className="text-sm font-semibold text-gray-600">
+            ラウンド {showdownState.round} / {showdownState.totalRounds}
+          </p>
+        </div>
+        <Scoreboard scores={showdownState.scores} players={players} />
+      </div>
+
+      {phase === 'drawing' && (
+        <p className="py-12 text-center font-semibold text-gray-700">🎨 全員が同じお題を描いています...</p>
+      )}
+
+      {phase === 'showdown_judging' && (
+        <ShowdownJudging
+          key={showdownState.round}
+          showdownState={showdownState}
+          players={players}
+          playerId={playerId}
+          canJudge={isPlayer}
+        />
+      )}
+
+      {phase === 'showdown_reveal' && reveal && (
+        <div className="space-y-4 pb-4">
+          {playerId && reveal.guessHits[playerId] !== undefined && (
+            <p className="text-center font-semibold text-emerald-600">🔍 予想が {reveal.guessHits[playerId]} 枚当たりました！</p>
+          )}
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+            {reveal.drawings.map((drawing, index) => (
+              <div
+                key={drawing.id}
+                className={`rounded-2xl bg-white p-3 shadow ${index === 0 && drawing.rankPoints > 0 ? 'ring-4 ring-yellow-300' : ''}`}
+              >
+                <img src={resolveImageUrl(drawing.image)} alt="描かれた絵" className="w-full rounded-xl border border-gray-100 object-contain" />
+                <div className="mt-2 flex items-center justify-between text-sm">
+                  <span className="font-semibold text-gray-800">
+                    {index < RANK_LABELS.length && drawing.rankPoints > 0 ? RANK_LABELS[index] : `${index + 1}.`} {getName(drawing.authorId)}
+                    {drawing.authorId === playerId && '（あなた）'}
+                  </span>
+                  <span className="text-gray-500">
+                    {drawing.rankPoints}pt ・ 1位票 {drawing.firstPlaceVotes}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// 上位3枚を順にタップして順位を付ける。もう一度タップすると外れる
+function ShowdownJudging({ showdownState, players, playerId, canJudge }: {
+  showdownState: ShowdownState;
+  players: Player[];
+  playerId: string | null;
+  canJudge: boolean;
+}) {
+  const [ranking, setRanking] = useState<string[]>(showdownState.myBallot?.ranking ?? []);
+  const [guesses, setGuesses] = useState<Record<string, string>>(showdownState.myBallot?.guesses ?? {});
+  const rankCount = Math.min(SHOWDOWN_RANK_POINTS.length, showdownState.drawings.filter((d) => !d.mine).length);
+
+  const toggleRank = (drawingId: string) => {
+    if (ranking.includes(drawingId)) {
+      setRanking(ranking.filter((id) => id !== drawingId));
+    } else if (ranking.length < rankCount) {
+      setRanking([...ranking, drawingId]);
+    }
+  };
+
+  const submit = () => {
+    wsManager.send({
+      type: 'showdown_judge',
+      payload: {
+        ranking,
+        guesses: Object.entries(guesses)
+          .filter(([, guessedId]) => guessedId)
+          .map(([drawingId, guessedId]) => ({ drawingId, playerId: guessedId })),
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-4 pb-4">
+      <div className="text-center">
+        <h2 className="text-lg font-bold text-gray-800">🏅 上手だと思う順に {rankCount} 枚選んでください</h2>
+        <p className="text-xs text-gray-500">
+          1位 {SHOWDOWN_RANK_POINTS[0]}pt・2位 {SHOWDOWN_RANK_POINTS[1]}pt・3位 {SHOWDOWN_RANK_POINTS[2]}pt
+          {showdownState.guessAuthor && ' ・ 誰が描いたか当てるとボーナス'}
+          {' ・ '}審査済み {showdownState.judgedPlayerIds.length}人
+        </p>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+        {showdownState.drawings.map((drawing) => {
+          const rank = ranking.indexOf(drawing.id);
+          return (
+            <div key={drawing.id} className={`rounded-2xl bg-white p-3 shadow ${rank >= 0 ? 'ring-4 ring-red-300' : ''}`}>
+              <button
+                type="button"
+                onClick={() => toggleRank(drawing.id)}
+                disabled={!canJudge || drawing.mine}
+                className="relative block w-full disabled:cursor-not-allowed"
+              >
+                <img src={resolveImageUrl(drawing.image)} alt="審査する絵" className="w-full rounded-xl border border-gray-100 object-contain" />
+                {rank >= 0 && <span className="absolute left-2 top-2 text-3xl">{RANK_LABELS[rank]}</span>}
+                {drawing.mine && (
+                  <span className="absolute inset-0 flex items-center justify-center rounded-xl bg-white/60 font-bold text-gray-600">
+                    あなたの絵
+                  </span>
+                )}
+              </button>
+              {showdownState.guessAuthor && canJudge && !drawing.mine && (
+                <select
+                  value={guesses[drawing.id] ?? ''}
+                  onChange={(e) => setGuesses({ ...guesses, [drawing.id]: e.target.value })}
+                  className="mt-2 w-full rounded-lg border border-gray-200 px-2 py-1 text-sm"
+                >
+                  <option value="">描いたのは誰？</option>
+                  {players
+                    .filter((p) => p.id !== playerId)
+                    .map((p) => (
+                      <option key={p.id} value={p.id}>
+                        {p.name}
+                      </option>
+                    ))}
+                </select>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {canJudge && (
+        <div className="flex flex-col items-center gap-1">
+          <button
+            onClick={submit}
+            disabled={ranking.length === 0}
+            className="rounded-lg bg-red-500 px-8 py-3 font-semibold text-white transition hover:bg-red-600 disabled:opacity-50"
+          >
+            この審査で決定
+          </button>
+          {showdownState.myBallot && <p className="text-xs text-gray-500">提出済み（締め切りまで出し直せます）</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { useGameStore } from '@/features/game/store/gameStore';
+import { Timer } from './Timer';
+import { SubmissionProgress } from './SubmissionProgress';
+import { TurnIndicator } from './TurnIndicator';
+
+const PHASE_LABELS: Record<string, string> = {
+  prompt: 'お題を考えています',
+  'first-frame': '最初のコマを描いています',
+  drawing: '絵を描いています',
+  guessing: '絵を見て答えを考えています',
+  memory_viewing: '前の人の絵を覚えています',
+};
+
+// 観戦者向けの待機画面（お題や前の人の絵などのプレイヤー個別の内容は表示しない）
+export function SpectatorView() {
+  const { phase } = useGameStore();
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center gap-6 p-4">
+      <div className="flex flex-wrap items-center justify-center gap-4">
+        <Timer />
+        <TurnIndicator />
+      </div>
+      <div className="text-center">
+        <div className="text-5xl">👀</div>
+        <p className="mt-4 text-xl font-bold text-gray-700">観戦中</p>
+        <p className="mt-1 text-gray-600">プレイヤーが{(phase && PHASE_LABELS[phase]) ?? 'プレイ中です'}...</p>
+        <p className="mt-1 text-sm text-gray-500">結果発表で全員の作品を見られます</p>
+      </div>
+      <div className="w-full max-w-sm">
+        <SubmissionProgress />
+      </div>
+    </div>
+  );
+}
@@ -28,9 +28,34 @@ export function Timer({ onTimeout }: TimerProps) {
       return normal.promptTimeSec;
     }
 
+    if (phase === 'first-frame' && settings.gameMode === 'memory') {
+      return settings.memorySettings.firstDrawingTimeSec;
+    }
+
+    if (phase === 'memory_viewing') {
+      return settings.memorySettings.viewTimeSec;
+    }
+
+    if (settings.gameMode === 'caption') {
+      const caption = settings.captionSettings;
+      if (phase === 'drawing') return caption.drawingTimeSec;
+      if (phase === 'guessing') return caption.captionTimeSec;
+      if (phase === 'caption_voting') return caption.voteTimeSec;
+      if (phase === 'caption_reveal') return caption.revealTimeSec;
+    }
+
+    if (settings.gameMode === 'showdown') {
+      const showdown = settings.showdownSettings;
+      if (phase === 'drawing') return showdown.drawingTimeSec;
+      if (phase === 'showdown_judging') return showdown.judgingTimeSec;
+      if (phase === 'showdown_reveal') return showdown.revealTimeSec;
+    }
+
     if (phase === 'drawing') {
       if (settings.gameMode === 'animation') return settings.animationSettings.drawingTimeSec;
       if (settings.gameMode === 'shiritori') return settings.shiritoriSettings.drawingTimeSec;
+      if (settings.gameMode === 'corpse') return settings.corpseSettings.drawingTimeSec;
+      if (settings.gameMode === 'memory') return settings.memorySettings.drawingTimeSec;
       return normal.drawingTimeSec;
     }
 
@@ -38,6 +63,14 @@ export function Timer({ onTimeout }: TimerProps) {
       return normal.guessTimeSec;
     }
 
+    if (phase === 'collab_drawing') {
+      return settings.collabSettings.drawingTimeSec;
+    }
+
+    if (phase === 'imposter_drawing') return settings.imposterSettings.strokeTimeSec;
+    if (phase === 'imposter_voting') return settings.imposterSettings.voteTimeSec;
+    if (phase === 'imposter_guess') return settings.imposterSettings.guessTimeSec;
+
     return 60;
   }, [room?.settings, phase]);
 
@@ -11,13 +11,26 @@ import { AnimationResult } from '@/features/game/components/AnimationResult';
 import { ShiritoriDrawing } from '@/features/game/components/ShiritoriDrawing';
 import { ShiritoriResult } from '@/features/game/components/ShiritoriResult';
 import { QuizRound } from '@/features/game/components/QuizRound';
+import { CollabCanvas } from '@/features/game/components/CollabCanvas';
+import { CollabResult } from '@/features/game/components/CollabResult';
+import { ImposterRound } from '@/features/game/components/ImposterRound';
+import { ImposterResult } from '@/features/game/components/ImposterResult';
+import { CaptionRound } from '@/features/game/components/CaptionRound';
+import { CaptionResult } from '@/features/game/components/CaptionResult';
+import { ShowdownRound } from '@/features/game/components/ShowdownRound';
+import { ShowdownResult } from '@/features/game/components/ShowdownResult';
+import { CorpseDrawing } from '@/features/game/components/CorpseDrawing';
+import { CorpseResult } from '@/features/game/components/CorpseResult';
+import { MemoryDrawing } from '@/features/game/components/MemoryDrawing';
+import { MemoryResult } from '@/features/game/components/MemoryResult';
+import { SpectatorView } from '@/features/game/components/SpectatorView';
 
 export function GamePage() {
   const { roomId } = useParams<{ roomId: string }>();
   const navigate = useNavigate();
-  const { connect, send, submitPrompt, submitDrawing, submitGuess, submitQuizGuess } = useWebSocket(roomId ?? null);
+  const { connect, send, submitPrompt, submitDrawing, markReady, submitGuess, submitQuizGuess } = useWebSocket(roomId ?? null);
   const { room, playerId } = useRoomStore();
-  const { phase } = useGameStore();
+  const { phase, captionState } = useGameStore();
 
   const playerName = sessionStorage.getItem('playerName');
 
@@ -65,6 +78,61 @@ export function GamePage() {
     }
   }
 
+  // 観戦者にはお題を伏せた状態が届くので、そのまま一緒に見る
+  if (gameMode === 'imposter') {
+    if (phase === 'result') return <ImposterResult />;
+    if (phase) return <ImposterRound />;
+  }
+
+  // 描く人とキャプションを書く人以外（観戦者を含む）は待機・投票の画面を見る
+  if (gameMode === 'caption') {
+    if (phase === 'result') return <CaptionResult />;
+    const isArtist = !!captionState && captionState.artistId === playerId;
+    const isPlayer = room?.players.some((p) => p.id === playerId) ?? false;
+    if (phase === 'drawing' && isArtist) return <DrawingCanvas onSubmit={submitDrawing} onRetry={handleRetry} />;
+    if (phase === 'guessing' && isPlayer && !isArtist) {
+      return (
+        <GuessInput
+          onSubmit={submitGuess}
+          title="💬 キャプションを付けよう"
+          description="この絵（お題）にいちばん面白いひと言を付けてください"
+          label="✍️ キャプション（140文字まで）"
+          placeholder="思わず笑ってしまうひと言を"
+        />
+      );
+    }
+    return <CaptionRound />;
+  }
+
+  // 描くのはプレイヤー全員。観戦者も審査と結果発表は一緒に見る
+  if (gameMode === 'showdown') {
+    if (phase === 'result') return <ShowdownResult />;
+    const isPlayer = room?.players.some((p) => p.id === playerId) ?? false;
+    if (phase === 'drawing' && isPlayer) return <DrawingCanvas onSubmit={submitDrawing} onRetry={handleRetry} />;
+    return <ShowdownRound />;
+  }
+
+  // 観戦者にはお題や前の人の絵を見せない（結果発表から一緒に見る）
+  const isSpectator = room?.spectators?.some((s) => s.id === playerId) ?? false;
+  if (isSpectator && phase !== 'result') {
+    return <SpectatorView />;
+  }
+
+  if (gameMode === 'collab') {
+    if (phase === 'collab_drawing') return <CollabCanvas onComplete={markReady} />;
+    if (phase === 'result') return <CollabResult />;
+  }
+
+  if (gameMode === 'corpse') {
+    if (phase === 'drawing') return <CorpseDrawing onSubmit={submitDrawing} onRetry={handleRetry} />;
+    if (phase === 'result') return <CorpseResult />;
+  }
+
+  if (gameMode === 'memory') {
+    if (phase === 'result') return <MemoryResult />;
+    if (phase) return <MemoryDrawing onSubmit={submitDrawing} onRetry={handleRetry} />;
+  }
+
   switch (phase) {
     case 'prompt':
       return <PromptInput onSubmit={submitPrompt} onRetry={handleRetry} />;
@@ -4,11 +4,24 @@ import type {
   Chain,
   Player,
   ContentPayload,
+  DrawingStroke,
+  LiveCanvasState,
   ShiritoriDrawingPublic,
   ShiritoriResult,
   QuizFeedItem,
   QuizState,
   QuizResult,
+  CollabState,
+  CollabStroke,
+  CollabResult,
+  ImposterState,
+  ImposterResult,
+  CaptionState,
+  CaptionResult,
+  ShowdownState,
+  ShowdownResult,
+  VoteAward,
+  VoteCategory,
 } from '@/shared/types';
 
 interface GameState {
@@ -31,6 +44,12 @@ interface GameState {
   unlockedChainIndices: number[]; // Track which chains have been unlocked
   resultDisplayOrder: 'first-to-last' | 'last-to-first'; // Synced display order from host
 
+  // 結果発表後の投票
+  myVotes: Partial<Record<VoteCategory, { chainId: string; entryOrder: number }>>;
+  votedPlayerIds: string[];
+  voteAwards: VoteAward[] | null; // 締め切り前はnull
+  voterCount: number;
+
   // Shiritori mode
   shiritoriGallery: ShiritoriDrawingPublic[];
   shiritoriDrawerId: string | null;
@@ -38,17 +57,36 @@ interface GameState {
   shiritoriOrder: number;
   shiritoriTotal: number;
   shiritoriResult: ShiritoriResult | null;
-  shiritoriLiveCanvas: string | null;
   // 絵を提出済みで答え待ち状態
   shiritoriPendingAnswer: boolean;
   shiritoriMyPendingImage: string | null;
 
+  // 他のプレイヤーが描画中のキャンバス
+  liveCanvas: LiveCanvasState | null;
+
   // Quiz mode
   quizState: QuizState | null;
   quizFeed: QuizFeedItem[];
   quizRevealedAnswer: string | null;
   quizResult: QuizResult | null;
 
+  // Collab mode
+  collabState: CollabState | null;
+  collabVersion: number; // 状態が丸ごと届くたびに増える（キャンバスを描き直す）
+  collabResult: CollabResult | null;
+
+  // Imposter mode
+  imposterState: ImposterState | null;
+  imposterResult: ImposterResult | null;
+
+  // Caption mode
+  captionState: CaptionState | null;
+  captionResult: CaptionResult | null;
+
+  // Showdown mode
+  showdownState: ShowdownState | null;
+  showdownResult: ShowdownResult | null;
+
   setPhase: (phase: GamePhase, timeRemaining: number, deadline?: string, currentTurn?: number, totalTurns?: number) => void;
   setTimeRemaining: (time: number) => void;
   syncTimer: (serverTime: number) => void;
@@ -61,17 +99,32 @@ interface GameState {
   updateRevealedPosition: (chainIndex: number, entryIndex: number, displayOrder?: 'first-to-last' | 'last-to-first') => void;
   setResultDisplayOrder: (order: 'first-to-last' | 'last-to-first') => void;
   unlockChain: (chainIndex: number) => void;
+  setMyVote: (category: VoteCategory, chainId: string, entryOrder: number) => void;
+  setVotedPlayerIds: (playerIds: string[]) => void;
+  setVoteResults: (awards: VoteAward[], voterCount: number) => void;
+  resetVoting: () => void;
   setShiritoriTurn: (drawerId: string | null, hint: string | null, order: number, total: number, gallery: ShiritoriDrawingPublic[]) => void;
   addShiritoriDrawing: (drawing: ShiritoriDrawingPublic, nextDrawerId: string | null) => void;
   updateShiritoriDrawingAnswer: (drawing: ShiritoriDrawingPublic) => void;
   setShiritoriResult: (result: ShiritoriResult) => void;
-  setShiritoriLiveCanvas: (imageData: string | null) => void;
   setShiritoriPendingAnswer: (pending: boolean, imageData: string | null) => void;
+  setLiveCanvasKeyframe: (drawerId: string, imageData: string | null, strokes: DrawingStroke[]) => void;
+  appendLiveCanvasStrokes: (drawerId: string, strokes: DrawingStroke[]) => void;
+  clearLiveCanvas: () => void;
   setQuizState: (state: QuizState) => void;
   addQuizFeed: (item: QuizFeedItem) => void;
   removeRecentLocalGuess: (playerId: string) => void;
   setQuizRevealedAnswer: (answer: string | null) => void;
   setQuizResult: (result: QuizResult) => void;
+  setCollabState: (state: CollabState) => void;
+  appendCollabStrokes: (strokes: CollabStroke[]) => void;
+  setCollabResult: (result: CollabResult) => void;
+  setImposterState: (state: ImposterState) => void;
+  setImposterResult: (result: ImposterResult) => void;
+  setCaptionState: (state: CaptionState) => void;
+  setCaptionResult: (result: CaptionResult) => void;
+  setShowdownState: (state: ShowdownState) => void;
+  setShowdownResult: (result: ShowdownResult) => void;
   reset: () => void;
 }
 
@@ -94,21 +147,40 @@ export const useGameStore = create<GameState>((set, get) => ({
   unlockedChainIndices: [],
   resultDisplayOrder: 'first-to-last',
 
+  myVotes: {},
+  votedPlayerIds: [],
+  voteAwards: null,
+  voterCount: 0,
+
   shiritoriGallery: [],
   shiritoriDrawerId: null,
   shiritoriHint: null,
   shiritoriOrder: 1,
   shiritoriTotal: 1,
   shiritoriResult: null,
-  shiritoriLiveCanvas: null,
   shiritoriPendingAnswer: false,
   shiritoriMyPendingImage: null,
 
+  liveCanvas: null,
+
   quizState: null,
   quizFeed: [],
   quizRevealedAnswer: null,
   quizResult: null,
 
+  collabState: null,
+  collabVersion: 0,
+  collabResult: null,
+
+  imposterState: null,
+  imposterResult: null,
+
+  captionState: null,
+  captionResult: null,
+
+  showdownState: null,
+  showdownResult: null,
+
   setPhase: (phase, timeRemaining, deadline, currentTurn, totalTurns) =>
     set({
       phase,
@@ -220,6 +292,15 @@ export const useGameStore = create<GameState>((set, get) => ({
     }
   },
 
+  setMyVote: (category, chainId, entryOrder) =>
+    set({ myVotes: { ...get().myVotes, [category]: { chainId, entryOrder } } }),
+
+  setVotedPlayerIds: (votedPlayerIds) => set({ votedPlayerIds }),
+
+  setVoteResults: (voteAwards, voterCount) => set({ voteAwards, voterCount }),
+
+  resetVoting: () => set({ myVotes: {}, votedPlayerIds: [], voteAwards: null, voterCount: 0 }),
+
   setShiritoriTurn: (drawerId, hint, order, total, gallery) =>
     set({
       shiritoriDrawerId: drawerId,
@@ -252,7 +333,29 @@ export const useGameStore = create<GameState>((set, get) => ({
 
   setShiritoriResult: (result) => set({ shiritoriResult: result }),
 
-  setShiritoriLiveCanvas: (imageData) => set({ shiritoriLiveCanvas: imageData }),
+  setLiveCanvasKeyframe: (drawerId, imageData, strokes) => {
+    const { liveCanvas } = get();
+    set({
+      liveCanvas: {
+        drawerId,
+        keyframe: imageData,
+        keyframeVersion: (liveCanvas?.keyframeVersion ?? 0) + 1,
+        strokes,
+      },
+    });
+  },
+
+  appendLiveCanvasStrokes: (drawerId, strokes) => {
+    const { liveCanvas } = get();
+    // キーフレームを受け取る前に描画者が変わった場合は白紙から描く
+    if (!liveCanvas || liveCanvas.drawerId !== drawerId) {
+      get().setLiveCanvasKeyframe(drawerId, null, strokes);
+      return;
+    }
+    set({ liveCanvas: { ...liveCanvas, strokes: [...liveCanvas.strokes, ...strokes] } });
+  },
+
+  clearLiveCanvas: () => set({ liveCanvas: null }),
 
   setShiritoriPendingAnswer: (pending, imageData) => set({
     shiritoriPendingAnswer: pending,
@@ -285,6 +388,28 @@ export const useGameStore = create<GameState>((set, get) => ({
 
   setQuizResult: (result) => set({ quizResult: result }),
 
+  setCollabState: (state) => set({ collabState: state, collabVersion: get().collabVersion + 1, collabResult: null }),
+
+  appendCollabStrokes: (strokes) => {
+    const { collabState } = get();
+    if (!collabState) return;
+    set({ collabState: { ...collabState, strokes: [...collabState.strokes, ...strokes] } });
+  },
+
+  setCollabResult: (result) => set({ collabResult: result }),
+
+  setImposterState: (state) => set({ imposterState: state, imposterResult: null }),
+
+  setImposterResult: (result) => set({ imposterResult: result }),
+
+  setCaptionState: (state) => set({ captionState: state, captionResult: null }),
+
+  setCaptionResult: (result) => set({ captionResult: result }),
+
+  setShowdownState: (state) => set({ showdownState: state, showdownResult: null }),
+
+  setShowdownResult: (result) => set({ showdownResult: result }),
+
   reset: () =>
     set({
       phase: null,
@@ -304,18 +429,30 @@ export const useGameStore = create<GameState>((set, get) => ({
       revealedEntryIndices: [],
       unlockedChainIndices: [],
       resultDisplayOrder: 'first-to-last',
+      myVotes: {},
+      votedPlayerIds: [],
+      voteAwards: null,
+      voterCount: 0,
       shiritoriGallery: [],
       shiritoriDrawerId: null,
       shiritoriHint: null,
       shiritoriOrder: 1,
       shiritoriTotal: 1,
       shiritoriResult: null,
-      shiritoriLiveCanvas: null,
       shiritoriPendingAnswer: false,
       shiritoriMyPendingImage: null,
+      liveCanvas: null,
       quizState: null,
       quizFeed: [],
       quizRevealedAnswer: null,
       quizResult: null,
+      collabState: null,
+      collabResult: null,
+      imposterState: null,
+      imposterResult: null,
+      captionState: null,
+      captionResult: null,
+      showdownState: null,
+      showdownResult: null,
     }),
 }));
@@ -1,14 +1,22 @@
 import { useState, useEffect } from 'react';
 import type {
   AnimationModeSettings,
+  CollabModeSettings,
+  CorpseModeSettings,
+  MemoryModeSettings,
+  CaptionModeSettings,
+  ShowdownModeSettings,
   GameMode,
+  GameModifiers,
+  ImposterModeSettings,
   NormalModeSettings,
   Settings,
   ShiritoriModeSettings,
   QuizModeSettings,
   QuizPromptCategory,
+  QuizTeamAnswerRule,
 } from '@/shared/types';
-import { QUIZ_CATEGORY_LABELS } from '@/shared/types';
+import { QUIZ_CATEGORY_LABELS, QUIZ_TEAM_LABELS } from '@/shared/types';
 
 interface ModeSelectionPanelProps {
   settings: Settings;
@@ -33,12 +41,24 @@ function ModeCard({ mode, title, description, badge, selected, disabled, onSelec
     animation: '🎞️',
     shiritori: '🔗',
     quiz: '❓',
+    collab: '🤝',
+    imposter: '🎭',
+    corpse: '🧩',
+    memory: '🧠',
+    caption: '💬',
+    showdown: '⚡',
   };
   const colorMap: Record<GameMode, string> = {
     normal: 'bg-gradient-to-br from-primary-100 to-primary-200 text-primary-700',
     animation: 'bg-gradient-to-br from-amber-100 to-orange-200 text-amber-700',
     shiritori: 'bg-gradient-to-br from-emerald-100 to-teal-200 text-emerald-700',
     quiz: 'bg-gradient-to-br from-violet-100 to-purple-200 text-violet-700',
+    collab: 'bg-gradient-to-br from-sky-100 to-cyan-200 text-sky-700',
+    imposter: 'bg-gradient-to-br from-fuchsia-100 to-pink-200 text-fuchsia-700',
+    corpse: 'bg-gradient-to-br from-lime-100 to-green-200 text-lime-700',
+    memory: 'bg-gradient-to-br from-indigo-100 to-blue-200 text-indigo-700',
+    caption: 'bg-gradient-to-br from-orange-100 to-amber-200 text-orange-700',
+    showdown: 'bg-gradient-to-br from-red-100 to-rose-200 text-red-700',
   };
   return (
     <button
@@ -311,6 +331,54 @@ function ShiritoriModeSettingsSection({
   );
 }
 
+// お題カテゴリの選択（クイズとエセ芸術家で共通）
+function PromptCategorySelector({
+  selected,
+  disabled,
+  onChange,
+}: {
+  selected: QuizPromptCategory[];
+  disabled: boolean;
+  onChange: (next: QuizPromptCategory[]) => void;
+}) {
+  return (
+    <div className="rounded-xl border border-cyan-200 bg-cyan-50/50 p-4 space-y-3">
+      <p className="text-sm font-semibold text-cyan-700">📚 お題カテゴリ</p>
+      <p className="text-xs text-cyan-600">選択しない場合は全カテゴリから出題されます</p>
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(QUIZ_CATEGORY_LABELS) as QuizPromptCategory[]).map((category) => {
+          const isSelected = selected.includes(category);
+          return (
+            <button
+              key={category}
+              type="button"
+              disabled={disabled}
+              onClick={() => onChange(isSelected ? selected.filter((c) => c !== category) : [...selected, category])}
+              className={`rounded-full px-3 py-1 text-sm font-semibold transition ${
+                isSelected
+                  ? 'bg-cyan-600 text-white'
+                  : 'bg-white text-gray-700 hover:bg-cyan-100'
+              } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              {QUIZ_CATEGORY_LABELS[category]}
+            </button>
+          );
+        })}
+      </div>
+      {selected.length > 0 && (
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => onChange([])}
+          className="text-xs text-cyan-600 hover:text-cyan-800 underline"
+        >
+          選択をクリア
+        </button>
+      )}
+    </div>
+  );
+}
+
 function QuizModeSettingsSection({
   value,
   disabled,
@@ -469,48 +537,53 @@ function QuizModeSettingsSection({
         />
       </div>
 
-      {/* カテゴリ選択 */}
-      <div className="rounded-xl border border-cyan-200 bg-cyan-50/50 p-4 space-y-3">
-        <p className="text-sm font-semibold text-cyan-700">📚 お題カテゴリ</p>
-        <p className="text-xs text-cyan-600">選択しない場合は全カテゴリから出題されます</p>
-        <div className="flex flex-wrap gap-2">
-          {(Object.keys(QUIZ_CATEGORY_LABELS) as QuizPromptCategory[]).map((category) => {
-            const isSelected = value.selectedCategories?.includes(category) ?? false;
-            return (
-              <button
-                key={category}
-                type="button"
-                disabled={disabled}
-                onClick={() => {
-                  const current = value.selectedCategories ?? [];
-                  const next = isSelected
-                    ? current.filter((c) => c !== category)
-                    : [...current, category];
-                  onChange({ selectedCategories: next });
-                }}
-                className={`rounded-full px-3 py-1 text-sm font-semibold transition ${
-                  isSelected
-                    ? 'bg-cyan-600 text-white'
-                    : 'bg-white text-gray-700 hover:bg-cyan-100'
-                } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
-              >
-                {QUIZ_CATEGORY_LABELS[category]}
-              </button>
-            );
-          })}
-        </div>
-        {(value.selectedCategories?.length ?? 0) > 0 && (
-          <button
-            type="button"
+      {/* チーム戦 */}
+      <div className="rounded-xl border border-rose-200 bg-rose-50/50 p-4 space-y-3">
+        <label className="flex items-center justify-between text-sm font-semibold text-rose-700">
+          <span>🚩 チーム戦</span>
+          <input
+            type="checkbox"
+            checked={value.teamMode ?? false}
             disabled={disabled}
-            onClick={() => onChange({ selectedCategories: [] })}
-            className="text-xs text-cyan-600 hover:text-cyan-800 underline"
-          >
-            選択をクリア
-          </button>
+            onChange={(e) => onChange({ teamMode: e.target.checked })}
+            className="h-5 w-5 accent-rose-600"
+          />
+        </label>
+        {value.teamMode && (
+          <div className="grid gap-3 sm:grid-cols-2">
+            <SettingField
+              label="チーム数"
+              value={value.teamCount ?? 2}
+              min={2}
+              max={QUIZ_TEAM_LABELS.length}
+              onChange={(v) => onChange({ teamCount: Number(v) })}
+              disabled={disabled}
+              suffix="チーム"
+            />
+            <SettingField
+              label="回答ルール"
+              value={value.teamAnswerRule ?? 'open'}
+              options={[
+                { label: '全員が回答できる', value: 'open' },
+                { label: '親のチームだけ回答', value: 'own' },
+                { label: 'スティールあり', value: 'steal' },
+              ]}
+              onChange={(v) => onChange({ teamAnswerRule: v as QuizTeamAnswerRule })}
+              disabled={disabled}
+            />
+          </div>
+        )}
+        {value.teamMode && value.teamAnswerRule === 'steal' && (
+          <p className="text-xs text-rose-600">親と違うチームが先に当てると、得点を横取りしてラウンド終了</p>
         )}
       </div>
 
+      <PromptCategorySelector
+        selected={value.selectedCategories ?? []}
+        disabled={disabled}
+        onChange={(selectedCategories) => onChange({ selectedCategories })}
+      />
+
       {/* Advanced Settings Toggle */}
       <button
         type="button"
@@ -571,6 +644,484 @@ function QuizModeSettingsSection({
   );
 }
 
+function CollabModeSettingsSection({
+  value,
+  disabled,
+  onChange,
+}: {
+  value: CollabModeSettings;
+  disabled: boolean;
+  onChange: (next: Partial<CollabModeSettings>) => void;
+}) {
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <SettingField
+          label="描画時間"
+          value={value.drawingTimeSec}
+          min={30}
+          max={600}
+          onChange={(v) => onChange({ drawingTimeSec: Number(v) })}
+          disabled={disabled}
+          suffix="秒"
+        />
+      </div>
+      <div className="rounded-xl border border-sky-200 bg-sky-50/50 p-4 space-y-3">
+        <label className="flex items-center justify-between text-sm font-semibold text-sky-700">
+          <span>🎨 自分の色だけで描く</span>
+          <input
+            type="checkbox"
+            checked={value.lockColor}
+            disabled={disabled}
+            onChange={(e) => onChange({ lockColor: e.target.checked })}
+            className="h-5 w-5 accent-sky-600"
+          />
+        </label>
+        <label className="flex items-center justify-between text-sm font-semibold text-sky-700">
+          <span>🧩 キャンバスを人数分に区切る</span>
+          <input
+            type="checkbox"
+            checked={value.splitRegions}
+            disabled={disabled}
+            onChange={(e) => onChange({ splitRegions: e.target.checked })}
+            className="h-5 w-5 accent-sky-600"
+          />
+        </label>
+        {value.splitRegions && (
+          <p className="text-xs text-sky-600">それぞれ自分に割り当てられた枠の中だけに描けます</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ImposterModeSettingsSection({
+  value,
+  disabled,
+  onChange,
+}: {
+  value: ImposterModeSettings;
+  disabled: boolean;
+  onChange: (next: Partial<ImposterModeSettings>) => void;
+}) {
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <SettingField
+          label="周回数"
+          value={value.rounds}
+          min={1}
+          max={3}
+          onChange={(v) => onChange({ rounds: Number(v) })}
+          disabled={disabled}
+          suffix="周"
+        />
+        <SettingField
+          label="1画の制限時間"
+          value={value.strokeTimeSec}
+          min={5}
+          max={60}
+          onChange={(v) => onChange({ strokeTimeSec: Number(v) })}
+          disabled={disabled}
+          suffix="秒"
+        />
+        <SettingField
+          label="投票時間"
+          value={value.voteTimeSec}
+          min={15}
+          max={180}
+          onChange={(v) => onChange({ voteTimeSec: Number(v) })}
+          disabled={disabled}
+          suffix="秒"
+        />
+        <SettingField
+          label="お題当ての時間"
+          value={value.guessTimeSec}
+          min={10}
+          max={120}
+          onChange={(v) => onChange({ guessTimeSec: Number(v) })}
+          disabled={disabled}
+          suffix="秒"
+        />
+      </div>
+      <p className="text-xs text-gray-500">3人以上で遊べます。線は自分のプレイヤーカラーで描かれます</p>
+      <PromptCategorySelector
+        selected={value.selectedCategories}
+        disabled={disabled}
+        onChange={(selectedCategories) => onChange({ selectedCategories })}
+      />
+    </div>
+  );
+}
+
+function CorpseModeSettingsSection({
+  value,
+  disabled,
+  onChange,
+}: {
+  value: CorpseModeSettings;
+  disabled: boolean;
+  onChange: (next: Partial<CorpseModeSettings>) => void;
+}) {
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <SettingField
+          label="描画時間"
+          value={value.drawingTimeSec}
+          min={20}
+          max={300}
+          onChange={(v) => onChange({ drawingTimeSec: Number(v) })}
+          disabled={disabled}
+          suffix="秒"
+        />
+        <SettingField
+          label="段の数"
+          value={value.segmentCount}
+          min={2}
+          max={6}
+          onChange={(v) => onChange({ segmentCount: Number(v) })}
+          disabled={disabled}
+          suffix="段"
+        />
+        <SettingField
+          label="次の人に見せる端の高さ"
+          value={value.stripHeightPx}
+          min={10}
+          max={120}
+          onChange={(v) => onChange({ stripHeightPx: Number(v) })}
+          disabled={disabled}
+          suffix="px"
+        />
+      </div>
+      {value.segmentCount === 3 && <p className="text-xs text-gray-500">3段のときは上から頭・胴体・脚を描きます</p>}
+    </div>
+  );
+}
+
+function MemoryModeSettingsSection({
+  value,
+  disabled,
+  onChange,
+}: {
+  value: MemoryModeSettings;
+  disabled: boolean;
+  onChange: (next: Partial<MemoryModeSettings>) => void;
+}) {
+  return (
+    <div className="grid gap-3 sm:grid-cols-3">
+      <SettingField
+        label="最初の絵の描画時間"
+        value={value.firstDrawingTimeSec}
+        min={20}
+        max={300}
+        onChange={(v) => onChange({ firstDrawingTimeSec: Number(v) })}
+        disabled={disabled}
+        suffix="秒"
+      />
+      <SettingField
+        label="絵を見られる時間"
+        value={value.viewTimeSec}
+        min={1}
+        max={20}
+        onChange={(v) => onChange({ viewTimeSec: Number(v) })}
+        disabled={disabled}
+        suffix="秒"
+      />
+      <SettingField
+        label="描き写す時間"
+        value={value.drawingTimeSec}
+        min={20}
+        max={300}
+        onChange={(v) => onChange({ drawingTimeSec: Number(v) })}
+        disabled={disabled}
+        suffix="秒"
+      />
+    </div>
+  );
+}
+
+function CaptionModeSettingsSection({
+  value,
+  disabled,
+  onChange,
+}: {
+  value: CaptionModeSettings;
+  disabled: boolean;
+  onChange: (next: Partial<CaptionModeSettings>) => void;
+}) {
+  const isPlayerSource = value.promptSource === 'player';
+
+  return (
+    <div className="space-y-4">
+      {/* お題の出し方 */}
+      <div className="rounded-xl border border-orange-200 bg-orange-50/50 p-4 space-y-3">
+        <p className="text-sm font-semibold text-orange-700">🖼️ キャプションを付けるもの</p>
+        <div className="grid gap-2 sm:grid-cols-2">
+          <button
+            type="button"
+            disabled={disabled}
+            onClick={() => onChange({ promptSource: 'player' })}
+            className={`rounded-lg p-3 text-left transition ${
+              isPlayerSource
+                ? 'bg-orange-500 text-white'
+                : 'bg-white text-gray-700 hover:bg-orange-100'
+            } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+          >
+            <span className="font-bold block">プレイヤーの絵</span>
+            <span className="text-xs opacity-80">1人ずつ順番に描く</span>
+          </button>
+          <button
+            type="button"
+            disabled={disabled}
+            onClick={() => onChange({ promptSource: 'deck' })}
+            className={`rounded-lg p-3 text-left transition ${
+              !isPlayerSource
+                ? 'bg-orange-500 text-white'
+                : 'bg-white text-gray-700 hover:bg-orange-100'
+            } ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+          >
+            <span className="font-bold block">お題カード</span>
+            <span className="text-xs opacity-80">クイズのお題に全員で付ける</span>
+          </button>
+        </div>
+      </div>
+      <div className="grid gap-3 sm:grid-cols-2">
+        <SettingField
+          label="ラウンド数"
+          value={value.rounds}
+          min={1}
+          max={10}
+          onChange={(v) => onChange({ rounds: Number(v) })}
+          disabled={disabled}
+          suffix="回"
+        />
+        {isPlayerSource && (
+          <SettingField
+            label="描画時間"
+            value={value.drawingTimeSec}
+            min={20}
+            max={300}
+            onChange={(v) => onChange({ drawingTimeSec: Number(v) })}
+            disabled={disabled}
+            suffix="秒"
+          />
+        )}
+        <SettingField
+          label="キャプションを書く時間"
+          value={value.captionTimeSec}
+          min={15}
+          max={180}
+          onChange={(v) => onChange({ captionTimeSec: Number(v) })}
+          disabled={disabled}
+          suffix="秒"
+        />
+        <SettingField
+          label="投票時間"
+          value={value.voteTimeSec}
+          min={10}
+          max={120}
+          onChange={(v) => onChange({ voteTimeSec: Number(v) })}
+          disabled={disabled}
+          suffix="秒"
+        />
+        <SettingField
+          label="結果発表の時間"
+          value={value.revealTimeSec}
+          min={3}
+          max={30}
+          onChange={(v) => onChange({ revealTimeSec: Number(v) })}
+          disabled={disabled}
+          suffix="秒"
+        />
+        <SettingField
+          label="1位のボーナス"
+          value={value.winnerBonus}
+          min={0}
+          max={10}
+          onChange={(v) => onChange({ winnerBonus: Number(v) })}
+          disabled={disabled}
+          suffix="点"
+        />
+      </div>
+      <p className="text-xs text-gray-500">3人以上で遊べます。1票ごとに1点、最多得票のキャプションにはボーナスが入ります</p>
+      <PromptCategorySelector
+        selected={value.selectedCategories}
+        disabled={disabled}
+        onChange={(selectedCategories) => onChange({ selectedCategories })}
+      />
+    </div>
+  );
+}
+
+function ShowdownModeSettingsSection({
+  value,
+  disabled,
+  onChange,
+}: {
+  value: ShowdownModeSettings;
+  disabled: boolean;
+  onChange: (next: Partial<ShowdownModeSettings>) => void;
+}) {
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <SettingField
+          label="ラウンド数"
+          value={value.rounds}
+          min={1}
+          max={10}
+          onChange={(v) => onChange({ rounds: Number(v) })}
+          disabled={disabled}
+          suffix="回"
+        />
+        <SettingField
+          label="描画時間"
+          value={value.drawingTimeSec}
+          min={10}
+          max={120}
+          onChange={(v) => onChange({ drawingTimeSec: Number(v) })}
+          disabled={disabled}
+          suffix="秒"
+        />
+        <SettingField
+          label="審査時間"
+          value={value.judgingTimeSec}
+          min={15}
+          max={180}
+          onChange={(v) => onChange({ judgingTimeSec: Number(v) })}
+          disabled={disabled}
+          suffix="秒"
+        />
+        <SettingField
+          label="結果発表の時間"
+          value={value.revealTimeSec}
+          min={3}
+          max={30}
+          onChange={(v) => onChange({ revealTimeSec: Number(v) })}
+          disabled={disabled}
+          suffix="秒"
+        />
+      </div>
+      <div className="rounded-xl border border-red-200 bg-red-50/50 p-4 space-y-3">
+        <label className="flex items-center justify-between text-sm font-semibold text-red-700">
+          <span>🔍 誰が描いたか当てるとボーナス</span>
+          <input
+            type="checkbox"
+            checked={value.guessAuthor}
+            disabled={disabled}
+            onChange={(e) => onChange({ guessAuthor: e.target.checked })}
+            className="h-5 w-5 accent-red-600"
+          />
+        </label>
+        {value.guessAuthor && (
+          <SettingField
+            label="1枚当てるごとの点"
+            value={value.guessBonus}
+            min={1}
+            max={5}
+            onChange={(v) => onChange({ guessBonus: Number(v) })}
+            disabled={disabled}
+            suffix="点"
+          />
+        )}
+      </div>
+      <p className="text-xs text-gray-500">3人以上で遊べます。審査では上位3枚に 3・2・1 点を付けます</p>
+      <PromptCategorySelector
+        selected={value.selectedCategories}
+        disabled={disabled}
+        onChange={(selectedCategories) => onChange({ selectedCategories })}
+      />
+    </div>
+  );
+}
+
+// 共通ルールをかけないモード（みんなで1枚を描く・1画ずつ描く）
+const MODIFIER_FREE_MODES: GameMode[] = ['collab', 'imposter'];
+
+const MODIFIER_TOGGLES: { key: 'blindDrawing' | 'limitedInk' | 'restrictedPalette' | 'mirrored' | 'oneStroke'; label: string }[] = [
+  { key: 'blindDrawing', label: '🙈 見えないまま描く' },
+  { key: 'limitedInk', label: '🖋️ インク制限' },
+  { key: 'restrictedPalette', label: '🎨 色をランダムに絞る' },
+  { key: 'mirrored', label: '🪞 左右反転キャンバス' },
+  { key: 'oneStroke', label: '✍️ 一筆書き' },
+];
+
+function ModifiersSection({
+  value,
+  disabled,
+  onChange,
+}: {
+  value: GameModifiers;
+  disabled: boolean;
+  onChange: (next: Partial<GameModifiers>) => void;
+}) {
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-2 sm:grid-cols-2">
+        {MODIFIER_TOGGLES.map(({ key, label }) => (
+          <label
+            key={key}
+            className="flex items-center justify-between rounded-xl border border-gray-200 bg-white px-3 py-2 text-sm font-semibold text-gray-700"
+          >
+            <span>{label}</span>
+            <input
+              type="checkbox"
+              checked={value[key]}
+              disabled={disabled}
+              onChange={(e) => onChange({ [key]: e.target.checked })}
+              className="h-5 w-5 accent-primary-600"
+            />
+          </label>
+        ))}
+      </div>
+      {(value.limitedInk || value.restrictedPalette) && (
+        <div className="grid gap-3 sm:grid-cols-2">
+          {value.limitedInk && (
+            <SettingField
+              label="インクの量（線の長さ）"
+              value={value.inkLimit}
+              min={500}
+              max={20000}
+              step={500}
+              onChange={(v) => onChange({ inkLimit: Number(v) })}
+              disabled={disabled}
+              suffix="px"
+            />
+          )}
+          {value.restrictedPalette && (
+            <SettingField
+              label="使える色の数"
+              value={value.paletteSize}
+              min={1}
+              max={8}
+              onChange={(v) => onChange({ paletteSize: Number(v) })}
+              disabled={disabled}
+              suffix="色"
+            />
+          )}
+        </div>
+      )}
+      <p className="text-xs text-gray-500">
+        インク制限・一筆書きではバケツとスタンプが使えません。色はゲーム開始時に全員共通で選ばれます
+      </p>
+    </div>
+  );
+}
+
+const SETTINGS_TITLES: Record<GameMode, string> = {
+  normal: 'ノーマル設定',
+  animation: 'アニメーション設定',
+  shiritori: 'しりとり設定',
+  quiz: 'クイズ設定',
+  collab: 'みんなでお絵描き設定',
+  imposter: 'エセ芸術家設定',
+  corpse: '合体お絵描き設定',
+  memory: '記憶リレー設定',
+  caption: 'キャプション大喜利設定',
+  showdown: '早描き対決設定',
+};
+
 export function ModeSelectionPanel({ settings, isHost, onSelectMode, onUpdateSettings }: ModeSelectionPanelProps) {
   const selectedMode = settings.gameMode;
 
@@ -622,17 +1173,67 @@ export function ModeSelectionPanel({ settings, isHost, onSelectMode, onUpdateSet
           disabled={!isHost}
           onSelect={() => onSelectMode('quiz')}
         />
+        <ModeCard
+          mode="collab"
+          title="みんなでお絵描き"
+          description="全員で1枚のキャンバスに同時に描く。色や範囲のしばりも選べます。"
+          badge="Together"
+          selected={selectedMode === 'collab'}
+          disabled={!isHost}
+          onSelect={() => onSelectMode('collab')}
+        />
+        <ModeCard
+          mode="imposter"
+          title="エセ芸術家"
+          description="お題を知らない1人が紛れ込む。1画ずつ描いて偽物を見破ろう。"
+          badge="Bluff"
+          selected={selectedMode === 'imposter'}
+          disabled={!isHost}
+          onSelect={() => onSelectMode('imposter')}
+        />
+        <ModeCard
+          mode="corpse"
+          title="合体お絵描き"
+          description="1枚の絵を段に分けてリレー。前の段は端しか見えず、最後に合体！"
+          badge="Stitch"
+          selected={selectedMode === 'corpse'}
+          disabled={!isHost}
+          onSelect={() => onSelectMode('corpse')}
+        />
+        <ModeCard
+          mode="memory"
+          title="記憶リレー"
+          description="前の人の絵を数秒だけ見て、記憶で描き写す。最後は元の絵と見比べ！"
+          badge="Recall"
+          selected={selectedMode === 'memory'}
+          disabled={!isHost}
+          onSelect={() => onSelectMode('memory')}
+        />
+        <ModeCard
+          mode="caption"
+          title="キャプション大喜利"
+          description="絵やお題にひと言を付けて、誰が書いたか伏せたまま投票。"
+          badge="Words"
+          selected={selectedMode === 'caption'}
+          disabled={!isHost}
+          onSelect={() => onSelectMode('caption')}
+        />
+        <ModeCard
+          mode="showdown"
+          title="早描き対決"
+          description="全員が同じお題を一斉に早描き。匿名で順位を付けて競おう。"
+          badge="Versus"
+          selected={selectedMode === 'showdown'}
+          disabled={!isHost}
+          onSelect={() => onSelectMode('showdown')}
+        />
       </div>
 
       <div className="mt-6 rounded-2xl border border-gray-100 bg-gray-50/70 p-5">
         <div className="mb-4 flex items-center justify-between">
           <div>
             <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">Settings</p>
-            <h3 className="text-lg font-bold text-gray-900">
-              {selectedMode === 'normal' ? 'ノーマル設定' : 
-               selectedMode === 'animation' ? 'アニメーション設定' : 
-               selectedMode === 'shiritori' ? 'しりとり設定' : 'クイズ設定'}
-            </h3>
+            <h3 className="text-lg font-bold text-gray-900">{SETTINGS_TITLES[selectedMode]}</h3>
           </div>
           {!isHost && <span className="text-xs font-semibold text-gray-500">ホストが変更します</span>}
         </div>
@@ -684,7 +1285,97 @@ export function ModeSelectionPanel({ settings, isHost, onSelectMode, onUpdateSet
             }
           />
         )}
+
+        {selectedMode === 'collab' && (
+          <CollabModeSettingsSection
+            value={settings.collabSettings}
+            disabled={!isHost}
+            onChange={(next) =>
+              onUpdateSettings({
+                collabSettings: { ...settings.collabSettings, ...next },
+              })
+            }
+          />
+        )}
+
+        {selectedMode === 'imposter' && (
+          <ImposterModeSettingsSection
+            value={settings.imposterSettings}
+            disabled={!isHost}
+            onChange={(next) =>
+              onUpdateSettings({
+                imposterSettings: { ...settings.imposterSettings, ...next },
+              })
+            }
+          />
+        )}
+
+        {selectedMode === 'corpse' && (
+          <CorpseModeSettingsSection
+            value={settings.corpseSettings}
+            disabled={!isHost}
+            onChange={(next) =>
+              onUpdateSettings({
+                corpseSettings: { ...settings.corpseSettings, ...next },
+              })
+            }
+          />
+        )}
+
+        {selectedMode === 'memory' && (
+          <MemoryModeSettingsSection
+            value={settings.memorySettings}
+            disabled={!isHost}
+            onChange={(next) =>
+              onUpdateSettings({
+                memorySettings: { ...settings.memorySettings, ...next },
+              })
+            }
+          />
+        )}
+
+        {selectedMode === 'caption' && (
+          <CaptionModeSettingsSection
+            value={settings.captionSettings}
+            disabled={!isHost}
+            onChange={(next) =>
+              onUpdateSettings({
+                captionSettings: { ...settings.captionSettings, ...next },
+              })
+            }
+          />
+        )}
+
+        {selectedMode === 'showdown' && (
+          <ShowdownModeSettingsSection
+            value={settings.showdownSettings}
+            disabled={!isHost}
+            onChange={(next) =>
+              onUpdateSettings({
+                showdownSettings: { ...settings.showdownSettings, ...next },
+              })
+            }
+          />
+        )}
       </div>
+
+      {!MODIFIER_FREE_MODES.includes(selectedMode) && (
+        <div className="mt-4 rounded-2xl border border-gray-100 bg-gray-50/70 p-5">
+          <div className="mb-4">
+            <p className="text-xs font-semibold uppercase tracking-wide text-gray-500">Modifiers</p>
+            <h3 className="text-lg font-bold text-gray-900">共通ルール</h3>
+          </div>
+          <ModifiersSection
+            value={settings.modifiers}
+            disabled={!isHost}
+            onChange={(next) =>
+              onUpdateSettings({
+                modifiers: { ...settings.modifiers, ...next },
+              })
+            }
+          />
+        </div>
+      )}
     </div>
   );
 }
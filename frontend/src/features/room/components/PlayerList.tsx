@@ -8,9 +8,22 @@ interface PlayerListProps {
   currentPlayerId: string | null;
   onReorder?: (playerIds: string[]) => void;
   onChangeColor?: (color: string) => void;
+  // ホストのみ渡す（他のプレイヤーの行に操作ボタンを出す）
+  onKick?: (playerId: string) => void;
+  onBan?: (playerId: string) => void;
+  onTransferHost?: (playerId: string) => void;
 }
 
-export function PlayerList({ players, hostId, currentPlayerId, onReorder, onChangeColor }: PlayerListProps) {
+export function PlayerList({
+  players,
+  hostId,
+  currentPlayerId,
+  onReorder,
+  onChangeColor,
+  onKick,
+  onBan,
+  onTransferHost,
+}: PlayerListProps) {
   const canReorder = onReorder && players.length > 1;
   const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
 
@@ -48,6 +61,7 @@ export function PlayerList({ players, hostId, currentPlayerId, onReorder, onChan
         const isCurrentPlayer = player.id === currentPlayerId;
         const textColorClass = isColorDark(player.color) ? 'text-white' : 'text-gray-800';
         const isPickerOpenForThisRow = isCurrentPlayer && !!anchorEl;
+        const canModerate = !isCurrentPlayer && player.id !== hostId;
 
         return (
           <li
@@ -115,6 +129,38 @@ export function PlayerList({ players, hostId, currentPlayerId, onReorder, onChan
               </div>
             </div>
             <div className="flex items-center gap-2">
+              {/* ホスト操作ボタン */}
+              {canModerate && (onTransferHost || onKick || onBan) && (
+                <div className="flex items-center gap-1 mr-1">
+                  {onTransferHost && (
+                    <button
+                      onClick={() => onTransferHost(player.id)}
+                      className="w-7 h-7 flex items-center justify-center rounded bg-gray-100 hover:bg-accent-100 transition-colors text-sm"
+                      title="ホストを譲る"
+                    >
+                      👑
+                    </button>
+                  )}
+                  {onKick && (
+                    <button
+                      onClick={() => onKick(player.id)}
+                      className="w-7 h-7 flex items-center justify-center rounded bg-gray-100 hover:bg-orange-100 transition-colors text-sm"
+                      title="キック（再参加は可能）"
+                    >
+                      👋
+                    </button>
+                  )}
+                  {onBan && (
+                    <button
+                      onClick={() => onBan(player.id)}
+                      className="w-7 h-7 flex items-center justify-center rounded bg-gray-100 hover:bg-red-100 transition-colors text-sm"
+                      title="追放（このルームに再参加できなくなる）"
+                    >
+                      🚫
+                    </button>
+                  )}
+                </div>
+              )}
               {/* 並び替えボタン（ホストのみ表示） */}
               {canReorder && (
                 <div className="flex flex-col gap-0.5 mr-2">
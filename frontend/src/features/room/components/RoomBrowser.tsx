@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { GameMode, PublicRoomSummary } from '@/shared/types';
+import { listPublicRooms } from '@/shared/lib/api';
+
+const REFRESH_INTERVAL_MS = 10000;
+
+const MODE_LABELS: Record<GameMode, string> = {
+  normal: 'ノーマル',
+  animation: 'アニメーション',
+  shiritori: '絵しりとり',
+  quiz: 'クイズ',
+  collab: 'みんなでお絵描き',
+  imposter: 'エセ芸術家',
+  corpse: '合体お絵描き',
+  memory: '記憶リレー',
+  caption: 'キャプション大喜利',
+  showdown: '早描き対決',
+};
+
+interface RoomBrowserProps {
+  onJoin: (roomId: string) => void;
+}
+
+// 参加者を募集中の公開ルーム一覧
+export function RoomBrowser({ onJoin }: RoomBrowserProps) {
+  const [rooms, setRooms] = useState<PublicRoomSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [failed, setFailed] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      const { rooms } = await listPublicRooms();
+      setRooms(rooms);
+      setFailed(false);
+    } catch {
+      setFailed(true);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  return (
+    <div className="glass rounded-2xl p-6 shadow-pop animate-scale-in" style={{ animationDelay: '0.1s' }}>
+      <div className="mb-3 flex items-center justify-between">
+        <h2 className="flex items-center gap-2 text-lg font-bold text-gray-800">
+          <span>🌐</span> 公開ルーム
+        </h2>
+        <button
+          onClick={refresh}
+          className="rounded-lg border border-gray-200 bg-white px-3 py-1 text-xs font-semibold text-gray-600 shadow-sm transition hover:shadow"
+        >
+          🔄 更新
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">読み込み中...</p>
+      ) : failed ? (
+        <p className="text-sm text-red-600">ルーム一覧を取得できませんでした</p>
+      ) : rooms.length === 0 ? (
+        <p className="text-sm text-gray-500">募集中のルームはありません</p>
+      ) : (
+        <ul className="max-h-72 space-y-2 overflow-y-auto">
+          {rooms.map((room) => {
+            const full = room.playerCount >= room.maxPlayers;
+            return (
+              <li key={room.roomId}>
+                <button
+                  onClick={() => onJoin(room.roomId)}
+                  disabled={full}
+                  className="flex w-full items-center justify-between rounded-xl border border-gray-200 bg-white px-4 py-3 text-left
+                           transition hover:border-primary-300 hover:shadow disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  <div>
+                    <div className="font-bold text-gray-800">
+                      {room.hasPassword && <span title="パスワード付き">🔒 </span>}
+                      {room.hostName} のルーム
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {MODE_LABELS[room.gameMode]} ・ <span className="font-mono">{room.roomId}</span>
+                    </div>
+                  </div>
+                  <span className={`text-sm font-bold ${full ? 'text-red-500' : 'text-primary-600'}`}>
+                    {full ? '満員' : `${room.playerCount}/${room.maxPlayers}人`}
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import type { Spectator } from '@/shared/types';
+
+interface SpectatorListProps {
+  spectators: Spectator[];
+  currentPlayerId: string | null;
+  // プレイヤーにする（ホストは全員分、観戦者は自分の分だけ渡される）
+  canPromote: (spectatorId: string) => boolean;
+  onPromote: (spectatorId: string) => void;
+  onKick?: (spectatorId: string) => void;
+}
+
+export function SpectatorList({ spectators, currentPlayerId, canPromote, onPromote, onKick }: SpectatorListProps) {
+  if (spectators.length === 0) return null;
+
+  return (
+    <div className="mt-5">
+      <h3 className="mb-2 flex items-center gap-2 text-sm font-bold text-gray-700">
+        <span>👀</span> 観戦者 ({spectators.length})
+      </h3>
+      <ul className="space-y-2">
+        {spectators.map((spectator) => {
+          const isCurrentPlayer = spectator.id === currentPlayerId;
+          return (
+            <li
+              key={spectator.id}
+              className={`flex items-center justify-between rounded-lg px-3 py-2 text-sm ${
+                isCurrentPlayer ? 'bg-primary-50 border border-primary-200' : 'bg-gray-50 border border-gray-100'
+              }`}
+            >
+              <span className="flex items-center gap-2 font-semibold text-gray-700">
+                {spectator.name}
+                {isCurrentPlayer && (
+                  <span className="text-xs font-semibold text-primary-600 bg-primary-100 px-1.5 py-0.5 rounded">あなた</span>
+                )}
+                {!spectator.connected && <span className="text-xs text-red-500">切断中</span>}
+              </span>
+              <div className="flex items-center gap-1">
+                {canPromote(spectator.id) && (
+                  <button
+                    onClick={() => onPromote(spectator.id)}
+                    className="rounded-md bg-primary-100 px-2 py-1 text-xs font-semibold text-primary-700 transition-colors hover:bg-primary-200"
+                  >
+                    {isCurrentPlayer ? '🙋 プレイヤーとして参加' : '🙋 参加させる'}
+                  </button>
+                )}
+                {onKick && !isCurrentPlayer && (
+                  <button
+                    onClick={() => onKick(spectator.id)}
+                    className="w-7 h-7 flex items-center justify-center rounded bg-gray-100 hover:bg-orange-100 transition-colors"
+                    title="キック（再参加は可能）"
+                  >
+                    👋
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
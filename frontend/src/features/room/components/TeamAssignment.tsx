@@ -0,0 +1,73 @@
+import type { Player } from '@/shared/types';
+import { QUIZ_TEAM_LABELS } from '@/shared/types';
+
+interface TeamAssignmentProps {
+  players: Player[];
+  teamCount: number;
+  currentPlayerId: string | null;
+  // ホストのみ渡す
+  onAssign?: (playerId: string, team: number | null) => void;
+  onBalance?: () => void;
+}
+
+// クイズのチーム戦のチーム分け（未定のプレイヤーはゲーム開始時に人数の少ないチームへ入る）
+export function TeamAssignment({ players, teamCount, currentPlayerId, onAssign, onBalance }: TeamAssignmentProps) {
+  const teamOf = (player: Player) => (player.team !== undefined && player.team < teamCount ? player.team : null);
+  const unassigned = players.filter((p) => teamOf(p) === null);
+
+  const renderPlayer = (player: Player) => (
+    <li key={player.id} className="flex items-center justify-between gap-2 rounded-lg bg-white px-2 py-1 text-sm">
+      <span className="flex items-center gap-1.5 font-semibold text-gray-700">
+        <span className="h-3 w-3 rounded-full" style={{ backgroundColor: player.color }} />
+        {player.name}
+        {player.id === currentPlayerId && <span className="text-xs text-primary-600">（あなた）</span>}
+      </span>
+      {onAssign && (
+        <select
+          value={teamOf(player) ?? ''}
+          onChange={(e) => onAssign(player.id, e.target.value === '' ? null : Number(e.target.value))}
+          className="rounded-md border border-gray-200 px-1 py-0.5 text-xs"
+        >
+          <option value="">未定</option>
+          {QUIZ_TEAM_LABELS.slice(0, teamCount).map((label, team) => (
+            <option key={team} value={team}>
+              {label}
+            </option>
+          ))}
+        </select>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="mt-5">
+      <div className="mb-2 flex items-center justify-between">
+        <h3 className="flex items-center gap-2 text-sm font-bold text-gray-700">
+          <span>🚩</span> チーム分け
+        </h3>
+        {onBalance && (
+          <button
+            onClick={onBalance}
+            className="rounded-full bg-rose-100 px-3 py-1 text-xs font-semibold text-rose-700 transition hover:bg-rose-200"
+          >
+            🎲 自動で振り分け
+          </button>
+        )}
+      </div>
+      <div className="grid gap-2 sm:grid-cols-2">
+        {QUIZ_TEAM_LABELS.slice(0, teamCount).map((label, team) => (
+          <div key={team} className="rounded-xl border border-gray-200 bg-gray-50 p-2">
+            <p className="mb-1 text-xs font-bold text-gray-600">{label}</p>
+            <ul className="space-y-1">{players.filter((p) => teamOf(p) === team).map(renderPlayer)}</ul>
+          </div>
+        ))}
+      </div>
+      {unassigned.length > 0 && (
+        <div className="mt-2 rounded-xl border border-dashed border-gray-300 p-2">
+          <p className="mb-1 text-xs font-bold text-gray-500">未定（開始時に自動で振り分け）</p>
+          <ul className="space-y-1">{unassigned.map(renderPlayer)}</ul>
+        </div>
+      )}
+    </div>
+  );
+}
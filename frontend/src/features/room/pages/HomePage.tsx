@@ -1,6 +1,9 @@
 import { useState, useEffect } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
+import type { RoomVisibility } from '@/shared/types';
 import { createRoom } from '@/shared/lib/api';
+import { saveRoomPassword } from '@/shared/lib/websocket';
+import { RoomBrowser } from '@/features/room/components/RoomBrowser';
 
 export function HomePage() {
   const navigate = useNavigate();
@@ -10,6 +13,8 @@ export function HomePage() {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [lastRoom, setLastRoom] = useState<{ roomId: string; playerName: string } | null>(null);
+  const [visibility, setVisibility] = useState<RoomVisibility>('private');
+  const [password, setPassword] = useState('');
 
   // Check if there's a room to join from URL parameter
   const joinFromUrl = searchParams.get('join');
@@ -59,7 +64,11 @@ export function HomePage() {
     setError(null);
 
     try {
-      const { roomId } = await createRoom();
+      const { roomId } = await createRoom({ visibility, password: password || undefined });
+      // 作成者も同じパスワードで参加する
+      if (password) {
+        saveRoomPassword(roomId, password);
+      }
       const name = nickname.trim();
       // Store nickname in sessionStorage for use in lobby
       sessionStorage.setItem('playerName', name);
@@ -71,20 +80,23 @@ export function HomePage() {
     }
   };
 
-  const handleJoinRoom = () => {
+  const joinRoom = (roomId: string, spectate = false) => {
     if (!nickname.trim()) {
       setError('ニックネームを入力してください');
       return;
     }
+
+    const name = nickname.trim();
+    sessionStorage.setItem('playerName', name);
+    navigate(spectate ? `/room/${roomId}?spectate=1` : `/room/${roomId}`);
+  };
+
+  const handleJoinRoom = (spectate = false) => {
     if (!joinRoomId.trim()) {
       setError('ルームIDを入力してください');
       return;
     }
-
-    const name = nickname.trim();
-    const roomId = joinRoomId.trim().toUpperCase();
-    sessionStorage.setItem('playerName', name);
-    navigate(`/room/${roomId}`);
+    joinRoom(joinRoomId.trim().toUpperCase(), spectate);
   };
 
   const handleRejoin = () => {
@@ -183,7 +195,7 @@ export function HomePage() {
             {joinFromUrl ? (
               <>
                 <button
-                  onClick={handleJoinRoom}
+                  onClick={() => handleJoinRoom()}
                   className="w-full rounded-xl bg-gradient-to-r from-pink-600 to-pink-700 px-6 py-4 font-bold text-white 
                            shadow-[0_4px_14px_0_rgba(221,32,115,0.5)] hover:shadow-[0_6px_20px_rgba(221,32,115,0.7)] 
                            hover:from-pink-700 hover:to-pink-800
@@ -192,6 +204,12 @@ export function HomePage() {
                 >
                   <span className="text-lg">🎮</span> ルームに参加
                 </button>
+                <button
+                  onClick={() => handleJoinRoom(true)}
+                  className="w-full text-sm font-semibold text-gray-500 hover:text-gray-700 transition-colors"
+                >
+                  👀 観戦で参加
+                </button>
 
                 <div className="relative">
                   <div className="absolute inset-0 flex items-center">
@@ -228,6 +246,35 @@ export function HomePage() {
                   {loading ? '✨ 作成中...' : '🆕 ルームを作成'}
                 </button>
 
+                {/* 作成するルームの公開設定 */}
+                <div className="rounded-xl border-2 border-gray-100 bg-white/60 p-3 space-y-2">
+                  <div className="flex gap-2">
+                    {(['private', 'public'] as const).map((value) => (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() => setVisibility(value)}
+                        className={`flex-1 rounded-lg px-3 py-2 text-sm font-semibold transition ${
+                          visibility === value
+                            ? 'bg-primary-100 text-primary-700 ring-2 ring-primary-300'
+                            : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                        }`}
+                      >
+                        {value === 'private' ? '🔐 招待のみ' : '🌐 一覧に公開'}
+                      </button>
+                    ))}
+                  </div>
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="パスワード（任意）"
+                    maxLength={64}
+                    className="block w-full rounded-lg border-2 border-gray-200 px-4 py-2 text-sm bg-white
+                             focus:border-primary-400 focus:outline-none transition-all duration-200 placeholder:text-gray-400"
+                  />
+                </div>
+
                 <div className="relative">
                   <div className="absolute inset-0 flex items-center">
                     <div className="w-full border-t-2 border-gray-200" />
@@ -255,7 +302,7 @@ export function HomePage() {
                                transition-all duration-200 placeholder:text-gray-400"
                     />
                     <button
-                      onClick={handleJoinRoom}
+                      onClick={() => handleJoinRoom()}
                       className="rounded-xl bg-gradient-to-r from-blue-600 to-blue-700 
                                px-6 py-3 font-bold text-white 
                                shadow-[0_4px_14px_0_rgba(37,99,235,0.5)] hover:shadow-[0_6px_20px_rgba(37,99,235,0.7)]
@@ -265,12 +312,20 @@ export function HomePage() {
                       参加
                     </button>
                   </div>
+                  <button
+                    onClick={() => handleJoinRoom(true)}
+                    className="mt-2 text-sm font-semibold text-gray-500 hover:text-gray-700 transition-colors"
+                  >
+                    👀 観戦で参加
+                  </button>
                 </div>
               </>
             )}
           </div>
         </div>
 
+        {!joinFromUrl && <RoomBrowser onJoin={(roomId) => joinRoom(roomId)} />}
+
         {/* Practice button */}
         <button
           onClick={() => navigate('/practice')}
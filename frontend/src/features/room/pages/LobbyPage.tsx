@@ -1,10 +1,19 @@
 import { useEffect, useCallback, useRef, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import type { GameMode, Settings, LobbyChatItem } from '@/shared/types';
 import { useWebSocket } from '@/shared/hooks/useWebSocket';
+import {
+  getSessionToken,
+  clearSessionToken,
+  getClientId,
+  getRoomPassword,
+  saveRoomPassword,
+} from '@/shared/lib/websocket';
 import { useRoomStore } from '@/features/room/store/roomStore';
 import { useGameStore } from '@/features/game/store/gameStore';
 import { PlayerList } from '@/features/room/components/PlayerList';
+import { SpectatorList } from '@/features/room/components/SpectatorList';
+import { TeamAssignment } from '@/features/room/components/TeamAssignment';
 import { ModeSelectionPanel } from '@/features/room/components/ModeSelectionPanel';
 
 // 弾幕アイテム
@@ -147,13 +156,71 @@ function LobbyChatInput({ onSend }: { onSend: (text: string) => void }) {
   );
 }
 
+// パスワード付きルームの参加フォーム
+function RoomPasswordForm({
+  retry,
+  onSubmit,
+  onCancel,
+}: {
+  retry: boolean;
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+}) {
+  const [password, setPassword] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password) {
+      onSubmit(password);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm rounded-xl bg-white p-6 shadow-lg">
+        <h2 className="text-lg font-bold text-gray-800">🔒 パスワードが必要です</h2>
+        <p className="mt-1 text-sm text-gray-600">このルームに参加するにはパスワードを入力してください。</p>
+        {retry && <p className="mt-2 text-sm font-semibold text-red-600">パスワードが違います</p>}
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          maxLength={64}
+          autoFocus
+          className="mt-4 block w-full rounded-lg border-2 border-gray-200 px-4 py-2 focus:border-primary-400 focus:outline-none"
+        />
+        <div className="mt-4 flex gap-2">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex-1 rounded-lg bg-gray-200 px-4 py-2 font-semibold text-gray-700"
+          >
+            ホームに戻る
+          </button>
+          <button
+            type="submit"
+            disabled={!password}
+            className="flex-1 rounded-lg bg-gradient-to-r from-primary-500 to-primary-600 px-4 py-2 font-semibold text-white disabled:opacity-50"
+          >
+            参加
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
 export function LobbyPage() {
   const { roomId } = useParams<{ roomId: string }>();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const spectate = searchParams.get('spectate') === '1';
   const { connect, send, disconnect } = useWebSocket(roomId ?? null);
-  const { room, playerId, connected, error, reset, setSettings, lobbyChatMessages } = useRoomStore();
+  const { room, playerId, connected, error, reset, setSettings, lobbyChatMessages, passwordRequired, setPasswordRequired } =
+    useRoomStore();
   const { phase } = useGameStore();
   const hasJoinedRef = useRef(false);
+  const [passwordRetry, setPasswordRetry] = useState(false);
   const quizMaxWinnersManualRef = useRef(false);
 
   const playerName = sessionStorage.getItem('playerName');
@@ -178,7 +245,7 @@ export function LobbyPage() {
     }
 
     if (roomId) {
-      sessionStorage.removeItem(`playerId_${roomId}`);
+      clearSessionToken(roomId);
     }
 
     disconnect();
@@ -208,17 +275,29 @@ export function LobbyPage() {
     if (connected && roomId && playerName && !hasJoinedRef.current) {
       hasJoinedRef.current = true;
       
-      // Check if we have a saved playerId for this room (page reload)
-      const savedPlayerId = sessionStorage.getItem(`playerId_${roomId}`);
-      if (savedPlayerId) {
-        // Rejoin with existing playerId
-        send({ type: 'rejoin_room', payload: { roomId, playerId: savedPlayerId } });
+      // Check if we have a saved session for this room (page reload)
+      const savedToken = getSessionToken(roomId);
+      if (savedToken) {
+        // Rejoin the same seat with the session token
+        send({ type: 'rejoin_room', payload: { roomId, sessionToken: savedToken } });
       } else {
         // Join as new player
-        send({ type: 'join_room', payload: { roomId, playerName } });
+        const password = getRoomPassword(roomId) ?? undefined;
+        send({ type: 'join_room', payload: { roomId, playerName, clientId: getClientId(), password, spectate } });
       }
     }
-  }, [connected, roomId, playerName, playerId, send]);
+  }, [connected, roomId, playerName, playerId, send, spectate]);
+
+  const handleSubmitPassword = useCallback(
+    (password: string) => {
+      if (!roomId || !playerName) return;
+      saveRoomPassword(roomId, password);
+      setPasswordRequired(false);
+      setPasswordRetry(true);
+      send({ type: 'join_room', payload: { roomId, playerName, clientId: getClientId(), password, spectate } });
+    },
+    [playerName, roomId, send, setPasswordRequired, spectate]
+  );
 
   // Navigate to game when phase changes
   useEffect(() => {
@@ -259,8 +338,61 @@ export function LobbyPage() {
 
   const currentPlayer = room?.players.find((p) => p.id === playerId);
   const isHost = room?.hostId === playerId;
+  const isSpectator = room?.spectators?.some((s) => s.id === playerId) ?? false;
   const allReady = room?.players.every((p) => p.ready) ?? false;
-  const canStart = isHost && allReady && (room?.players.length ?? 0) >= 2;
+  // エセ芸術家・キャプション大喜利・早描き対決は3人から（サーバーのminPlayersと合わせる）
+  const gameMode = room?.settings.gameMode;
+  const minPlayers = gameMode === 'imposter' || gameMode === 'caption' || gameMode === 'showdown' ? 3 : 2;
+  const canStart = isHost && allReady && (room?.players.length ?? 0) >= minPlayers;
+
+  const handleKickPlayer = useCallback(
+    (targetId: string) => {
+      const target = [...(room?.players ?? []), ...(room?.spectators ?? [])].find((p) => p.id === targetId);
+      if (!target || !confirm(`${target.name} をキックしますか？`)) return;
+      send({ type: 'kick_player', payload: { playerId: targetId } });
+    },
+    [room, send]
+  );
+
+  const handleBanPlayer = useCallback(
+    (targetId: string) => {
+      const target = room?.players.find((p) => p.id === targetId);
+      if (!target || !confirm(`${target.name} を追放しますか？このルームには再参加できなくなります。`)) return;
+      send({ type: 'ban_player', payload: { playerId: targetId } });
+    },
+    [room, send]
+  );
+
+  const handleTransferHost = useCallback(
+    (targetId: string) => {
+      const target = room?.players.find((p) => p.id === targetId);
+      if (!target || !confirm(`${target.name} にホストを譲りますか？`)) return;
+      send({ type: 'transfer_host', payload: { playerId: targetId } });
+    },
+    [room, send]
+  );
+
+  const handlePromoteSpectator = useCallback(
+    (spectatorId: string) => {
+      send({ type: 'promote_spectator', payload: { playerId: spectatorId } });
+    },
+    [send]
+  );
+
+  const handleAssignTeam = useCallback(
+    (targetId: string, team: number | null) => {
+      send({ type: 'assign_team', payload: { playerId: targetId, team } });
+    },
+    [send]
+  );
+
+  const handleBalanceTeams = useCallback(() => {
+    send({ type: 'balance_teams', payload: {} });
+  }, [send]);
+
+  const handleToggleLock = useCallback(() => {
+    send({ type: 'set_room_locked', payload: { locked: !room?.locked } });
+  }, [room?.locked, send]);
 
   const handleReorderPlayers = useCallback(
     (playerIds: string[]) => {
@@ -364,6 +496,10 @@ export function LobbyPage() {
     );
   }
 
+  if (!room && passwordRequired) {
+    return <RoomPasswordForm retry={passwordRetry} onSubmit={handleSubmitPassword} onCancel={handleLeaveToHome} />;
+  }
+
   if (!room) {
     return (
       <div className="flex min-h-screen items-center justify-center">
@@ -408,7 +544,26 @@ export function LobbyPage() {
                   <span className="text-2xl">👥</span>
                   プレイヤー ({room.players.length}/{room.settings.maxPlayers})
                 </h2>
-                {isHost && <span className="rounded-full bg-primary-50 px-3 py-1 text-xs font-semibold text-primary-700">ホスト</span>}
+                <div className="flex items-center gap-2">
+                  {isHost ? (
+                    <button
+                      onClick={handleToggleLock}
+                      className={`rounded-full px-3 py-1 text-xs font-semibold transition ${
+                        room.locked
+                          ? 'bg-red-100 text-red-700 hover:bg-red-200'
+                          : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                      }`}
+                      title={room.locked ? 'クリックで新しい参加を受け付ける' : 'クリックで新しい参加を締め切る'}
+                    >
+                      {room.locked ? '🔒 ロック中' : '🔓 参加受付中'}
+                    </button>
+                  ) : (
+                    room.locked && (
+                      <span className="rounded-full bg-red-100 px-3 py-1 text-xs font-semibold text-red-700">🔒 ロック中</span>
+                    )
+                  )}
+                  {isHost && <span className="rounded-full bg-primary-50 px-3 py-1 text-xs font-semibold text-primary-700">ホスト</span>}
+                </div>
               </div>
               <p className="mb-3 text-xs text-gray-500">
                 💡 ▲▼ボタンでプレイヤーの順番を変更できます。アイコンをクリックで色を変更。
@@ -419,35 +574,62 @@ export function LobbyPage() {
                 currentPlayerId={playerId}
                 onReorder={handleReorderPlayers}
                 onChangeColor={(color) => send({ type: 'change_color', payload: { color } })}
+                onKick={isHost ? handleKickPlayer : undefined}
+                onBan={isHost ? handleBanPlayer : undefined}
+                onTransferHost={isHost ? handleTransferHost : undefined}
+              />
+              {room.settings.gameMode === 'quiz' && room.settings.quizSettings.teamMode && (
+                <TeamAssignment
+                  players={room.players}
+                  teamCount={room.settings.quizSettings.teamCount}
+                  currentPlayerId={playerId}
+                  onAssign={isHost ? handleAssignTeam : undefined}
+                  onBalance={isHost ? handleBalanceTeams : undefined}
+                />
+              )}
+              <SpectatorList
+                spectators={room.spectators ?? []}
+                currentPlayerId={playerId}
+                canPromote={(spectatorId) =>
+                  (isHost || spectatorId === playerId) && room.players.length < room.settings.maxPlayers
+                }
+                onPromote={handlePromoteSpectator}
+                onKick={isHost ? handleKickPlayer : undefined}
               />
 
-              <div className="mt-5 flex flex-col gap-3 md:flex-row">
-                <button
-                  onClick={handleToggleReady}
-                  className={`flex-1 rounded-xl px-6 py-4 font-bold shadow-md transition-all duration-300 transform hover:scale-[1.01] active:scale-95 ${
-                    currentPlayer?.ready
-                      ? 'bg-gradient-to-r from-green-500 to-green-600 text-white shadow-glow-sm hover:shadow-glow'
-                      : 'bg-gradient-to-r from-gray-200 to-gray-300 text-gray-700 hover:from-gray-300 hover:to-gray-400'
-                  }`}
-                >
-                  {currentPlayer?.ready ? '✓ 準備OK' : '👋 準備する'}
-                </button>
-
-                {isHost && (
+              {isSpectator ? (
+                <div className="mt-5 rounded-xl border border-gray-200 bg-gray-50 p-3 text-center text-sm font-semibold text-gray-600">
+                  👀 観戦中です。次のゲームから参加するには「プレイヤーとして参加」を押してください。
+                </div>
+              ) : (
+                <div className="mt-5 flex flex-col gap-3 md:flex-row">
                   <button
-                    onClick={handleStartGame}
-                    disabled={!canStart}
-                    className="flex-1 rounded-xl bg-gradient-to-r from-pink-600 to-pink-700 px-6 py-4 font-bold text-white shadow-[0_4px_14px_0_rgba(221,32,115,0.5)] transition-all duration-300 hover:translate-y-[-1px] hover:shadow-[0_10px_24px_rgba(221,32,115,0.45)] active:translate-y-0 disabled:cursor-not-allowed disabled:opacity-40"
+                    onClick={handleToggleReady}
+                    className={`flex-1 rounded-xl px-6 py-4 font-bold shadow-md transition-all duration-300 transform hover:scale-[1.01] active:scale-95 ${
+                      currentPlayer?.ready
+                        ? 'bg-gradient-to-r from-green-500 to-green-600 text-white shadow-glow-sm hover:shadow-glow'
+                        : 'bg-gradient-to-r from-gray-200 to-gray-300 text-gray-700 hover:from-gray-300 hover:to-gray-400'
+                    }`}
                   >
-                    🚀 ゲーム開始
+                    {currentPlayer?.ready ? '✓ 準備OK' : '👋 準備する'}
                   </button>
-                )}
-              </div>
+
+                  {isHost && (
+                    <button
+                      onClick={handleStartGame}
+                      disabled={!canStart}
+                      className="flex-1 rounded-xl bg-gradient-to-r from-pink-600 to-pink-700 px-6 py-4 font-bold text-white shadow-[0_4px_14px_0_rgba(221,32,115,0.5)] transition-all duration-300 hover:translate-y-[-1px] hover:shadow-[0_10px_24px_rgba(221,32,115,0.45)] active:translate-y-0 disabled:cursor-not-allowed disabled:opacity-40"
+                    >
+                      🚀 ゲーム開始
+                    </button>
+                  )}
+                </div>
+              )}
 
               {isHost && !canStart && (
                 <div className="mt-4 rounded-xl border border-accent-200 bg-accent-50 p-3 text-center text-sm font-semibold text-accent-700">
-                  {(room.players.length ?? 0) < 2
-                    ? '⏳ 2人以上必要です'
+                  {(room.players.length ?? 0) < minPlayers
+                    ? `⏳ ${minPlayers}人以上必要です`
                     : '⏳ 全員が準備完了するとゲームを開始できます'}
                 </div>
               )}
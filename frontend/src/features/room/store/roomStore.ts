@@ -1,19 +1,27 @@
 import { create } from 'zustand';
-import type { Room, Player, Settings, GameMode, LobbyChatItem } from '@/shared/types';
+import type { Room, Player, Spectator, Settings, GameMode, LobbyChatItem, RateLimitNotice } from '@/shared/types';
 
 interface RoomState {
   room: Room | null;
   playerId: string | null;
   connected: boolean;
   error: string | null;
+  rateLimitNotice: RateLimitNotice | null;
+  passwordRequired: boolean; // パスワード付きルームへの参加を断られた
   lobbyChatMessages: LobbyChatItem[];
   setRoom: (room: Room | null) => void;
-  setPlayers: (players: Player[]) => void;
+  setPlayers: (players: Player[], spectators: Spectator[]) => void;
   setSettings: (settings: Settings) => void;
   setGameMode: (mode: GameMode) => void;
+  setHostId: (hostId: string) => void;
+  setRoomLocked: (locked: boolean) => void;
+  setPresenterId: (presenterId: string | null) => void;
+  setPalette: (palette: string[] | null) => void;
   setPlayerId: (id: string) => void;
   setConnected: (connected: boolean) => void;
   setError: (error: string | null) => void;
+  setRateLimitNotice: (notice: RateLimitNotice | null) => void;
+  setPasswordRequired: (required: boolean) => void;
   addLobbyChatMessage: (message: LobbyChatItem) => void;
   clearLobbyChatMessages: () => void;
   reset: () => void;
@@ -24,13 +32,15 @@ export const useRoomStore = create<RoomState>((set) => ({
   playerId: null,
   connected: false,
   error: null,
+  rateLimitNotice: null,
+  passwordRequired: false,
   lobbyChatMessages: [],
 
   setRoom: (room) => set({ room }),
 
-  setPlayers: (players) =>
+  setPlayers: (players, spectators) =>
     set((state) => ({
-      room: state.room ? { ...state.room, players } : null,
+      room: state.room ? { ...state.room, players, spectators } : null,
     })),
 
   setSettings: (settings) =>
@@ -60,12 +70,36 @@ export const useRoomStore = create<RoomState>((set) => ({
         : { room: null }
     ),
 
+  setHostId: (hostId) =>
+    set((state) => ({
+      room: state.room ? { ...state.room, hostId } : null,
+    })),
+
+  setRoomLocked: (locked) =>
+    set((state) => ({
+      room: state.room ? { ...state.room, locked } : null,
+    })),
+
+  setPresenterId: (presenterId) =>
+    set((state) => ({
+      room: state.room ? { ...state.room, presenterId: presenterId ?? undefined } : null,
+    })),
+
+  setPalette: (palette) =>
+    set((state) => ({
+      room: state.room ? { ...state.room, palette: palette ?? undefined } : null,
+    })),
+
   setPlayerId: (playerId) => set({ playerId }),
 
   setConnected: (connected) => set({ connected }),
 
   setError: (error) => set({ error }),
 
+  setRateLimitNotice: (notice) => set({ rateLimitNotice: notice }),
+
+  setPasswordRequired: (required) => set({ passwordRequired: required }),
+
   addLobbyChatMessage: (message) =>
     set((state) => ({
       lobbyChatMessages: [...state.lobbyChatMessages, message],
@@ -79,6 +113,8 @@ export const useRoomStore = create<RoomState>((set) => ({
       playerId: null,
       connected: false,
       error: null,
+      rateLimitNotice: null,
+      passwordRequired: false,
       lobbyChatMessages: [],
     }),
 }));
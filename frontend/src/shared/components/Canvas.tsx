@@ -1,24 +1,14 @@
-import { useRef, useState, useEffect, useCallback, forwardRef, useImperativeHandle } from 'react';
+import { useRef, useState, useEffect, useCallback, useMemo, forwardRef, useImperativeHandle } from 'react';
 import { FaPaintBrush, FaEraser, FaFillDrip, FaShapes, FaSlash, FaUndo, FaTrash } from 'react-icons/fa';
 import { BiShapeCircle, BiShapeSquare, BiShapeTriangle } from 'react-icons/bi';
 import { BsStarFill, BsHeartFill } from 'react-icons/bs';
 import { TbOvalVertical, TbRectangle } from 'react-icons/tb';
-import type { DrawingStroke, DrawingToolType } from '@/shared/types';
-
-export const COLORS = [
-  '#000000', // Black
-  '#FF0000', // Red
-  '#FF69B4', // Pink
-  '#0000FF', // Blue
-  '#00BFFF', // Light Blue (水色)
-  '#00AA00', // Green
-  '#7CFC00', // Yellow Green (黄緑)
-  '#FFCC00', // Yellow
-  '#FF6600', // Orange
-  '#9900FF', // Purple
-  '#8B4513', // Brown
-  '#FFFFFF', // White
-];
+import { DRAWING_COLORS } from '@shared/protocol';
+import type { CanvasRegion, DrawingStroke, DrawingToolType, GameModifiers } from '@/shared/types';
+import { resolveImageUrl } from '@/shared/lib/api';
+import { drawStroke, fillArea } from '@/shared/lib/strokeRenderer';
+
+export const COLORS = DRAWING_COLORS;
 
 export const MIN_BRUSH_SIZE = 1;
 export const MAX_BRUSH_SIZE = 50;
@@ -27,6 +17,24 @@ export const DEFAULT_BRUSH_SIZE = 5;
 export const CANVAS_WIDTH = 800;
 export const CANVAS_HEIGHT = 600;
 
+// ライブ配信時、描画中のブラシをこの点数ごとに区切って送る
+const LIVE_SEGMENT_POINTS = 8;
+
+function getPathLength(points: { x: number; y: number }[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+  }
+  return length;
+}
+
+// インクの使用量（ブラシとラインの線の長さの合計。サーバーの検証と同じ数え方）
+function getInkLength(strokes: DrawingStroke[]): number {
+  return strokes
+    .filter((stroke) => stroke.tool === 'brush' || stroke.tool === 'line')
+    .reduce((total, stroke) => total + getPathLength(stroke.points ?? []), 0);
+}
+
 export const STAMP_SHAPES = [
   { id: 'circle', name: '○', label: '丸', Icon: BiShapeCircle },
   { id: 'ellipse', name: '⬭', label: '楕円', Icon: TbOvalVertical },
@@ -54,6 +62,10 @@ export interface CanvasRef {
   getImageData: () => string;
   getStrokeHistory: () => DrawingStroke[];
   clear: () => void;
+  /** 他のプレイヤーのストロークを今のキャンバスに描き足す（元に戻すの対象にはならない） */
+  drawStrokes: (strokes: DrawingStroke[]) => void;
+  /** キャンバス下端の高さheightの帯を切り出した画像（次の人に見せる段の端） */
+  getEdgeStrip: (height: number) => string;
 }
 
 interface CanvasProps {
@@ -67,10 +79,28 @@ interface CanvasProps {
   onOnionSkinOpacityChange?: (opacity: number) => void;
   /** 固定背景画像（base64） - 常に下レイヤーとして100%表示 */
   backgroundImage?: string;
+  /** ストロークを描くたびに呼ばれる（ライブ配信用）。ブラシは描画中も区切って送られる */
+  onStroke?: (stroke: DrawingStroke) => void;
+  /** 元に戻す・全消去など、ストロークでは表せない変更をしたときに呼ばれる */
+  onRestore?: () => void;
+  /** 選べる色（省略時はすべての色）。最初の色が初期色になる */
+  colors?: string[];
+  /** 描ける範囲。範囲外の座標は範囲の端に寄せる */
+  region?: CanvasRegion;
+  /** 元に戻す・クリアのボタンを出すか */
+  allowUndo?: boolean;
+  /** 消しゴムを使えるか */
+  allowEraser?: boolean;
+  /** 1画を描き終えたときに呼ばれる（ブラシも区切らず1本のストロークで渡す） */
+  onStrokeEnd?: (stroke: DrawingStroke) => void;
+  /** キャンバスのすぐ上に並べて表示する画像（前の段の下端など）。キャンバスと同じ幅で表示する */
+  edgeStripImage?: string;
+  /** 共通の描画ルール（見えない・インク制限・一筆書きなど）。色の制限は colors で渡す */
+  modifiers?: GameModifiers;
 }
 
 export const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas(
-  { showToolbar = true, className = '', onionSkinImage, onionSkinOpacity = 30, onOnionSkinOpacityChange, backgroundImage },
+  { showToolbar = true, className = '', onionSkinImage, onionSkinOpacity = 30, onOnionSkinOpacityChange, backgroundImage, onStroke, onRestore, colors, region, allowUndo = true, allowEraser = true, onStrokeEnd, edgeStripImage, modifiers },
   ref
 ) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -78,7 +108,8 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas(
   const drawingCanvasRef = useRef<HTMLCanvasElement | null>(null); // Off-screen canvas for drawing strokes
   const containerRef = useRef<HTMLDivElement>(null);
   const [isDrawing, setIsDrawing] = useState(false);
-  const [color, setColor] = useState(COLORS[0]);
+  const palette = colors ?? COLORS.filter((c) => c !== '#FFFFFF');
+  const [color, setColor] = useState(palette[0]);
   const [opacity, setOpacity] = useState(100);
   const [brushSize, setBrushSize] = useState(DEFAULT_BRUSH_SIZE);
   const [tool, setTool] = useState<ToolType>('brush');
@@ -104,6 +135,23 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas(
   const [strokeHistory, setStrokeHistory] = useState<DrawingStroke[]>([]);
   const strokeStartTimeRef = useRef<number>(Date.now());
   const currentStrokePointsRef = useRef<{ x: number; y: number }[]>([]);
+  // 描画中のストロークのうち、onStrokeで送信済みの点の数
+  const emittedPointCountRef = useRef(0);
+  // 描画中のブラシが使ったインク
+  const currentInkRef = useRef(0);
+
+  // 元に戻してもストローク履歴は残るので、インクも一筆書きの1画も戻らない（サーバーは履歴で検証する）
+  const inkLimit = modifiers?.limitedInk ? modifiers.inkLimit : null;
+  const inkUsed = useMemo(() => getInkLength(strokeHistory), [strokeHistory]);
+  const oneStroke = modifiers?.oneStroke ?? false;
+  const strokeLimitReached = oneStroke && strokeHistory.length > 0;
+  // 線の長さで測れない塗りつぶしとスタンプは使えない。描ける範囲があるときも、枠からはみ出すので使えない
+  const allowShapes = inkLimit === null && !oneStroke && !region;
+  // これ以上描き始められない（インク切れでも消しゴムは使える）
+  const isBlocked = useCallback(
+    (currentTool: ToolType) => strokeLimitReached || (inkLimit !== null && currentTool !== 'eraser' && inkUsed >= inkLimit),
+    [strokeLimitReached, inkLimit, inkUsed]
+  );
 
   const HANDLE_SIZE = 10;
   const DEFAULT_STAMP_SIZE = 60;
@@ -140,6 +188,22 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas(
     getStrokeHistory: () => {
       return strokeHistory;
     },
+    getEdgeStrip: (height) => {
+      const canvas = canvasRef.current;
+      if (!canvas) return '';
+
+      const stripHeight = Math.min(Math.max(1, Math.round(height)), CANVAS_HEIGHT);
+      const tempCanvas = document.createElement('canvas');
+      tempCanvas.width = CANVAS_WIDTH;
+      tempCanvas.height = stripHeight;
+      const tempCtx = tempCanvas.getContext('2d');
+      if (!tempCtx) return '';
+
+      tempCtx.fillStyle = '#FFFFFF';
+      tempCtx.fillRect(0, 0, CANVAS_WIDTH, stripHeight);
+      tempCtx.drawImage(canvas, 0, CANVAS_HEIGHT - stripHeight, CANVAS_WIDTH, stripHeight, 0, 0, CANVAS_WIDTH, stripHeight);
+      return tempCanvas.toDataURL('image/png', 0.8);
+    },
     clear: () => {
       const canvas = canvasRef.current;
       const ctx = canvas?.getContext('2d');
@@ -165,7 +229,31 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas(
       setStrokeHistory([]);
       strokeStartTimeRef.current = Date.now();
     },
-  }), [backgroundImage, onionSkinImage, strokeHistory]);
+    drawStrokes: (strokes) => {
+      const ctx = canvasRef.current?.getContext('2d');
+      if (!ctx || strokes.length === 0) return;
+
+      // 最新の履歴に描き足して差し替える（描画中のストロークは履歴から復元して重ねるため）
+      // 初期化直後で履歴がまだ反映されていなければ、今のキャンバスを土台にする
+      const tempCanvas = document.createElement('canvas');
+      tempCanvas.width = CANVAS_WIDTH;
+      tempCanvas.height = CANVAS_HEIGHT;
+      const tempCtx = tempCanvas.getContext('2d');
+      if (!tempCtx) return;
+      const base = history[history.length - 1] ?? ctx.getImageData(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+      tempCtx.putImageData(base, 0, 0);
+      strokes.forEach((stroke) => drawStroke(tempCtx, stroke));
+      const newState = tempCtx.getImageData(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+      ctx.putImageData(newState, 0, 0);
+      if (drawingCanvasRef.current) {
+        ctx.globalAlpha = tool === 'eraser' ? 1 : opacity / 100;
+        ctx.drawImage(drawingCanvasRef.current, 0, 0);
+        ctx.globalAlpha = 1;
+      }
+      setHistory((prev) => [...prev.slice(0, -1), newState]);
+    },
+  }), [backgroundImage, onionSkinImage, strokeHistory, history, tool, opacity]);
 
   // Scale canvas to fit container
   useEffect(() => {
@@ -525,9 +613,11 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas(
       fillStamp,
     };
     setStrokeHistory((prev) => [...prev, stampStroke]);
+    onStroke?.(stampStroke);
+    onStrokeEnd?.(stampStroke);
 
     setStampPreview(null);
-  }, [stampPreview, stampShape, color, fillStamp, opacity]);
+  }, [stampPreview, stampShape, color, fillStamp, opacity, onStroke, onStrokeEnd]);
 
   // Commit line to main canvas
   const commitLine = useCallback(() => {
@@ -571,11 +661,13 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas(
       points: [...linePoints],
     };
     setStrokeHistory((prev) => [...prev, lineStroke]);
+    onStroke?.(lineStroke);
+    onStrokeEnd?.(lineStroke);
 
     // Clear line points
     setLinePoints([]);
     setLinePreviewPoint(null);
-  }, [linePoints, color, brushSize, opacity]);
+  }, [linePoints, color, brushSize, opacity, onStroke, onStrokeEnd]);
 
   const getCoordinates = useCallback(
     (e: React.MouseEvent | React.TouchEvent): { x: number; y: number } | null => {
@@ -594,12 +686,15 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas(
         clientY = e.clientY;
       }
 
+      const x = (clientX - rect.left) / scale;
+      const y = (clientY - rect.top) / scale;
+      if (!region) return { x, y };
       return {
-        x: (clientX - rect.left) / scale,
-        y: (clientY - rect.top) / scale,
+        x: Math.min(Math.max(x, region.x), region.x + region.width),
+        y: Math.min(Math.max(y, region.y), region.y + region.height),
       };
     },
-    [scale]
+    [scale, region]
   );
 
   // Check which handle is being clicked
@@ -654,70 +749,7 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas(
       const ctx = canvas?.getContext('2d');
       if (!ctx) return;
 
-      const imageData = ctx.getImageData(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-      const data = imageData.data;
-
-      const hexToRgb = (hex: string) => {
-        const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-        return result
-          ? {
-              r: parseInt(result[1], 16),
-              g: parseInt(result[2], 16),
-              b: parseInt(result[3], 16),
-            }
-          : { r: 0, g: 0, b: 0 };
-      };
-
-      const fillRgb = hexToRgb(fillColor);
-      const x = Math.floor(startX);
-      const y = Math.floor(startY);
-
-      const getPixelIndex = (px: number, py: number) => (py * CANVAS_WIDTH + px) * 4;
-      const startIndex = getPixelIndex(x, y);
-      const startR = data[startIndex];
-      const startG = data[startIndex + 1];
-      const startB = data[startIndex + 2];
-
-      if (startR === fillRgb.r && startG === fillRgb.g && startB === fillRgb.b) {
-        return;
-      }
-
-      const tolerance = 32;
-      const matchesStart = (index: number) => {
-        return (
-          Math.abs(data[index] - startR) <= tolerance &&
-          Math.abs(data[index + 1] - startG) <= tolerance &&
-          Math.abs(data[index + 2] - startB) <= tolerance
-        );
-      };
-
-      const stack: [number, number][] = [[x, y]];
-      const visited = new Set<string>();
-
-      while (stack.length > 0) {
-        const [cx, cy] = stack.pop()!;
-        const key = `${cx},${cy}`;
-
-        if (visited.has(key)) continue;
-        if (cx < 0 || cx >= CANVAS_WIDTH || cy < 0 || cy >= CANVAS_HEIGHT) continue;
-
-        const idx = getPixelIndex(cx, cy);
-        if (!matchesStart(idx)) continue;
-
-        visited.add(key);
-
-        data[idx] = fillRgb.r;
-        data[idx + 1] = fillRgb.g;
-        data[idx + 2] = fillRgb.b;
-        data[idx + 3] = 255;
-
-        stack.push([cx + 1, cy]);
-        stack.push([cx - 1, cy]);
-        stack.push([cx, cy + 1]);
-        stack.push([cx, cy - 1]);
-      }
-
-      ctx.putImageData(imageData, 0, 0);
+      if (!fillArea(ctx, startX, startY, fillColor)) return;
 
       const newState = ctx.getImageData(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
       setHistory((prev) => [...prev.slice(-19), newState]);
@@ -732,15 +764,36 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas(
         fillPoint: { x: startX, y: startY },
       };
       setStrokeHistory((prev) => [...prev, bucketStroke]);
+      onStroke?.(bucketStroke);
+      onStrokeEnd?.(bucketStroke);
     },
-    []
+    [onStroke, onStrokeEnd]
   );
 
+  // 描画中のブラシ/消しゴムのうち未送信の部分をonStrokeに渡す
+  // 前の区切りの終点から続けて描けるよう、1点重ねて送る
+  const emitBrushSegment = useCallback(() => {
+    const points = currentStrokePointsRef.current;
+    const start = Math.max(0, emittedPointCountRef.current - 1);
+    if (!onStroke || points.length <= emittedPointCountRef.current) return;
+
+    onStroke({
+      tool: tool as DrawingToolType,
+      color: tool === 'eraser' ? '#FFFFFF' : color,
+      brushSize,
+      opacity: tool === 'eraser' ? 100 : opacity,
+      timestamp: Date.now() - strokeStartTimeRef.current,
+      points: points.slice(start),
+    });
+    emittedPointCountRef.current = points.length;
+  }, [onStroke, tool, color, brushSize, opacity]);
+
   const startDrawing = useCallback(
     (e: React.MouseEvent | React.TouchEvent) => {
       e.preventDefault();
       const coords = getCoordinates(e);
       if (!coords) return;
+      if (isBlocked(tool)) return;
 
       // Handle stamp tool
       if (tool === 'stamp') {
@@ -779,6 +832,7 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas(
 
       // Handle line tool
       if (tool === 'line') {
+        if (inkLimit !== null && inkUsed + getPathLength([...linePoints, coords]) > inkLimit) return;
         setLinePoints((prev) => [...prev, coords]);
         return;
       }
@@ -800,6 +854,7 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas(
       
       // ストローク開始時の座標を記録
       currentStrokePointsRef.current = [{ x: coords.x, y: coords.y }];
+      currentInkRef.current = 0;
       
       // Set up drawing context on off-screen canvas
       drawCtx.lineCap = 'round';
@@ -809,7 +864,7 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas(
       drawCtx.beginPath();
       drawCtx.moveTo(coords.x, coords.y);
     },
-    [getCoordinates, color, brushSize, tool, opacity, floodFill, stampPreview, commitStamp, getClickedHandle, DEFAULT_STAMP_SIZE]
+    [getCoordinates, color, brushSize, tool, opacity, floodFill, stampPreview, commitStamp, getClickedHandle, DEFAULT_STAMP_SIZE, isBlocked, inkLimit, inkUsed, linePoints]
   );
 
   const draw = useCallback(
@@ -828,7 +883,7 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas(
       }
 
       // Start drawing if W key is pressed and not already drawing
-      if (isWKeyPressed && !isDrawing && tool !== 'stamp' && tool !== 'bucket' && tool !== 'line') {
+      if (isWKeyPressed && !isDrawing && tool !== 'stamp' && tool !== 'bucket' && tool !== 'line' && !isBlocked(tool)) {
         const canvas = canvasRef.current;
         const ctx = canvas?.getContext('2d');
         if (!ctx) return;
@@ -846,6 +901,7 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas(
         
         // ストローク開始時の座標を記録
         currentStrokePointsRef.current = [{ x: coords.x, y: coords.y }];
+        currentInkRef.current = 0;
 
         // Set up drawing context on off-screen canvas
         drawCtx.lineCap = 'round';
@@ -916,8 +972,20 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas(
       const drawCtx = drawingCanvas?.getContext('2d');
       if (!ctx || !drawCtx || !drawingCanvas) return;
 
+      // インクが足りなければ点を足さない（線はここで止まる）
+      if (inkLimit !== null && tool === 'brush') {
+        const points = currentStrokePointsRef.current;
+        const last = points[points.length - 1];
+        const segment = last ? Math.hypot(coords.x - last.x, coords.y - last.y) : 0;
+        if (inkUsed + currentInkRef.current + segment > inkLimit) return;
+        currentInkRef.current += segment;
+      }
+
       // 描画中の座標を記録
       currentStrokePointsRef.current.push({ x: coords.x, y: coords.y });
+      if (currentStrokePointsRef.current.length - emittedPointCountRef.current >= LIVE_SEGMENT_POINTS) {
+        emitBrushSegment();
+      }
 
       // Draw on off-screen canvas
       drawCtx.lineTo(coords.x, coords.y);
@@ -933,7 +1001,7 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas(
       ctx.drawImage(drawingCanvas, 0, 0);
       ctx.globalAlpha = 1;
     },
-    [isDrawing, isWKeyPressed, getCoordinates, tool, color, brushSize, dragHandle, dragStart, stampPreview, history, opacity, linePoints.length]
+    [isDrawing, isWKeyPressed, getCoordinates, tool, color, brushSize, dragHandle, dragStart, stampPreview, history, opacity, linePoints.length, emitBrushSegment, isBlocked, inkLimit, inkUsed]
   );
 
   const stopDrawing = useCallback(() => {
@@ -976,12 +1044,16 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas(
         points: [...currentStrokePointsRef.current],
       };
       setStrokeHistory((prev) => [...prev, brushStroke]);
+      emitBrushSegment();
+      onStrokeEnd?.(brushStroke);
       currentStrokePointsRef.current = [];
     }
+    emittedPointCountRef.current = 0;
+    currentInkRef.current = 0;
 
     // Clear drawing canvas reference
     drawingCanvasRef.current = null;
-  }, [isDrawing, dragHandle, history, tool, opacity, color, brushSize]);
+  }, [isDrawing, dragHandle, history, tool, opacity, color, brushSize, emitBrushSegment, onStrokeEnd]);
 
   const handleUndo = useCallback(() => {
     if (history.length <= 1) return;
@@ -994,7 +1066,8 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas(
     const previousState = newHistory[newHistory.length - 1];
     ctx.putImageData(previousState, 0, 0);
     setHistory(newHistory);
-  }, [history]);
+    onRestore?.();
+  }, [history, onRestore]);
 
   const handleClear = useCallback(() => {
     const canvas = canvasRef.current;
@@ -1017,7 +1090,8 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas(
     setStampPreview(null);
     setLinePoints([]);
     setLinePreviewPoint(null);
-  }, [onionSkinImage]);
+    onRestore?.();
+  }, [onionSkinImage, onRestore]);
 
   // Cancel stamp preview when switching tools
   useEffect(() => {
@@ -1038,7 +1112,7 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas(
   // Keyboard drawing with W key
   const startDrawingAtPosition = useCallback(
     (x: number, y: number) => {
-      if (tool === 'stamp' || tool === 'bucket' || tool === 'line') return;
+      if (tool === 'stamp' || tool === 'bucket' || tool === 'line' || isBlocked(tool)) return;
 
       const canvas = canvasRef.current;
       const ctx = canvas?.getContext('2d');
@@ -1063,7 +1137,7 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas(
       drawCtx.beginPath();
       drawCtx.moveTo(x, y);
     },
-    [tool, color, brushSize]
+    [tool, color, brushSize, isBlocked]
   );
 
   // Handle keyboard events for W key drawing
@@ -1113,15 +1187,28 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas(
 
   return (
     <div className={`flex flex-col ${className}`}>
+      {/* Edge strip shown above the canvas */}
+      {edgeStripImage && (
+        <div className="flex justify-center">
+          <img
+            src={resolveImageUrl(edgeStripImage)}
+            alt="前の段の端"
+            style={{ width: CANVAS_WIDTH * scale, transform: modifiers?.mirrored ? 'scaleX(-1)' : undefined }}
+            className="rounded-t border border-b-0 border-dashed border-gray-400 opacity-80"
+          />
+        </div>
+      )}
       {/* Canvas Container */}
+      {/* 反転: 表示だけを左右反転する（座標は反転しないので、描いた線が手の動きと逆に見える） */}
       <div
         ref={containerRef}
         className="relative flex flex-1 items-center justify-center overflow-hidden rounded-xl bg-white p-4 shadow-lg"
+        style={{ transform: modifiers?.mirrored ? 'scaleX(-1)' : undefined }}
       >
         {/* Background image layer (fixed, 100% opacity) */}
         {backgroundImage && (
           <img
-            src={backgroundImage}
+            src={resolveImageUrl(backgroundImage)}
             alt="背景"
             style={{
               width: CANVAS_WIDTH * scale,
@@ -1137,7 +1224,7 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas(
         {/* Onion skin layer (previous frame) */}
         {onionSkinImage && (
           <img
-            src={onionSkinImage}
+            src={resolveImageUrl(onionSkinImage)}
             alt="前のフレーム"
             style={{
               width: CANVAS_WIDTH * scale,
@@ -1150,6 +1237,28 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas(
             className="rounded"
           />
         )}
+        {/* Drawable region guide */}
+        {region && (
+          <div
+            style={{
+              width: CANVAS_WIDTH * scale,
+              height: CANVAS_HEIGHT * scale,
+              position: 'absolute',
+              pointerEvents: 'none',
+              zIndex: 4,
+            }}
+          >
+            <div
+              className="absolute rounded border-2 border-dashed border-primary-400"
+              style={{
+                left: region.x * scale,
+                top: region.y * scale,
+                width: region.width * scale,
+                height: region.height * scale,
+              }}
+            />
+          </div>
+        )}
         {/* Main canvas */}
         <canvas
           ref={canvasRef}
@@ -1186,15 +1295,50 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas(
           onTouchMove={draw}
           onTouchEnd={stopDrawing}
         />
+        {/* Blind drawing: cover the canvas but let pointer events through */}
+        {modifiers?.blindDrawing && (
+          <div
+            style={{
+              width: CANVAS_WIDTH * scale,
+              height: CANVAS_HEIGHT * scale,
+              position: 'absolute',
+              pointerEvents: 'none',
+              zIndex: 5,
+              transform: modifiers.mirrored ? 'scaleX(-1)' : undefined,
+            }}
+            className="flex items-center justify-center rounded bg-gray-800 text-lg font-bold text-white"
+          >
+            🙈 見えないまま描こう
+          </div>
+        )}
       </div>
 
       {/* Toolbar */}
       {showToolbar && (
         <div className="mt-4 space-y-3 rounded-xl bg-white p-4 shadow-lg">
+          {/* Modifier status */}
+          {(inkLimit !== null || oneStroke) && (
+            <div className="flex flex-wrap items-center gap-3 rounded-lg bg-amber-50 p-3 text-sm text-amber-800">
+              {inkLimit !== null && (
+                <div className="flex flex-1 items-center gap-3">
+                  <span>🖋️ インク:</span>
+                  <div className="h-2 w-32 overflow-hidden rounded-lg bg-gray-200 sm:w-48">
+                    <div
+                      className="h-full bg-amber-500"
+                      style={{ width: `${Math.max(0, 100 - (inkUsed / inkLimit) * 100)}%` }}
+                    />
+                  </div>
+                  <span className="font-medium">{Math.max(0, Math.round(inkLimit - inkUsed))}px</span>
+                </div>
+              )}
+              {oneStroke && <span>{strokeLimitReached ? '✅ 一筆書きが終わりました' : '✍️ 一筆書き（1画だけ描けます）'}</span>}
+            </div>
+          )}
+
           {/* Colors */}
           <div className="flex flex-wrap items-center gap-2">
             <span className="text-sm text-gray-600">色:</span>
-            {COLORS.filter((c) => c !== '#FFFFFF').map((c) => (
+            {palette.map((c) => (
               <button
                 key={c}
                 onClick={() => {
@@ -1276,36 +1420,42 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas(
             >
               <FaPaintBrush className="h-4 w-4" /> ブラシ
             </button>
-            <button
-              onClick={() => setTool('eraser')}
-              className={`flex items-center gap-1.5 rounded-lg px-3 py-2 text-sm transition ${
-                tool === 'eraser'
-                  ? 'bg-pink-600 text-white'
-                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-              }`}
-            >
-              <FaEraser className="h-4 w-4" /> 消しゴム
-            </button>
-            <button
-              onClick={() => setTool('bucket')}
-              className={`flex items-center gap-1.5 rounded-lg px-3 py-2 text-sm transition ${
-                tool === 'bucket'
-                  ? 'bg-blue-600 text-white'
-                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-              }`}
-            >
-              <FaFillDrip className="h-4 w-4" /> バケツ
-            </button>
-            <button
-              onClick={() => setTool('stamp')}
-              className={`flex items-center gap-1.5 rounded-lg px-3 py-2 text-sm transition ${
-                tool === 'stamp'
-                  ? 'bg-purple-600 text-white'
-                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-              }`}
-            >
-              <FaShapes className="h-4 w-4" /> スタンプ
-            </button>
+            {allowEraser && !oneStroke && (
+              <button
+                onClick={() => setTool('eraser')}
+                className={`flex items-center gap-1.5 rounded-lg px-3 py-2 text-sm transition ${
+                  tool === 'eraser'
+                    ? 'bg-pink-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                <FaEraser className="h-4 w-4" /> 消しゴム
+              </button>
+            )}
+            {allowShapes && (
+              <>
+                <button
+                  onClick={() => setTool('bucket')}
+                  className={`flex items-center gap-1.5 rounded-lg px-3 py-2 text-sm transition ${
+                    tool === 'bucket'
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  <FaFillDrip className="h-4 w-4" /> バケツ
+                </button>
+                <button
+                  onClick={() => setTool('stamp')}
+                  className={`flex items-center gap-1.5 rounded-lg px-3 py-2 text-sm transition ${
+                    tool === 'stamp'
+                      ? 'bg-purple-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  <FaShapes className="h-4 w-4" /> スタンプ
+                </button>
+              </>
+            )}
             <button
               onClick={() => setTool('line')}
               className={`flex items-center gap-1.5 rounded-lg px-3 py-2 text-sm transition ${
@@ -1316,19 +1466,23 @@ export const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas(
             >
               <FaSlash className="h-4 w-4" /> 直線
             </button>
-            <button
-              onClick={handleUndo}
-              disabled={history.length <= 1}
-              className="flex items-center gap-1.5 rounded-lg bg-gray-100 px-3 py-2 text-sm text-gray-700 hover:bg-gray-200 disabled:opacity-50"
-            >
-              <FaUndo className="h-4 w-4" /> 元に戻す
-            </button>
-            <button
-              onClick={handleClear}
-              className="flex items-center gap-1.5 rounded-lg bg-red-100 px-3 py-2 text-sm text-red-700 hover:bg-red-200"
-            >
-              <FaTrash className="h-4 w-4" /> クリア
-            </button>
+            {allowUndo && !oneStroke && (
+              <>
+                <button
+                  onClick={handleUndo}
+                  disabled={history.length <= 1}
+                  className="flex items-center gap-1.5 rounded-lg bg-gray-100 px-3 py-2 text-sm text-gray-700 hover:bg-gray-200 disabled:opacity-50"
+                >
+                  <FaUndo className="h-4 w-4" /> 元に戻す
+                </button>
+                <button
+                  onClick={handleClear}
+                  className="flex items-center gap-1.5 rounded-lg bg-red-100 px-3 py-2 text-sm text-red-700 hover:bg-red-200"
+                >
+                  <FaTrash className="h-4 w-4" /> クリア
+                </button>
+              </>
+            )}
           </div>
 
           {/* Stamp Options */}
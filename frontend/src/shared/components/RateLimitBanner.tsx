@@ -0,0 +1,36 @@
+import { useEffect } from 'react';
+import { useRoomStore } from '@/features/room/store/roomStore';
+
+const BANNER_DURATION_MS = 4000;
+
+// サーバーから送信制限（rate_limited）を受けたときに一時的に表示する
+export function RateLimitBanner() {
+  const { rateLimitNotice, setRateLimitNotice } = useRoomStore();
+
+  useEffect(() => {
+    if (!rateLimitNotice) return;
+    const timer = setTimeout(() => setRateLimitNotice(null), Math.max(BANNER_DURATION_MS, rateLimitNotice.retryAfterMs));
+    return () => clearTimeout(timer);
+  }, [rateLimitNotice, setRateLimitNotice]);
+
+  if (!rateLimitNotice) return null;
+
+  const isSevere = rateLimitNotice.action !== 'warn';
+
+  return (
+    <div className="pointer-events-none fixed inset-x-0 top-4 z-50 flex justify-center px-4">
+      <div
+        className={`rounded-xl px-4 py-2 text-sm font-semibold shadow-lg ${
+          isSevere ? 'bg-red-600 text-white' : 'bg-amber-100 text-amber-800'
+        }`}
+      >
+        ⚠️ {rateLimitNotice.message}
+        {rateLimitNotice.retryAfterMs > 0 && rateLimitNotice.action !== 'disconnect' && (
+          <span className="ml-2 font-normal opacity-80">
+            （{Math.ceil(rateLimitNotice.retryAfterMs / 1000)}秒ほど待ってください）
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+import { useRoomStore } from '@/features/room/store/roomStore';
+import type { GameModifiers } from '@/shared/types';
+
+// ルームの共通ルールを Canvas の modifiers / colors として返す
+// 色を絞るルールの色はゲーム開始時にサーバーが選ぶ（全員同じ色になる）
+export function useDrawingModifiers(): { modifiers: GameModifiers | undefined; colors: string[] | undefined } {
+  const { room } = useRoomStore();
+  const modifiers = room?.settings.modifiers;
+  const colors = modifiers?.restrictedPalette ? room?.palette : undefined;
+  return { modifiers, colors };
+}
@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useRef, type RefObject } from 'react';
+import { wsManager } from '@/shared/lib/websocket';
+import type { CanvasRef } from '@/shared/components/Canvas';
+import type { DrawingStroke } from '@/shared/types';
+
+// ストロークはまとめてこの間隔で送る
+const STROKE_FLUSH_INTERVAL_MS = 100;
+// 途中から見始めた人が追いつけるよう、描き足しがあればこの間隔でキャンバス全体を送る
+const KEYFRAME_INTERVAL_MS = 5000;
+
+// 描画中のキャンバスを他のプレイヤーへライブ配信する
+// 戻り値の onStroke / onRestore を Canvas に渡す
+export function useLiveCanvasStream(canvasRef: RefObject<CanvasRef | null>, enabled: boolean) {
+  const pendingStrokesRef = useRef<DrawingStroke[]>([]);
+  // 前回のキーフレーム以降にストロークを送ったか
+  const dirtyRef = useRef(false);
+  const enabledRef = useRef(enabled);
+
+  const flushStrokes = useCallback(() => {
+    if (pendingStrokesRef.current.length === 0) return;
+    wsManager.send({ type: 'live_canvas_strokes', payload: { strokes: pendingStrokesRef.current } });
+    pendingStrokesRef.current = [];
+    dirtyRef.current = true;
+  }, []);
+
+  const sendKeyframe = useCallback(() => {
+    const imageData = canvasRef.current?.getImageData();
+    if (!imageData) return;
+    // 送信待ちのストロークはキーフレームに含まれている
+    pendingStrokesRef.current = [];
+    dirtyRef.current = false;
+    wsManager.send({ type: 'live_canvas_keyframe', payload: { imageData } });
+  }, [canvasRef]);
+
+  useEffect(() => {
+    enabledRef.current = enabled;
+    if (!enabled) return;
+
+    // 配信開始時のキャンバスは白紙（ターン開始時にクリアされる）
+    pendingStrokesRef.current = [];
+    dirtyRef.current = false;
+    wsManager.send({ type: 'live_canvas_keyframe', payload: { imageData: null } });
+
+    const flushInterval = setInterval(flushStrokes, STROKE_FLUSH_INTERVAL_MS);
+    const keyframeInterval = setInterval(() => {
+      if (dirtyRef.current) {
+        sendKeyframe();
+      }
+    }, KEYFRAME_INTERVAL_MS);
+
+    return () => {
+      clearInterval(flushInterval);
+      clearInterval(keyframeInterval);
+      flushStrokes();
+    };
+  }, [enabled, flushStrokes, sendKeyframe]);
+
+  const onStroke = useCallback((stroke: DrawingStroke) => {
+    if (!enabledRef.current) return;
+    pendingStrokesRef.current.push(stroke);
+  }, []);
+
+  // 元に戻す・全消去はストロークで表せないので、すぐにキーフレームを送る
+  const onRestore = useCallback(() => {
+    if (!enabledRef.current) return;
+    sendKeyframe();
+  }, [sendKeyframe]);
+
+  return { onStroke, onRestore };
+}
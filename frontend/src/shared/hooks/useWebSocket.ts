@@ -18,14 +18,20 @@ export function useWebSocket(roomId: string | null) {
     useGameStore.getState().setHasSubmitted(true);
   }, []);
 
-  const submitDrawing = useCallback((imageData: string, strokes?: DrawingStroke[]) => {
-    wsManager.send({ type: 'submit_drawing', payload: { imageData, strokes } });
+  const submitDrawing = useCallback((imageData: string, strokes?: DrawingStroke[], edgeStrip?: string) => {
+    wsManager.send({ type: 'submit_drawing', payload: { imageData, strokes, edgeStrip } });
     useGameStore.getState().setHasSubmitted(true);
   }, []);
 
-  const submitShiritori = useCallback((imageData: string | null, answer: string | null) => {
+  // 画像を伴わない完成の合図（みんなでお絵描き）
+  const markReady = useCallback(() => {
+    wsManager.send({ type: 'mark_ready', payload: {} });
+    useGameStore.getState().setHasSubmitted(true);
+  }, []);
+
+  const submitShiritori = useCallback((imageData: string | null, answer: string | null, strokes?: DrawingStroke[]) => {
     if (!imageData && !answer) return;
-    wsManager.send({ type: 'submit_shiritori', payload: { imageData, answer } });
+    wsManager.send({ type: 'submit_shiritori', payload: { imageData, answer, strokes } });
   }, []);
 
   const submitGuess = useCallback((text: string) => {
@@ -41,5 +47,5 @@ export function useWebSocket(roomId: string | null) {
     wsManager.disconnect();
   }, []);
 
-  return { connect, send, disconnect, submitPrompt, submitDrawing, submitShiritori, submitGuess, submitQuizGuess, isReconnecting: wsManager.getIsReconnecting() };
+  return { connect, send, disconnect, submitPrompt, submitDrawing, markReady, submitShiritori, submitGuess, submitQuizGuess, isReconnecting: wsManager.getIsReconnecting() };
 }
@@ -1,21 +1,52 @@
+import type { ArchivedGame, ArchivedGameSummary, PublicRoomSummary, RoomVisibility } from '@/shared/types';
+
 const API_BASE = import.meta.env.VITE_API_URL ? `${import.meta.env.VITE_API_URL}/api` : '/api';
 
-export async function createRoom(): Promise<{ roomId: string }> {
+// サーバーの画像ストアへの参照（/api/images/<hash>）をAPIのオリジンに合わせて解決する
+// data URL（ライブ描画など）はそのまま返す
+export function resolveImageUrl(src: string): string {
+  return src.startsWith('/api/') ? `${API_BASE}${src.slice('/api'.length)}` : src;
+}
+
+export async function createRoom(
+  options: { visibility?: RoomVisibility; password?: string } = {}
+): Promise<{ roomId: string }> {
   const res = await fetch(`${API_BASE}/rooms`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({}),
+    body: JSON.stringify(options),
   });
   if (!res.ok) throw new Error('Failed to create room');
   return res.json();
 }
 
+export async function listPublicRooms(): Promise<{ rooms: PublicRoomSummary[] }> {
+  const res = await fetch(`${API_BASE}/rooms`);
+  if (!res.ok) throw new Error('Failed to load rooms');
+  return res.json();
+}
+
 export async function getRoom(roomId: string) {
   const res = await fetch(`${API_BASE}/rooms/${roomId}`);
   if (!res.ok) throw new Error('Room not found');
   return res.json();
 }
 
+export async function listGames(params: { roomId?: string; limit?: number } = {}): Promise<{ games: ArchivedGameSummary[] }> {
+  const query = new URLSearchParams();
+  if (params.roomId) query.set('roomId', params.roomId);
+  if (params.limit) query.set('limit', String(params.limit));
+  const res = await fetch(`${API_BASE}/games?${query.toString()}`);
+  if (!res.ok) throw new Error('Failed to load games');
+  return res.json();
+}
+
+export async function getGame(gameId: string): Promise<ArchivedGame> {
+  const res = await fetch(`${API_BASE}/games/${gameId}`);
+  if (!res.ok) throw new Error('Game not found');
+  return res.json();
+}
+
 export async function checkHealth(): Promise<{ status: string }> {
   const res = await fetch(`${API_BASE}/health`);
   return res.json();
@@ -0,0 +1,221 @@
+import type { DrawingStroke } from '@/shared/types';
+
+// 単一ストロークをキャンバスに描画する（タイムラプス再生とライブ配信の表示で共用）
+export function drawStroke(ctx: CanvasRenderingContext2D, stroke: DrawingStroke): void {
+  ctx.save();
+  ctx.globalAlpha = stroke.opacity / 100;
+
+  switch (stroke.tool) {
+    case 'brush':
+    case 'eraser': {
+      if (!stroke.points || stroke.points.length === 0) break;
+      ctx.strokeStyle = stroke.tool === 'eraser' ? '#FFFFFF' : stroke.color;
+      ctx.lineWidth = stroke.brushSize;
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+
+      ctx.beginPath();
+      ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
+      for (let i = 1; i < stroke.points.length; i++) {
+        ctx.lineTo(stroke.points[i].x, stroke.points[i].y);
+      }
+      ctx.stroke();
+      break;
+    }
+
+    case 'line': {
+      if (!stroke.points || stroke.points.length < 2) break;
+      ctx.strokeStyle = stroke.color;
+      ctx.lineWidth = stroke.brushSize;
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+
+      ctx.beginPath();
+      ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
+      for (let i = 1; i < stroke.points.length; i++) {
+        ctx.lineTo(stroke.points[i].x, stroke.points[i].y);
+      }
+      ctx.stroke();
+      break;
+    }
+
+    case 'bucket': {
+      if (!stroke.fillPoint) break;
+      fillArea(ctx, stroke.fillPoint.x, stroke.fillPoint.y, stroke.color);
+      break;
+    }
+
+    case 'stamp': {
+      if (!stroke.stampBounds || !stroke.stampShape) break;
+      const { x, y, width, height } = stroke.stampBounds;
+      const centerX = x + width / 2;
+      const centerY = y + height / 2;
+
+      ctx.fillStyle = stroke.color;
+      ctx.strokeStyle = stroke.color;
+      ctx.lineWidth = 2;
+
+      ctx.beginPath();
+      switch (stroke.stampShape) {
+        case 'circle': {
+          const radius = Math.min(width, height) / 2;
+          ctx.arc(centerX, centerY, radius, 0, Math.PI * 2);
+          break;
+        }
+        case 'ellipse':
+          ctx.ellipse(centerX, centerY, width / 2, height / 2, 0, 0, Math.PI * 2);
+          break;
+        case 'square': {
+          const size = Math.min(width, height);
+          ctx.rect(centerX - size / 2, centerY - size / 2, size, size);
+          break;
+        }
+        case 'rectangle':
+          ctx.rect(x, y, width, height);
+          break;
+        case 'triangle':
+          ctx.moveTo(centerX, y);
+          ctx.lineTo(x + width, y + height);
+          ctx.lineTo(x, y + height);
+          ctx.closePath();
+          break;
+        case 'star': {
+          const spikes = 5;
+          const outerRadius = Math.min(width, height) / 2;
+          const innerRadius = outerRadius * 0.4;
+          let rot = (Math.PI / 2) * 3;
+          const step = Math.PI / spikes;
+          ctx.moveTo(centerX, centerY - outerRadius);
+          for (let i = 0; i < spikes; i++) {
+            ctx.lineTo(centerX + Math.cos(rot) * outerRadius, centerY + Math.sin(rot) * outerRadius);
+            rot += step;
+            ctx.lineTo(centerX + Math.cos(rot) * innerRadius, centerY + Math.sin(rot) * innerRadius);
+            rot += step;
+          }
+          ctx.closePath();
+          break;
+        }
+        case 'heart': {
+          const heartWidth = width / 2;
+          const heartHeight = height / 2;
+          const topCurveHeight = heartHeight * 0.3;
+          ctx.moveTo(centerX, centerY + heartHeight * 0.3);
+          ctx.bezierCurveTo(
+            centerX, centerY - topCurveHeight,
+            centerX - heartWidth, centerY - topCurveHeight,
+            centerX - heartWidth, centerY + topCurveHeight
+          );
+          ctx.bezierCurveTo(
+            centerX - heartWidth, centerY + heartHeight * 0.6,
+            centerX, centerY + heartHeight * 0.8,
+            centerX, centerY + heartHeight
+          );
+          ctx.bezierCurveTo(
+            centerX, centerY + heartHeight * 0.8,
+            centerX + heartWidth, centerY + heartHeight * 0.6,
+            centerX + heartWidth, centerY + topCurveHeight
+          );
+          ctx.bezierCurveTo(
+            centerX + heartWidth, centerY - topCurveHeight,
+            centerX, centerY - topCurveHeight,
+            centerX, centerY + heartHeight * 0.3
+          );
+          break;
+        }
+      }
+
+      if (stroke.fillStamp) {
+        ctx.fill();
+      } else {
+        ctx.stroke();
+      }
+      break;
+    }
+  }
+
+  ctx.restore();
+}
+
+// 塗りつぶし（バケツツール）。開始点が既に同じ色なら何もせずfalseを返す
+export function fillArea(ctx: CanvasRenderingContext2D, startX: number, startY: number, fillColor: string): boolean {
+  const { width, height } = ctx.canvas;
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const data = imageData.data;
+
+  const hexToRgb = (hex: string) => {
+    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+    return result
+      ? {
+          r: parseInt(result[1], 16),
+          g: parseInt(result[2], 16),
+          b: parseInt(result[3], 16),
+        }
+      : { r: 0, g: 0, b: 0 };
+  };
+
+  const fillRgb = hexToRgb(fillColor);
+  const x = Math.floor(startX);
+  const y = Math.floor(startY);
+
+  const getPixelIndex = (px: number, py: number) => (py * width + px) * 4;
+  const startIndex = getPixelIndex(x, y);
+  const startR = data[startIndex];
+  const startG = data[startIndex + 1];
+  const startB = data[startIndex + 2];
+
+  if (startR === fillRgb.r && startG === fillRgb.g && startB === fillRgb.b) {
+    return false;
+  }
+
+  const tolerance = 32;
+  const matchesStart = (index: number) => {
+    return (
+      Math.abs(data[index] - startR) <= tolerance &&
+      Math.abs(data[index + 1] - startG) <= tolerance &&
+      Math.abs(data[index + 2] - startB) <= tolerance
+    );
+  };
+
+  const stack: [number, number][] = [[x, y]];
+  const visited = new Set<string>();
+
+  while (stack.length > 0) {
+    const [cx, cy] = stack.pop()!;
+    const key = `${cx},${cy}`;
+
+    if (visited.has(key)) continue;
+    if (cx < 0 || cx >= width || cy < 0 || cy >= height) continue;
+
+    const idx = getPixelIndex(cx, cy);
+    if (!matchesStart(idx)) continue;
+
+    visited.add(key);
+
+    data[idx] = fillRgb.r;
+    data[idx + 1] = fillRgb.g;
+    data[idx + 2] = fillRgb.b;
+    data[idx + 3] = 255;
+
+    stack.push([cx + 1, cy]);
+    stack.push([cx - 1, cy]);
+    stack.push([cx, cy + 1]);
+    stack.push([cx, cy - 1]);
+  }
+
+  ctx.putImageData(imageData, 0, 0);
+  return true;
+}
+
+// ストロークを白いキャンバスに最初から描き直して画像にする（提出された画像の代わりに使う）
+export function renderStrokes(strokes: DrawingStroke[], width: number, height: number): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, width, height);
+  strokes.forEach((stroke) => drawStroke(ctx, stroke));
+  return canvas.toDataURL('image/png');
+}
@@ -1,10 +1,52 @@
 import { useRoomStore } from '@/features/room/store/roomStore';
 import { useGameStore } from '@/features/game/store/gameStore';
-import type { WSClientEvent, WSServerEvent, Room, ContentPayload, GamePhase } from '@/shared/types';
+import type { GameStateSnapshot, RejoinModeState, WSClientEvent, WSServerEvent } from '@/shared/types';
 
 const MAX_RECONNECT_ATTEMPTS = 5;
 const RECONNECT_BASE_DELAY = 1000;
 
+// 再接続用のセッショントークン（playerIdは他のプレイヤーにも見えるので、サーバーが発行した秘密の値を保存する）
+const sessionTokenKey = (roomId: string) => `sessionToken_${roomId}`;
+
+export function getSessionToken(roomId: string): string | null {
+  return sessionStorage.getItem(sessionTokenKey(roomId));
+}
+
+export function saveSessionToken(roomId: string, token: string) {
+  sessionStorage.setItem(sessionTokenKey(roomId), token);
+}
+
+export function clearSessionToken(roomId: string) {
+  sessionStorage.removeItem(sessionTokenKey(roomId));
+}
+
+// パスワード付きルームに参加するときのパスワード（参加できたら消す）
+const roomPasswordKey = (roomId: string) => `roomPassword_${roomId}`;
+
+export function getRoomPassword(roomId: string): string | null {
+  return sessionStorage.getItem(roomPasswordKey(roomId));
+}
+
+export function saveRoomPassword(roomId: string, password: string) {
+  sessionStorage.setItem(roomPasswordKey(roomId), password);
+}
+
+export function clearRoomPassword(roomId: string) {
+  sessionStorage.removeItem(roomPasswordKey(roomId));
+}
+
+// ブラウザごとの固定ID（ホストにBANされたときに同じブラウザから再参加できないようにする）
+const CLIENT_ID_KEY = 'paintchain_client_id';
+
+export function getClientId(): string {
+  let clientId = localStorage.getItem(CLIENT_ID_KEY);
+  if (!clientId) {
+    clientId = crypto.randomUUID();
+    localStorage.setItem(CLIENT_ID_KEY, clientId);
+  }
+  return clientId;
+}
+
 class WebSocketManager {
   private ws: WebSocket | null = null;
   private reconnectAttempts = 0;
@@ -13,6 +55,9 @@ class WebSocketManager {
   private isReconnecting = false;
   private errorCallback: ((message: string) => void) | null = null;
   private recentLocalSubmissions: Map<string, number> = new Map(); // playerId -> timestamp
+  // 再接続時に取りこぼしたイベントを再送してもらうための、イベント系列IDと最後に受け取った連番
+  private eventStream: string | null = null;
+  private lastSeq: number | null = null;
 
   connect(roomId: string) {
     if (this.currentRoomId === roomId && this.ws?.readyState === WebSocket.OPEN) {
@@ -30,6 +75,8 @@ class WebSocketManager {
     }
 
     this.currentRoomId = roomId;
+    this.eventStream = null;
+    this.lastSeq = null;
     this.doConnect(roomId, false);
   }
 
@@ -48,11 +95,16 @@ class WebSocketManager {
       this.reconnectAttempts = 0;
 
       // Auto-rejoin only if this was a reconnection attempt (not initial page load)
-      const savedPlayerId = sessionStorage.getItem(`playerId_${roomId}`);
-      if (savedPlayerId && isReconnect) {
+      const savedToken = getSessionToken(roomId);
+      if (savedToken && isReconnect) {
         this.send({
           type: 'rejoin_room',
-          payload: { roomId, playerId: savedPlayerId },
+          payload: {
+            roomId,
+            sessionToken: savedToken,
+            stream: this.eventStream ?? undefined,
+            lastSeq: this.lastSeq ?? undefined,
+          },
         });
       }
     };
@@ -103,32 +155,36 @@ class WebSocketManager {
     const roomStore = useRoomStore.getState();
     const gameStore = useGameStore.getState();
 
+    if (data.seq !== undefined) {
+      this.lastSeq = Math.max(this.lastSeq ?? 0, data.seq);
+    }
+
     switch (data.type) {
       case 'room_joined':
         roomStore.setRoom(data.payload.room);
         roomStore.setPlayerId(data.payload.playerId);
-        sessionStorage.setItem(`playerId_${roomId}`, data.payload.playerId);
+        saveSessionToken(roomId, data.payload.sessionToken);
+        clearRoomPassword(roomId);
+        this.eventStream = data.payload.stream;
+        this.lastSeq = data.payload.seq;
+        // ゲーム中に観戦者として参加した場合は、現在のフェーズから表示する
+        this.restoreGameState(data.payload.gameState ?? null, data.payload.modeState ?? null);
         break;
       case 'rejoined': {
-        const payload = data.payload as {
-          room: Room;
-          playerId: string;
-          gameState: { phase: GamePhase; timeRemaining: number; deadline?: string; currentTurn: number; totalTurns: number } | null;
-          content: ContentPayload | null;
-          hasSubmitted: boolean;
-        };
+        const payload = data.payload;
         roomStore.setRoom(payload.room);
         roomStore.setPlayerId(payload.playerId);
+        // 使ったトークンは無効になるので、新しいトークンに差し替える
+        saveSessionToken(roomId, payload.sessionToken);
 
-        if (payload.gameState) {
-          gameStore.setPhase(
-            payload.gameState.phase,
-            payload.gameState.timeRemaining,
-            payload.gameState.deadline,
-            payload.gameState.currentTurn,
-            payload.gameState.totalTurns
-          );
+        // 取りこぼしたイベントはこの後に再送されるので、スナップショットは適用しない
+        if (payload.resumed === 'replay') {
+          break;
         }
+        this.eventStream = payload.stream;
+        this.lastSeq = payload.seq;
+
+        this.restoreGameState(payload.gameState, payload.modeState ?? null);
 
         if (payload.content) {
           gameStore.setReceivedContent(payload.content);
@@ -140,11 +196,14 @@ class WebSocketManager {
         break;
       }
       case 'players_updated':
-        roomStore.setPlayers(data.payload.players);
+        roomStore.setPlayers(data.payload.players, data.payload.spectators);
         break;
       case 'game_started':
+        roomStore.setPalette(data.payload.palette);
         break;
       case 'phase_changed':
+        // 前のフェーズの描画はライブ表示しない（サーバー側も破棄している）
+        gameStore.clearLiveCanvas();
         gameStore.setPhase(
           data.payload.phase,
           data.payload.timeRemaining,
@@ -166,6 +225,7 @@ class WebSocketManager {
         gameStore.setChains(data.payload.chains, data.payload.players);
         // New result phase: clear any stale navigation/reveal state from a previous game.
         gameStore.resetAllEntryIndices();
+        gameStore.resetVoting();
         // Don't set initial position here - let GameResult component handle it
         // based on the display order setting
         gameStore.setPhase('result', 0);
@@ -180,6 +240,12 @@ class WebSocketManager {
       case 'animation_unlocked':
         gameStore.unlockChain(data.payload.chainIndex);
         break;
+      case 'vote_progress':
+        gameStore.setVotedPlayerIds(data.payload.votedPlayerIds);
+        break;
+      case 'vote_results':
+        gameStore.setVoteResults(data.payload.awards, data.payload.voterCount);
+        break;
       case 'settings_updated':
         roomStore.setSettings(data.payload.settings);
         break;
@@ -223,9 +289,11 @@ class WebSocketManager {
         gameStore.setShiritoriResult(data.payload);
         gameStore.setPhase('result', 0);
         break;
-      case 'shiritori_canvas_update':
-        console.log('[Shiritori] Received canvas update from drawer:', data.payload.drawerId);
-        gameStore.setShiritoriLiveCanvas(data.payload.imageData);
+      case 'live_canvas_strokes':
+        gameStore.appendLiveCanvasStrokes(data.payload.drawerId, data.payload.strokes);
+        break;
+      case 'live_canvas_keyframe':
+        gameStore.setLiveCanvasKeyframe(data.payload.drawerId, data.payload.imageData, data.payload.strokes);
         break;
       case 'quiz_state':
         // recentFeedはquiz_feedイベントで管理するので除外
@@ -256,26 +324,53 @@ class WebSocketManager {
           gameStore.addQuizFeed(item);
         }
         break;
-      case 'quiz_canvas_update':
-        if (gameStore.quizState) {
-          gameStore.setQuizState({
-            ...gameStore.quizState,
-            currentDrawing: data.payload.imageData,
-          });
-        }
-        break;
       case 'quiz_round_ended':
         gameStore.setQuizRevealedAnswer(data.payload.prompt);
         gameStore.setQuizState({
           ...gameStore.quizState!,
           scores: data.payload.scores,
           winners: data.payload.winners,
+          teamScores: data.payload.teamScores ?? gameStore.quizState?.teamScores,
         });
         break;
       case 'quiz_result':
         gameStore.setQuizResult(data.payload);
         gameStore.setPhase('result', 0);
         break;
+      case 'collab_state':
+        gameStore.setCollabState(data.payload);
+        break;
+      case 'collab_strokes':
+        // 自分のストロークは手元のキャンバスに描画済み
+        if (data.payload.playerId !== roomStore.playerId) {
+          gameStore.appendCollabStrokes(data.payload.strokes.map((stroke) => ({ ...stroke, playerId: data.payload.playerId })));
+        }
+        break;
+      case 'collab_result':
+        gameStore.setCollabResult(data.payload);
+        gameStore.setPhase('result', 0);
+        break;
+      case 'imposter_state':
+        gameStore.setImposterState(data.payload);
+        break;
+      case 'imposter_result':
+        gameStore.setImposterResult(data.payload);
+        gameStore.setPhase('result', 0);
+        break;
+      case 'caption_state':
+        gameStore.setCaptionState(data.payload);
+        break;
+      case 'caption_result':
+        gameStore.setCaptionResult(data.payload);
+        gameStore.setPhase('result', 0);
+        break;
+      case 'showdown_state':
+        gameStore.setShowdownState(data.payload);
+        break;
+      case 'showdown_result':
+        gameStore.setShowdownResult(data.payload);
+        gameStore.setPhase('result', 0);
+        break;
       case 'returned_to_lobby':
         // Update room state when returning to lobby
         roomStore.setRoom(data.payload.room);
@@ -284,7 +379,45 @@ class WebSocketManager {
         // Add chat message to room store
         roomStore.addLobbyChatMessage(data.payload);
         break;
+      case 'room_closed':
+        // サーバー側でルームが削除されたので再接続しない
+        clearSessionToken(roomId);
+        this.currentRoomId = null;
+        gameStore.reset();
+        roomStore.reset();
+        roomStore.setError(data.payload.message);
+        break;
+      case 'kicked':
+        // ルームから外されたので再接続しない
+        clearSessionToken(roomId);
+        this.currentRoomId = null;
+        gameStore.reset();
+        roomStore.reset();
+        roomStore.setError(data.payload.message);
+        break;
+      case 'host_changed':
+        roomStore.setHostId(data.payload.hostId);
+        break;
+      case 'room_lock_changed':
+        roomStore.setRoomLocked(data.payload.locked);
+        break;
+      case 'presenter_changed':
+        roomStore.setPresenterId(data.payload.presenterId);
+        break;
+      case 'rate_limited':
+        roomStore.setRateLimitNotice(data.payload);
+        break;
       case 'error':
+        // 無効になったトークンは次回以降使わない
+        if (data.payload.code === 'rejoin_failed') {
+          clearSessionToken(roomId);
+        }
+        // パスワードはロビーで入力し直してもらう（エラー画面にはしない）
+        if (data.payload.code === 'password_required') {
+          clearRoomPassword(roomId);
+          roomStore.setPasswordRequired(true);
+          break;
+        }
         roomStore.setError(data.payload.message);
         // Also call error callback if registered
         if (this.errorCallback) {
@@ -294,6 +427,54 @@ class WebSocketManager {
     }
   }
 
+  // 再接続・途中参加時に、現在のフェーズとしりとり・クイズの状態を復元する
+  private restoreGameState(gameState: GameStateSnapshot | null, modeState: RejoinModeState | null) {
+    const gameStore = useGameStore.getState();
+
+    if (gameState) {
+      gameStore.setPhase(
+        gameState.phase,
+        gameState.timeRemaining,
+        gameState.deadline,
+        gameState.currentTurn,
+        gameState.totalTurns
+      );
+    }
+
+    const shiritori = modeState?.shiritori;
+    if (shiritori) {
+      gameStore.setShiritoriTurn(
+        shiritori.drawerId,
+        shiritori.previousLetterHint,
+        shiritori.order,
+        shiritori.total,
+        shiritori.gallery
+      );
+      if (shiritori.pendingImage) {
+        gameStore.setShiritoriPendingAnswer(true, shiritori.pendingImage);
+      }
+    }
+    if (modeState?.quiz) {
+      gameStore.setQuizState({ ...modeState.quiz, recentFeed: gameStore.quizFeed });
+    }
+
+    if (modeState?.collab) {
+      gameStore.setCollabState(modeState.collab);
+    }
+
+    if (modeState?.imposter) {
+      gameStore.setImposterState(modeState.imposter);
+    }
+
+    if (modeState?.caption) {
+      gameStore.setCaptionState(modeState.caption);
+    }
+
+    if (modeState?.showdown) {
+      gameStore.setShowdownState(modeState.showdown);
+    }
+  }
+
   send(event: WSClientEvent) {
     if (this.ws?.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify(event));
@@ -318,6 +499,8 @@ class WebSocketManager {
       this.reconnectTimeout = null;
     }
     this.currentRoomId = null;
+    this.eventStream = null;
+    this.lastSeq = null;
     this.isReconnecting = false;
     this.reconnectAttempts = 0;
     this.ws?.close();
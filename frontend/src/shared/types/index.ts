@@ -1,25 +1,17 @@
-// ゲームモード
-export type GameMode = 'normal' | 'animation' | 'shiritori' | 'quiz';
-
-// 描画ツールタイプ
-export type DrawingToolType = 'brush' | 'eraser' | 'bucket' | 'stamp' | 'line';
-
-// 描画ストローク（タイムラプス用）
-export interface DrawingStroke {
-  tool: DrawingToolType;
-  color: string;
-  brushSize: number;
-  opacity: number;
-  timestamp: number; // 描画開始からの経過ミリ秒
-  // ブラシ/消しゴム/ライン用の点群
-  points?: { x: number; y: number }[];
-  // バケツ用
-  fillPoint?: { x: number; y: number };
-  // スタンプ用
-  stampShape?: string;
-  stampBounds?: { x: number; y: number; width: number; height: number };
-  fillStamp?: boolean;
-}
+import type { ClientEvent, DrawingStroke, GameMode, ProtocolTypes, ServerMessage } from '@shared/protocol';
+
+// ゲームモード・描画ストローク・WebSocketのエラーはサーバーと共通の定義を使う
+export type {
+  GameMode,
+  DrawingToolType,
+  DrawingStroke,
+  LobbyChatItem,
+  ProtocolError,
+  ProtocolErrorCode,
+  RateLimitNotice,
+  VoteAward,
+  VoteCategory,
+} from '@shared/protocol';
 
 // モード別設定
 export interface NormalModeSettings {
@@ -77,18 +69,104 @@ export interface QuizModeSettings {
   drawerBonus: number;
   noWinnerBonus: number;
   selectedCategories: QuizPromptCategory[]; // 選択されたカテゴリ（空の場合は全カテゴリ）
+  teamMode: boolean;
+  teamCount: number;
+  teamAnswerRule: QuizTeamAnswerRule;
+}
+
+// チーム戦の回答ルール: open=誰でも, own=親のチームだけ, steal=他チームが当てたら横取り
+export type QuizTeamAnswerRule = 'open' | 'own' | 'steal';
+
+export const QUIZ_TEAM_LABELS = ['🔴 赤チーム', '🔵 青チーム', '🟢 緑チーム', '🟡 黄チーム'];
+
+export interface CollabModeSettings {
+  drawingTimeSec: number;
+  lockColor: boolean; // 自分のプレイヤーカラーだけで描く
+  splitRegions: boolean; // キャンバスを人数分に区切り、自分の範囲だけに描く
+}
+
+export interface ImposterModeSettings {
+  rounds: number; // 全員が1画ずつ描くのを何周するか
+  strokeTimeSec: number;
+  voteTimeSec: number;
+  guessTimeSec: number;
+  selectedCategories: QuizPromptCategory[]; // 空の場合は全カテゴリ
+}
+
+export interface CorpseModeSettings {
+  drawingTimeSec: number;
+  segmentCount: number; // 1枚の絵を何段に分けるか（3なら頭・胴体・脚）
+  stripHeightPx: number; // 次の人に見せる、前の段の下端の高さ
+}
+
+export interface MemoryModeSettings {
+  firstDrawingTimeSec: number;
+  viewTimeSec: number; // 前の絵を見られる秒数
+  drawingTimeSec: number;
+}
+
+export interface CaptionModeSettings {
+  rounds: number;
+  promptSource: 'player' | 'deck'; // player: 順番に1人が絵を描く / deck: クイズのお題をそのまま使う
+  drawingTimeSec: number;
+  captionTimeSec: number;
+  voteTimeSec: number;
+  revealTimeSec: number;
+  winnerBonus: number; // 最多得票のキャプションに加える点
+  selectedCategories: QuizPromptCategory[]; // 空の場合は全カテゴリ
+}
+
+export interface ShowdownModeSettings {
+  rounds: number;
+  drawingTimeSec: number;
+  judgingTimeSec: number;
+  revealTimeSec: number;
+  guessAuthor: boolean; // 誰が描いたかの予想でボーナス
+  guessBonus: number;
+  selectedCategories: QuizPromptCategory[]; // 空の場合は全カテゴリ
+}
+
+// どのモードにもかけられる描画の縛り（共同キャンバス・エセ芸術家には適用しない）
+export interface GameModifiers {
+  blindDrawing: boolean; // 描いている間キャンバスが見えない
+  limitedInk: boolean;
+  inkLimit: number; // 線の長さの合計（px）
+  restrictedPalette: boolean;
+  paletteSize: number; // ゲーム開始時にランダムで選ぶ色の数
+  mirrored: boolean; // 左右反転したキャンバスに描く
+  oneStroke: boolean; // 一筆書き
 }
 
 // Room types
+export type RoomVisibility = 'public' | 'private';
+
 export interface Room {
   id: string;
   status: 'waiting' | 'playing' | 'finished';
   hostId: string;
   players: Player[];
+  spectators?: Spectator[]; // room.players とは別に管理する（チェーンや提出数の計算に含めない）
   settings: Settings;
   createdAt: string;
   currentPhase?: GamePhase;
   currentTurn?: number;
+  gameId?: string;
+  presenterId?: string; // 結果発表を進めるプレイヤー（未設定ならホスト）
+  locked?: boolean;
+  visibility?: RoomVisibility;
+  hasPassword?: boolean;
+  palette?: string[]; // 色を絞るルールでこのゲームに選ばれた色
+}
+
+// 公開ルーム一覧（GET /api/rooms）の1件分
+export interface PublicRoomSummary {
+  roomId: string;
+  gameMode: GameMode;
+  hostName: string;
+  playerCount: number;
+  maxPlayers: number;
+  hasPassword: boolean;
+  createdAt: string;
 }
 
 // プレイヤーカラーパレット（12色、重複禁止）
@@ -113,6 +191,14 @@ export interface Player {
   ready: boolean;
   connected: boolean;
   color: string; // プレイヤーカラー（hex）
+  team?: number; // クイズのチーム戦で所属するチーム（0始まり）
+}
+
+// 観戦者（ゲームには参加せず、ルーム内の配信だけを受け取る）
+export interface Spectator {
+  id: string;
+  name: string;
+  connected: boolean;
 }
 
 export interface Settings {
@@ -122,15 +208,23 @@ export interface Settings {
   animationSettings: AnimationModeSettings;
   shiritoriSettings: ShiritoriModeSettings;
   quizSettings: QuizModeSettings;
+  collabSettings: CollabModeSettings;
+  imposterSettings: ImposterModeSettings;
+  corpseSettings: CorpseModeSettings;
+  memorySettings: MemoryModeSettings;
+  captionSettings: CaptionModeSettings;
+  showdownSettings: ShowdownModeSettings;
+  modifiers: GameModifiers;
 }
 
-export type GamePhase = 'prompt' | 'first-frame' | 'drawing' | 'guessing' | 'result' | 'quiz_prompt' | 'quiz_drawing' | 'quiz_guessing' | 'quiz_reveal';
+export type GamePhase = 'prompt' | 'first-frame' | 'drawing' | 'guessing' | 'result' | 'quiz_prompt' | 'quiz_drawing' | 'quiz_guessing' | 'quiz_reveal' | 'collab_drawing' | 'imposter_drawing' | 'imposter_voting' | 'imposter_guess' | 'memory_viewing' | 'caption_voting' | 'caption_reveal' | 'showdown_judging' | 'showdown_reveal';
 
 export type ContentPayload =
   | { type: 'text'; payload: string }
   | { type: 'drawing'; payload: string }
   | { type: 'frames'; payload: string[] }
-  | { type: 'frames_with_bg'; payload: string[]; background: string };
+  | { type: 'frames_with_bg'; payload: string[]; background: string }
+  | { type: 'edge_strip'; payload: string | null; segment: number; segmentCount: number }; // payloadは前の段の下端（最初の段はnull）
 
 export interface Chain {
   id: string;
@@ -196,74 +290,229 @@ export interface QuizState {
   canvasLocked: boolean;
   quizFormat: 'realtime' | 'reveal';
   promptDisplayMode: 'immediate' | 'separate';
+  // チーム戦のみ
+  teams?: Record<string, number>;
+  teamScores?: number[];
+  teamAnswerRule?: QuizTeamAnswerRule;
+}
+
+// 描画中キャンバスのライブ表示（しりとり・クイズのrealtime形式）
+export interface LiveCanvasState {
+  drawerId: string;
+  keyframe: string | null; // nullなら白紙
+  keyframeVersion: number; // キーフレームが届くたびに増える
+  strokes: DrawingStroke[]; // キーフレームの上に重ねるストローク
+}
+
+// Collab
+export interface CanvasRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CollabStroke extends DrawingStroke {
+  playerId: string;
+}
+
+export interface CollabState {
+  prompt: string;
+  strokes: CollabStroke[];
+  regions: Record<string, CanvasRegion> | null; // 範囲分けしない場合はnull
+  lockColor: boolean;
+}
+
+// 完成品は strokes から描き直す
+export interface CollabResult {
+  prompt: string;
+  strokes: CollabStroke[];
+  regions: Record<string, CanvasRegion> | null;
+  players: Pick<Player, 'id' | 'name' | 'color'>[];
+}
+
+// Imposter
+export interface ImposterStroke extends DrawingStroke {
+  playerId: string;
+  round: number;
+}
+
+export interface ImposterState {
+  category: QuizPromptCategory;
+  prompt: string | null; // 偽アーティストと観戦者にはnull
+  isImposter: boolean;
+  drawerId: string | null;
+  round: number;
+  totalRounds: number;
+  strokes: ImposterStroke[];
+  votedPlayerIds: string[];
+  myVote: string | null;
+  accusedId: string | null; // お題当てのフェーズのみ
+}
+
+export interface ImposterResult {
+  category: QuizPromptCategory;
+  prompt: string;
+  imposterId: string;
+  strokes: ImposterStroke[];
+  votes: Record<string, string>; // 投票した人 -> 偽アーティストだと思う人
+  accusedId: string | null;
+  caught: boolean;
+  guess: string | null;
+  guessedCorrectly: boolean;
+  imposterLeft: boolean; // エセ芸術家が途中で抜けた
+  winner: 'artists' | 'imposter';
+  players: Pick<Player, 'id' | 'name' | 'color'>[];
+}
+
+// Caption contest
+export interface CaptionRoundRecord {
+  round: number;
+  artistId: string | null; // deck形式ではnull
+  prompt: string;
+  drawing: string | null;
+  captions: { id: string; authorId: string; text: string; votes: number; points: number }[]; // 得票の多い順
+  winnerIds: string[];
+}
+
+export interface CaptionState {
+  round: number;
+  totalRounds: number;
+  promptSource: CaptionModeSettings['promptSource'];
+  artistId: string | null;
+  prompt: string | null; // player形式では描く人と結果発表のときだけ
+  drawing: string | null;
+  captions: { id: string; text: string; mine: boolean }[]; // 投票・結果発表のフェーズのみ
+  votedPlayerIds: string[];
+  myVote: string | null;
+  scores: Record<string, number>;
+  reveal: CaptionRoundRecord | null;
+}
+
+export interface CaptionResult {
+  rounds: CaptionRoundRecord[];
+  scores: Record<string, number>;
+  players: Pick<Player, 'id' | 'name' | 'color'>[];
+}
+
+// Speed-draw showdown
+export { SHOWDOWN_RANK_POINTS } from '@shared/protocol';
+
+export interface ShowdownBallot {
+  ranking: string[]; // 絵のID（上位から）
+  guesses: Record<string, string>; // 絵のID -> 描いたと思う人
+}
+
+export interface ShowdownRoundRecord {
+  round: number;
+  prompt: string;
+  drawings: { id: string; authorId: string; image: string; rankPoints: number; firstPlaceVotes: number }[]; // 順位点の高い順
+  guessHits: Record<string, number>;
+  roundScores: Record<string, number>;
+}
+
+export interface ShowdownState {
+  round: number;
+  totalRounds: number;
+  prompt: string;
+  drawings: { id: string; image: string; mine: boolean }[]; // 審査・結果発表のフェーズのみ
+  guessAuthor: boolean;
+  judgedPlayerIds: string[];
+  myBallot: ShowdownBallot | null;
+  scores: Record<string, number>;
+  reveal: ShowdownRoundRecord | null;
+}
+
+export interface ShowdownResult {
+  rounds: ShowdownRoundRecord[];
+  scores: Record<string, number>;
+  players: Pick<Player, 'id' | 'name' | 'color'>[];
+}
+
+// 再接続時に復元するモード固有の状態
+export interface RejoinModeState {
+  quiz?: QuizState | null;
+  collab?: CollabState;
+  imposter?: ImposterState;
+  caption?: CaptionState;
+  showdown?: ShowdownState;
+  shiritori?: {
+    drawerId: string | null;
+    previousLetterHint: string | null;
+    order: number;
+    total: number;
+    gallery: ShiritoriDrawingPublic[];
+    pendingImage: string | null;
+  };
+}
+
+export interface QuizRoundRecord {
+  round: number;
+  prompt: string;
+  drawerId: string;
+  winners: string[];
 }
 
 export interface QuizResult {
+  rounds?: QuizRoundRecord[];
   scores: Record<string, number>;
   players: { id: string; name: string }[];
+  teams?: Record<string, number>;
+  teamScores?: number[];
 }
 
-// Lobby Chat
-export interface LobbyChatItem {
+// Game history
+export interface ArchivedGameSummary {
   id: string;
-  playerId: string;
-  playerName: string;
-  playerColor: string;
-  text: string;
-  createdAt: number;
+  roomId: string;
+  gameMode: GameMode;
+  players: Pick<Player, 'id' | 'name' | 'color'>[];
+  finishedAt: string;
+}
+
+export type ArchivedGame = ArchivedGameSummary & { settings: Settings } & (
+  | { gameMode: 'normal' | 'animation' | 'corpse' | 'memory'; result: { chains: Chain[] } }
+  | { gameMode: 'shiritori'; result: ShiritoriResult }
+  | { gameMode: 'quiz'; result: QuizResult }
+  | { gameMode: 'collab'; result: CollabResult }
+  | { gameMode: 'imposter'; result: ImposterResult }
+  | { gameMode: 'caption'; result: CaptionResult }
+  | { gameMode: 'showdown'; result: ShowdownResult }
+);
+
+// WebSocket event types (shared protocol with client-side entity types)
+export interface GameStateSnapshot {
+  phase: GamePhase;
+  timeRemaining: number;
+  deadline?: string;
+  currentTurn: number;
+  totalTurns: number;
+}
+
+interface ClientProtocolTypes extends ProtocolTypes {
+  Room: Room;
+  Player: Player;
+  Spectator: Spectator;
+  Settings: Settings;
+  Chain: Chain;
+  GamePhase: GamePhase;
+  GameState: GameStateSnapshot;
+  ContentPayload: ContentPayload;
+  ShiritoriDrawing: ShiritoriDrawingPublic;
+  ShiritoriResult: ShiritoriResult;
+  QuizState: QuizState;
+  QuizFeedItem: QuizFeedItem;
+  QuizResult: QuizResult;
+  CollabState: CollabState;
+  CollabResult: CollabResult;
+  ImposterState: ImposterState;
+  ImposterResult: ImposterResult;
+  CaptionState: CaptionState;
+  CaptionResult: CaptionResult;
+  ShowdownState: ShowdownState;
+  ShowdownResult: ShowdownResult;
+  RejoinModeState: RejoinModeState;
 }
 
-// WebSocket event types
-export type WSClientEvent =
-  | { type: 'join_room'; payload: { roomId: string; playerName: string } }
-  | { type: 'leave_room'; payload: { roomId: string } }
-  | { type: 'toggle_ready'; payload: { roomId: string } }
-  | { type: 'start_game'; payload: { roomId: string } }
-  | { type: 'mark_ready'; payload: Record<string, never> }
-  | { type: 'unmark_ready'; payload: Record<string, never> }
-  | { type: 'submit_prompt'; payload: { text: string } }
-  | { type: 'submit_drawing'; payload: { imageData: string; strokes?: DrawingStroke[] } }
-  | { type: 'submit_guess'; payload: { text: string } }
-  | { type: 'submit_shiritori'; payload: { imageData?: string | null; answer?: string | null } }
-  | { type: 'shiritori_canvas_sync'; payload: { imageData: string } }
-  | { type: 'quiz_canvas_sync'; payload: { imageData: string } }
-  | { type: 'submit_quiz_guess'; payload: { text: string } }
-  | { type: 'rejoin_room'; payload: { roomId: string; playerId: string } }
-  | { type: 'result_navigate'; payload: { chainIndex: number; entryIndex: number; displayOrder?: 'first-to-last' | 'last-to-first' } }
-  | { type: 'animation_unlock'; payload: { chainIndex: number } }
-  | { type: 'return_to_lobby'; payload: Record<string, never> }
-  | { type: 'update_settings'; payload: { settings: Partial<Settings> } }
-  | { type: 'select_mode'; payload: { mode: GameMode } }
-  | { type: 'reorder_players'; payload: { playerIds: string[] } }
-  | { type: 'change_color'; payload: { color: string } }
-  | { type: 'lobby_chat'; payload: { text: string } };
-
-export type WSServerEvent =
-  | { type: 'room_joined'; payload: { room: Room; playerId: string } }
-  | { type: 'rejoined'; payload: { room: Room; playerId: string; playerName: string; gameState: { phase: GamePhase; timeRemaining: number; deadline?: string; currentTurn: number; totalTurns: number } | null; content: ContentPayload | null; hasSubmitted: boolean } }
-  | { type: 'players_updated'; payload: { players: Player[] } }
-  | { type: 'game_started'; payload: { roomId: string } }
-  | { type: 'error'; payload: { message: string } }
-  | { type: 'phase_changed'; payload: { phase: GamePhase; timeRemaining: number; deadline?: string; currentTurn?: number; totalTurns?: number } }
-  | { type: 'timer_sync'; payload: { timeRemaining: number } }
-  | { type: 'submission_received'; payload: { playerId: string; submittedCount: number; totalCount: number } }
-  | { type: 'phase_complete'; payload: { nextPhase: GamePhase } }
-  | { type: 'receive_content'; payload: ContentPayload }
-  | { type: 'game_result'; payload: { chains: Chain[]; players?: Player[] } }
-  | { type: 'result_sync'; payload: { chainIndex: number; entryIndex: number; displayOrder?: 'first-to-last' | 'last-to-first' } }
-  | { type: 'animation_unlocked'; payload: { chainIndex: number } }
-  | { type: 'returned_to_lobby'; payload: { room: Room } }
-  | { type: 'settings_updated'; payload: { settings: Settings } }
-  | { type: 'mode_changed'; payload: { mode: GameMode } }
-  | { type: 'shiritori_turn'; payload: { drawerId: string | null; previousLetterHint: string | null; order: number; total: number; gallery: ShiritoriDrawingPublic[] } }
-  | { type: 'shiritori_your_turn'; payload: { previousLetterHint: string | null } }
-  | { type: 'shiritori_drawing_added'; payload: { drawing: ShiritoriDrawingPublic; nextDrawerId: string | null } }
-  | { type: 'shiritori_answer_submitted'; payload: { playerId: string; drawing: ShiritoriDrawingPublic } }
-  | { type: 'shiritori_result'; payload: ShiritoriResult }
-  | { type: 'shiritori_canvas_update'; payload: { drawerId: string; imageData: string } }
-  | { type: 'quiz_canvas_update'; payload: { drawerId: string; imageData: string } }
-  | { type: 'quiz_state'; payload: QuizState }
-  | { type: 'quiz_feed'; payload: { item: QuizFeedItem } }
-  | { type: 'quiz_round_ended'; payload: { prompt: string; winners: { playerId: string; rank: number }[]; scores: Record<string, number> } }
-  | { type: 'quiz_result'; payload: QuizResult }
-  | { type: 'lobby_chat'; payload: LobbyChatItem };
+export type WSClientEvent = ClientEvent<ClientProtocolTypes>;
+export type WSServerEvent = ServerMessage<ClientProtocolTypes>;
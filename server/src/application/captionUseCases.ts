@@ -0,0 +1,25 @@
+import { getModeHandler } from './gameModes/index.js';
+import { getRoom } from './roomUseCases.js';
+import { forceAdvancePhase } from './gameUseCases.js';
+
+type CaptionActionResult = { success: boolean; error?: string };
+
+// 全員が投票し終えたら締め切りを待たずに結果発表へ
+export function voteCaption(roomId: string, playerId: string, captionId: string): CaptionActionResult {
+  const room = getRoom(roomId);
+  if (!room) return { success: false, error: 'Room not found' };
+  if (room.settings.gameMode !== 'caption' || room.currentPhase !== 'caption_voting') {
+    return { success: false, error: 'Not available in this phase' };
+  }
+
+  const handler = getModeHandler('caption');
+  const { accepted, allVoted } = handler.castVote(room, playerId, captionId);
+  if (!accepted) return { success: false, error: 'Cannot vote for this caption' };
+
+  if (allVoted) {
+    forceAdvancePhase(roomId);
+  } else {
+    handler.emitState(room);
+  }
+  return { success: true };
+}
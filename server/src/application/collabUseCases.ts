@@ -0,0 +1,13 @@
+import type { DrawingStroke } from '../domain/entities.js';
+import { getModeHandler } from './gameModes/index.js';
+import type { CollabStroke } from './gameModes/collabMode.js';
+import { getRoom } from './roomUseCases.js';
+
+// 共同キャンバスへの描き足し。受け付けたストロークを返す（制限に合わないものは捨てる）
+export function addCollabStrokes(roomId: string, playerId: string, strokes: DrawingStroke[]): CollabStroke[] {
+  const room = getRoom(roomId);
+  if (!room) return [];
+  if (room.settings.gameMode !== 'collab' || room.currentPhase !== 'collab_drawing') return [];
+
+  return getModeHandler('collab').addStrokes(room, playerId, strokes);
+}
@@ -0,0 +1,88 @@
+import type { ArchivedGame, GameMode, Room } from '../domain/entities.js';
+import { createRepository } from '../infra/persistence/index.js';
+import { archivedGameCodec } from '../infra/persistence/codecs.js';
+
+const games = createRepository<ArchivedGame>('games', archivedGameCodec); // gameId -> archived game
+
+// 保存しておくゲームの上限（件数と、終了からの経過時間）
+export interface ArchiveRetention {
+  maxGames: number;
+  maxAgeMs: number;
+}
+
+export interface ArchivedGameSummary {
+  id: string;
+  roomId: string;
+  gameMode: GameMode;
+  players: ArchivedGame['players'];
+  finishedAt: Date;
+}
+
+// 結果発表に到達したゲームを保存する（同じgameIdなら上書き）
+export function archiveGame(room: Room, result: unknown): ArchivedGame | null {
+  if (!room.gameId) return null;
+
+  const game: ArchivedGame = {
+    id: room.gameId,
+    roomId: room.id,
+    visibility: room.visibility ?? 'private',
+    gameMode: room.settings.gameMode,
+    settings: room.settings,
+    players: [...room.players, ...(room.departedPlayers ?? [])].map((p) => ({ id: p.id, name: p.name, color: p.color })),
+    finishedAt: new Date(),
+    result,
+  };
+  games.set(game.id, game);
+  return game;
+}
+
+export function getArchivedGame(gameId: string): ArchivedGame | undefined {
+  return games.get(gameId);
+}
+
+// 古すぎるゲームと、上限を超えた分の古いゲームを削除する
+export function pruneArchivedGames(retention: ArchiveRetention, now = Date.now()): number {
+  const newestFirst = games.values().sort((a, b) => b.finishedAt.getTime() - a.finishedAt.getTime());
+  let pruned = 0;
+
+  newestFirst.forEach((game, index) => {
+    if (index < retention.maxGames && now - game.finishedAt.getTime() < retention.maxAgeMs) return;
+    games.delete(game.id);
+    pruned++;
+  });
+
+  return pruned;
+}
+
+export function startArchivePruner(
+  retention: ArchiveRetention,
+  intervalMs: number,
+  onPruned?: (count: number) => void
+): NodeJS.Timeout {
+  const interval = setInterval(() => {
+    const pruned = pruneArchivedGames(retention);
+    if (pruned > 0) {
+      onPruned?.(pruned);
+    }
+  }, intervalMs);
+  interval.unref();
+  return interval;
+}
+
+// 非公開ルームのゲームは、そのルームIDを指定されたときだけ返す（ルームIDを一覧から漏らさない）
+export function listArchivedGames(options: { roomId?: string; limit?: number } = {}): ArchivedGameSummary[] {
+  const limit = Math.min(100, Math.max(1, options.limit ?? 20));
+
+  return games
+    .values()
+    .filter((g) => (options.roomId ? g.roomId === options.roomId : g.visibility === 'public'))
+    .sort((a, b) => b.finishedAt.getTime() - a.finishedAt.getTime())
+    .slice(0, limit)
+    .map((g) => ({
+      id: g.id,
+      roomId: g.roomId,
+      gameMode: g.gameMode,
+      players: g.players,
+      finishedAt: g.finishedAt,
+    }));
+}
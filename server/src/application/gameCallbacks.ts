@@ -0,0 +1,45 @@
+import type { Chain, GamePhase, Room } from '../domain/entities.js';
+import type { ContentPayload } from '../domain/gameMode.js';
+import type { ShiritoriDrawingPublic, ShiritoriResult, ShiritoriTurn } from './gameModes/shiritoriMode.js';
+import type { QuizClientState, QuizFeedItem, QuizResult, QuizRoundSummary } from './gameModes/quizMode.js';
+import type { CollabClientState, CollabResult } from './gameModes/collabMode.js';
+import type { ImposterClientState, ImposterResult } from './gameModes/imposterMode.js';
+import type { CaptionClientState, CaptionResult } from './gameModes/captionMode.js';
+import type { ShowdownClientState, ShowdownResult } from './gameModes/showdownMode.js';
+
+// ゲームの進行をクライアントへ知らせるコールバック（wsHandlerが登録する）
+// モード固有の通知は各モードのハンドラーが直接呼ぶ
+export interface GameCallbacks {
+  onPhaseChanged: (room: Room, phase: GamePhase, timeRemaining: number, deadline: Date) => void;
+  onSubmissionReceived: (room: Room, playerId: string, submittedCount: number, totalCount: number) => void;
+  onPhaseComplete: (room: Room, nextPhase: GamePhase | 'result') => void;
+  onReceiveContent: (playerId: string, content: ContentPayload) => void;
+  onTimerSync: (room: Room, remaining: number) => void;
+  onGameResult: (room: Room, chains: Chain[]) => void;
+  onShiritoriTurn?: (room: Room, payload: ShiritoriTurn) => void;
+  onShiritoriDrawingAdded?: (room: Room, drawing: ShiritoriDrawingPublic, nextDrawerId: string | null) => void;
+  onShiritoriAnswerSubmitted?: (room: Room, playerId: string, drawing: ShiritoriDrawingPublic) => void;
+  onShiritoriResult?: (room: Room, result: ShiritoriResult) => void;
+  onQuizState?: (room: Room, playerId: string, state: QuizClientState) => void;
+  onQuizFeed?: (room: Room, item: QuizFeedItem) => void;
+  onQuizRoundEnded?: (room: Room, data: QuizRoundSummary) => void;
+  onQuizResult?: (room: Room, result: QuizResult) => void;
+  onCollabState?: (room: Room, state: CollabClientState) => void;
+  onCollabResult?: (room: Room, result: CollabResult) => void;
+  onImposterState?: (room: Room, playerId: string, state: ImposterClientState) => void;
+  onImposterResult?: (room: Room, result: ImposterResult) => void;
+  onCaptionState?: (room: Room, playerId: string, state: CaptionClientState) => void;
+  onCaptionResult?: (room: Room, result: CaptionResult) => void;
+  onShowdownState?: (room: Room, playerId: string, state: ShowdownClientState) => void;
+  onShowdownResult?: (room: Room, result: ShowdownResult) => void;
+}
+
+let callbacks: GameCallbacks | null = null;
+
+export function setGameCallbacks(cb: GameCallbacks) {
+  callbacks = cb;
+}
+
+export function gameEvents(): GameCallbacks | null {
+  return callbacks;
+}
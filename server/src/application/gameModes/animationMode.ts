@@ -2,8 +2,13 @@ import type { Chain, GamePhase, Room } from '../../domain/entities.js';
 import type {
   ContentPayload,
   GameModeHandler,
+  GameResult,
+  ModeSettingsDefinition,
   SubmissionData,
 } from '../../domain/gameMode.js';
+import { gameEvents } from '../gameCallbacks.js';
+import { choice, range } from './settingsSchema.js';
+import { getTurnOrder, getVacantSeats } from './turnOrder.js';
 
 function getDrawingFrames(chain: Chain): string[] {
   return chain.entries.filter((e) => e.type === 'drawing').map((e) => e.payload);
@@ -25,6 +30,22 @@ function getBackgroundFrame(chain: Chain): string | null {
 }
 
 export class AnimationModeHandler implements GameModeHandler {
+  readonly mode = 'animation';
+  readonly settings: ModeSettingsDefinition = {
+    key: 'animationSettings',
+    schema: {
+      drawingTimeSec: range(90, 20, 300),
+      viewMode: choice('sequence', ['previous', 'sequence']),
+      firstFrameMode: choice('free', ['free', 'prompt', 'background']),
+      promptTimeSec: range(20, 5, 180),
+      frameCount: range(0, 0, 20), // 0 = 人数分
+    },
+  };
+  // first-frameは自分のチェーンに描くのでターンは進めない
+  readonly turnAdvancesAfter: readonly GamePhase[] = ['drawing'];
+  readonly contentPhases: readonly GamePhase[] = ['first-frame', 'drawing'];
+  readonly drawingPhases: readonly GamePhase[] = ['first-frame', 'drawing'];
+
   getPhases(): GamePhase[] {
     return ['prompt', 'first-frame', 'drawing', 'result'];
   }
@@ -71,10 +92,15 @@ export class AnimationModeHandler implements GameModeHandler {
     const { viewMode, firstFrameMode } = room.settings.animationSettings;
     const hasBackground = firstFrameMode === 'background';
     const turn = room.currentTurn ?? 0;
-    const playerCount = room.players.length;
+    const turnOrder = getTurnOrder(room);
+    const playerCount = turnOrder.length;
     const phase = room.currentPhase;
+    const present = new Set(room.players.map((p) => p.id));
+
+    turnOrder.forEach((playerId, index) => {
+      // 抜けたプレイヤーの席には送らない（フェーズの終わりに自動で埋める）
+      if (!present.has(playerId)) return;
 
-    room.players.forEach((player, index) => {
       // first-frame: 自分のチェーン (チェーン回転なし)
       // drawing: ターン+1でオフセットしたチェーン (次のプレイヤーのチェーンから)
       const chainOffset = phase === 'first-frame' ? 0 : turn + 1;
@@ -86,7 +112,7 @@ export class AnimationModeHandler implements GameModeHandler {
       if (phase === 'first-frame') {
         const promptEntry = chain.entries.find((e) => e.type === 'text');
         if (promptEntry) {
-          payloads.set(player.id, { type: 'text', payload: promptEntry.payload });
+          payloads.set(playerId, { type: 'text', payload: promptEntry.payload });
           return;
         }
         // お題なしの場合は何も送らない（フロントでは「お題なし」と表示）
@@ -106,16 +132,16 @@ export class AnimationModeHandler implements GameModeHandler {
           const lastFrame = animFrames.length > 0 ? animFrames[animFrames.length - 1] : null;
           if (background) {
             if (lastFrame) {
-              payloads.set(player.id, { type: 'frames_with_bg', payload: [lastFrame], background });
+              payloads.set(playerId, { type: 'frames_with_bg', payload: [lastFrame], background });
             } else {
               // まだアニメーションフレームがない場合は背景のみ
-              payloads.set(player.id, { type: 'frames_with_bg', payload: [], background });
+              payloads.set(playerId, { type: 'frames_with_bg', payload: [], background });
             }
           }
         } else {
           // 全フレーム表示（背景付き）
           if (background) {
-            payloads.set(player.id, { type: 'frames_with_bg', payload: animFrames, background });
+            payloads.set(playerId, { type: 'frames_with_bg', payload: animFrames, background });
           }
         }
         return;
@@ -123,22 +149,28 @@ export class AnimationModeHandler implements GameModeHandler {
 
       // 通常モード
       if (viewMode === 'previous') {
-        payloads.set(player.id, { type: 'drawing', payload: frames[frames.length - 1] });
+        payloads.set(playerId, { type: 'drawing', payload: frames[frames.length - 1] });
       } else {
-        payloads.set(player.id, { type: 'frames', payload: frames });
+        payloads.set(playerId, { type: 'frames', payload: frames });
       }
     });
 
     return payloads;
   }
 
+  getVacantSeats(room: Room): string[] {
+    return getVacantSeats(room);
+  }
+
   handleSubmission(room: Room, playerId: string, data: SubmissionData, chains: Chain[]): boolean {
     const phase = room.currentPhase;
     if (!phase) return false;
 
-    const playerCount = room.players.length;
+    // 抜けたプレイヤーの席も数える（空席の自動提出もここを通る）
+    const turnOrder = getTurnOrder(room);
+    const playerCount = turnOrder.length;
     const turn = room.currentTurn ?? 0;
-    const playerIndex = room.players.findIndex((p) => p.id === playerId);
+    const playerIndex = turnOrder.indexOf(playerId);
     if (playerIndex === -1) return false;
 
     if (phase === 'prompt') {
@@ -219,10 +251,14 @@ export class AnimationModeHandler implements GameModeHandler {
     return false;
   }
 
-  generateResult(room: Room, chains: Chain[]) {
+  generateResult(room: Room, chains: Chain[]): GameResult {
     return {
       chains,
       players: room.players,
     };
   }
+
+  announceResult(room: Room, result: GameResult): void {
+    gameEvents()?.onGameResult(room, result.chains);
+  }
 }
@@ -0,0 +1,337 @@
+import { FALLBACK_DRAWING, type CaptionModeSettings, type Chain, type GamePhase, type Room } from '../../domain/entities.js';
+import type {
+  ContentPayload,
+  GameModeHandler,
+  ModeRejoinState,
+  ModeSettingsDefinition,
+  SubmissionData,
+} from '../../domain/gameMode.js';
+import { gameEvents } from '../gameCallbacks.js';
+import { categories, choice, range } from './settingsSchema.js';
+import { emitToMembers, resultPlayers, shuffle, type ResultPlayer } from './modeHelpers.js';
+import { getRandomPrompt } from './quizMode.js';
+import { generatePlayerId } from '../../infra/services/idGenerator.js';
+import { createRepository } from '../../infra/persistence/index.js';
+
+export interface Caption {
+  id: string;
+  authorId: string;
+  text: string;
+}
+
+export interface CaptionRoundRecord {
+  round: number;
+  artistId: string | null; // deck形式ではnull
+  prompt: string;
+  drawing: string | null;
+  captions: (Caption & { votes: number; points: number })[]; // 得票の多い順
+  winnerIds: string[]; // 最多得票のキャプション
+}
+
+export interface CaptionState {
+  artistOrder: string[];
+  artistId: string | null;
+  prompt: string;
+  drawing: string | null;
+  captions: Caption[];
+  votes: Record<string, string>; // 投票した人 -> キャプションID
+  scores: Record<string, number>;
+  rounds: CaptionRoundRecord[];
+}
+
+// プレイヤーごとに送る状態（結果発表まで誰のキャプションかは伏せ、自分のものだけ分かるようにする）
+export interface CaptionClientState {
+  round: number;
+  totalRounds: number;
+  promptSource: CaptionModeSettings['promptSource'];
+  artistId: string | null;
+  prompt: string | null; // player形式では描く人にだけ見せる
+  drawing: string | null;
+  captions: { id: string; text: string; mine: boolean }[];
+  votedPlayerIds: string[];
+  myVote: string | null;
+  scores: Record<string, number>;
+  reveal: CaptionRoundRecord | null; // caption_revealフェーズのみ
+}
+
+export interface CaptionResult {
+  rounds: CaptionRoundRecord[];
+  scores: Record<string, number>;
+  players: ResultPlayer[];
+}
+
+const captionStates = createRepository<CaptionState>('caption_states');
+
+// 自分以外のキャプションが1つでもあれば投票できる
+function canVote(state: CaptionState, playerId: string): boolean {
+  return state.captions.some((c) => c.authorId !== playerId);
+}
+
+export class CaptionModeHandler implements GameModeHandler {
+  readonly mode = 'caption';
+  readonly minPlayers = 3;
+  readonly settings: ModeSettingsDefinition = {
+    key: 'captionSettings',
+    schema: {
+      rounds: range(3, 1, 10),
+      promptSource: choice('player', ['player', 'deck']),
+      drawingTimeSec: range(60, 20, 300),
+      captionTimeSec: range(60, 15, 180),
+      voteTimeSec: range(30, 10, 120),
+      revealTimeSec: range(8, 3, 30),
+      winnerBonus: range(2, 0, 10),
+      selectedCategories: categories(),
+    },
+  };
+  // 結果発表が終わったら次のラウンドへ
+  readonly turnAdvancesAfter: readonly GamePhase[] = ['caption_reveal'];
+  // drawing: 描く人にお題 / guessing: キャプションを書く人に絵（deck形式はお題）
+  readonly contentPhases: readonly GamePhase[] = ['drawing', 'guessing'];
+  readonly drawingPhases: readonly GamePhase[] = ['drawing'];
+
+  getPhases(room: Room): GamePhase[] {
+    const phases: GamePhase[] = ['guessing', 'caption_voting', 'caption_reveal'];
+    return room.settings.captionSettings.promptSource === 'player' ? ['drawing', ...phases] : phases;
+  }
+
+  private getRoundStartPhase(room: Room): GamePhase {
+    return room.settings.captionSettings.promptSource === 'player' ? 'drawing' : 'guessing';
+  }
+
+  getNextPhase(currentPhase: GamePhase, turn: number, totalTurns: number, room: Room): GamePhase | 'result' {
+    if (currentPhase === 'drawing') return 'guessing';
+    if (currentPhase === 'guessing') {
+      // キャプションが1つもなければ投票を飛ばす
+      const captions = captionStates.get(room.id)?.captions ?? [];
+      return captions.length > 0 ? 'caption_voting' : 'caption_reveal';
+    }
+    if (currentPhase === 'caption_voting') return 'caption_reveal';
+    return turn < totalTurns ? this.getRoundStartPhase(room) : 'result';
+  }
+
+  getTimeLimit(phase: GamePhase, settings: Room['settings']): number {
+    const { drawingTimeSec, captionTimeSec, voteTimeSec, revealTimeSec } = settings.captionSettings;
+    if (phase === 'drawing') return drawingTimeSec;
+    if (phase === 'guessing') return captionTimeSec;
+    if (phase === 'caption_voting') return voteTimeSec;
+    if (phase === 'caption_reveal') return revealTimeSec;
+    return 30;
+  }
+
+  initializeGame(room: Room): void {
+    const scores: Record<string, number> = {};
+    room.players.forEach((p) => { scores[p.id] = 0; });
+
+    const state: CaptionState = {
+      artistOrder: room.players.map((p) => p.id),
+      artistId: null,
+      prompt: '',
+      drawing: null,
+      captions: [],
+      votes: {},
+      scores,
+      rounds: [],
+    };
+    this.startRound(room, state, 0);
+
+    room.currentPhase = this.getRoundStartPhase(room);
+    room.currentTurn = 0;
+    room.totalTurns = room.settings.captionSettings.rounds;
+  }
+
+  // 描く人は順番に回す（途中で抜けたプレイヤーは飛ばす）
+  private startRound(room: Room, state: CaptionState, turn: number): void {
+    const { promptSource, selectedCategories } = room.settings.captionSettings;
+    const order = state.artistOrder.filter((playerId) => room.players.some((p) => p.id === playerId));
+
+    state.artistId = promptSource === 'player' ? order[turn % order.length] ?? null : null;
+    state.prompt = getRandomPrompt(selectedCategories).word;
+    state.drawing = null;
+    state.captions = [];
+    state.votes = {};
+    captionStates.set(room.id, state);
+  }
+
+  onTurnAdvanced(room: Room): void {
+    const state = captionStates.get(room.id);
+    const turn = room.currentTurn ?? 0;
+    if (state && turn < (room.totalTurns ?? 0)) {
+      this.startRound(room, state, turn);
+    }
+  }
+
+  getExpectedSubmitters(room: Room): string[] {
+    const state = captionStates.get(room.id);
+    if (!state) return [];
+    if (room.currentPhase === 'drawing') return state.artistId ? [state.artistId] : [];
+    if (room.currentPhase === 'guessing') return room.players.filter((p) => p.id !== state.artistId).map((p) => p.id);
+    // 投票は専用のイベントで受け付ける
+    return [];
+  }
+
+  distributeContent(room: Room, _chains: Chain[]): Map<string, ContentPayload> {
+    const payloads = new Map<string, ContentPayload>();
+    const state = captionStates.get(room.id);
+    if (!state) return payloads;
+
+    if (room.currentPhase === 'drawing' && state.artistId) {
+      payloads.set(state.artistId, { type: 'text', payload: state.prompt });
+    }
+    if (room.currentPhase === 'guessing') {
+      // 描く人が時間切れだった場合はお題に直接キャプションを付ける
+      const content: ContentPayload = state.drawing
+        ? { type: 'drawing', payload: state.drawing }
+        : { type: 'text', payload: state.prompt };
+      this.getExpectedSubmitters(room).forEach((playerId) => payloads.set(playerId, content));
+    }
+    return payloads;
+  }
+
+  handleSubmission(room: Room, playerId: string, data: SubmissionData, _chains: Chain[]): boolean {
+    const state = captionStates.get(room.id);
+    if (!state) return false;
+
+    if (room.currentPhase === 'drawing') {
+      if (playerId !== state.artistId) return false;
+      state.drawing = data.payload === FALLBACK_DRAWING ? null : data.payload;
+      captionStates.set(room.id, state);
+      return true;
+    }
+
+    if (room.currentPhase === 'guessing') {
+      // 時間切れ・空欄はキャプションなしとして扱う
+      const text = data.type === 'text' ? data.payload.trim() : '';
+      if (!text) return true;
+
+      const existing = state.captions.find((c) => c.authorId === playerId);
+      if (existing) {
+        existing.text = text;
+      } else {
+        state.captions.push({ id: generatePlayerId(), authorId: playerId, text });
+      }
+      captionStates.set(room.id, state);
+      return true;
+    }
+
+    return false;
+  }
+
+  // 投票する（締め切りまでは入れ直せる）。投票できる接続中の全員が投票したらtrue
+  castVote(room: Room, playerId: string, captionId: string): { accepted: boolean; allVoted: boolean } {
+    const state = captionStates.get(room.id);
+    const caption = state?.captions.find((c) => c.id === captionId);
+    if (!state || !caption || !room.players.some((p) => p.id === playerId) || caption.authorId === playerId) {
+      return { accepted: false, allVoted: false };
+    }
+
+    state.votes[playerId] = captionId;
+    captionStates.set(room.id, state);
+    const allVoted = room.players
+      .filter((p) => p.connected && canVote(state, p.id))
+      .every((p) => state.votes[p.id] !== undefined);
+    return { accepted: true, allVoted };
+  }
+
+  onPhaseStarting(room: Room, phase: GamePhase): void {
+    const state = captionStates.get(room.id);
+    if (!state) return;
+
+    // 書いた順で誰のものか推測されないよう並べ替える
+    if (phase === 'caption_voting') {
+      state.captions = shuffle(state.captions);
+      captionStates.set(room.id, state);
+    }
+    if (phase === 'caption_reveal') {
+      this.scoreRound(room, state);
+    }
+  }
+
+  // 1票ごとに1点、最多得票のキャプションにはボーナス
+  private scoreRound(room: Room, state: CaptionState): void {
+    const { winnerBonus } = room.settings.captionSettings;
+    const counts = new Map<string, number>();
+    Object.values(state.votes).forEach((captionId) => counts.set(captionId, (counts.get(captionId) ?? 0) + 1));
+
+    const max = Math.max(0, ...counts.values());
+    const winnerIds = max > 0 ? state.captions.filter((c) => counts.get(c.id) === max).map((c) => c.id) : [];
+    const captions = state.captions
+      .map((caption) => {
+        const votes = counts.get(caption.id) ?? 0;
+        const points = votes + (winnerIds.includes(caption.id) ? winnerBonus : 0);
+        state.scores[caption.authorId] = (state.scores[caption.authorId] ?? 0) + points;
+        return { ...caption, votes, points };
+      })
+      .sort((a, b) => b.votes - a.votes);
+
+    state.rounds.push({
+      round: state.rounds.length + 1,
+      artistId: state.artistId,
+      prompt: state.prompt,
+      drawing: state.drawing,
+      captions,
+      winnerIds,
+    });
+    captionStates.set(room.id, state);
+  }
+
+  onPhaseStarted(room: Room): void {
+    this.emitState(room);
+  }
+
+  emitState(room: Room): void {
+    emitToMembers(
+      room,
+      (memberId) => this.getClientState(room, memberId),
+      (memberId, state) => gameEvents()?.onCaptionState?.(room, memberId, state)
+    );
+  }
+
+  getClientState(room: Room, playerId: string): CaptionClientState | null {
+    const state = captionStates.get(room.id);
+    if (!state) return null;
+
+    const { promptSource, rounds } = room.settings.captionSettings;
+    const phase = room.currentPhase;
+    const showCaptions = phase === 'caption_voting' || phase === 'caption_reveal';
+    const isRevealed = phase === 'caption_reveal';
+    return {
+      round: Math.min((room.currentTurn ?? 0) + 1, rounds),
+      totalRounds: rounds,
+      promptSource,
+      artistId: state.artistId,
+      prompt: promptSource === 'deck' || playerId === state.artistId || isRevealed ? state.prompt : null,
+      drawing: state.drawing,
+      captions: showCaptions ? state.captions.map((c) => ({ id: c.id, text: c.text, mine: c.authorId === playerId })) : [],
+      votedPlayerIds: Object.keys(state.votes),
+      myVote: state.votes[playerId] ?? null,
+      scores: state.scores,
+      reveal: isRevealed ? state.rounds[state.rounds.length - 1] ?? null : null,
+    };
+  }
+
+  getRejoinState(room: Room, playerId: string): ModeRejoinState | null {
+    const state = this.getClientState(room, playerId);
+    return state ? { caption: state } : null;
+  }
+
+  generateResult(room: Room, _chains: Chain[]): CaptionResult | null {
+    const state = captionStates.get(room.id);
+    if (!state) return null;
+
+    return {
+      rounds: state.rounds,
+      scores: state.scores,
+      players: resultPlayers(room),
+    };
+  }
+
+  announceResult(room: Room, result: CaptionResult | null): void {
+    if (result) {
+      gameEvents()?.onCaptionResult?.(room, result);
+    }
+  }
+
+  cleanup(roomId: string): void {
+    captionStates.delete(roomId);
+  }
+}
@@ -0,0 +1,212 @@
+import type { Chain, DrawingStroke, GamePhase, Player, Room } from '../../domain/entities.js';
+import type {
+  ContentPayload,
+  GameModeHandler,
+  ModeRejoinState,
+  ModeSettingsDefinition,
+} from '../../domain/gameMode.js';
+import { gameEvents } from '../gameCallbacks.js';
+import { flag, range } from './settingsSchema.js';
+import { resultPlayers, type ResultPlayer } from './modeHelpers.js';
+import { createRepository } from '../../infra/persistence/index.js';
+import { QUIZ_PROMPTS, getPromptWord } from '../../data/quizPrompts.js';
+
+// フロントエンドのCanvasと同じ大きさ（ストロークの座標はこの範囲）
+const CANVAS_WIDTH = 800;
+const CANVAS_HEIGHT = 600;
+const MAX_STROKES = 20000; // これを超えたストロークは受け付けない（タイムラプスが重くなりすぎる）
+
+export interface CanvasRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 共同キャンバスに描かれたストローク（描いたプレイヤーつき）
+export interface CollabStroke extends DrawingStroke {
+  playerId: string;
+}
+
+export interface CollabState {
+  prompt: string;
+  strokes: CollabStroke[];
+  regions: Record<string, CanvasRegion> | null; // playerId -> 描ける範囲（範囲分けしない場合はnull）
+}
+
+// 描画フェーズの開始時と再接続時にクライアントへ送る状態
+export interface CollabClientState {
+  prompt: string;
+  strokes: CollabStroke[];
+  regions: Record<string, CanvasRegion> | null;
+  lockColor: boolean;
+}
+
+// 完成品は受け付けたストロークからクライアントが描き直す（提出された画像は信用しない）
+export interface CollabResult {
+  prompt: string;
+  strokes: CollabStroke[];
+  regions: Record<string, CanvasRegion> | null;
+  players: ResultPlayer[];
+}
+
+const collabStates = createRepository<CollabState>('collab_states');
+
+// 人数分のマス目に区切る（最後の行はマスを横に広げて隙間を作らない）
+function assignRegions(players: Player[]): Record<string, CanvasRegion> {
+  const columns = Math.ceil(Math.sqrt(players.length));
+  const rows = Math.ceil(players.length / columns);
+  const height = CANVAS_HEIGHT / rows;
+
+  const regions: Record<string, CanvasRegion> = {};
+  players.forEach((player, index) => {
+    const row = Math.floor(index / columns);
+    const cellsInRow = row === rows - 1 ? players.length - columns * row : columns;
+    const width = CANVAS_WIDTH / cellsInRow;
+    regions[player.id] = { x: (index % columns) * width, y: row * height, width, height };
+  });
+  return regions;
+}
+
+function isInside(region: CanvasRegion, point: { x: number; y: number }): boolean {
+  return (
+    point.x >= region.x &&
+    point.x <= region.x + region.width &&
+    point.y >= region.y &&
+    point.y <= region.y + region.height
+  );
+}
+
+// 色・範囲の制限に合うストロークか（消しゴムは色の制限を受けない）
+function isAllowedStroke(stroke: DrawingStroke, player: Player, lockColor: boolean, region: CanvasRegion | undefined): boolean {
+  if (lockColor && stroke.tool !== 'eraser' && stroke.color.toLowerCase() !== player.color.toLowerCase()) return false;
+  if (!region) return true;
+  // 塗りつぶしは開始点が枠内でも枠の外まで広がるので、範囲分けのときは使えない
+  if (stroke.tool === 'bucket') return false;
+
+  const points = [...(stroke.points ?? [])];
+  if (stroke.stampBounds) {
+    // スタンプは四隅まで枠に収まっているものだけ
+    const { x, y, width, height } = stroke.stampBounds;
+    points.push({ x, y }, { x: x + width, y }, { x, y: y + height }, { x: x + width, y: y + height });
+  }
+  return points.every((point) => isInside(region, point));
+}
+
+export class CollabModeHandler implements GameModeHandler {
+  readonly mode = 'collab';
+  readonly settings: ModeSettingsDefinition = {
+    key: 'collabSettings',
+    schema: {
+      drawingTimeSec: range(180, 30, 600),
+      lockColor: flag(false),
+      splitRegions: flag(false),
+    },
+  };
+  readonly turnAdvancesAfter: readonly GamePhase[] = [];
+  readonly contentPhases: readonly GamePhase[] = [];
+  // 画像は提出しない。完成の合図は mark_ready で送る
+  readonly drawingPhases: readonly GamePhase[] = [];
+  readonly ignoresModifiers = true;
+
+  getPhases(): GamePhase[] {
+    return ['collab_drawing'];
+  }
+
+  getNextPhase(): GamePhase | 'result' {
+    return 'result';
+  }
+
+  getTimeLimit(phase: GamePhase, settings: Room['settings']): number {
+    if (phase === 'collab_drawing') return settings.collabSettings.drawingTimeSec;
+    return 60;
+  }
+
+  initializeGame(room: Room): void {
+    const prompt = getPromptWord(QUIZ_PROMPTS[Math.floor(Math.random() * QUIZ_PROMPTS.length)]);
+    collabStates.set(room.id, {
+      prompt,
+      strokes: [],
+      regions: room.settings.collabSettings.splitRegions ? assignRegions(room.players) : null,
+    });
+    room.currentPhase = 'collab_drawing';
+    room.currentTurn = 0;
+    room.totalTurns = 1;
+  }
+
+  distributeContent(): Map<string, ContentPayload> {
+    return new Map();
+  }
+
+  // 時間切れで合図を出していない人の分。中身は使わない
+  handleSubmission(room: Room): boolean {
+    return collabStates.has(room.id);
+  }
+
+  // 制限に合うストロークだけを受け付け、受け付けた分を返す
+  addStrokes(room: Room, playerId: string, strokes: DrawingStroke[]): CollabStroke[] {
+    const state = collabStates.get(room.id);
+    const player = room.players.find((p) => p.id === playerId);
+    if (!state || !player) return [];
+
+    const { lockColor } = room.settings.collabSettings;
+    const region = state.regions?.[playerId];
+    const capacity = MAX_STROKES - state.strokes.length;
+    const accepted = strokes
+      .filter((stroke) => isAllowedStroke(stroke, player, lockColor, region))
+      .slice(0, Math.max(0, capacity))
+      .map((stroke) => ({ ...stroke, playerId }));
+
+    // 高頻度なので保存は定期スナップショットに任せる
+    state.strokes.push(...accepted);
+    return accepted;
+  }
+
+  getClientState(room: Room): CollabClientState | null {
+    const state = collabStates.get(room.id);
+    if (!state) return null;
+    return {
+      prompt: state.prompt,
+      strokes: state.strokes,
+      regions: state.regions,
+      lockColor: room.settings.collabSettings.lockColor,
+    };
+  }
+
+  onPhaseStarted(room: Room, phase: GamePhase): void {
+    const state = this.getClientState(room);
+    if (phase === 'collab_drawing' && state) {
+      gameEvents()?.onCollabState?.(room, state);
+    }
+  }
+
+  getRejoinState(room: Room): ModeRejoinState | null {
+    const state = this.getClientState(room);
+    return state ? { collab: state } : null;
+  }
+
+  generateResult(room: Room, _chains: Chain[]): CollabResult {
+    const state = collabStates.get(room.id);
+    return {
+      prompt: state?.prompt ?? '',
+      strokes: state?.strokes ?? [],
+      regions: state?.regions ?? null,
+      players: resultPlayers(room),
+    };
+  }
+
+  announceResult(room: Room, result: CollabResult): void {
+    gameEvents()?.onCollabResult?.(room, result);
+  }
+
+  snapshot(roomId: string): void {
+    const state = collabStates.get(roomId);
+    if (state) {
+      collabStates.set(roomId, state);
+    }
+  }
+
+  cleanup(roomId: string): void {
+    collabStates.delete(roomId);
+  }
+}
@@ -0,0 +1,131 @@
+import type { Chain, GamePhase, Room } from '../../domain/entities.js';
+import type {
+  ContentPayload,
+  GameModeHandler,
+  GameResult,
+  ModeSettingsDefinition,
+  SubmissionData,
+} from '../../domain/gameMode.js';
+import { gameEvents } from '../gameCallbacks.js';
+import { range } from './settingsSchema.js';
+import { getChainIndex, getTurnOrder, getVacantSeats } from './turnOrder.js';
+import { createRepository } from '../../infra/persistence/index.js';
+
+// chainId -> 最後に描かれた段の下端（時間切れで描かれなかった段のあとはnull）
+const edgeStrips = createRepository<Record<string, string | null>>('corpse_edge_strips');
+
+// 優美な死骸（Exquisite corpse）: 1枚の絵を横長の段に分け、チェーンを回しながら1人1段ずつ描く
+// 前の段は下端の細い帯しか見えない。チェーンの回し方はノーマルモードと同じ
+export class CorpseModeHandler implements GameModeHandler {
+  readonly mode = 'corpse';
+  readonly settings: ModeSettingsDefinition = {
+    key: 'corpseSettings',
+    schema: {
+      drawingTimeSec: range(90, 20, 300),
+      segmentCount: range(3, 2, 6),
+      stripHeightPx: range(40, 10, 120),
+    },
+  };
+  readonly turnAdvancesAfter: readonly GamePhase[] = ['drawing'];
+  readonly contentPhases: readonly GamePhase[] = ['drawing'];
+  readonly drawingPhases: readonly GamePhase[] = ['drawing'];
+
+  getPhases(): GamePhase[] {
+    return ['drawing'];
+  }
+
+  getNextPhase(_currentPhase: GamePhase, turn: number, totalTurns: number): GamePhase | 'result' {
+    return turn < totalTurns ? 'drawing' : 'result';
+  }
+
+  getTimeLimit(phase: GamePhase, settings: Room['settings']): number {
+    if (phase === 'drawing') return settings.corpseSettings.drawingTimeSec;
+    return 60;
+  }
+
+  initializeGame(room: Room): void {
+    room.currentPhase = 'drawing';
+    room.currentTurn = 0;
+    room.totalTurns = room.settings.corpseSettings.segmentCount;
+    edgeStrips.set(room.id, {});
+  }
+
+  distributeContent(room: Room, chains: Chain[]): Map<string, ContentPayload> {
+    const payloads = new Map<string, ContentPayload>();
+    const turn = room.currentTurn ?? 0;
+    const turnOrder = getTurnOrder(room);
+    const present = new Set(room.players.map((p) => p.id));
+    const strips = edgeStrips.get(room.id) ?? {};
+
+    turnOrder.forEach((playerId, index) => {
+      // 空席のチェーンには誰も描かない（フェーズの終わりに自動で埋める）
+      if (!present.has(playerId)) return;
+
+      const chain = chains[getChainIndex(index, turn, turnOrder.length)];
+      if (!chain) return;
+
+      payloads.set(playerId, {
+        type: 'edge_strip',
+        payload: strips[chain.id] ?? null,
+        segment: turn,
+        segmentCount: room.totalTurns ?? room.settings.corpseSettings.segmentCount,
+      });
+    });
+
+    return payloads;
+  }
+
+  getVacantSeats(room: Room): string[] {
+    return getVacantSeats(room);
+  }
+
+  handleSubmission(room: Room, playerId: string, data: SubmissionData, chains: Chain[]): boolean {
+    if (room.currentPhase !== 'drawing') return false;
+
+    const turnOrder = getTurnOrder(room);
+    const turn = room.currentTurn ?? 0;
+    const playerIndex = turnOrder.indexOf(playerId);
+    if (playerIndex === -1) return false;
+
+    const chain = chains[getChainIndex(playerIndex, turn, turnOrder.length)];
+    if (!chain) return false;
+
+    // 段の位置はorderで表す（order = 何段目か）。書き直しは同じ段を上書きする
+    const existingEntry = chain.entries.find((e) => e.order === turn);
+    if (existingEntry) {
+      existingEntry.authorId = playerId;
+      existingEntry.payload = data.payload;
+      existingEntry.strokes = data.strokes;
+      existingEntry.submittedAt = new Date();
+    } else {
+      chain.entries.push({
+        order: turn,
+        type: 'drawing',
+        authorId: playerId,
+        payload: data.payload,
+        strokes: data.strokes,
+        submittedAt: new Date(),
+      });
+    }
+
+    const strips = edgeStrips.get(room.id) ?? {};
+    strips[chain.id] = data.edgeStrip ?? null;
+    edgeStrips.set(room.id, strips);
+    return true;
+  }
+
+  generateResult(room: Room, chains: Chain[]): GameResult {
+    return {
+      chains,
+      players: room.players,
+    };
+  }
+
+  announceResult(room: Room, result: GameResult): void {
+    gameEvents()?.onGameResult(room, result.chains);
+  }
+
+  cleanup(roomId: string): void {
+    edgeStrips.delete(roomId);
+  }
+}
@@ -0,0 +1,313 @@
+import type { Chain, DrawingStroke, GamePhase, QuizPromptCategory, Room } from '../../domain/entities.js';
+import type {
+  ContentPayload,
+  GameModeHandler,
+  ModeRejoinState,
+  ModeSettingsDefinition,
+} from '../../domain/gameMode.js';
+import { gameEvents } from '../gameCallbacks.js';
+import { categories, range } from './settingsSchema.js';
+import { emitToMembers, resultPlayers, type ResultPlayer } from './modeHelpers.js';
+import { normalizeAnswer } from './quizMode.js';
+import { createRepository } from '../../infra/persistence/index.js';
+import { QUIZ_CATEGORIES, QUIZ_PROMPTS_BY_CATEGORY, getPromptWord } from '../../data/quizPrompts.js';
+
+// 共有の絵に描かれた1画（描いたプレイヤーと周回つき。色はプレイヤーカラーに固定）
+export interface ImposterStroke extends DrawingStroke {
+  playerId: string;
+  round: number;
+}
+
+export interface ImposterState {
+  category: QuizPromptCategory;
+  prompt: string;
+  imposterId: string;
+  drawerOrder: string[]; // 1画ずつ描く順番
+  round: number; // 今の周回
+  drawnIds: string[]; // この周回で描き終えた人
+  drawerId: string | null; // 今のターンに描く人（全周回が終わったらnull）
+  strokes: ImposterStroke[];
+  votes: Record<string, string>; // 投票した人 -> 偽アーティストだと思う人
+  guess: string | null; // 見破られた偽アーティストの答え
+}
+
+// プレイヤーごとに送る状態（お題は偽アーティストと観戦者には含めない。誰に投票したかは結果まで伏せる）
+export interface ImposterClientState {
+  category: QuizPromptCategory;
+  prompt: string | null;
+  isImposter: boolean;
+  drawerId: string | null;
+  round: number;
+  totalRounds: number;
+  strokes: ImposterStroke[];
+  votedPlayerIds: string[];
+  myVote: string | null;
+  accusedId: string | null; // 投票で最も票を集めた人（お題当てのフェーズのみ）
+}
+
+export interface ImposterResult {
+  category: QuizPromptCategory;
+  prompt: string;
+  imposterId: string;
+  strokes: ImposterStroke[];
+  votes: Record<string, string>;
+  accusedId: string | null;
+  caught: boolean;
+  guess: string | null;
+  guessedCorrectly: boolean;
+  imposterLeft: boolean; // 偽アーティストが途中で抜けた（芸術家チームの勝ち）
+  winner: 'artists' | 'imposter';
+  players: ResultPlayer[];
+}
+
+const imposterStates = createRepository<ImposterState>('imposter_states');
+
+function pickPrompt(selectedCategories: QuizPromptCategory[]): { category: QuizPromptCategory; prompt: string } {
+  const candidates = selectedCategories.length > 0 ? selectedCategories : QUIZ_CATEGORIES;
+  const category = candidates[Math.floor(Math.random() * candidates.length)];
+  const prompts = QUIZ_PROMPTS_BY_CATEGORY[category];
+  return { category, prompt: getPromptWord(prompts[Math.floor(Math.random() * prompts.length)]) };
+}
+
+// 最多得票の1人。同票で割れたらnull（偽アーティストは逃げ切り）
+function getAccusedId(votes: Record<string, string>): string | null {
+  const counts = new Map<string, number>();
+  Object.values(votes).forEach((suspectId) => counts.set(suspectId, (counts.get(suspectId) ?? 0) + 1));
+
+  const max = Math.max(0, ...counts.values());
+  const top = [...counts.entries()].filter(([, count]) => count === max);
+  return top.length === 1 ? top[0][0] : null;
+}
+
+function isInRoom(room: Room, playerId: string): boolean {
+  return room.players.some((p) => p.id === playerId);
+}
+
+function hasContent(stroke: DrawingStroke): boolean {
+  return (stroke.points?.length ?? 0) > 0 || stroke.fillPoint !== undefined || stroke.stampBounds !== undefined;
+}
+
+export class ImposterModeHandler implements GameModeHandler {
+  readonly mode = 'imposter';
+  readonly minPlayers = 3;
+  readonly settings: ModeSettingsDefinition = {
+    key: 'imposterSettings',
+    schema: {
+      rounds: range(2, 1, 3),
+      strokeTimeSec: range(20, 5, 60),
+      voteTimeSec: range(60, 15, 180),
+      guessTimeSec: range(30, 10, 120),
+      selectedCategories: categories(),
+    },
+  };
+  // 1画ごとに1ターン
+  readonly turnAdvancesAfter: readonly GamePhase[] = ['imposter_drawing'];
+  readonly contentPhases: readonly GamePhase[] = [];
+  readonly drawingPhases: readonly GamePhase[] = [];
+  readonly ignoresModifiers = true;
+
+  getPhases(): GamePhase[] {
+    return ['imposter_drawing', 'imposter_voting', 'imposter_guess'];
+  }
+
+  // 描く順番は途中で抜けた人を除いて決まるので、ターン数ではなく残りの描き手で判断する
+  getNextPhase(currentPhase: GamePhase, _turn: number, _totalTurns: number, room: Room): GamePhase | 'result' {
+    const state = imposterStates.get(room.id);
+    // 偽アーティストが抜けたら投票しようがないので結果へ
+    if (!state || !isInRoom(room, state.imposterId)) return 'result';
+    if (currentPhase === 'imposter_drawing') {
+      return state.drawerId !== null ? 'imposter_drawing' : 'imposter_voting';
+    }
+    if (currentPhase === 'imposter_voting') {
+      const caught = getAccusedId(state.votes) === state.imposterId;
+      return caught ? 'imposter_guess' : 'result';
+    }
+    return 'result';
+  }
+
+  getTimeLimit(phase: GamePhase, settings: Room['settings']): number {
+    const { strokeTimeSec, voteTimeSec, guessTimeSec } = settings.imposterSettings;
+    if (phase === 'imposter_drawing') return strokeTimeSec;
+    if (phase === 'imposter_voting') return voteTimeSec;
+    if (phase === 'imposter_guess') return guessTimeSec;
+    return 30;
+  }
+
+  initializeGame(room: Room): void {
+    const { rounds, selectedCategories } = room.settings.imposterSettings;
+    const { category, prompt } = pickPrompt(selectedCategories);
+    const drawerOrder = room.players.map((p) => p.id);
+
+    imposterStates.set(room.id, {
+      category,
+      prompt,
+      imposterId: drawerOrder[Math.floor(Math.random() * drawerOrder.length)],
+      drawerOrder,
+      round: 1,
+      drawnIds: [],
+      drawerId: drawerOrder[0] ?? null,
+      strokes: [],
+      votes: {},
+      guess: null,
+    });
+    room.currentPhase = 'imposter_drawing';
+    room.currentTurn = 0;
+    room.totalTurns = drawerOrder.length * rounds;
+  }
+
+  // 1画・投票・お題当ては専用のイベントで受け付ける（時間切れはそのまま次へ進む）
+  getExpectedSubmitters(): string[] {
+    return [];
+  }
+
+  distributeContent(): Map<string, ContentPayload> {
+    return new Map();
+  }
+
+  handleSubmission(): boolean {
+    return true;
+  }
+
+  getDrawerId(room: Room): string | null {
+    const state = imposterStates.get(room.id);
+    if (!state || room.currentPhase !== 'imposter_drawing') return null;
+    return state.drawerId;
+  }
+
+  // 1画描き終えたら、この周回でまだ描いていない人へ回す（途中で抜けたプレイヤーは飛ばす）
+  onTurnAdvanced(room: Room): void {
+    const state = imposterStates.get(room.id);
+    if (!state) return;
+
+    const { rounds } = room.settings.imposterSettings;
+    const activeOrder = state.drawerOrder.filter((playerId) => isInRoom(room, playerId));
+    if (state.drawerId) state.drawnIds.push(state.drawerId);
+    let remaining = activeOrder.filter((playerId) => !state.drawnIds.includes(playerId));
+    if (remaining.length === 0) {
+      state.round += 1;
+      state.drawnIds = [];
+      remaining = activeOrder;
+    }
+
+    const hasNextTurn = state.round <= rounds && remaining.length > 0;
+    state.drawerId = hasNextTurn ? remaining[0] : null;
+    // 残りのターン数も抜けた人を除いた順番で数え直す
+    const remainingTurns = hasNextTurn ? remaining.length + (rounds - state.round) * activeOrder.length : 0;
+    room.totalTurns = (room.currentTurn ?? 0) + remainingTurns;
+    imposterStates.set(room.id, state);
+  }
+
+  // 描いている人か偽アーティストが抜けたら、時間切れを待たずに次へ進める
+  shouldAdvanceOnLeave(room: Room): boolean {
+    const state = imposterStates.get(room.id);
+    if (!state) return false;
+    if (!isInRoom(room, state.imposterId)) return true;
+    return room.currentPhase === 'imposter_drawing' && state.drawerId !== null && !isInRoom(room, state.drawerId);
+  }
+
+  addStroke(room: Room, playerId: string, stroke: DrawingStroke): boolean {
+    const state = imposterStates.get(room.id);
+    const player = room.players.find((p) => p.id === playerId);
+    if (!state || !player || this.getDrawerId(room) !== playerId) return false;
+    // 他の人の線を消せないよう消しゴムは使えない
+    if (stroke.tool === 'eraser' || !hasContent(stroke)) return false;
+
+    state.strokes.push({ ...stroke, color: player.color, playerId, round: state.round });
+    imposterStates.set(room.id, state);
+    return true;
+  }
+
+  // 投票する（締め切りまでは入れ直せる）。接続中の全員が投票したらtrue
+  castVote(room: Room, playerId: string, suspectId: string): { accepted: boolean; allVoted: boolean } {
+    const state = imposterStates.get(room.id);
+    if (!state || !isInRoom(room, playerId) || !isInRoom(room, suspectId) || playerId === suspectId) {
+      return { accepted: false, allVoted: false };
+    }
+
+    state.votes[playerId] = suspectId;
+    imposterStates.set(room.id, state);
+    const allVoted = room.players.filter((p) => p.connected).every((p) => state.votes[p.id] !== undefined);
+    return { accepted: true, allVoted };
+  }
+
+  submitGuess(room: Room, playerId: string, text: string): boolean {
+    const state = imposterStates.get(room.id);
+    if (!state || playerId !== state.imposterId || state.guess !== null) return false;
+
+    state.guess = text;
+    imposterStates.set(room.id, state);
+    return true;
+  }
+
+  onPhaseStarted(room: Room): void {
+    this.emitState(room);
+  }
+
+  emitState(room: Room): void {
+    emitToMembers(
+      room,
+      (memberId) => this.getClientState(room, memberId),
+      (memberId, state) => gameEvents()?.onImposterState?.(room, memberId, state)
+    );
+  }
+
+  getClientState(room: Room, playerId: string): ImposterClientState | null {
+    const state = imposterStates.get(room.id);
+    if (!state) return null;
+
+    const isImposter = playerId === state.imposterId;
+    const isPlayer = isInRoom(room, playerId);
+    const { rounds } = room.settings.imposterSettings;
+    return {
+      category: state.category,
+      prompt: isPlayer && !isImposter ? state.prompt : null,
+      isImposter,
+      drawerId: this.getDrawerId(room),
+      round: Math.min(state.round, rounds),
+      totalRounds: rounds,
+      strokes: state.strokes,
+      votedPlayerIds: Object.keys(state.votes),
+      myVote: state.votes[playerId] ?? null,
+      accusedId: room.currentPhase === 'imposter_guess' ? getAccusedId(state.votes) : null,
+    };
+  }
+
+  getRejoinState(room: Room, playerId: string): ModeRejoinState | null {
+    const state = this.getClientState(room, playerId);
+    return state ? { imposter: state } : null;
+  }
+
+  generateResult(room: Room, _chains: Chain[]): ImposterResult | null {
+    const state = imposterStates.get(room.id);
+    if (!state) return null;
+
+    const accusedId = getAccusedId(state.votes);
+    const caught = accusedId === state.imposterId;
+    const guessedCorrectly = caught && state.guess !== null && normalizeAnswer(state.guess) === normalizeAnswer(state.prompt);
+    const imposterLeft = !isInRoom(room, state.imposterId);
+    return {
+      category: state.category,
+      prompt: state.prompt,
+      imposterId: state.imposterId,
+      strokes: state.strokes,
+      votes: state.votes,
+      accusedId,
+      caught,
+      guess: state.guess,
+      guessedCorrectly,
+      imposterLeft,
+      winner: imposterLeft || (caught && !guessedCorrectly) ? 'artists' : 'imposter',
+      players: resultPlayers(room),
+    };
+  }
+
+  announceResult(room: Room, result: ImposterResult | null): void {
+    if (result) {
+      gameEvents()?.onImposterResult?.(room, result);
+    }
+  }
+
+  cleanup(roomId: string): void {
+    imposterStates.delete(roomId);
+  }
+}
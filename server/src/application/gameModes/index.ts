@@ -1,17 +1,77 @@
-import type { GameMode } from '../../domain/entities.js';
+import type { GameMode, Settings } from '../../domain/entities.js';
 import type { GameModeHandler } from '../../domain/gameMode.js';
 import { NormalModeHandler } from './normalMode.js';
 import { AnimationModeHandler } from './animationMode.js';
 import { ShiritoriModeHandler } from './shiritoriMode.js';
 import { QuizModeHandler } from './quizMode.js';
+import { CollabModeHandler } from './collabMode.js';
+import { ImposterModeHandler } from './imposterMode.js';
+import { CorpseModeHandler } from './corpseMode.js';
+import { MemoryModeHandler } from './memoryMode.js';
+import { CaptionModeHandler } from './captionMode.js';
+import { ShowdownModeHandler } from './showdownMode.js';
+import { defaultsFromSchema, normalizeBySchema, range } from './settingsSchema.js';
+import { modifiersSchema } from './modifiers.js';
 
-const handlers: Record<GameMode, GameModeHandler> = {
+// モードの登録表。新しいモードはハンドラーをここに足すだけで、ゲーム進行（gameUseCases）には手を入れない
+const handlers = {
   normal: new NormalModeHandler(),
   animation: new AnimationModeHandler(),
   shiritori: new ShiritoriModeHandler(),
   quiz: new QuizModeHandler(),
-};
+  collab: new CollabModeHandler(),
+  imposter: new ImposterModeHandler(),
+  corpse: new CorpseModeHandler(),
+  memory: new MemoryModeHandler(),
+  caption: new CaptionModeHandler(),
+  showdown: new ShowdownModeHandler(),
+} satisfies Record<GameMode, GameModeHandler>;
+
+type ModeHandlers = typeof handlers;
+
+const MAX_PLAYERS = 12;
+const maxPlayersRule = range(MAX_PLAYERS, 2, MAX_PLAYERS);
 
 export function getGameModeHandler(mode: GameMode): GameModeHandler {
   return handlers[mode] ?? handlers.normal;
 }
+
+// モード固有の操作（しりとりの答え、クイズの回答など）用に具体的なハンドラーを返す
+export function getModeHandler<M extends GameMode>(mode: M): ModeHandlers[M] {
+  return handlers[mode];
+}
+
+export function getAllGameModeHandlers(): GameModeHandler[] {
+  return Object.values(handlers);
+}
+
+export function createDefaultSettings(): Settings {
+  const settings = { maxPlayers: maxPlayersRule.default, gameMode: 'normal' } as Settings;
+  Object.assign(settings, { modifiers: defaultsFromSchema(modifiersSchema) });
+  for (const { settings: definition } of getAllGameModeHandlers()) {
+    Object.assign(settings, { [definition.key]: defaultsFromSchema(definition.schema) });
+  }
+  return settings;
+}
+
+// 各モードのスキーマで範囲外の値を丸め、不正な値を既定値に戻す
+export function normalizeSettings(settings: Settings): Settings {
+  const normalized = {
+    maxPlayers: maxPlayersRule.normalize(settings.maxPlayers),
+    gameMode: settings.gameMode in handlers ? settings.gameMode : 'normal',
+  } as Settings;
+  Object.assign(normalized, { modifiers: normalizeBySchema(modifiersSchema, settings.modifiers) });
+  for (const { settings: definition } of getAllGameModeHandlers()) {
+    Object.assign(normalized, { [definition.key]: normalizeBySchema(definition.schema, settings[definition.key]) });
+  }
+  return normalized;
+}
+
+// 部分的な設定変更を現在の設定に重ねる（モードごとの設定と共通ルールは項目単位でマージする）
+export function mergeSettings(current: Settings, partial: Partial<Settings>): Settings {
+  const merged = { ...current, ...partial, modifiers: { ...current.modifiers, ...(partial.modifiers ?? {}) } };
+  for (const { settings: definition } of getAllGameModeHandlers()) {
+    Object.assign(merged, { [definition.key]: { ...current[definition.key], ...(partial[definition.key] ?? {}) } });
+  }
+  return normalizeSettings(merged);
+}
@@ -0,0 +1,125 @@
+import type { Chain, GamePhase, Room } from '../../domain/entities.js';
+import type {
+  ContentPayload,
+  GameModeHandler,
+  GameResult,
+  ModeSettingsDefinition,
+  SubmissionData,
+} from '../../domain/gameMode.js';
+import { gameEvents } from '../gameCallbacks.js';
+import { range } from './settingsSchema.js';
+import { getChainIndex, getTurnOrder, getVacantSeats } from './turnOrder.js';
+
+// 記憶リレー: 最初の人は自由に描き、次の人からは前の絵を数秒だけ見て記憶で描き写す
+// 見せる時間はサーバーのmemory_viewingフェーズの締め切りで管理し、描くフェーズでは絵を送らない
+export class MemoryModeHandler implements GameModeHandler {
+  readonly mode = 'memory';
+  readonly settings: ModeSettingsDefinition = {
+    key: 'memorySettings',
+    schema: {
+      firstDrawingTimeSec: range(90, 20, 300),
+      viewTimeSec: range(5, 1, 20),
+      drawingTimeSec: range(60, 20, 300),
+    },
+  };
+  // 描き終えるたびにターンを進める（ターン = 各チェーンに描かれた枚数）
+  readonly turnAdvancesAfter: readonly GamePhase[] = ['first-frame', 'drawing'];
+  readonly contentPhases: readonly GamePhase[] = ['memory_viewing'];
+  readonly drawingPhases: readonly GamePhase[] = ['first-frame', 'drawing'];
+
+  getPhases(): GamePhase[] {
+    return ['first-frame', 'memory_viewing', 'drawing'];
+  }
+
+  getNextPhase(currentPhase: GamePhase, turn: number, totalTurns: number): GamePhase | 'result' {
+    if (currentPhase === 'memory_viewing') return 'drawing';
+    return turn < totalTurns ? 'memory_viewing' : 'result';
+  }
+
+  getTimeLimit(phase: GamePhase, settings: Room['settings']): number {
+    const memory = settings.memorySettings;
+    if (phase === 'first-frame') return memory.firstDrawingTimeSec;
+    if (phase === 'memory_viewing') return memory.viewTimeSec;
+    if (phase === 'drawing') return memory.drawingTimeSec;
+    return 60;
+  }
+
+  initializeGame(room: Room): void {
+    room.currentPhase = 'first-frame';
+    room.currentTurn = 0;
+    room.totalTurns = room.players.length;
+  }
+
+  // 見るだけのフェーズは提出を待たず、締め切りで次へ進む
+  getExpectedSubmitters(room: Room): string[] {
+    if (room.currentPhase === 'memory_viewing') return [];
+    return room.players.map((p) => p.id);
+  }
+
+  distributeContent(room: Room, chains: Chain[]): Map<string, ContentPayload> {
+    const payloads = new Map<string, ContentPayload>();
+    if (room.currentPhase !== 'memory_viewing') return payloads;
+
+    const turn = room.currentTurn ?? 0;
+    const turnOrder = getTurnOrder(room);
+    const present = new Set(room.players.map((p) => p.id));
+
+    turnOrder.forEach((playerId, index) => {
+      if (!present.has(playerId)) return;
+
+      const chain = chains[getChainIndex(index, turn, turnOrder.length)];
+      const lastEntry = chain?.entries[chain.entries.length - 1];
+      if (lastEntry) {
+        payloads.set(playerId, { type: 'drawing', payload: lastEntry.payload });
+      }
+    });
+
+    return payloads;
+  }
+
+  getVacantSeats(room: Room): string[] {
+    return getVacantSeats(room);
+  }
+
+  handleSubmission(room: Room, playerId: string, data: SubmissionData, chains: Chain[]): boolean {
+    const phase = room.currentPhase;
+    if (phase !== 'first-frame' && phase !== 'drawing') return false;
+
+    const turnOrder = getTurnOrder(room);
+    const turn = room.currentTurn ?? 0;
+    const playerIndex = turnOrder.indexOf(playerId);
+    if (playerIndex === -1) return false;
+
+    // 見たときと同じチェーンに描く（最初の1枚は自分のチェーン）
+    const chain = chains[getChainIndex(playerIndex, turn, turnOrder.length)];
+    if (!chain) return false;
+
+    const existingEntry = chain.entries.find((e) => e.order === turn);
+    if (existingEntry) {
+      existingEntry.payload = data.payload;
+      existingEntry.strokes = data.strokes;
+      existingEntry.submittedAt = new Date();
+    } else {
+      chain.entries.push({
+        order: turn,
+        type: 'drawing',
+        authorId: playerId,
+        payload: data.payload,
+        strokes: data.strokes,
+        submittedAt: new Date(),
+      });
+    }
+    return true;
+  }
+
+  generateResult(room: Room, chains: Chain[]): GameResult {
+    return {
+      chains,
+      players: room.players,
+    };
+  }
+
+  announceResult(room: Room, result: GameResult): void {
+    gameEvents()?.onGameResult(room, result.chains);
+  }
+}
@@ -0,0 +1,31 @@
+import type { Player, Room } from '../../domain/entities.js';
+
+// 結果発表に載せるプレイヤー（途中で抜けた人も含める）
+export type ResultPlayer = Pick<Player, 'id' | 'name' | 'color'>;
+
+export function resultPlayers(room: Room): ResultPlayer[] {
+  return [...room.players, ...(room.departedPlayers ?? [])].map((p) => ({ id: p.id, name: p.name, color: p.color }));
+}
+
+// プレイヤーと観戦者それぞれに、その人から見た状態を送る
+export function emitToMembers<S>(
+  room: Room,
+  getState: (memberId: string) => S | null,
+  emit: (memberId: string, state: S) => void
+): void {
+  [...room.players, ...(room.spectators ?? [])].forEach((member) => {
+    const state = getState(member.id);
+    if (state) {
+      emit(member.id, state);
+    }
+  });
+}
+
+export function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
@@ -0,0 +1,72 @@
+import type { DrawingStroke, GameModifiers } from '../../domain/entities.js';
+import type { SettingsSchema } from '../../domain/gameMode.js';
+import { DRAWING_COLORS } from '../../../../shared/protocol.js';
+import { flag, range } from './settingsSchema.js';
+
+// 白は消しゴム代わりになるので、色を絞るときの候補から外す
+const PALETTE_CANDIDATES = DRAWING_COLORS.filter((color) => color !== '#FFFFFF');
+// クライアントと足し算の順序が違うぶんの誤差（px）
+const INK_TOLERANCE = 1;
+
+export const modifiersSchema: SettingsSchema<GameModifiers> = {
+  blindDrawing: flag(false),
+  limitedInk: flag(false),
+  inkLimit: range(3000, 500, 20000),
+  restrictedPalette: flag(false),
+  paletteSize: range(3, 1, 8),
+  mirrored: flag(false),
+  oneStroke: flag(false),
+};
+
+// ゲーム開始時に、色を絞るルールで使う色をランダムに選ぶ
+export function pickPalette(modifiers: GameModifiers): string[] | undefined {
+  if (!modifiers.restrictedPalette) return undefined;
+
+  const candidates = [...PALETTE_CANDIDATES];
+  const palette: string[] = [];
+  while (palette.length < modifiers.paletteSize && candidates.length > 0) {
+    palette.push(candidates.splice(Math.floor(Math.random() * candidates.length), 1)[0]);
+  }
+  return palette;
+}
+
+// ブラシとラインで引いた線の長さの合計（消しゴムはインクを使わない）
+function getInkLength(strokes: DrawingStroke[]): number {
+  let length = 0;
+  for (const stroke of strokes) {
+    if (stroke.tool !== 'brush' && stroke.tool !== 'line') continue;
+    const points = stroke.points ?? [];
+    for (let i = 1; i < points.length; i++) {
+      length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+    }
+  }
+  return length;
+}
+
+// 提出されたストロークがルールを守っているか。見えない・反転はクライアントの表示だけなので確かめられない
+// 画像はストロークから描き直していないので、ストロークと違う画像を送られたら防げない（サーバー側の検証は目安）。
+// ライブ配信の差分も検証しない
+export function areStrokesAllowed(
+  modifiers: GameModifiers,
+  palette: string[] | undefined,
+  strokes: DrawingStroke[] | undefined,
+  isBlankImage: () => boolean
+): boolean {
+  const checksStrokes = modifiers.limitedInk || modifiers.restrictedPalette || modifiers.oneStroke;
+  if (!checksStrokes) return true;
+  // ストロークがないと確かめようがない
+  if (!strokes) return false;
+  // 空のストロークで検証だけすり抜けないよう、ストロークなしで出せるのは白紙だけ
+  if (strokes.length === 0) return isBlankImage();
+
+  if (modifiers.oneStroke && strokes.length > 1) return false;
+  if (modifiers.limitedInk || modifiers.oneStroke) {
+    // 塗りつぶしとスタンプは線の長さで測れず、一筆の線にもならないので使えない
+    if (strokes.some((stroke) => stroke.tool === 'bucket' || stroke.tool === 'stamp')) return false;
+  }
+  if (modifiers.limitedInk && getInkLength(strokes) > modifiers.inkLimit + INK_TOLERANCE) return false;
+  if (modifiers.restrictedPalette && palette) {
+    if (strokes.some((stroke) => stroke.tool !== 'eraser' && !palette.includes(stroke.color))) return false;
+  }
+  return true;
+}
@@ -1,11 +1,92 @@
-import type { Chain, GamePhase, Room } from '../../domain/entities.js';
+import { VOTE_CATEGORIES, isVoteCandidate, type Chain, type Entry, type GamePhase, type Room, type VoteAward, type VoteCategory } from '../../domain/entities.js';
 import type {
   ContentPayload,
   GameModeHandler,
+  GameResult,
+  ModeSettingsDefinition,
   SubmissionData,
 } from '../../domain/gameMode.js';
+import { gameEvents } from '../gameCallbacks.js';
+import { choice, range } from './settingsSchema.js';
+import { getChainIndex, getTurnOrder, getVacantSeats } from './turnOrder.js';
+import { createRepository } from '../../infra/persistence/index.js';
+
+export interface VoteTarget {
+  chainId: string;
+  entryOrder: number;
+}
+
+// 結果発表後の投票の状態
+export interface VoteState {
+  ballots: Record<string, Partial<Record<VoteCategory, VoteTarget>>>; // playerId -> カテゴリごとの投票先
+  awards: VoteAward[] | null; // 締め切ると集計結果が入る
+}
+
+export interface VoteSummary {
+  votedPlayerIds: string[];
+  awards: VoteAward[] | null;
+  voterCount: number;
+}
+
+const votes = createRepository<VoteState>('votes'); // roomId -> 投票状態
+
+function findEntry(chains: Chain[], target: VoteTarget): Entry | undefined {
+  return chains.find((c) => c.id === target.chainId)?.entries.find((e) => e.order === target.entryOrder);
+}
+
+// 自分以外のエントリーがあるカテゴリだけ投票する
+function getVoteCategories(playerId: string, chains: Chain[]): VoteCategory[] {
+  return VOTE_CATEGORIES.filter((category) =>
+    chains.some((c) => c.entries.some((e) => e.authorId !== playerId && isVoteCandidate(e, category)))
+  );
+}
+
+function hasVoted(state: VoteState, playerId: string, chains: Chain[]): boolean {
+  const ballot = state.ballots[playerId] ?? {};
+  return getVoteCategories(playerId, chains).every((category) => ballot[category] !== undefined);
+}
+
+// カテゴリごとに最多票のエントリーを受賞とする（同票はすべて）
+function tallyVotes(state: VoteState, chains: Chain[]): VoteAward[] {
+  return VOTE_CATEGORIES.flatMap((category) => {
+    const counts = new Map<string, { target: VoteTarget; votes: number }>();
+    for (const ballot of Object.values(state.ballots)) {
+      const target = ballot[category];
+      if (!target) continue;
+      const key = `${target.chainId}:${target.entryOrder}`;
+      const count = counts.get(key) ?? { target, votes: 0 };
+      count.votes++;
+      counts.set(key, count);
+    }
+
+    const top = Math.max(0, ...[...counts.values()].map((c) => c.votes));
+    if (top === 0) return [];
+
+    return [...counts.values()]
+      .filter((c) => c.votes === top)
+      .flatMap(({ target, votes }) => {
+        const entry = findEntry(chains, target);
+        return entry ? [{ category, chainId: target.chainId, entryOrder: target.entryOrder, authorId: entry.authorId, votes }] : [];
+      });
+  });
+}
 
 export class NormalModeHandler implements GameModeHandler {
+  readonly mode = 'normal';
+  readonly settings: ModeSettingsDefinition = {
+    key: 'normalSettings',
+    schema: {
+      promptTimeSec: range(20, 5, 180),
+      drawingTimeSec: range(90, 20, 300),
+      guessTimeSec: range(50, 10, 240),
+      resultOrder: choice('first', ['first', 'last']),
+    },
+  };
+  // drawingとguessingの両方でターンを進め、毎フェーズでチェーンがずれて同じプレイヤーが連続参加しないようにする
+  readonly turnAdvancesAfter: readonly GamePhase[] = ['prompt', 'drawing', 'guessing'];
+  readonly contentPhases: readonly GamePhase[] = ['drawing', 'guessing'];
+  readonly drawingPhases: readonly GamePhase[] = ['drawing'];
+
   getPhases(): GamePhase[] {
     return ['prompt', 'drawing', 'guessing'];
   }
@@ -39,6 +120,7 @@ export class NormalModeHandler implements GameModeHandler {
     room.currentPhase = 'prompt';
     room.currentTurn = 0;
     room.totalTurns = room.players.length;
+    votes.delete(room.id);
   }
 
   distributeContent(room: Room, chains: Chain[]): Map<string, ContentPayload> {
@@ -46,7 +128,9 @@ export class NormalModeHandler implements GameModeHandler {
     if (room.currentPhase === 'prompt') return payloads;
 
     const turn = room.currentTurn ?? 0;
-    const playerCount = room.players.length;
+    const turnOrder = getTurnOrder(room);
+    const playerCount = turnOrder.length;
+    const present = new Set(room.players.map((p) => p.id));
 
     // 伝言ゲーム方式: 各チェーンが1人ずつ順番に回っていく
     // 
@@ -61,15 +145,19 @@ export class NormalModeHandler implements GameModeHandler {
     // 
     // チェーンiに対して、turn番目に参加するプレイヤーは (i + turn) % playerCount
     // 逆に、プレイヤーjがturn番目に受け取るチェーンは (j - turn + playerCount) % playerCount
+    // j と playerCount は席順（getTurnOrder）で数えるので、途中で抜けた人がいてもずれない
+
+    turnOrder.forEach((playerId, index) => {
+      // 空席のチェーンには誰も描かない（フェーズの終わりに自動で埋める）
+      if (!present.has(playerId)) return;
 
-    room.players.forEach((player, index) => {
       // プレイヤーindexがturn番目に受け取るチェーン
-      const chainIndex = (index - turn + playerCount * 2) % playerCount;
+      const chainIndex = getChainIndex(index, turn, playerCount);
       const chain = chains[chainIndex];
       const lastEntry = chain.entries[chain.entries.length - 1];
 
       if (lastEntry) {
-        payloads.set(player.id, {
+        payloads.set(playerId, {
           type: lastEntry.type,
           payload: lastEntry.payload,
         });
@@ -79,13 +167,19 @@ export class NormalModeHandler implements GameModeHandler {
     return payloads;
   }
 
+  getVacantSeats(room: Room): string[] {
+    return getVacantSeats(room);
+  }
+
   handleSubmission(room: Room, playerId: string, data: SubmissionData, chains: Chain[]): boolean {
     const phase = room.currentPhase;
     if (!phase) return false;
 
-    const playerCount = room.players.length;
+    // 抜けたプレイヤーの席も数える（空席の自動提出もここを通る）
+    const turnOrder = getTurnOrder(room);
+    const playerCount = turnOrder.length;
     const turn = room.currentTurn ?? 0;
-    const playerIndex = room.players.findIndex((p) => p.id === playerId);
+    const playerIndex = turnOrder.indexOf(playerId);
     if (playerIndex === -1) return false;
 
     if (phase === 'prompt') {
@@ -110,7 +204,7 @@ export class NormalModeHandler implements GameModeHandler {
 
     // distributeContentと同じロジックでチェーンを決定
     // drawingもguessingも同じturnで同じチェーンを操作する
-    const chainIndex = (playerIndex - turn + playerCount * 2) % playerCount;
+    const chainIndex = getChainIndex(playerIndex, turn, playerCount);
     const chain = chains[chainIndex];
     if (!chain) return false;
 
@@ -140,10 +234,57 @@ export class NormalModeHandler implements GameModeHandler {
     return true;
   }
 
-  generateResult(room: Room, chains: Chain[]) {
+  generateResult(room: Room, chains: Chain[]): GameResult {
     return {
       chains,
       players: room.players,
     };
   }
+
+  announceResult(room: Room, result: GameResult): void {
+    gameEvents()?.onGameResult(room, result.chains);
+  }
+
+  // 結果発表中の投票。締め切った後や、自分のエントリー・対象外のエントリーへの投票はfalse
+  castVote(room: Room, playerId: string, category: VoteCategory, target: VoteTarget, chains: Chain[]): boolean {
+    if (!room.players.some((p) => p.id === playerId)) return false;
+
+    const entry = findEntry(chains, target);
+    if (!entry || entry.authorId === playerId || !isVoteCandidate(entry, category)) return false;
+
+    const state = votes.get(room.id) ?? { ballots: {}, awards: null };
+    if (state.awards) return false;
+
+    state.ballots[playerId] = { ...state.ballots[playerId], [category]: target };
+
+    // 接続中のプレイヤーが全員投票したら締め切る
+    const voters = room.players.filter((p) => p.connected);
+    if (voters.every((p) => hasVoted(state, p.id, chains))) {
+      state.awards = tallyVotes(state, chains);
+    }
+    votes.set(room.id, state);
+    return true;
+  }
+
+  closeVoting(room: Room, chains: Chain[]): boolean {
+    const state = votes.get(room.id) ?? { ballots: {}, awards: null };
+    if (state.awards) return false;
+
+    state.awards = tallyVotes(state, chains);
+    votes.set(room.id, state);
+    return true;
+  }
+
+  getVoteSummary(room: Room, chains: Chain[]): VoteSummary {
+    const state = votes.get(room.id) ?? { ballots: {}, awards: null };
+    return {
+      votedPlayerIds: room.players.filter((p) => hasVoted(state, p.id, chains)).map((p) => p.id),
+      awards: state.awards,
+      voterCount: Object.keys(state.ballots).length,
+    };
+  }
+
+  cleanup(roomId: string): void {
+    votes.delete(roomId);
+  }
 }
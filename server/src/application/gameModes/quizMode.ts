@@ -1,6 +1,17 @@
-import type { Chain, GamePhase, Room, QuizPromptCategory } from '../../domain/entities.js';
-import type { ContentPayload, GameModeHandler, SubmissionData } from '../../domain/gameMode.js';
+import type { Chain, GamePhase, Room, QuizPromptCategory, QuizTeamAnswerRule } from '../../domain/entities.js';
+import type {
+  ContentPayload,
+  GameModeHandler,
+  ModeRejoinState,
+  ModeSettingsDefinition,
+  SubmissionData,
+} from '../../domain/gameMode.js';
+import { gameEvents } from '../gameCallbacks.js';
+import { categories, choice, flag, list, range } from './settingsSchema.js';
+import { emitToMembers } from './modeHelpers.js';
 import { generatePlayerId } from '../../infra/services/idGenerator.js';
+import { createRepository } from '../../infra/persistence/index.js';
+import { quizStateCodec } from '../../infra/persistence/codecs.js';
 import { QUIZ_PROMPTS, QUIZ_PROMPTS_BY_CATEGORY, getPromptWord, getPromptHint, type QuizPromptItem } from '../../data/quizPrompts.js';
 
 export interface QuizFeedItem {
@@ -26,22 +37,60 @@ export interface QuizState {
   recentFeed: QuizFeedItem[];
   currentDrawing: string | null;
   canvasLocked: boolean; // revealモード: 描画中は他のプレイヤーはキャンバスが見えない
+  rounds: QuizRoundRecord[]; // 終了したラウンドの履歴
+  teams: Record<string, number> | null; // チーム戦: playerId -> チーム
+  drawerOrder: string[]; // 親を回す順番（チーム戦ではチームを交互に回る）
+}
+
+export interface QuizRoundRecord {
+  round: number;
+  prompt: string;
+  drawerId: string;
+  winners: string[];
+}
+
+// ラウンド終了時に全員へ送る答えと結果
+export interface QuizRoundSummary {
+  prompt: string;
+  winners: { playerId: string; rank: number }[];
+  scores: Record<string, number>;
+  teamScores?: number[];
+}
+
+// プレイヤーごとに送るクイズの状態（お題は親と正解者にだけ含める）
+export interface QuizClientState {
+  round: number;
+  drawerId: string;
+  scores: Record<string, number>;
+  maxWinners: number;
+  winners: { playerId: string; rank: number }[];
+  recentFeed: QuizFeedItem[];
+  currentDrawing: string | null;
+  prompt?: string;
+  promptHint?: string;
+  canvasLocked: boolean;
+  quizFormat: 'realtime' | 'reveal';
+  promptDisplayMode: 'immediate' | 'separate';
+  teams?: Record<string, number>;
+  teamScores?: number[];
+  teamAnswerRule?: QuizTeamAnswerRule;
 }
 
 export interface QuizResult {
-  rounds: { round: number; prompt: string; drawerId: string; winners: string[] }[];
+  rounds: QuizRoundRecord[];
   scores: Record<string, number>;
   players: { id: string; name: string }[];
+  teams?: Record<string, number>;
+  teamScores?: number[];
 }
 
-// In-memory quiz states
-const quizStates = new Map<string, QuizState>();
+const quizStates = createRepository<QuizState>('quiz_states', quizStateCodec);
 
 export function getQuizState(roomId: string): QuizState | undefined {
   return quizStates.get(roomId);
 }
 
-function normalizeAnswer(text: string): string {
+export function normalizeAnswer(text: string): string {
   return text.trim().toLowerCase().replace(/[ー－−]/g, '').normalize('NFKC');
 }
 
@@ -50,7 +99,7 @@ interface PromptWithHint {
   hint?: string;
 }
 
-function getRandomPrompt(selectedCategories?: QuizPromptCategory[]): PromptWithHint {
+export function getRandomPrompt(selectedCategories?: QuizPromptCategory[]): PromptWithHint {
   let prompts: QuizPromptItem[];
   
   // カテゴリが選択されていない場合は全てのお題から選択
@@ -79,7 +128,90 @@ function getRandomPrompt(selectedCategories?: QuizPromptCategory[]): PromptWithH
   };
 }
 
+export const MAX_QUIZ_TEAMS = 4;
+
+// ロビーで決めたチームを使い、未設定（や範囲外）のプレイヤーは人数の少ないチームに入れる
+function resolveTeams(room: Room): Record<string, number> {
+  const { teamCount } = room.settings.quizSettings;
+  const teams: Record<string, number> = {};
+  const sizes = new Array<number>(teamCount).fill(0);
+  const unassigned: string[] = [];
+
+  room.players.forEach((p) => {
+    if (p.team !== undefined && p.team < teamCount) {
+      teams[p.id] = p.team;
+      sizes[p.team]++;
+    } else {
+      unassigned.push(p.id);
+    }
+  });
+  unassigned.forEach((playerId) => {
+    const team = sizes.indexOf(Math.min(...sizes));
+    teams[playerId] = team;
+    sizes[team]++;
+  });
+
+  return teams;
+}
+
+// 親の順番。チーム戦ではチームを交互に回る（チーム内はロビーの並び順）
+function getDrawerOrder(room: Room, teams: Record<string, number> | null): string[] {
+  const playerIds = room.players.map((p) => p.id);
+  if (!teams) return playerIds;
+
+  const byTeam: string[][] = [];
+  playerIds.forEach((playerId) => {
+    (byTeam[teams[playerId]] ??= []).push(playerId);
+  });
+  const queues = byTeam.filter((queue) => queue !== undefined);
+  const longest = Math.max(...queues.map((queue) => queue.length));
+
+  const order: string[] = [];
+  for (let i = 0; i < longest; i++) {
+    queues.forEach((queue) => {
+      if (queue[i]) order.push(queue[i]);
+    });
+  }
+  return order;
+}
+
+function getTeamScores(state: QuizState, teamCount: number): number[] | undefined {
+  if (!state.teams) return undefined;
+  const totals = new Array<number>(teamCount).fill(0);
+  Object.entries(state.teams).forEach(([playerId, team]) => {
+    totals[team] += state.scores[playerId] ?? 0;
+  });
+  return totals;
+}
+
 export class QuizModeHandler implements GameModeHandler {
+  readonly mode = 'quiz';
+  readonly settings: ModeSettingsDefinition = {
+    key: 'quizSettings',
+    schema: {
+      drawingTimeSec: range(120, 30, 300),
+      maxWinners: range(3, 1, 10),
+      revealTimeSec: range(3, 1, 10),
+      totalRounds: range(0, 0, 20),
+      quizFormat: choice('realtime', ['realtime', 'reveal']),
+      revealDrawTimeSec: range(15, 5, 60),
+      revealGuessTimeSec: range(30, 10, 120),
+      promptDisplayMode: choice('immediate', ['immediate', 'separate']),
+      promptViewTimeSec: range(5, 3, 30),
+      winnerPoints: list([3, 2, 1], (item): item is number => typeof item === 'number', { max: 10 }),
+      drawerBonus: range(2, 0, 10),
+      noWinnerBonus: range(1, 0, 10),
+      // 空=全カテゴリ
+      selectedCategories: categories(),
+      teamMode: flag(false),
+      teamCount: range(2, 2, MAX_QUIZ_TEAMS),
+      teamAnswerRule: choice('open', ['open', 'own', 'steal']),
+    },
+  };
+  readonly turnAdvancesAfter: readonly GamePhase[] = ['quiz_reveal'];
+  readonly contentPhases: readonly GamePhase[] = ['quiz_prompt', 'quiz_drawing', 'quiz_guessing', 'quiz_reveal'];
+  readonly drawingPhases: readonly GamePhase[] = ['quiz_drawing'];
+
   getPhases(room: Room): GamePhase[] {
     const { quizFormat, promptDisplayMode } = room.settings.quizSettings;
     const phases: GamePhase[] = [];
@@ -152,9 +284,16 @@ export class QuizModeHandler implements GameModeHandler {
     const scores: Record<string, number> = {};
     room.players.forEach((p) => { scores[p.id] = 0; });
 
+    const teams = room.settings.quizSettings.teamMode ? resolveTeams(room) : null;
+    if (teams) {
+      // 自動で振り分けた分もロビーに戻ったときに見えるようにする
+      room.players.forEach((p) => { p.team = teams[p.id]; });
+    }
+    const drawerOrder = getDrawerOrder(room, teams);
+
     quizStates.set(room.id, {
       round: 0,
-      drawerId: room.players[0]?.id ?? '',
+      drawerId: drawerOrder[0] ?? '',
       prompt,
       promptHint,
       normalizedAnswer: normalizeAnswer(prompt),
@@ -164,6 +303,9 @@ export class QuizModeHandler implements GameModeHandler {
       recentFeed: [],
       currentDrawing: null,
       canvasLocked: room.settings.quizSettings.quizFormat === 'reveal',
+      rounds: [],
+      teams,
+      drawerOrder,
     });
   }
 
@@ -172,6 +314,63 @@ export class QuizModeHandler implements GameModeHandler {
     return state ? [state.drawerId] : [];
   }
 
+  // realtime形式は絵を提出しても締め切りまで回答を受け付ける。reveal形式は提出したら回答フェーズへ
+  getRequiredSubmissions(room: Room, phase: GamePhase): number {
+    if (phase === 'quiz_drawing' && room.settings.quizSettings.quizFormat === 'realtime') {
+      return Number.POSITIVE_INFINITY;
+    }
+    return 1;
+  }
+
+  onPhaseStarting(room: Room, phase: GamePhase): void {
+    // quiz_reveal開始時は、phase_changedより先に答え/結果を確定して通知する
+    if (phase === 'quiz_reveal') {
+      gameEvents()?.onQuizRoundEnded?.(room, this.endRound(room));
+    }
+  }
+
+  onPhaseStarted(room: Room, phase: GamePhase): void {
+    // quiz_guessingフェーズ開始時にキャンバスロックを解除（revealモード）
+    if (phase === 'quiz_guessing') {
+      this.unlockCanvas(room.id);
+    }
+    this.emitState(room);
+  }
+
+  onTurnAdvanced(room: Room): void {
+    if ((room.currentTurn ?? 0) < (room.totalTurns ?? 0)) {
+      this.nextRound(room);
+    }
+  }
+
+  // 描画更新を全員に通知（revealモードではロック中のため親以外には見えない）
+  onSubmitted(room: Room): void {
+    this.emitState(room);
+  }
+
+  // 観戦者には回答者と同じ（お題を含まない）状態を送る
+  emitState(room: Room): void {
+    emitToMembers(
+      room,
+      (memberId) => this.getQuizStateForClient(room.id, memberId, room),
+      (memberId, state) => gameEvents()?.onQuizState?.(room, memberId, state)
+    );
+  }
+
+  getRejoinState(room: Room, playerId: string): ModeRejoinState {
+    return { quiz: this.getQuizStateForClient(room.id, playerId, room) };
+  }
+
+  getLiveCanvasDrawerId(room: Room): string | null {
+    if (room.settings.quizSettings.quizFormat !== 'realtime' || room.currentPhase !== 'quiz_drawing') return null;
+    return this.getDrawerId(room.id);
+  }
+
+  // 再接続時のquizStateにも載るよう、キーフレームを現在の絵として保持する
+  recordLiveCanvasKeyframe(room: Room, imageData: string | null): void {
+    this.setCurrentDrawing(room.id, imageData);
+  }
+
   distributeContent(room: Room, _chains: Chain[]): Map<string, ContentPayload> {
     const payloads = new Map<string, ContentPayload>();
     const state = quizStates.get(room.id);
@@ -188,6 +387,7 @@ export class QuizModeHandler implements GameModeHandler {
 
     // 描画データを保存
     state.currentDrawing = data.payload;
+    quizStates.set(room.id, state);
 
     // チェーンにも保存（結果表示用）
     const chain = chains.find((c) => c.ownerPlayerId === playerId) ?? chains[0];
@@ -203,12 +403,18 @@ export class QuizModeHandler implements GameModeHandler {
     return true;
   }
 
+  announceResult(room: Room, result: QuizResult): void {
+    gameEvents()?.onQuizResult?.(room, result);
+  }
+
   generateResult(room: Room, _chains: Chain[]): QuizResult {
     const state = quizStates.get(room.id);
     return {
-      rounds: [],
+      rounds: state?.rounds ?? [],
       scores: state?.scores ?? {},
       players: room.players.map((p) => ({ id: p.id, name: p.name })),
+      teams: state?.teams ?? undefined,
+      teamScores: state ? getTeamScores(state, room.settings.quizSettings.teamCount) : undefined,
     };
   }
 
@@ -225,8 +431,14 @@ export class QuizModeHandler implements GameModeHandler {
     if (state.hasCorrect.has(playerId)) return null; // 既に正解済み
 
     const player = room.players.find((p) => p.id === playerId);
-    const playerName = player?.name ?? '匿名';
-    const playerColor = player?.color ?? '#808080';
+    if (!player) return null; // 観戦者は回答不可
+
+    // チーム戦: 親と違うチームのプレイヤーかどうか
+    const { teamAnswerRule } = room.settings.quizSettings;
+    const isOpponent = state.teams !== null && state.teams[playerId] !== state.teams[state.drawerId];
+    if (isOpponent && teamAnswerRule === 'own') return null;
+    const playerName = player.name;
+    const playerColor = player.color;
     const normalized = normalizeAnswer(text);
     const isCorrect = normalized === state.normalizedAnswer;
 
@@ -235,11 +447,14 @@ export class QuizModeHandler implements GameModeHandler {
       const rank = state.winners.length + 1;
       state.winners.push({ playerId, at: Date.now() });
 
+      // 他チームが当てたら横取りでラウンド終了（親のボーナスはなし）
+      const isSteal = isOpponent && teamAnswerRule === 'steal';
+
       // スコア加算（設定から取得、足りない順位は最後の値を使用）
       const { winnerPoints, drawerBonus } = room.settings.quizSettings;
       const points = winnerPoints[rank - 1] ?? winnerPoints[winnerPoints.length - 1] ?? 1;
       state.scores[playerId] = (state.scores[playerId] ?? 0) + points;
-      if (rank === 1) {
+      if (rank === 1 && !isSteal) {
         state.scores[state.drawerId] = (state.scores[state.drawerId] ?? 0) + drawerBonus;
       }
 
@@ -248,18 +463,19 @@ export class QuizModeHandler implements GameModeHandler {
         playerId,
         playerName,
         playerColor,
-        text: `正解（${playerName}: ${rank}位）`,
+        text: isSteal ? `スティール！（${playerName}）` : `正解（${playerName}: ${rank}位）`,
         kind: 'correct',
         createdAt: Date.now(),
         rank,
       };
       state.recentFeed.push(feedItem);
       if (state.recentFeed.length > 50) state.recentFeed.shift();
+      quizStates.set(room.id, state);
 
-      const guesserCount = Math.max(0, room.players.length - 1);
+      const guesserCount = this.getGuessers(room, state).length;
       const allCorrect = guesserCount > 0 && state.hasCorrect.size >= guesserCount;
       const winnersReached =
-        state.winners.length >= room.settings.quizSettings.maxWinners || allCorrect;
+        state.winners.length >= room.settings.quizSettings.maxWinners || allCorrect || isSteal;
 
       return {
         correct: true,
@@ -280,12 +496,13 @@ export class QuizModeHandler implements GameModeHandler {
     };
     state.recentFeed.push(feedItem);
     if (state.recentFeed.length > 50) state.recentFeed.shift();
+    quizStates.set(room.id, state);
 
     return { correct: false, feedItem, winnersReached: false };
   }
 
   // ラウンド終了処理
-  endRound(room: Room): { prompt: string; winners: { playerId: string; rank: number }[]; scores: Record<string, number> } {
+  endRound(room: Room): QuizRoundSummary {
     const state = quizStates.get(room.id);
     if (!state) return { prompt: '', winners: [], scores: {} };
 
@@ -299,13 +516,34 @@ export class QuizModeHandler implements GameModeHandler {
       });
     }
 
+    state.rounds = [
+      ...(state.rounds ?? []).filter((r) => r.round !== state.round),
+      {
+        round: state.round,
+        prompt: state.prompt,
+        drawerId: state.drawerId,
+        winners: state.winners.map((w) => w.playerId),
+      },
+    ];
+    quizStates.set(room.id, state);
+
     return {
       prompt: state.prompt,
       winners: state.winners.map((w, i) => ({ playerId: w.playerId, rank: i + 1 })),
       scores: { ...state.scores },
+      teamScores: getTeamScores(state, room.settings.quizSettings.teamCount),
     };
   }
 
+  // 回答できるプレイヤー（親以外。チーム戦のownルールでは親のチームだけ）
+  private getGuessers(room: Room, state: QuizState): string[] {
+    const { teams } = state;
+    return room.players
+      .map((p) => p.id)
+      .filter((playerId) => playerId !== state.drawerId)
+      .filter((playerId) => !teams || room.settings.quizSettings.teamAnswerRule !== 'own' || teams[playerId] === teams[state.drawerId]);
+  }
+
   // 次のラウンドへ
   nextRound(room: Room): void {
     const state = quizStates.get(room.id);
@@ -313,11 +551,12 @@ export class QuizModeHandler implements GameModeHandler {
 
     const { selectedCategories } = room.settings.quizSettings;
     const nextRound = state.round + 1;
-    const nextDrawerIndex = nextRound % room.players.length;
+    // 途中で抜けたプレイヤーは飛ばす
+    const drawerOrder = state.drawerOrder.filter((playerId) => room.players.some((p) => p.id === playerId));
     const { word: newPrompt, hint: newPromptHint } = getRandomPrompt(selectedCategories);
 
     state.round = nextRound;
-    state.drawerId = room.players[nextDrawerIndex]?.id ?? '';
+    state.drawerId = drawerOrder[nextRound % drawerOrder.length] ?? '';
     state.prompt = newPrompt;
     state.promptHint = newPromptHint;
     state.normalizedAnswer = normalizeAnswer(newPrompt);
@@ -326,12 +565,15 @@ export class QuizModeHandler implements GameModeHandler {
     state.recentFeed = [];
     state.currentDrawing = null;
     state.canvasLocked = room.settings.quizSettings.quizFormat === 'reveal';
+    quizStates.set(room.id, state);
   }
 
   // revealモードでキャンバスロックを解除
   unlockCanvas(roomId: string): void {
     const state = quizStates.get(roomId);
-    if (state) state.canvasLocked = false;
+    if (!state) return;
+    state.canvasLocked = false;
+    quizStates.set(roomId, state);
   }
 
   getDrawerId(roomId: string): string | null {
@@ -339,26 +581,21 @@ export class QuizModeHandler implements GameModeHandler {
     return state?.drawerId ?? null;
   }
 
-  setCurrentDrawing(roomId: string, imageData: string): void {
+  setCurrentDrawing(roomId: string, imageData: string | null): void {
     const state = quizStates.get(roomId);
     if (!state) return;
+    // キャンバス同期は高頻度なので保存は定期スナップショットに任せる
     state.currentDrawing = imageData;
   }
 
-  getQuizStateForClient(roomId: string, forPlayerId?: string, room?: Room): {
-    round: number;
-    drawerId: string;
-    scores: Record<string, number>;
-    maxWinners: number;
-    winners: { playerId: string; rank: number }[];
-    recentFeed: QuizFeedItem[];
-    currentDrawing: string | null;
-    prompt?: string;
-    promptHint?: string;
-    canvasLocked: boolean;
-    quizFormat: 'realtime' | 'reveal';
-    promptDisplayMode: 'immediate' | 'separate';
-  } | null {
+  snapshot(roomId: string): void {
+    const state = quizStates.get(roomId);
+    if (state) {
+      quizStates.set(roomId, state);
+    }
+  }
+
+  getQuizStateForClient(roomId: string, forPlayerId?: string, room?: Room): QuizClientState | null {
     const state = quizStates.get(roomId);
     if (!state) return null;
 
@@ -382,6 +619,13 @@ export class QuizModeHandler implements GameModeHandler {
       canvasLocked: state.canvasLocked,
       quizFormat: settings?.quizFormat ?? 'realtime',
       promptDisplayMode: settings?.promptDisplayMode ?? 'immediate',
+      ...(state.teams && settings
+        ? {
+            teams: state.teams,
+            teamScores: getTeamScores(state, settings.teamCount),
+            teamAnswerRule: settings.teamAnswerRule,
+          }
+        : {}),
     };
   }
 
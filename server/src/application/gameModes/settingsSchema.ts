@@ -0,0 +1,72 @@
+import type { QuizPromptCategory } from '../../domain/entities.js';
+import type { SettingRule } from '../../domain/gameMode.js';
+import { QUIZ_CATEGORIES } from '../../data/quizPrompts.js';
+
+// 範囲つきの数値。範囲外は丸め、数値でなければ既定値
+export function range(defaultValue: number, min: number, max: number): SettingRule<number> {
+  return {
+    default: defaultValue,
+    normalize: (value) =>
+      typeof value === 'number' && !Number.isNaN(value) ? Math.min(max, Math.max(min, value)) : defaultValue,
+  };
+}
+
+export function flag(defaultValue: boolean): SettingRule<boolean> {
+  return {
+    default: defaultValue,
+    normalize: (value) => (typeof value === 'boolean' ? value : defaultValue),
+  };
+}
+
+// 選択肢のどれか。それ以外は既定値
+export function choice<V extends string>(defaultValue: V, values: readonly V[]): SettingRule<V> {
+  return {
+    default: defaultValue,
+    normalize: (value) => (values.includes(value as V) ? (value as V) : defaultValue),
+  };
+}
+
+// 配列。要素の検証と件数の上限つき（空や不正なら既定値）
+export function list<V>(
+  defaultValue: V[],
+  isItem: (item: unknown) => item is V,
+  options: { max: number; allowEmpty?: boolean }
+): SettingRule<V[]> {
+  return {
+    default: defaultValue,
+    normalize: (value) => {
+      if (!Array.isArray(value)) return [...defaultValue];
+      const items = value.filter(isItem).slice(0, options.max);
+      if (items.length === 0 && !options.allowEmpty) return [...defaultValue];
+      return items;
+    },
+  };
+}
+
+// お題カテゴリの選択（空なら全カテゴリから出す）
+export function categories(): SettingRule<QuizPromptCategory[]> {
+  return list([], (item): item is QuizPromptCategory => QUIZ_CATEGORIES.includes(item as QuizPromptCategory), {
+    max: QUIZ_CATEGORIES.length,
+    allowEmpty: true,
+  });
+}
+
+type AnySchema = Record<string, SettingRule<unknown>>;
+
+export function defaultsFromSchema(schema: AnySchema): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, rule] of Object.entries(schema)) {
+    result[key] = Array.isArray(rule.default) ? [...rule.default] : rule.default;
+  }
+  return result;
+}
+
+// スキーマにない項目は捨てる
+export function normalizeBySchema(schema: AnySchema, value: unknown): Record<string, unknown> {
+  const source = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+  for (const [key, rule] of Object.entries(schema)) {
+    result[key] = rule.normalize(source[key] ?? rule.default);
+  }
+  return result;
+}
@@ -1,11 +1,21 @@
 import type { Chain, GamePhase, Player, Room } from '../../domain/entities.js';
-import type { ContentPayload, GameModeHandler, SubmissionData } from '../../domain/gameMode.js';
+import type {
+  ContentPayload,
+  GameModeHandler,
+  ModeRejoinState,
+  ModeSettingsDefinition,
+  SubmissionData,
+} from '../../domain/gameMode.js';
+import { gameEvents } from '../gameCallbacks.js';
+import { range } from './settingsSchema.js';
 import {
   getFirstCharacter,
   getLastCharacter,
   isConnected,
   isHiraganaOnly,
 } from './shiritoriRules.js';
+import { createRepository } from '../../infra/persistence/index.js';
+import { datedRecordCodec, datedRecordListCodec } from '../../infra/persistence/codecs.js';
 
 export interface ShiritoriDrawing {
   order: number;
@@ -38,6 +48,15 @@ export interface ShiritoriResult {
   totalDrawings: number;
 }
 
+// 描く番の通知（描画フェーズの開始時と再接続時に送る）
+export interface ShiritoriTurn {
+  drawerId: string | null;
+  previousLetterHint: string | null;
+  order: number;
+  total: number;
+  gallery: ShiritoriDrawingPublic[];
+}
+
 // 絵のみ提出された状態（答え待ち）
 interface PendingDrawing {
   order: number;
@@ -47,14 +66,26 @@ interface PendingDrawing {
 }
 
 export class ShiritoriModeHandler implements GameModeHandler {
-  private galleries = new Map<string, ShiritoriDrawing[]>();
-  private currentDrawerIndex = new Map<string, number>();
+  private galleries = createRepository<ShiritoriDrawing[]>('shiritori_galleries', datedRecordListCodec<ShiritoriDrawing>());
+  private currentDrawerIndex = createRepository<number>('shiritori_drawer_index');
   private lastSubmission = new Map<
     string,
     { drawing: ShiritoriDrawingPublic; nextDrawerId: string | null }
   >();
   // 答え待ちの絵を管理（roomId:playerId -> PendingDrawing）
-  private pendingAnswers = new Map<string, PendingDrawing>();
+  private pendingAnswers = createRepository<PendingDrawing>('shiritori_pending_answers', datedRecordCodec<PendingDrawing>());
+
+  readonly mode = 'shiritori';
+  readonly settings: ModeSettingsDefinition = {
+    key: 'shiritoriSettings',
+    schema: {
+      drawingTimeSec: range(60, 10, 240),
+      totalDrawings: range(12, 4, 40),
+    },
+  };
+  readonly turnAdvancesAfter: readonly GamePhase[] = ['drawing'];
+  readonly contentPhases: readonly GamePhase[] = ['drawing'];
+  readonly drawingPhases: readonly GamePhase[] = ['drawing'];
 
   getPhases(): GamePhase[] {
     return ['drawing'];
@@ -102,7 +133,7 @@ export class ShiritoriModeHandler implements GameModeHandler {
     const totalTurns = room.settings.shiritoriSettings.totalDrawings;
     const currentCount = gallery.length;
     let pendingCount = 0;
-    for (const [key] of this.pendingAnswers) {
+    for (const key of this.pendingAnswers.keys()) {
       if (key.startsWith(`${room.id}:`)) pendingCount++;
     }
     
@@ -191,6 +222,7 @@ export class ShiritoriModeHandler implements GameModeHandler {
     gallery.push(drawing);
     // orderでソート
     gallery.sort((a, b) => a.order - b.order);
+    this.galleries.set(room.id, gallery);
     
     this.pendingAnswers.delete(pendingKey);
 
@@ -239,7 +271,7 @@ export class ShiritoriModeHandler implements GameModeHandler {
 
   // 答え待ちのプレイヤーがいるかチェック
   hasPendingAnswers(roomId: string): boolean {
-    for (const [key] of this.pendingAnswers) {
+    for (const key of this.pendingAnswers.keys()) {
       if (key.startsWith(`${roomId}:`)) {
         return true;
       }
@@ -282,6 +314,10 @@ export class ShiritoriModeHandler implements GameModeHandler {
     };
   }
 
+  announceResult(room: Room, result: ShiritoriResult): void {
+    gameEvents()?.onShiritoriResult?.(room, result);
+  }
+
   getExpectedSubmitters(room: Room): string[] {
     const drawer = this.getCurrentDrawer(room);
     return drawer ? [drawer.id] : [];
@@ -291,6 +327,39 @@ export class ShiritoriModeHandler implements GameModeHandler {
     return 1;
   }
 
+  onPhaseStarted(room: Room, phase: GamePhase): void {
+    if (phase === 'drawing') {
+      gameEvents()?.onShiritoriTurn?.(room, this.getTurn(room));
+    }
+  }
+
+  // 絵の提出成功を通知
+  onSubmitted(room: Room): void {
+    const latest = this.popLastSubmission(room.id);
+    if (latest) {
+      gameEvents()?.onShiritoriDrawingAdded?.(room, latest.drawing, latest.nextDrawerId);
+    }
+  }
+
+  getRejoinState(room: Room, playerId: string): ModeRejoinState {
+    const pending = this.getPendingDrawing(room.id, playerId);
+    return { shiritori: { ...this.getTurn(room), pendingImage: pending?.imageData ?? null } };
+  }
+
+  getLiveCanvasDrawerId(room: Room): string | null {
+    return this.getCurrentDrawer(room)?.id ?? null;
+  }
+
+  getTurn(room: Room): ShiritoriTurn {
+    return {
+      drawerId: this.getCurrentDrawer(room)?.id ?? null,
+      previousLetterHint: this.getPreviousLetterHint(room.id),
+      order: (room.currentTurn ?? 0) + 1,
+      total: room.totalTurns ?? room.settings.shiritoriSettings.totalDrawings,
+      gallery: this.getPublicGallery(room.id),
+    };
+  }
+
   getCurrentDrawer(room: Room): Player | undefined {
     const index = this.currentDrawerIndex.get(room.id) ?? 0;
     return room.players[index % room.players.length];
@@ -323,7 +392,7 @@ export class ShiritoriModeHandler implements GameModeHandler {
     this.currentDrawerIndex.delete(roomId);
     this.lastSubmission.delete(roomId);
     // pending answersもクリーンアップ
-    for (const [key] of this.pendingAnswers) {
+    for (const key of this.pendingAnswers.keys()) {
       if (key.startsWith(`${roomId}:`)) {
         this.pendingAnswers.delete(key);
       }
@@ -0,0 +1,310 @@
+import { FALLBACK_DRAWING, SHOWDOWN_RANK_POINTS, type Chain, type GamePhase, type Room } from '../../domain/entities.js';
+import type {
+  ContentPayload,
+  GameModeHandler,
+  ModeRejoinState,
+  ModeSettingsDefinition,
+  SubmissionData,
+} from '../../domain/gameMode.js';
+import { gameEvents } from '../gameCallbacks.js';
+import { categories, flag, range } from './settingsSchema.js';
+import { emitToMembers, resultPlayers, shuffle, type ResultPlayer } from './modeHelpers.js';
+import { getRandomPrompt } from './quizMode.js';
+import { generatePlayerId } from '../../infra/services/idGenerator.js';
+import { createRepository } from '../../infra/persistence/index.js';
+
+export interface ShowdownDrawing {
+  id: string;
+  authorId: string;
+  image: string;
+}
+
+export interface ShowdownBallot {
+  ranking: string[]; // 絵のID（上位から）
+  guesses: Record<string, string>; // 絵のID -> 描いたと思う人
+}
+
+export interface ShowdownRoundRecord {
+  round: number;
+  prompt: string;
+  drawings: (ShowdownDrawing & { rankPoints: number; firstPlaceVotes: number })[]; // 順位点の高い順
+  guessHits: Record<string, number>; // 予想が当たった数
+  roundScores: Record<string, number>; // このラウンドで増えた点
+}
+
+export interface ShowdownState {
+  prompt: string;
+  drawings: ShowdownDrawing[];
+  ballots: Record<string, ShowdownBallot>;
+  scores: Record<string, number>;
+  rounds: ShowdownRoundRecord[];
+}
+
+// プレイヤーごとに送る状態（結果発表まで誰の絵かは伏せ、自分の絵だけ分かるようにする）
+export interface ShowdownClientState {
+  round: number;
+  totalRounds: number;
+  prompt: string;
+  drawings: { id: string; image: string; mine: boolean }[];
+  guessAuthor: boolean;
+  judgedPlayerIds: string[];
+  myBallot: ShowdownBallot | null;
+  scores: Record<string, number>;
+  reveal: ShowdownRoundRecord | null; // showdown_revealフェーズのみ
+}
+
+export interface ShowdownResult {
+  rounds: ShowdownRoundRecord[];
+  scores: Record<string, number>;
+  players: ResultPlayer[];
+}
+
+const showdownStates = createRepository<ShowdownState>('showdown_states');
+
+// 自分以外の絵が1枚でもあれば審査できる
+function canJudge(state: ShowdownState, playerId: string): boolean {
+  return state.drawings.some((d) => d.authorId !== playerId);
+}
+
+export class ShowdownModeHandler implements GameModeHandler {
+  readonly mode = 'showdown';
+  readonly minPlayers = 3;
+  readonly settings: ModeSettingsDefinition = {
+    key: 'showdownSettings',
+    schema: {
+      rounds: range(3, 1, 10),
+      drawingTimeSec: range(30, 10, 120),
+      judgingTimeSec: range(45, 15, 180),
+      revealTimeSec: range(10, 3, 30),
+      guessAuthor: flag(true),
+      guessBonus: range(1, 1, 5),
+      selectedCategories: categories(),
+    },
+  };
+  // 結果発表が終わったら次のラウンドへ
+  readonly turnAdvancesAfter: readonly GamePhase[] = ['showdown_reveal'];
+  readonly contentPhases: readonly GamePhase[] = ['drawing'];
+  readonly drawingPhases: readonly GamePhase[] = ['drawing'];
+
+  getPhases(): GamePhase[] {
+    return ['drawing', 'showdown_judging', 'showdown_reveal'];
+  }
+
+  getNextPhase(currentPhase: GamePhase, turn: number, totalTurns: number, room: Room): GamePhase | 'result' {
+    if (currentPhase === 'drawing') {
+      // 絵が2枚そろわなければ審査を飛ばす
+      const drawings = showdownStates.get(room.id)?.drawings ?? [];
+      return drawings.length > 1 ? 'showdown_judging' : 'showdown_reveal';
+    }
+    if (currentPhase === 'showdown_judging') return 'showdown_reveal';
+    return turn < totalTurns ? 'drawing' : 'result';
+  }
+
+  getTimeLimit(phase: GamePhase, settings: Room['settings']): number {
+    const { drawingTimeSec, judgingTimeSec, revealTimeSec } = settings.showdownSettings;
+    if (phase === 'drawing') return drawingTimeSec;
+    if (phase === 'showdown_judging') return judgingTimeSec;
+    if (phase === 'showdown_reveal') return revealTimeSec;
+    return 30;
+  }
+
+  initializeGame(room: Room): void {
+    const scores: Record<string, number> = {};
+    room.players.forEach((p) => { scores[p.id] = 0; });
+
+    const state: ShowdownState = { prompt: '', drawings: [], ballots: {}, scores, rounds: [] };
+    this.startRound(room, state);
+
+    room.currentPhase = 'drawing';
+    room.currentTurn = 0;
+    room.totalTurns = room.settings.showdownSettings.rounds;
+  }
+
+  private startRound(room: Room, state: ShowdownState): void {
+    state.prompt = getRandomPrompt(room.settings.showdownSettings.selectedCategories).word;
+    state.drawings = [];
+    state.ballots = {};
+    showdownStates.set(room.id, state);
+  }
+
+  onTurnAdvanced(room: Room): void {
+    const state = showdownStates.get(room.id);
+    if (state && (room.currentTurn ?? 0) < (room.totalTurns ?? 0)) {
+      this.startRound(room, state);
+    }
+  }
+
+  // 描くのは全員。審査は専用のイベントで受け付ける
+  getExpectedSubmitters(room: Room): string[] {
+    return room.currentPhase === 'drawing' ? room.players.map((p) => p.id) : [];
+  }
+
+  // 全員に同じお題
+  distributeContent(room: Room, _chains: Chain[]): Map<string, ContentPayload> {
+    const payloads = new Map<string, ContentPayload>();
+    const state = showdownStates.get(room.id);
+    if (!state || room.currentPhase !== 'drawing') return payloads;
+
+    room.players.forEach((p) => payloads.set(p.id, { type: 'text', payload: state.prompt }));
+    return payloads;
+  }
+
+  handleSubmission(room: Room, playerId: string, data: SubmissionData, _chains: Chain[]): boolean {
+    const state = showdownStates.get(room.id);
+    if (!state || room.currentPhase !== 'drawing') return false;
+
+    // 時間切れで何も描かれなかった絵は審査に出さない
+    if (data.type !== 'drawing' || data.payload === FALLBACK_DRAWING) return true;
+
+    const existing = state.drawings.find((d) => d.authorId === playerId);
+    if (existing) {
+      existing.image = data.payload;
+    } else {
+      state.drawings.push({ id: generatePlayerId(), authorId: playerId, image: data.payload });
+    }
+    showdownStates.set(room.id, state);
+    return true;
+  }
+
+  // 審査を出す（締め切りまでは出し直せる）。審査できる接続中の全員が出したらtrue
+  submitBallot(room: Room, playerId: string, ballot: ShowdownBallot): { accepted: boolean; allJudged: boolean } {
+    const state = showdownStates.get(room.id);
+    const rejected = { accepted: false, allJudged: false };
+    if (!state || !room.players.some((p) => p.id === playerId)) return rejected;
+
+    const judgeable = new Set(state.drawings.filter((d) => d.authorId !== playerId).map((d) => d.id));
+    const ranking = [...new Set(ballot.ranking)];
+    if (ranking.length === 0 || ranking.length > SHOWDOWN_RANK_POINTS.length || ranking.some((id) => !judgeable.has(id))) {
+      return rejected;
+    }
+
+    // 予想は自分以外の絵と、自分以外のプレイヤーの組み合わせだけ受け付ける
+    const guesses: Record<string, string> = {};
+    if (room.settings.showdownSettings.guessAuthor) {
+      Object.entries(ballot.guesses).forEach(([drawingId, guessedId]) => {
+        if (judgeable.has(drawingId) && guessedId !== playerId && room.players.some((p) => p.id === guessedId)) {
+          guesses[drawingId] = guessedId;
+        }
+      });
+    }
+
+    state.ballots[playerId] = { ranking, guesses };
+    showdownStates.set(room.id, state);
+    const allJudged = room.players
+      .filter((p) => p.connected && canJudge(state, p.id))
+      .every((p) => state.ballots[p.id] !== undefined);
+    return { accepted: true, allJudged };
+  }
+
+  onPhaseStarting(room: Room, phase: GamePhase): void {
+    const state = showdownStates.get(room.id);
+    if (!state) return;
+
+    // 提出順で誰の絵か推測されないよう並べ替える
+    if (phase === 'showdown_judging') {
+      state.drawings = shuffle(state.drawings);
+      showdownStates.set(room.id, state);
+    }
+    if (phase === 'showdown_reveal') {
+      this.scoreRound(room, state);
+    }
+  }
+
+  // 順位点は絵を描いた人に、予想の的中ボーナスは予想した人に入る
+  private scoreRound(room: Room, state: ShowdownState): void {
+    const { guessAuthor, guessBonus } = room.settings.showdownSettings;
+    const rankPoints = new Map<string, number>();
+    const firstPlaceVotes = new Map<string, number>();
+    const guessHits: Record<string, number> = {};
+    const roundScores: Record<string, number> = {};
+    const addScore = (playerId: string, points: number) => {
+      roundScores[playerId] = (roundScores[playerId] ?? 0) + points;
+      state.scores[playerId] = (state.scores[playerId] ?? 0) + points;
+    };
+
+    Object.entries(state.ballots).forEach(([judgeId, ballot]) => {
+      ballot.ranking.forEach((drawingId, index) => {
+        rankPoints.set(drawingId, (rankPoints.get(drawingId) ?? 0) + SHOWDOWN_RANK_POINTS[index]);
+        if (index === 0) firstPlaceVotes.set(drawingId, (firstPlaceVotes.get(drawingId) ?? 0) + 1);
+      });
+
+      if (!guessAuthor) return;
+      const hits = Object.entries(ballot.guesses).filter(
+        ([drawingId, guessedId]) => state.drawings.find((d) => d.id === drawingId)?.authorId === guessedId
+      ).length;
+      if (hits > 0) {
+        guessHits[judgeId] = hits;
+        addScore(judgeId, hits * guessBonus);
+      }
+    });
+
+    const drawings = state.drawings
+      .map((drawing) => {
+        const points = rankPoints.get(drawing.id) ?? 0;
+        if (points > 0) addScore(drawing.authorId, points);
+        return { ...drawing, rankPoints: points, firstPlaceVotes: firstPlaceVotes.get(drawing.id) ?? 0 };
+      })
+      .sort((a, b) => b.rankPoints - a.rankPoints || b.firstPlaceVotes - a.firstPlaceVotes);
+
+    state.rounds.push({ round: state.rounds.length + 1, prompt: state.prompt, drawings, guessHits, roundScores });
+    showdownStates.set(room.id, state);
+  }
+
+  onPhaseStarted(room: Room): void {
+    this.emitState(room);
+  }
+
+  emitState(room: Room): void {
+    emitToMembers(
+      room,
+      (memberId) => this.getClientState(room, memberId),
+      (memberId, state) => gameEvents()?.onShowdownState?.(room, memberId, state)
+    );
+  }
+
+  getClientState(room: Room, playerId: string): ShowdownClientState | null {
+    const state = showdownStates.get(room.id);
+    if (!state) return null;
+
+    const { rounds, guessAuthor } = room.settings.showdownSettings;
+    const phase = room.currentPhase;
+    const showDrawings = phase === 'showdown_judging' || phase === 'showdown_reveal';
+    return {
+      round: Math.min((room.currentTurn ?? 0) + 1, rounds),
+      totalRounds: rounds,
+      prompt: state.prompt,
+      drawings: showDrawings ? state.drawings.map((d) => ({ id: d.id, image: d.image, mine: d.authorId === playerId })) : [],
+      guessAuthor,
+      judgedPlayerIds: Object.keys(state.ballots),
+      myBallot: state.ballots[playerId] ?? null,
+      scores: state.scores,
+      reveal: phase === 'showdown_reveal' ? state.rounds[state.rounds.length - 1] ?? null : null,
+    };
+  }
+
+  getRejoinState(room: Room, playerId: string): ModeRejoinState | null {
+    const state = this.getClientState(room, playerId);
+    return state ? { showdown: state } : null;
+  }
+
+  generateResult(room: Room, _chains: Chain[]): ShowdownResult | null {
+    const state = showdownStates.get(room.id);
+    if (!state) return null;
+
+    return {
+      rounds: state.rounds,
+      scores: state.scores,
+      players: resultPlayers(room),
+    };
+  }
+
+  announceResult(room: Room, result: ShowdownResult | null): void {
+    if (result) {
+      gameEvents()?.onShowdownResult?.(room, result);
+    }
+  }
+
+  cleanup(roomId: string): void {
+    showdownStates.delete(roomId);
+  }
+}
@@ -0,0 +1,18 @@
+import type { Room } from '../../domain/entities.js';
+
+// チェーンを回す席順。ゲーム開始時の並びで固定し、途中で抜けたプレイヤーの席も残す
+// （席を詰めると (index - turn) の計算がずれて、同じチェーンが2人に渡ったり誰にも渡らなくなったりする）
+export function getTurnOrder(room: Room): string[] {
+  return room.turnOrder ?? room.players.map((p) => p.id);
+}
+
+// 席順seatIndexのプレイヤーがturn番目に受け取るチェーン（1ターンごとに1席ずつずれる）
+export function getChainIndex(seatIndex: number, turn: number, playerCount: number): number {
+  return (((seatIndex - turn) % playerCount) + playerCount) % playerCount;
+}
+
+// 途中で抜けたプレイヤーの席。提出はフェーズの終わりに自動で埋める
+export function getVacantSeats(room: Room): string[] {
+  const present = new Set(room.players.map((p) => p.id));
+  return getTurnOrder(room).filter((playerId) => !present.has(playerId));
+}
@@ -1,42 +1,25 @@
-import type { Chain, DrawingStroke, GamePhase, Room } from '../domain/entities.js';
-import type { ContentPayload, GameModeHandler, SubmissionData } from '../domain/gameMode.js';
-import { ShiritoriModeHandler, type ShiritoriDrawingPublic, type ShiritoriResult } from './gameModes/shiritoriMode.js';
-import { QuizModeHandler, type QuizFeedItem } from './gameModes/quizMode.js';
-import { generatePlayerId } from '../infra/services/idGenerator.js';
-import { getGameModeHandler } from './gameModes/index.js';
-import { getRoom } from './roomUseCases.js';
-
-// In-memory store
-const chains = new Map<string, Chain[]>(); // roomId -> chains
+import { FALLBACK_DRAWING, FALLBACK_TEXTS, type Chain, type DrawingStroke, type GamePhase, type Room } from '../domain/entities.js';
+import type { ContentPayload, GameModeHandler, ModeRejoinState, SubmissionData } from '../domain/gameMode.js';
+import { generateGameId, generatePlayerId } from '../infra/services/idGenerator.js';
+import { isBlankImage, prepareImage } from '../infra/storage/imageStore.js';
+import { getAllGameModeHandlers, getGameModeHandler } from './gameModes/index.js';
+import { areStrokesAllowed, pickPalette } from './gameModes/modifiers.js';
+import { getRoom, listRooms, persistRoom, saveRoom } from './roomUseCases.js';
+import { archiveGame } from './gameArchiveUseCases.js';
+import { gameEvents } from './gameCallbacks.js';
+import { createRepository } from '../infra/persistence/index.js';
+import { chainsCodec, stringSetCodec } from '../infra/persistence/codecs.js';
+
+export { setGameCallbacks, type GameCallbacks } from './gameCallbacks.js';
+
+const chains = createRepository<Chain[]>('chains', chainsCodec); // roomId -> chains
+const roomSubmissions = createRepository<Set<string>>('submissions', stringSetCodec); // roomId -> Set of playerIds who submitted
+
+// In-memory store (timers are re-armed from room.phaseDeadline on boot)
 const roomTimers = new Map<string, NodeJS.Timeout>();
-const roomSubmissions = new Map<string, Set<string>>(); // roomId -> Set of playerIds who submitted
 const timerSyncIntervals = new Map<string, NodeJS.Timeout>(); // roomId -> interval for timer sync
 
-export interface GameCallbacks {
-  onPhaseChanged: (room: Room, phase: GamePhase, timeRemaining: number, deadline: Date) => void;
-  onSubmissionReceived: (room: Room, playerId: string, submittedCount: number, totalCount: number) => void;
-  onPhaseComplete: (room: Room, nextPhase: GamePhase | 'result') => void;
-  onReceiveContent: (playerId: string, content: ContentPayload) => void;
-  onTimerSync: (room: Room, remaining: number) => void;
-  onGameResult: (room: Room, chains: Chain[]) => void;
-  onShiritoriTurn?: (
-    room: Room,
-    payload: { drawerId: string | null; previousLetterHint: string | null; order: number; total: number; gallery: ShiritoriDrawingPublic[] }
-  ) => void;
-  onShiritoriDrawingAdded?: (room: Room, drawing: ShiritoriDrawingPublic, nextDrawerId: string | null) => void;
-  onShiritoriAnswerSubmitted?: (room: Room, playerId: string, drawing: ShiritoriDrawingPublic) => void;
-  onShiritoriResult?: (room: Room, result: ShiritoriResult) => void;
-  onQuizState?: (room: Room, playerId: string, state: ReturnType<QuizModeHandler['getQuizStateForClient']>) => void;
-  onQuizFeed?: (room: Room, item: QuizFeedItem) => void;
-  onQuizRoundEnded?: (room: Room, data: { prompt: string; winners: { playerId: string; rank: number }[]; scores: Record<string, number> }) => void;
-  onQuizResult?: (room: Room, result: { scores: Record<string, number>; players: { id: string; name: string }[] }) => void;
-}
-
-let callbacks: GameCallbacks | null = null;
-
-export function setGameCallbacks(cb: GameCallbacks) {
-  callbacks = cb;
-}
+const GRACE_PERIOD_MS = 2000; // 2 seconds grace period for client auto-submit
 
 function getExpectedSubmitters(room: Room, handler: GameModeHandler): string[] {
   return handler.getExpectedSubmitters?.(room) ?? room.players.map((p) => p.id);
@@ -46,30 +29,7 @@ function getRequiredSubmissions(room: Room, handler: GameModeHandler, phase: Gam
   return handler.getRequiredSubmissions?.(room, phase) ?? getExpectedSubmitters(room, handler).length;
 }
 
-function emitShiritoriTurn(room: Room, handler: GameModeHandler) {
-  if (!(handler instanceof ShiritoriModeHandler)) return;
-  const drawer = handler.getCurrentDrawer(room);
-  const previousLetterHint = handler.getPreviousLetterHint(room.id);
-  callbacks?.onShiritoriTurn?.(room, {
-    drawerId: drawer?.id ?? null,
-    previousLetterHint,
-    order: (room.currentTurn ?? 0) + 1,
-    total: room.totalTurns ?? room.settings.shiritoriSettings.totalDrawings,
-    gallery: handler.getPublicGallery(room.id),
-  });
-}
-
-function emitQuizState(room: Room, handler: GameModeHandler) {
-  if (!(handler instanceof QuizModeHandler)) return;
-  room.players.forEach((player) => {
-    const state = handler.getQuizStateForClient(room.id, player.id, room);
-    if (state) {
-      callbacks?.onQuizState?.(room, player.id, state);
-    }
-  });
-}
-
-export function initializeGame(roomId: string): { chains: Chain[]; initialPhase: GamePhase } | null {
+export function initializeGame(roomId: string): { chains: Chain[]; initialPhase: GamePhase; palette?: string[] } | null {
   const room = getRoom(roomId);
   if (!room) return null;
 
@@ -85,12 +45,17 @@ export function initializeGame(roomId: string): { chains: Chain[]; initialPhase:
 
   chains.set(roomId, roomChains);
   roomSubmissions.set(roomId, new Set());
+  room.gameId = generateGameId();
+  room.turnOrder = room.players.map((p) => p.id);
+  room.departedPlayers = [];
+  room.palette = handler.ignoresModifiers ? undefined : pickPalette(room.settings.modifiers);
 
   // Handler sets the initial phase on room.currentPhase
   handler.initializeGame(room);
   const initialPhase = room.currentPhase ?? 'prompt';
+  saveRoom(room);
 
-  return { chains: roomChains, initialPhase };
+  return { chains: roomChains, initialPhase, palette: room.palette };
 }
 
 export function startPhase(roomId: string, phase: GamePhase): void {
@@ -105,53 +70,83 @@ export function startPhase(roomId: string, phase: GamePhase): void {
   const timeLimit = handler.getTimeLimit(phase, room.settings);
   const deadline = new Date(Date.now() + timeLimit * 1000);
   room.phaseDeadline = deadline;
+  saveRoom(room);
 
-  // quiz_reveal開始時は、phase_changedより先に答え/結果を確定して通知する
-  if (phase === 'quiz_reveal' && handler instanceof QuizModeHandler) {
-    const roundResult = handler.endRound(room);
-    callbacks?.onQuizRoundEnded?.(room, roundResult);
-  }
+  handler.onPhaseStarting?.(room, phase);
 
   // Notify phase change with deadline for timer sync
-  callbacks?.onPhaseChanged(room, phase, timeLimit, deadline);
+  gameEvents()?.onPhaseChanged(room, phase, timeLimit, deadline);
 
-  // Distribute content to players for drawing/guessing phases
-  if (phase === 'drawing' || phase === 'guessing' || phase === 'first-frame') {
+  if (handler.contentPhases.includes(phase)) {
     distributeContent(roomId);
-    if (room.settings.gameMode === 'shiritori') {
-      emitShiritoriTurn(room, handler);
-    }
   }
+  handler.onPhaseStarted?.(room, phase);
 
-  // Quiz mode: send state at phase start
-  if (phase === 'quiz_prompt' || phase === 'quiz_drawing' || phase === 'quiz_guessing' || phase === 'quiz_reveal') {
-    distributeContent(roomId);
-    // quiz_guessingフェーズ開始時にキャンバスロックを解除（revealモード）
-    if (phase === 'quiz_guessing' && handler instanceof QuizModeHandler) {
-      handler.unlockCanvas(roomId);
-    }
-    emitQuizState(room, handler);
-  }
+  armPhaseTimers(room, deadline);
+}
+
+// Start timer sync and timeout timers relative to the phase deadline
+function armPhaseTimers(room: Room, deadline: Date): void {
+  const roomId = room.id;
 
   // Start timer sync interval (every 10 seconds)
   clearTimerSyncInterval(roomId);
   const syncInterval = setInterval(() => {
     const remaining = Math.max(0, Math.ceil((deadline.getTime() - Date.now()) / 1000));
     if (remaining > 0) {
-      callbacks?.onTimerSync(room, remaining);
+      gameEvents()?.onTimerSync(room, remaining);
     }
   }, 10000);
   timerSyncIntervals.set(roomId, syncInterval);
 
   // Start timeout timer with grace period for client submissions
   clearRoomTimer(roomId);
-  const GRACE_PERIOD_MS = 2000; // 2 seconds grace period for client auto-submit
   const timer = setTimeout(() => {
     handlePhaseTimeout(roomId);
-  }, timeLimit * 1000 + GRACE_PERIOD_MS);
+  }, Math.max(0, deadline.getTime() - Date.now()) + GRACE_PERIOD_MS);
   roomTimers.set(roomId, timer);
 }
 
+// 再起動時: 保存済みのゲームのタイマーを締め切りに合わせて再開する
+// 再起動中に締め切りを過ぎていた場合は猶予後すぐにタイムアウト処理が走る
+export function resumeActiveGames(): string[] {
+  const resumed: string[] = [];
+
+  for (const room of listRooms()) {
+    if (room.status !== 'playing' || !room.phaseDeadline) continue;
+    if (!room.currentPhase || room.currentPhase === 'result') continue;
+    if (!chains.has(room.id)) continue;
+
+    if (!roomSubmissions.has(room.id)) {
+      roomSubmissions.set(room.id, new Set());
+    }
+    armPhaseTimers(room, room.phaseDeadline);
+    resumed.push(room.id);
+  }
+
+  return resumed;
+}
+
+// 進行中のゲーム状態をまとめて保存する（逐次保存していない高頻度の更新を含む）
+export function snapshotActiveGames(): void {
+  for (const room of listRooms()) {
+    if (room.status !== 'playing') continue;
+
+    persistRoom(room);
+    const roomChains = chains.get(room.id);
+    if (roomChains) chains.set(room.id, roomChains);
+    const submissions = roomSubmissions.get(room.id);
+    if (submissions) roomSubmissions.set(room.id, submissions);
+    getGameModeHandler(room.settings.gameMode).snapshot?.(room.id);
+  }
+}
+
+export function startGameSnapshots(intervalMs: number): NodeJS.Timeout {
+  const interval = setInterval(snapshotActiveGames, intervalMs);
+  interval.unref();
+  return interval;
+}
+
 function distributeContent(roomId: string): void {
   const room = getRoom(roomId);
   const roomChains = chains.get(roomId);
@@ -161,7 +156,7 @@ function distributeContent(roomId: string): void {
   const payloads = handler.distributeContent(room, roomChains);
 
   payloads.forEach((content, playerId) => {
-    callbacks?.onReceiveContent(playerId, content);
+    gameEvents()?.onReceiveContent(playerId, content);
   });
 }
 
@@ -169,7 +164,8 @@ function handleSubmission(
   roomId: string,
   playerId: string,
   data: SubmissionData,
-  expectedPhase: GamePhase
+  expectedPhase: GamePhase,
+  onAccepted?: () => void
 ): boolean {
   const room = getRoom(roomId);
   const roomChains = chains.get(roomId);
@@ -185,18 +181,17 @@ function handleSubmission(
   const alreadySubmitted = submissions.has(playerId);
   const success = handler.handleSubmission(room, playerId, data, roomChains);
   if (!success) return false;
+  // 受け付けた提出だけ画像を書き込む（配信より前に済ませる）
+  onAccepted?.();
+  chains.set(roomId, roomChains);
 
-  if (handler instanceof ShiritoriModeHandler) {
-    const latest = handler.popLastSubmission(roomId);
-    if (latest) {
-      callbacks?.onShiritoriDrawingAdded?.(room, latest.drawing, latest.nextDrawerId);
-    }
-  }
+  handler.onSubmitted?.(room, playerId);
 
   if (!alreadySubmitted) {
     submissions.add(playerId);
+    roomSubmissions.set(roomId, submissions);
     const required = getRequiredSubmissions(room, handler, expectedPhase);
-    callbacks?.onSubmissionReceived(room, playerId, submissions.size, getExpectedSubmitters(room, handler).length);
+    gameEvents()?.onSubmissionReceived(room, playerId, submissions.size, getExpectedSubmitters(room, handler).length);
 
     if (submissions.size >= required) {
       advancePhase(roomId);
@@ -211,10 +206,12 @@ export function markPlayerReady(roomId: string, playerId: string): boolean {
   const submissions = roomSubmissions.get(roomId);
 
   if (!room || !submissions) return false;
+  if (!room.players.some((p) => p.id === playerId)) return false;
   if (submissions.has(playerId)) return false;
 
   submissions.add(playerId);
-  callbacks?.onSubmissionReceived(room, playerId, submissions.size, room.players.length);
+  roomSubmissions.set(roomId, submissions);
+  gameEvents()?.onSubmissionReceived(room, playerId, submissions.size, room.players.length);
 
   if (submissions.size >= room.players.length) {
     advancePhase(roomId);
@@ -228,10 +225,12 @@ export function unmarkPlayerReady(roomId: string, playerId: string): boolean {
   const submissions = roomSubmissions.get(roomId);
 
   if (!room || !submissions) return false;
+  if (!room.players.some((p) => p.id === playerId)) return false;
   if (!submissions.has(playerId)) return false;
 
   submissions.delete(playerId);
-  callbacks?.onSubmissionReceived(room, playerId, submissions.size, room.players.length);
+  roomSubmissions.set(roomId, submissions);
+  gameEvents()?.onSubmissionReceived(room, playerId, submissions.size, room.players.length);
 
   return true;
 }
@@ -240,146 +239,90 @@ export function submitPrompt(roomId: string, playerId: string, text: string): bo
   return handleSubmission(roomId, playerId, { type: 'text', payload: text || '' }, 'prompt');
 }
 
-export function submitDrawing(roomId: string, playerId: string, imageUrl: string, strokes?: DrawingStroke[]): boolean {
-  const room = getRoom(roomId);
-  if (!room) return false;
-  
-  // アニメーションモードではfirst-frameフェーズでもdrawingを受け付ける
-  const phase = room.currentPhase;
-  if (phase === 'first-frame' || phase === 'drawing') {
-    return handleSubmission(roomId, playerId, { type: 'drawing', payload: imageUrl, strokes }, phase);
-  }
-  
-  // クイズモードでの描画
-  if (phase === 'quiz_drawing' && room.settings.gameMode === 'quiz') {
-    const handler = getGameModeHandler(room.settings.gameMode);
-    if (!(handler instanceof QuizModeHandler)) return false;
-    
-    const roomChains = chains.get(roomId) ?? [];
-    const success = handler.handleSubmission(room, playerId, { type: 'drawing', payload: imageUrl, strokes }, roomChains);
-    if (!success) return false;
-
-    // 描画更新を全員に通知（revealモードではロック中のため親以外には見えない）
-    emitQuizState(room, handler);
-
-    // 提出済みとして記録して、タイムアウト時の自動提出で上書きされるのを防ぐ
-    const submissions = roomSubmissions.get(roomId);
-    if (submissions && !submissions.has(playerId)) {
-      submissions.add(playerId);
-      callbacks?.onSubmissionReceived(room, playerId, submissions.size, getExpectedSubmitters(room, handler).length);
-
-      // 先描き(reveal)は提出したら即回答フェーズへ
-      if (room.settings.quizSettings.quizFormat === 'reveal') {
-        const required = getRequiredSubmissions(room, handler, 'quiz_drawing');
-        if (submissions.size >= required) {
-          advancePhase(roomId);
-        }
-      }
-    }
-
-    return true;
-  }
-  
-  return false;
-}
-
-export function submitShiritori(
+export function submitDrawing(
   roomId: string,
   playerId: string,
-  imageData: string | null,
-  answer: string | null
-): { success: boolean; error?: string; isLastDrawing?: boolean; shouldEndGame?: boolean } {
+  imageData: string,
+  strokes?: DrawingStroke[],
+  edgeStrip?: string
+): boolean {
   const room = getRoom(roomId);
-  if (!room) return { success: false, error: 'Room not found' };
-  if (room.settings.gameMode !== 'shiritori') return { success: false, error: 'Not in shiritori mode' };
+  if (!room?.currentPhase) return false;
 
+  const phase = room.currentPhase;
   const handler = getGameModeHandler(room.settings.gameMode);
-  if (!(handler instanceof ShiritoriModeHandler)) {
-    return { success: false, error: 'Invalid handler' };
-  }
-
-  // 絵のみの提出
-  if (imageData && !answer) {
-    const result = handler.handleImageSubmission(room, playerId, imageData);
-    if (!result.success) return result;
-    
-    // 絵の提出成功を通知
-    const latest = handler.popLastSubmission(roomId);
-    if (latest) {
-      callbacks?.onShiritoriDrawingAdded?.(room, latest.drawing, latest.nextDrawerId);
-    }
-    
-    return { success: true, isLastDrawing: result.isLastDrawing };
+  if (!handler.drawingPhases.includes(phase)) return false;
+  if (!handler.ignoresModifiers && !areStrokesAllowed(room.settings.modifiers, room.palette, strokes, () => isBlankImage(imageData))) {
+    return false;
   }
 
-  // 答えのみの提出
-  if (!imageData && answer) {
-    // ひらがなバリデーション
-    const hiraganaPattern = /^[\u3041-\u3096ー]+$/;
-    if (!hiraganaPattern.test(answer)) {
-      return { success: false, error: 'ひらがなのみ入力してください' };
-    }
-    
-    const result = handler.handleAnswerSubmission(room, playerId, answer);
-    if (!result.success) return result;
-    
-    // 答え提出を通知
-    if (result.drawing) {
-      callbacks?.onShiritoriAnswerSubmitted?.(room, playerId, result.drawing);
-    }
-    
-    // ゲーム終了チェック
-    if (result.shouldEndGame) {
-      // 結果発表へ
-      const shiritoriResult = handler.generateResult(room, []);
-      callbacks?.onShiritoriResult?.(room, shiritoriResult);
+  // 画像はブロブストアに保存し、エントリーには参照だけを持たせる
+  const image = prepareImage(imageData);
+  const strip = edgeStrip ? prepareImage(edgeStrip) : undefined;
+  return handleSubmission(
+    roomId,
+    playerId,
+    { type: 'drawing', payload: image.ref, strokes, edgeStrip: strip?.ref },
+    phase,
+    () => {
+      image.save();
+      strip?.save();
     }
-    
-    return { success: true, shouldEndGame: result.shouldEndGame };
-  }
-
-  return { success: false, error: 'Invalid submission' };
+  );
 }
 
 export function submitGuess(roomId: string, playerId: string, guess: string): boolean {
   return handleSubmission(roomId, playerId, { type: 'text', payload: guess || '' }, 'guessing');
 }
 
-export function submitQuizGuess(
-  roomId: string,
-  playerId: string,
-  text: string
-): { success: boolean; winnersReached?: boolean } {
-  const room = getRoom(roomId);
-  if (!room) return { success: false };
-  // realtimeモード: quiz_drawing / revealモード: quiz_guessing で回答可能
-  if (room.currentPhase !== 'quiz_drawing' && room.currentPhase !== 'quiz_guessing') {
-    return { success: false };
-  }
+export function forceAdvancePhase(roomId: string): void {
+  advancePhase(roomId);
+}
 
-  const handler = getGameModeHandler(room.settings.gameMode);
-  if (!(handler instanceof QuizModeHandler)) return { success: false };
+// 提出がなかった人の代わりに入れる内容
+function getFallbackSubmission(room: Room, text: string): SubmissionData {
+  const isDrawingPhase = room.currentPhase === 'drawing' || room.currentPhase === 'first-frame';
+  const fallbackPayload = isDrawingPhase ? FALLBACK_DRAWING : text;
 
-  const result = handler.submitGuess(room, playerId, text);
-  if (!result) return { success: false };
+  return room.currentPhase === 'prompt'
+    ? { type: 'text', payload: fallbackPayload }
+    : { type: 'drawing', payload: fallbackPayload, answer: text, imageData: fallbackPayload };
+}
 
-  callbacks?.onQuizFeed?.(room, result.feedItem);
+// 途中で抜けたプレイヤーの席を埋めて、どのチェーンも1ターンに1つずつ進むようにする
+function fillVacantSeats(room: Room, handler: GameModeHandler): void {
+  const vacantSeats = handler.getVacantSeats?.(room) ?? [];
+  const roomChains = chains.get(room.id);
+  const submissions = roomSubmissions.get(room.id);
+  if (vacantSeats.length === 0 || !roomChains || !submissions || !room.currentPhase) return;
 
-  // 正解時は状態（winners / promptなど）を即時反映するためにquiz_stateも送る
-  if (result.correct) {
-    emitQuizState(room, handler);
-  }
+  vacantSeats.forEach((playerId) => {
+    if (submissions.has(playerId)) return;
+    handler.handleSubmission(room, playerId, getFallbackSubmission(room, FALLBACK_TEXTS.departed), roomChains);
+    submissions.add(playerId);
+  });
+  chains.set(room.id, roomChains);
+  roomSubmissions.set(room.id, submissions);
+}
 
-  if (result.winnersReached) {
-    forceAdvancePhase(roomId);
-    return { success: true, winnersReached: true };
-  }
+// ゲーム中にプレイヤーが抜けたとき: 残りの全員が提出済み（またはモードが続けられない）なら、抜けた人を待たずに次へ進む
+export function handlePlayerLeftGame(roomId: string): void {
+  const room = getRoom(roomId);
+  const submissions = roomSubmissions.get(roomId);
+  if (!room || room.status !== 'playing' || !room.currentPhase || !submissions) return;
 
-  return { success: true, winnersReached: false };
-}
+  const handler = getGameModeHandler(room.settings.gameMode);
+  if (handler.shouldAdvanceOnLeave?.(room)) {
+    advancePhase(roomId);
+    return;
+  }
+  if (!handler.getVacantSeats) return;
 
-export function forceAdvancePhase(roomId: string): void {
-  advancePhase(roomId);
+  const expectedPlayers = getExpectedSubmitters(room, handler);
+  const submittedCount = expectedPlayers.filter((playerId) => submissions.has(playerId)).length;
+  if (expectedPlayers.length > 0 && submittedCount >= getRequiredSubmissions(room, handler, room.currentPhase)) {
+    advancePhase(roomId);
+  }
 }
 
 function handlePhaseTimeout(roomId: string): void {
@@ -391,24 +334,17 @@ function handlePhaseTimeout(roomId: string): void {
 
   const handler = getGameModeHandler(room.settings.gameMode);
   const expectedPlayers = getExpectedSubmitters(room, handler);
-  const isDrawingPhase = room.currentPhase === 'drawing' || room.currentPhase === 'first-frame';
-  const fallbackPayload = isDrawingPhase ? '(timeout)' : '(時間切れ)';
 
   expectedPlayers.forEach((playerId) => {
     if (submissions.has(playerId)) return;
 
-    handler.handleSubmission(
-      room,
-      playerId,
-      room.currentPhase === 'prompt'
-        ? { type: 'text', payload: fallbackPayload }
-        : { type: 'drawing', payload: fallbackPayload, answer: '(時間切れ)', imageData: fallbackPayload },
-      roomChains
-    );
+    handler.handleSubmission(room, playerId, getFallbackSubmission(room, FALLBACK_TEXTS.timeout), roomChains);
 
     submissions.add(playerId);
-    callbacks?.onSubmissionReceived(room, playerId, submissions.size, expectedPlayers.length);
+    gameEvents()?.onSubmissionReceived(room, playerId, submissions.size, expectedPlayers.length);
   });
+  chains.set(roomId, roomChains);
+  roomSubmissions.set(roomId, submissions);
 
   advancePhase(roomId);
 }
@@ -420,78 +356,34 @@ function advancePhase(roomId: string): void {
   clearRoomTimer(roomId);
   clearTimerSyncInterval(roomId);
 
-  const playerCount = room.players.length;
-  let currentTurn = room.currentTurn ?? 0;
-  const totalTurns = room.totalTurns ?? playerCount;
+  const handler = getGameModeHandler(room.settings.gameMode);
+
+  // ターンを進める前に、抜けたプレイヤーの分を埋めておく
+  fillVacantSeats(room, handler);
+
+  const totalTurns = room.totalTurns ?? room.players.length;
 
-  // アニメーションモード: drawingフェーズの終了時のみターンを進める
-  // first-frameは自分のチェーンに描くのでターンは進めない
   // ターンの更新はgetNextPhaseの**前**に行う必要がある
-  if (room.settings.gameMode === 'animation') {
-    if (room.currentPhase === 'drawing') {
-      currentTurn = currentTurn + 1;
-      room.currentTurn = currentTurn;
-    }
-  } else if (room.settings.gameMode === 'shiritori') {
-    if (room.currentPhase === 'drawing') {
-      currentTurn = (currentTurn ?? 0) + 1;
-      room.currentTurn = currentTurn;
-    }
-  } else if (room.settings.gameMode === 'quiz') {
-    if (room.currentPhase === 'quiz_reveal') {
-      currentTurn = currentTurn + 1;
-      room.currentTurn = currentTurn;
-      // 次のラウンド準備
-      const handler = getGameModeHandler(room.settings.gameMode);
-      if (handler instanceof QuizModeHandler) {
-        if (currentTurn < totalTurns) {
-          handler.nextRound(room);
-        }
-      }
-    }
-  } else {
-    // ノーマルモード: drawingとguessingの両方でターンを進める
-    // これにより、毎フェーズでチェーンがずれて同じプレイヤーが連続参加しない
-    if (room.currentPhase === 'prompt') {
-      currentTurn = 1;
-      room.currentTurn = currentTurn;
-    } else if (room.currentPhase === 'drawing') {
-      currentTurn = currentTurn + 1;
-      room.currentTurn = currentTurn;
-    } else if (room.currentPhase === 'guessing') {
-      currentTurn = currentTurn + 1;
-      room.currentTurn = currentTurn;
-    }
+  if (room.currentPhase && handler.turnAdvancesAfter.includes(room.currentPhase)) {
+    room.currentTurn = (room.currentTurn ?? 0) + 1;
+    handler.onTurnAdvanced?.(room);
   }
 
-  const handler = getGameModeHandler(room.settings.gameMode);
   const nextPhase = room.currentPhase
-    ? handler.getNextPhase(room.currentPhase, currentTurn, totalTurns, room)
+    ? handler.getNextPhase(room.currentPhase, room.currentTurn ?? 0, totalTurns, room)
     : 'result';
 
-  callbacks?.onPhaseComplete(room, nextPhase);
+  gameEvents()?.onPhaseComplete(room, nextPhase);
 
   if (nextPhase !== 'result') {
     startPhase(roomId, nextPhase);
   } else {
     room.status = 'finished';
     room.currentPhase = 'result';
-    const roomChains = chains.get(roomId);
-    if (room.settings.gameMode === 'shiritori') {
-      const handler = getGameModeHandler(room.settings.gameMode);
-      if (handler instanceof ShiritoriModeHandler) {
-        const result = handler.generateResult(room, roomChains ?? []);
-        callbacks?.onShiritoriResult?.(room, result);
-      }
-    } else if (room.settings.gameMode === 'quiz') {
-      const handler = getGameModeHandler(room.settings.gameMode);
-      if (handler instanceof QuizModeHandler) {
-        const result = handler.generateResult(room, roomChains ?? []);
-        callbacks?.onQuizResult?.(room, result);
-      }
-    } else if (roomChains) {
-      callbacks?.onGameResult(room, roomChains);
-    }
+    saveRoom(room);
+    const result = handler.generateResult(room, chains.get(roomId) ?? []);
+    archiveGame(room, result);
+    handler.announceResult(room, result);
   }
 }
 
@@ -539,21 +431,34 @@ export function hasPlayerSubmitted(roomId: string, playerId: string): boolean {
   return submissions?.has(playerId) ?? false;
 }
 
+// Mode-specific state a reconnecting player needs to land back in the same phase
+export function getPlayerModeState(roomId: string, playerId: string): ModeRejoinState | null {
+  const room = getRoom(roomId);
+  if (!room || room.status !== 'playing') return null;
+
+  return getGameModeHandler(room.settings.gameMode).getRejoinState?.(room, playerId) ?? null;
+}
+
+// 描画中キャンバスをライブ配信できるプレイヤー（しりとりの描画者、クイズrealtime形式の描画中の親）
+export function getLiveCanvasDrawerId(room: Room): string | null {
+  if (room.status !== 'playing') return null;
+  return getGameModeHandler(room.settings.gameMode).getLiveCanvasDrawerId?.(room) ?? null;
+}
+
+export function recordLiveCanvasKeyframe(room: Room, imageData: string | null): void {
+  getGameModeHandler(room.settings.gameMode).recordLiveCanvasKeyframe?.(room, imageData);
+}
+
 export function cleanupGame(roomId: string): void {
   clearRoomTimer(roomId);
   clearTimerSyncInterval(roomId);
   chains.delete(roomId);
   roomSubmissions.delete(roomId);
-  const room = getRoom(roomId);
-  if (room?.settings.gameMode === 'shiritori') {
-    const handler = getGameModeHandler(room.settings.gameMode);
-    if (handler instanceof ShiritoriModeHandler) {
-      handler.cleanup(roomId);
-    }
-  } else if (room?.settings.gameMode === 'quiz') {
-    const handler = getGameModeHandler(room.settings.gameMode);
-    if (handler instanceof QuizModeHandler) {
-      handler.cleanup(roomId);
-    }
-  }
+  // モード変更後も前のモードの状態が残っている可能性があるので全モードを掃除する
+  getAllGameModeHandlers().forEach((handler) => handler.cleanup?.(roomId));
+}
+
+// Room ids that still have game state but no room (e.g. the room was deleted when emptied)
+export function listOrphanedGameIds(): string[] {
+  return chains.keys().filter((roomId) => !getRoom(roomId));
 }
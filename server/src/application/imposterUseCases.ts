@@ -0,0 +1,53 @@
+import type { DrawingStroke, GamePhase, Room } from '../domain/entities.js';
+import { getModeHandler } from './gameModes/index.js';
+import { getRoom } from './roomUseCases.js';
+import { forceAdvancePhase } from './gameUseCases.js';
+
+type ImposterActionResult = { success: boolean; error?: string };
+
+function getImposterRoom(roomId: string, phase: GamePhase): { room?: Room; error?: string } {
+  const room = getRoom(roomId);
+  if (!room) return { error: 'Room not found' };
+  if (room.settings.gameMode !== 'imposter' || room.currentPhase !== phase) return { error: 'Not available in this phase' };
+  return { room };
+}
+
+// 自分のターンに1画描いたら、すぐ次の人のターンへ進む
+export function addImposterStroke(roomId: string, playerId: string, stroke: DrawingStroke): ImposterActionResult {
+  const { room, error } = getImposterRoom(roomId, 'imposter_drawing');
+  if (!room) return { success: false, error };
+
+  if (!getModeHandler('imposter').addStroke(room, playerId, stroke)) {
+    return { success: false, error: 'Not your turn' };
+  }
+  forceAdvancePhase(roomId);
+  return { success: true };
+}
+
+export function voteImposter(roomId: string, playerId: string, suspectId: string): ImposterActionResult {
+  const { room, error } = getImposterRoom(roomId, 'imposter_voting');
+  if (!room) return { success: false, error };
+
+  const handler = getModeHandler('imposter');
+  const { accepted, allVoted } = handler.castVote(room, playerId, suspectId);
+  if (!accepted) return { success: false, error: 'Cannot vote for this player' };
+
+  if (allVoted) {
+    forceAdvancePhase(roomId);
+  } else {
+    handler.emitState(room);
+  }
+  return { success: true };
+}
+
+// 見破られた偽アーティストの最後のチャンス（1回だけ）
+export function guessImposterPrompt(roomId: string, playerId: string, text: string): ImposterActionResult {
+  const { room, error } = getImposterRoom(roomId, 'imposter_guess');
+  if (!room) return { success: false, error };
+
+  if (!getModeHandler('imposter').submitGuess(room, playerId, text)) {
+    return { success: false, error: 'Only the imposter can guess' };
+  }
+  forceAdvancePhase(roomId);
+  return { success: true };
+}
@@ -0,0 +1,36 @@
+import { getModeHandler } from './gameModes/index.js';
+import { getRoom } from './roomUseCases.js';
+import { forceAdvancePhase } from './gameUseCases.js';
+import { gameEvents } from './gameCallbacks.js';
+
+export function submitQuizGuess(
+  roomId: string,
+  playerId: string,
+  text: string
+): { success: boolean; winnersReached?: boolean } {
+  const room = getRoom(roomId);
+  if (!room) return { success: false };
+  if (room.settings.gameMode !== 'quiz') return { success: false };
+  // realtimeモード: quiz_drawing / revealモード: quiz_guessing で回答可能
+  if (room.currentPhase !== 'quiz_drawing' && room.currentPhase !== 'quiz_guessing') {
+    return { success: false };
+  }
+
+  const handler = getModeHandler('quiz');
+  const result = handler.submitGuess(room, playerId, text);
+  if (!result) return { success: false };
+
+  gameEvents()?.onQuizFeed?.(room, result.feedItem);
+
+  // 正解時は状態（winners / promptなど）を即時反映するためにquiz_stateも送る
+  if (result.correct) {
+    handler.emitState(room);
+  }
+
+  if (result.winnersReached) {
+    forceAdvancePhase(roomId);
+    return { success: true, winnersReached: true };
+  }
+
+  return { success: true, winnersReached: false };
+}
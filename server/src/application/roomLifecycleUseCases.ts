@@ -0,0 +1,81 @@
+import type { Room } from '../domain/entities.js';
+import { deleteRoom, listRooms } from './roomUseCases.js';
+import { cleanupGame, listOrphanedGameIds } from './gameUseCases.js';
+
+// ルームの状態ごとに、最後のアクティビティからどれだけ放置されたら削除するか
+export interface RoomTtlConfig {
+  waitingMs: number;
+  playingMs: number;
+  finishedMs: number;
+}
+
+export interface RoomEviction {
+  roomId: string;
+  status: Room['status'] | 'orphaned';
+  idleMs: number;
+  playerCount: number;
+}
+
+export interface RoomLifecycleCallbacks {
+  // 削除直前に呼ばれる。接続中のクライアントへの通知に使う
+  onRoomClosing: (room: Room, reason: 'idle') => void;
+}
+
+let callbacks: RoomLifecycleCallbacks | null = null;
+
+export function setRoomLifecycleCallbacks(cb: RoomLifecycleCallbacks) {
+  callbacks = cb;
+}
+
+function getTtl(status: Room['status'], ttl: RoomTtlConfig): number {
+  switch (status) {
+    case 'waiting':
+      return ttl.waitingMs;
+    case 'playing':
+      return ttl.playingMs;
+    case 'finished':
+      return ttl.finishedMs;
+  }
+}
+
+function closeRoom(room: Room, reason: 'idle'): void {
+  callbacks?.onRoomClosing(room, reason);
+  cleanupGame(room.id);
+  deleteRoom(room.id);
+}
+
+// TTLを過ぎたルームと、ルームが消えた後に残ったゲーム状態を削除する
+export function reapIdleRooms(ttl: RoomTtlConfig, now = Date.now()): RoomEviction[] {
+  const evicted: RoomEviction[] = [];
+
+  for (const room of listRooms()) {
+    const lastActivity = (room.lastActivityAt ?? room.createdAt).getTime();
+    const idleMs = now - lastActivity;
+    if (idleMs < getTtl(room.status, ttl)) continue;
+
+    closeRoom(room, 'idle');
+    evicted.push({ roomId: room.id, status: room.status, idleMs, playerCount: room.players.length });
+  }
+
+  for (const roomId of listOrphanedGameIds()) {
+    cleanupGame(roomId);
+    evicted.push({ roomId, status: 'orphaned', idleMs: 0, playerCount: 0 });
+  }
+
+  return evicted;
+}
+
+export function startRoomReaper(
+  ttl: RoomTtlConfig,
+  intervalMs: number,
+  onEvicted?: (evicted: RoomEviction[]) => void
+): NodeJS.Timeout {
+  const interval = setInterval(() => {
+    const evicted = reapIdleRooms(ttl);
+    if (evicted.length > 0) {
+      onEvicted?.(evicted);
+    }
+  }, intervalMs);
+  interval.unref();
+  return interval;
+}
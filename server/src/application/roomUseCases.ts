@@ -1,12 +1,61 @@
-import type { Room, Player, Settings, GameMode } from '../domain/entities.js';
-import { createDefaultSettings, PLAYER_COLORS } from '../domain/entities.js';
+import { createHash, randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import type { Room, Player, Spectator, Settings, GameMode, RoomVisibility } from '../domain/entities.js';
+import { PLAYER_COLORS } from '../domain/entities.js';
 import { generateRoomId, generatePlayerId } from '../infra/services/idGenerator.js';
+import { createRepository } from '../infra/persistence/index.js';
+import { roomCodec } from '../infra/persistence/codecs.js';
+import { revokePlayerSessions, revokeRoomSessions } from './sessionUseCases.js';
+import { createDefaultSettings, getGameModeHandler, mergeSettings } from './gameModes/index.js';
+
+const rooms = createRepository<Room>('rooms', roomCodec);
+
+// ルームごとの参加者のクライアントIDとBANリスト、参加パスワード
+// Roomはそのままクライアントに送られるので別に保存する。クライアントIDとパスワードはハッシュで持つ
+interface RoomAccess {
+  clientKeys: Record<string, string>; // playerId -> クライアントIDのハッシュ
+  bannedClientKeys: string[];
+  passwordHash?: string; // salt:hash（scrypt）
+}
+
+export const MAX_ROOM_PASSWORD_LENGTH = 64;
+export const MAX_SPECTATORS = 20;
+
+// 公開ルーム一覧の1件分
+export interface PublicRoomSummary {
+  roomId: string;
+  gameMode: GameMode;
+  hostName: string;
+  playerCount: number;
+  maxPlayers: number;
+  hasPassword: boolean;
+  createdAt: Date;
+}
+
+const roomAccess = createRepository<RoomAccess>('roomAccess');
+
+function hashClientId(clientId: string): string {
+  return createHash('sha256').update(clientId).digest('hex');
+}
 
-// In-memory store
-const rooms = new Map<string, Room>();
+function getRoomAccess(roomId: string): RoomAccess {
+  return roomAccess.get(roomId) ?? { clientKeys: {}, bannedClientKeys: [] };
+}
 
-export function createRoom(): Room {
+function hashPassword(password: string): string {
+  const salt = randomBytes(16).toString('hex');
+  return `${salt}:${scryptSync(password, salt, 32).toString('hex')}`;
+}
+
+function verifyPassword(password: string, stored: string): boolean {
+  const [salt, hash] = stored.split(':');
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+export function createRoom(options: { visibility?: RoomVisibility; password?: string } = {}): Room {
   const roomId = generateRoomId();
+  const password = options.password?.trim() ? options.password : undefined;
   const room: Room = {
     id: roomId,
     status: 'waiting',
@@ -14,8 +63,14 @@ export function createRoom(): Room {
     players: [],
     settings: createDefaultSettings(),
     createdAt: new Date(),
+    lastActivityAt: new Date(),
+    visibility: options.visibility ?? 'private',
+    hasPassword: !!password,
   };
   rooms.set(roomId, room);
+  if (password) {
+    roomAccess.set(roomId, { ...getRoomAccess(roomId), passwordHash: hashPassword(password) });
+  }
   return room;
 }
 
@@ -23,57 +78,171 @@ export function getRoom(roomId: string): Room | undefined {
   return rooms.get(roomId);
 }
 
+export function listRooms(): Room[] {
+  return rooms.values();
+}
+
+// 参加者を募集中の公開ルーム（新しい順）
+export function listPublicRooms(): PublicRoomSummary[] {
+  return rooms
+    .values()
+    .filter((room) => room.visibility === 'public' && room.status === 'waiting' && !room.locked && room.players.length > 0)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .map((room) => ({
+      roomId: room.id,
+      gameMode: room.settings.gameMode,
+      hostName: room.players.find((p) => p.id === room.hostId)?.name ?? '',
+      playerCount: room.players.length,
+      maxPlayers: room.settings.maxPlayers,
+      hasPassword: !!room.hasPassword,
+      createdAt: room.createdAt,
+    }));
+}
+
+// Persist in-place changes made to a room object
+export function saveRoom(room: Room): void {
+  if (rooms.has(room.id)) {
+    touchRoom(room);
+  }
+}
+
+// 最終アクティビティ時刻を変えずに保存する（定期スナップショット用。アイドル判定をずらさない）
+export function persistRoom(room: Room): void {
+  if (rooms.has(room.id)) {
+    rooms.set(room.id, room);
+  }
+}
+
+// 変更を保存し、アイドル判定用に最終アクティビティ時刻を更新する
+function touchRoom(room: Room): void {
+  room.lastActivityAt = new Date();
+  rooms.set(room.id, room);
+}
+
+export function deleteRoom(roomId: string): void {
+  rooms.delete(roomId);
+  roomAccess.delete(roomId);
+  revokeRoomSessions(roomId);
+}
+
+// 未使用のカラーでプレイヤーを作る
+function createPlayer(room: Room, id: string, name: string): Player {
+  const usedColors = new Set(room.players.map(p => p.color));
+  const availableColor = PLAYER_COLORS.find(c => !usedColors.has(c)) ?? PLAYER_COLORS[0];
+  return { id, name, ready: false, connected: true, color: availableColor };
+}
+
+// プレイヤーまたは観戦者
+function findMember(room: Room, memberId: string): Player | Spectator | undefined {
+  return room.players.find((p) => p.id === memberId) ?? room.spectators?.find((s) => s.id === memberId);
+}
+
+export function isSpectator(room: Room, memberId: string): boolean {
+  return room.spectators?.some((s) => s.id === memberId) ?? false;
+}
+
+// spectate: true、またはゲーム中に参加した場合は観戦者になる（途中参加でチェーンの数を狂わせない）
 export function addPlayerToRoom(
   roomId: string,
-  playerName: string
-): { room: Room; playerId: string } | null {
+  playerName: string,
+  options: { clientId: string; password?: string; spectate?: boolean }
+): { success: boolean; room?: Room; playerId?: string; error?: string; passwordRequired?: boolean } {
   const room = rooms.get(roomId);
-  if (!room) return null;
+  if (!room) return { success: false, error: 'Room not found' };
 
-  if (room.players.length >= room.settings.maxPlayers) {
-    return null;
+  if (room.locked) {
+    return { success: false, error: 'Room is locked' };
   }
 
-  // 未使用のカラーを取得
-  const usedColors = new Set(room.players.map(p => p.color));
-  const availableColor = PLAYER_COLORS.find(c => !usedColors.has(c)) ?? PLAYER_COLORS[0];
+  const access = getRoomAccess(roomId);
+  const clientKey = hashClientId(options.clientId);
+  if (access.bannedClientKeys.includes(clientKey)) {
+    return { success: false, error: 'You are banned from this room' };
+  }
 
+  if (access.passwordHash && !(options.password && verifyPassword(options.password, access.passwordHash))) {
+    return {
+      success: false,
+      passwordRequired: true,
+      error: options.password ? 'Incorrect password' : 'Password required',
+    };
+  }
+
+  // 観戦者だけのルームにはしない（最初の1人はプレイヤーとしてホストになる）
+  const spectate = room.players.length > 0 && (options.spectate || room.status !== 'waiting');
   const playerId = generatePlayerId();
-  const player: Player = {
-    id: playerId,
-    name: playerName,
-    ready: false,
-    connected: true,
-    color: availableColor,
-  };
 
-  room.players.push(player);
+  if (spectate) {
+    const spectators = room.spectators ?? [];
+    if (spectators.length >= MAX_SPECTATORS) {
+      return { success: false, error: 'Too many spectators' };
+    }
+    room.spectators = [...spectators, { id: playerId, name: playerName, connected: true }];
+  } else {
+    if (room.players.length >= room.settings.maxPlayers) {
+      return { success: false, error: 'Room is full' };
+    }
+    room.players.push(createPlayer(room, playerId, playerName));
 
-  // First player becomes host
-  if (room.players.length === 1) {
-    room.hostId = playerId;
+    // First player becomes host
+    if (room.players.length === 1) {
+      room.hostId = playerId;
+    }
   }
 
-  return { room, playerId };
+  access.clientKeys[playerId] = clientKey;
+  roomAccess.set(roomId, access);
+
+  touchRoom(room);
+  return { success: true, room, playerId };
 }
 
 export function removePlayerFromRoom(roomId: string, playerId: string): Room | null {
   const room = rooms.get(roomId);
   if (!room) return null;
 
+  // ゲームの席に着いていたプレイヤーは、結果発表で名前を出せるように残しておく
+  const departed = room.players.find((p) => p.id === playerId);
+  if (departed && room.turnOrder?.includes(playerId)) {
+    room.departedPlayers = [...(room.departedPlayers ?? []), departed];
+  }
+
   room.players = room.players.filter((p) => p.id !== playerId);
+  if (room.spectators) {
+    room.spectators = room.spectators.filter((s) => s.id !== playerId);
+  }
+  revokePlayerSessions(playerId);
+
+  const access = roomAccess.get(roomId);
+  if (access && playerId in access.clientKeys) {
+    delete access.clientKeys[playerId];
+    roomAccess.set(roomId, access);
+  }
 
-  // If host left, assign new host
+  // プレイヤーがいなくなったら、観戦者の先頭をプレイヤーにする
+  if (room.players.length === 0 && room.spectators?.length) {
+    const [next, ...rest] = room.spectators;
+    room.spectators = rest;
+    const player = createPlayer(room, next.id, next.name);
+    player.connected = next.connected;
+    room.players.push(player);
+  }
+
+  // If host left, assign new host (接続中のプレイヤーを優先)
   if (room.hostId === playerId && room.players.length > 0) {
-    room.hostId = room.players[0].id;
+    room.hostId = (room.players.find((p) => p.connected) ?? room.players[0]).id;
+  }
+  if (room.presenterId === playerId) {
+    room.presenterId = undefined;
   }
 
   // Delete room if empty
   if (room.players.length === 0) {
-    rooms.delete(roomId);
+    deleteRoom(roomId);
     return null;
   }
 
+  touchRoom(room);
   return room;
 }
 
@@ -85,14 +254,28 @@ export function setPlayerConnected(
   const room = rooms.get(roomId);
   if (!room) return null;
 
-  const player = room.players.find((p) => p.id === playerId);
-  if (player) {
-    player.connected = connected;
+  const member = findMember(room, playerId);
+  if (member) {
+    member.connected = connected;
+    touchRoom(room);
   }
 
   return room;
 }
 
+// On boot, rooms restored from storage have no live sockets yet
+export function markAllPlayersDisconnected(): void {
+  for (const room of rooms.values()) {
+    room.players.forEach((p) => {
+      p.connected = false;
+    });
+    room.spectators?.forEach((s) => {
+      s.connected = false;
+    });
+    rooms.set(room.id, room);
+  }
+}
+
 // Rejoin room - returns room state if player exists
 export function rejoinRoom(
   roomId: string,
@@ -101,11 +284,12 @@ export function rejoinRoom(
   const room = rooms.get(roomId);
   if (!room) return null;
 
-  const player = room.players.find((p) => p.id === playerId);
-  if (!player) return null;
+  const member = findMember(room, playerId);
+  if (!member) return null;
 
-  player.connected = true;
-  return { room, playerName: player.name };
+  member.connected = true;
+  touchRoom(room);
+  return { room, playerName: member.name };
 }
 
 // Get current game state for reconnection
@@ -133,77 +317,6 @@ export function getGameState(roomId: string): {
   };
 }
 
-function clampNumber(value: number, min: number, max: number, fallback: number) {
-  if (Number.isNaN(value)) return fallback;
-  return Math.min(max, Math.max(min, value));
-}
-
-function normalizeSettings(settings: Settings): Settings {
-  const defaults = createDefaultSettings();
-
-  const normalSettings = {
-    ...defaults.normalSettings,
-    ...settings.normalSettings,
-  };
-
-  const animationSettings = {
-    ...defaults.animationSettings,
-    ...settings.animationSettings,
-  };
-
-  const shiritoriSettings = {
-    ...defaults.shiritoriSettings,
-    ...settings.shiritoriSettings,
-  };
-
-  const quizSettings = {
-    ...defaults.quizSettings,
-    ...settings.quizSettings,
-  };
-
-  return {
-    maxPlayers: clampNumber(settings.maxPlayers, 2, 12, defaults.maxPlayers),
-    gameMode: settings.gameMode,
-    normalSettings: {
-      ...normalSettings,
-      promptTimeSec: clampNumber(normalSettings.promptTimeSec, 5, 180, defaults.normalSettings.promptTimeSec),
-      drawingTimeSec: clampNumber(normalSettings.drawingTimeSec, 20, 300, defaults.normalSettings.drawingTimeSec),
-      guessTimeSec: clampNumber(normalSettings.guessTimeSec, 10, 240, defaults.normalSettings.guessTimeSec),
-      resultOrder: normalSettings.resultOrder,
-    },
-    animationSettings: {
-      ...animationSettings,
-      drawingTimeSec: clampNumber(animationSettings.drawingTimeSec, 20, 300, defaults.animationSettings.drawingTimeSec),
-      viewMode: animationSettings.viewMode,
-      firstFrameMode: animationSettings.firstFrameMode,
-      promptTimeSec:
-        animationSettings.firstFrameMode === 'prompt'
-          ? clampNumber(animationSettings.promptTimeSec ?? defaults.animationSettings.promptTimeSec ?? 20, 5, 180, defaults.animationSettings.promptTimeSec ?? 20)
-          : animationSettings.promptTimeSec,
-    },
-    shiritoriSettings: {
-      ...shiritoriSettings,
-      drawingTimeSec: clampNumber(shiritoriSettings.drawingTimeSec, 10, 240, defaults.shiritoriSettings.drawingTimeSec),
-      totalDrawings: clampNumber(shiritoriSettings.totalDrawings, 4, 40, defaults.shiritoriSettings.totalDrawings),
-    },
-    quizSettings: {
-      ...quizSettings,
-      drawingTimeSec: clampNumber(quizSettings.drawingTimeSec, 30, 300, defaults.quizSettings.drawingTimeSec),
-      maxWinners: clampNumber(quizSettings.maxWinners, 1, 10, defaults.quizSettings.maxWinners),
-      revealTimeSec: clampNumber(quizSettings.revealTimeSec, 1, 10, defaults.quizSettings.revealTimeSec),
-      totalRounds: clampNumber(quizSettings.totalRounds, 0, 20, defaults.quizSettings.totalRounds),
-      quizFormat: quizSettings.quizFormat === 'reveal' ? 'reveal' : 'realtime',
-      revealDrawTimeSec: clampNumber(quizSettings.revealDrawTimeSec, 5, 60, defaults.quizSettings.revealDrawTimeSec),
-      revealGuessTimeSec: clampNumber(quizSettings.revealGuessTimeSec, 10, 120, defaults.quizSettings.revealGuessTimeSec),
-      promptDisplayMode: quizSettings.promptDisplayMode === 'separate' ? 'separate' : 'immediate',
-      promptViewTimeSec: clampNumber(quizSettings.promptViewTimeSec, 3, 30, defaults.quizSettings.promptViewTimeSec),
-      winnerPoints: quizSettings.winnerPoints?.length > 0 ? quizSettings.winnerPoints.slice(0, 10) : defaults.quizSettings.winnerPoints,
-      drawerBonus: clampNumber(quizSettings.drawerBonus, 0, 10, defaults.quizSettings.drawerBonus),
-      noWinnerBonus: clampNumber(quizSettings.noWinnerBonus, 0, 10, defaults.quizSettings.noWinnerBonus),
-    },
-  };
-}
-
 export function togglePlayerReady(roomId: string, playerId: string): Room | null {
   const room = rooms.get(roomId);
   if (!room) return null;
@@ -211,6 +324,7 @@ export function togglePlayerReady(roomId: string, playerId: string): Room | null
   const player = room.players.find((p) => p.id === playerId);
   if (player) {
     player.ready = !player.ready;
+    touchRoom(room);
   }
 
   return room;
@@ -222,28 +336,8 @@ export function updateRoomSettings(roomId: string, playerId: string, partial: Pa
   if (room.hostId !== playerId) return null;
   if (room.status !== 'waiting') return null;
 
-  const merged: Settings = normalizeSettings({
-    ...room.settings,
-    ...partial,
-    normalSettings: {
-      ...room.settings.normalSettings,
-      ...(partial.normalSettings ?? {}),
-    },
-    animationSettings: {
-      ...room.settings.animationSettings,
-      ...(partial.animationSettings ?? {}),
-    },
-    shiritoriSettings: {
-      ...room.settings.shiritoriSettings,
-      ...(partial.shiritoriSettings ?? {}),
-    },
-    quizSettings: {
-      ...room.settings.quizSettings,
-      ...(partial.quizSettings ?? {}),
-    },
-  });
-
-  room.settings = merged;
+  room.settings = mergeSettings(room.settings, partial);
+  touchRoom(room);
   return room;
 }
 
@@ -261,10 +355,11 @@ export function startGame(roomId: string, playerId: string): Room | null {
   // Check all players are ready
   if (!room.players.every((p) => p.ready)) return null;
 
-  // Need at least 2 players
-  if (room.players.length < 2) return null;
+  // Need at least 2 players (some modes need more)
+  if (room.players.length < (getGameModeHandler(room.settings.gameMode).minPlayers ?? 2)) return null;
 
   room.status = 'playing';
+  touchRoom(room);
   return room;
 }
 
@@ -273,6 +368,9 @@ export function playerReturnToLobby(roomId: string, playerId: string): Room | nu
   const room = rooms.get(roomId);
   if (!room) return null;
 
+  // 観戦者が戻ってもルームの状態は変えない
+  if (isSpectator(room, playerId)) return room;
+
   const player = room.players.find((p) => p.id === playerId);
   if (player) {
     player.ready = false;
@@ -286,6 +384,10 @@ export function playerReturnToLobby(roomId: string, playerId: string): Room | nu
     room.currentTurn = undefined;
     room.totalTurns = undefined;
     room.phaseDeadline = undefined;
+    room.turnOrder = undefined;
+    room.departedPlayers = undefined;
+    room.palette = undefined;
+    room.presenterId = undefined;
     
     // Reset all players' ready status
     for (const p of room.players) {
@@ -293,6 +395,7 @@ export function playerReturnToLobby(roomId: string, playerId: string): Room | nu
     }
   }
 
+  touchRoom(room);
   return room;
 }
 
@@ -306,12 +409,17 @@ export function resetRoomToLobby(roomId: string): Room | null {
   room.currentTurn = undefined;
   room.totalTurns = undefined;
   room.phaseDeadline = undefined;
+  room.turnOrder = undefined;
+  room.departedPlayers = undefined;
+  room.palette = undefined;
+  room.presenterId = undefined;
   
   // Reset all players' ready status
   for (const player of room.players) {
     player.ready = false;
   }
 
+  touchRoom(room);
   return room;
 }
 
@@ -341,6 +449,7 @@ export function reorderPlayers(roomId: string, playerId: string, playerIds: stri
   // Create new ordered array
   const playerMap = new Map(room.players.map(p => [p.id, p]));
   room.players = playerIds.map(id => playerMap.get(id)!);
+  touchRoom(room);
   
   return room;
 }
@@ -374,5 +483,173 @@ export function changePlayerColor(
   }
 
   player.color = color;
+  touchRoom(room);
+  return { success: true, room };
+}
+
+// ホストによる操作の共通チェック（対象はホスト以外のルーム内プレイヤー）
+function getHostTarget(
+  roomId: string,
+  hostId: string,
+  targetId: string
+): { room?: Room; error?: string } {
+  const room = rooms.get(roomId);
+  if (!room) return { error: 'Room not found' };
+  if (room.hostId !== hostId) return { error: 'Only the host can do this' };
+  if (targetId === hostId) return { error: 'Cannot target yourself' };
+  if (!findMember(room, targetId)) return { error: 'Player not found' };
+  return { room };
+}
+
+// プレイヤーをキック（再参加は可能）
+export function kickPlayer(
+  roomId: string,
+  hostId: string,
+  targetId: string
+): { success: boolean; room?: Room; error?: string } {
+  const { error } = getHostTarget(roomId, hostId, targetId);
+  if (error) return { success: false, error };
+
+  // ホストは残るので、ルームが空になることはない
+  const room = removePlayerFromRoom(roomId, targetId);
+  if (!room) return { success: false, error: 'Room not found' };
+  return { success: true, room };
+}
+
+// プレイヤーをキックし、同じクライアントからの再参加を禁止する
+export function banPlayer(
+  roomId: string,
+  hostId: string,
+  targetId: string
+): { success: boolean; room?: Room; error?: string } {
+  const { error } = getHostTarget(roomId, hostId, targetId);
+  if (error) return { success: false, error };
+
+  // クライアントIDが分からなければBANできないので、キックもせずにホストへ伝える
+  const access = getRoomAccess(roomId);
+  const clientKey = access.clientKeys[targetId];
+  if (!clientKey) return { success: false, error: 'Cannot ban this player (unknown client)' };
+  if (!access.bannedClientKeys.includes(clientKey)) {
+    access.bannedClientKeys.push(clientKey);
+    roomAccess.set(roomId, access);
+  }
+
+  return kickPlayer(roomId, hostId, targetId);
+}
+
+export function transferHost(
+  roomId: string,
+  hostId: string,
+  targetId: string
+): { success: boolean; room?: Room; error?: string } {
+  const { room, error } = getHostTarget(roomId, hostId, targetId);
+  if (!room) return { success: false, error };
+  if (isSpectator(room, targetId)) return { success: false, error: 'Spectators cannot be host' };
+
+  room.hostId = targetId;
+  touchRoom(room);
+  return { success: true, room };
+}
+
+// 結果発表を進めるプレイヤー（未設定ならホスト）
+export function getPresenterId(room: Room): string {
+  return room.presenterId ?? room.hostId;
+}
+
+// 結果発表の進行役を渡す（ホストか今の発表者が操作できる）
+export function passPresenter(
+  roomId: string,
+  requesterId: string,
+  targetId: string
+): { success: boolean; room?: Room; error?: string } {
+  const room = rooms.get(roomId);
+  if (!room) return { success: false, error: 'Room not found' };
+  if (requesterId !== room.hostId && requesterId !== getPresenterId(room)) {
+    return { success: false, error: 'Only the host or presenter can do this' };
+  }
+  if (room.status !== 'finished') return { success: false, error: 'Results are not being shown' };
+
+  const target = room.players.find((p) => p.id === targetId);
+  if (!target) return { success: false, error: 'Player not found' };
+  if (!target.connected) return { success: false, error: 'Player is not connected' };
+
+  room.presenterId = targetId === room.hostId ? undefined : targetId;
+  touchRoom(room);
+  return { success: true, room };
+}
+
+export function setRoomLocked(roomId: string, hostId: string, locked: boolean): Room | null {
+  const room = rooms.get(roomId);
+  if (!room) return null;
+  if (room.hostId !== hostId) return null;
+
+  room.locked = locked;
+  touchRoom(room);
+  return room;
+}
+
+// クイズのチーム戦: プレイヤーのチームを決める（nullで未設定に戻す）
+export function assignTeam(
+  roomId: string,
+  hostId: string,
+  targetId: string,
+  team: number | null
+): { success: boolean; room?: Room; error?: string } {
+  const room = rooms.get(roomId);
+  if (!room) return { success: false, error: 'Room not found' };
+  if (room.hostId !== hostId) return { success: false, error: 'Only the host can do this' };
+  if (room.status !== 'waiting') return { success: false, error: 'Cannot change teams during a game' };
+
+  const player = room.players.find((p) => p.id === targetId);
+  if (!player) return { success: false, error: 'Player not found' };
+  if (team !== null && team >= room.settings.quizSettings.teamCount) return { success: false, error: 'Invalid team' };
+
+  player.team = team ?? undefined;
+  touchRoom(room);
+  return { success: true, room };
+}
+
+// クイズのチーム戦: 全員をランダムに、人数が均等になるよう振り分け直す
+export function balanceTeams(roomId: string, hostId: string): Room | null {
+  const room = rooms.get(roomId);
+  if (!room) return null;
+  if (room.hostId !== hostId) return null;
+  if (room.status !== 'waiting') return null;
+
+  const { teamCount } = room.settings.quizSettings;
+  const shuffled = [...room.players];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  shuffled.forEach((player, index) => {
+    player.team = index % teamCount;
+  });
+  touchRoom(room);
+  return room;
+}
+
+// 観戦者をプレイヤーにする（ゲームの合間のみ。ホストか本人が操作できる）
+export function promoteSpectator(
+  roomId: string,
+  requesterId: string,
+  spectatorId: string
+): { success: boolean; room?: Room; error?: string } {
+  const room = rooms.get(roomId);
+  if (!room) return { success: false, error: 'Room not found' };
+  if (requesterId !== room.hostId && requesterId !== spectatorId) {
+    return { success: false, error: 'Only the host can do this' };
+  }
+  if (room.status !== 'waiting') return { success: false, error: 'Cannot join during a game' };
+
+  const spectator = room.spectators?.find((s) => s.id === spectatorId);
+  if (!spectator) return { success: false, error: 'Spectator not found' };
+  if (room.players.length >= room.settings.maxPlayers) return { success: false, error: 'Room is full' };
+
+  room.spectators = room.spectators?.filter((s) => s.id !== spectatorId);
+  const player = createPlayer(room, spectator.id, spectator.name);
+  player.connected = spectator.connected;
+  room.players.push(player);
+  touchRoom(room);
   return { success: true, room };
 }
@@ -0,0 +1,68 @@
+import { createHash } from 'crypto';
+import { generateSessionToken } from '../infra/services/idGenerator.js';
+import { createRepository } from '../infra/persistence/index.js';
+
+// 再接続用のセッショントークン
+// playerIdは players_updated で全員に配られるので、再接続にはこのトークンを要求する。
+// トークンそのものは保存せず、ハッシュをキーにする。
+interface Session {
+  roomId: string;
+  playerId: string;
+  expiresAt: number | null; // ローテーション済みの古いトークンの有効期限
+}
+
+// ローテーション後も、新しいトークンが届かなかった場合に備えて古いトークンを少しの間受け付ける
+const ROTATED_TOKEN_GRACE_MS = 30 * 1000;
+
+const sessions = createRepository<Session>('sessions');
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function issueSessionToken(roomId: string, playerId: string): string {
+  const token = generateSessionToken();
+  sessions.set(hashToken(token), { roomId, playerId, expiresAt: null });
+  return token;
+}
+
+// トークンを検証し、新しいトークンに交換する。無効なら null
+export function redeemSessionToken(
+  roomId: string,
+  token: string,
+  now = Date.now()
+): { playerId: string; sessionToken: string } | null {
+  const key = hashToken(token);
+  const session = sessions.get(key);
+  if (!session || session.roomId !== roomId) return null;
+
+  if (session.expiresAt !== null && session.expiresAt <= now) {
+    sessions.delete(key);
+    return null;
+  }
+
+  // 同じプレイヤーの他のトークンは使えなくする（猶予中の古いトークンは残す）
+  revokeSessions((s, k) => s.playerId === session.playerId && k !== key && s.expiresAt === null);
+  if (session.expiresAt === null) {
+    sessions.set(key, { ...session, expiresAt: now + ROTATED_TOKEN_GRACE_MS });
+  }
+
+  return { playerId: session.playerId, sessionToken: issueSessionToken(roomId, session.playerId) };
+}
+
+function revokeSessions(predicate: (session: Session, key: string) => boolean): void {
+  for (const key of sessions.keys()) {
+    const session = sessions.get(key);
+    if (session && predicate(session, key)) {
+      sessions.delete(key);
+    }
+  }
+}
+
+export function revokePlayerSessions(playerId: string): void {
+  revokeSessions((s) => s.playerId === playerId);
+}
+
+export function revokeRoomSessions(roomId: string): void {
+  revokeSessions((s) => s.roomId === roomId);
+}
@@ -0,0 +1,65 @@
+import type { DrawingStroke } from '../domain/entities.js';
+import { isBlankImage, prepareImage } from '../infra/storage/imageStore.js';
+import { areStrokesAllowed } from './gameModes/modifiers.js';
+import { getModeHandler } from './gameModes/index.js';
+import { getRoom } from './roomUseCases.js';
+import { archiveGame } from './gameArchiveUseCases.js';
+import { gameEvents } from './gameCallbacks.js';
+
+// 絵しりとり: 絵と答えを別々に提出する（描き終えたらすぐ次の人の番になり、答えは後から入力できる）
+export function submitShiritori(
+  roomId: string,
+  playerId: string,
+  imageData: string | null,
+  answer: string | null,
+  strokes?: DrawingStroke[]
+): { success: boolean; error?: string; isLastDrawing?: boolean; shouldEndGame?: boolean } {
+  const room = getRoom(roomId);
+  if (!room) return { success: false, error: 'Room not found' };
+  if (room.settings.gameMode !== 'shiritori') return { success: false, error: 'Not in shiritori mode' };
+
+  const handler = getModeHandler('shiritori');
+
+  // 絵のみの提出
+  if (imageData && !answer) {
+    if (!areStrokesAllowed(room.settings.modifiers, room.palette, strokes, () => isBlankImage(imageData))) {
+      return { success: false, error: 'Drawing breaks the modifier rules' };
+    }
+    const image = prepareImage(imageData);
+    const result = handler.handleImageSubmission(room, playerId, image.ref);
+    if (!result.success) return result;
+    image.save();
+
+    handler.onSubmitted(room);
+    return { success: true, isLastDrawing: result.isLastDrawing };
+  }
+
+  // 答えのみの提出
+  if (!imageData && answer) {
+    // ひらがなバリデーション
+    const hiraganaPattern = /^[\u3041-\u3096ー]+$/;
+    if (!hiraganaPattern.test(answer)) {
+      return { success: false, error: 'ひらがなのみ入力してください' };
+    }
+
+    const result = handler.handleAnswerSubmission(room, playerId, answer);
+    if (!result.success) return result;
+
+    // 答え提出を通知
+    if (result.drawing) {
+      gameEvents()?.onShiritoriAnswerSubmitted?.(room, playerId, result.drawing);
+    }
+
+    // ゲーム終了チェック
+    if (result.shouldEndGame) {
+      // 結果発表へ
+      const shiritoriResult = handler.generateResult(room, []);
+      archiveGame(room, shiritoriResult);
+      handler.announceResult(room, shiritoriResult);
+    }
+
+    return { success: true, shouldEndGame: result.shouldEndGame };
+  }
+
+  return { success: false, error: 'Invalid submission' };
+}
@@ -0,0 +1,33 @@
+import { getModeHandler } from './gameModes/index.js';
+import { getRoom } from './roomUseCases.js';
+import { forceAdvancePhase } from './gameUseCases.js';
+
+type ShowdownActionResult = { success: boolean; error?: string };
+
+// 全員の審査がそろったら締め切りを待たずに結果発表へ
+export function judgeShowdown(
+  roomId: string,
+  playerId: string,
+  ranking: string[],
+  guesses: { drawingId: string; playerId: string }[] = []
+): ShowdownActionResult {
+  const room = getRoom(roomId);
+  if (!room) return { success: false, error: 'Room not found' };
+  if (room.settings.gameMode !== 'showdown' || room.currentPhase !== 'showdown_judging') {
+    return { success: false, error: 'Not available in this phase' };
+  }
+
+  const handler = getModeHandler('showdown');
+  const { accepted, allJudged } = handler.submitBallot(room, playerId, {
+    ranking,
+    guesses: Object.fromEntries(guesses.map((g) => [g.drawingId, g.playerId])),
+  });
+  if (!accepted) return { success: false, error: 'Invalid ranking' };
+
+  if (allJudged) {
+    forceAdvancePhase(roomId);
+  } else {
+    handler.emitState(room);
+  }
+  return { success: true };
+}
@@ -0,0 +1,50 @@
+import type { Room, VoteCategory } from '../domain/entities.js';
+import { getModeHandler } from './gameModes/index.js';
+import type { VoteSummary } from './gameModes/normalMode.js';
+import { getPresenterId, getRoom } from './roomUseCases.js';
+import { getChains } from './gameUseCases.js';
+
+type VoteResult = { success: boolean; room?: Room; summary?: VoteSummary; error?: string };
+
+// ノーマルモードの結果発表中だけ投票できる
+function getVotingRoom(roomId: string): { room?: Room; error?: string } {
+  const room = getRoom(roomId);
+  if (!room) return { error: 'Room not found' };
+  if (room.settings.gameMode !== 'normal' || room.currentPhase !== 'result') return { error: 'Voting is not open' };
+  return { room };
+}
+
+export function castVote(
+  roomId: string,
+  playerId: string,
+  vote: { category: VoteCategory; chainId: string; entryOrder: number }
+): VoteResult {
+  const { room, error } = getVotingRoom(roomId);
+  if (!room) return { success: false, error };
+
+  const handler = getModeHandler('normal');
+  const chains = getChains(roomId) ?? [];
+  if (!handler.castVote(room, playerId, vote.category, { chainId: vote.chainId, entryOrder: vote.entryOrder }, chains)) {
+    return { success: false, error: 'Cannot vote for this entry' };
+  }
+  return { success: true, room, summary: handler.getVoteSummary(room, chains) };
+}
+
+// 全員の投票を待たずに締め切る（発表者のみ）
+export function closeVoting(roomId: string, playerId: string): VoteResult {
+  const { room, error } = getVotingRoom(roomId);
+  if (!room) return { success: false, error };
+  if (getPresenterId(room) !== playerId) return { success: false, error: 'Only the presenter can do this' };
+
+  const handler = getModeHandler('normal');
+  const chains = getChains(roomId) ?? [];
+  if (!handler.closeVoting(room, chains)) return { success: false, error: 'Voting is already closed' };
+  return { success: true, room, summary: handler.getVoteSummary(room, chains) };
+}
+
+// 再接続したプレイヤー向けの投票状況（投票中でなければnull）
+export function getVoteSummary(roomId: string): VoteSummary | null {
+  const { room } = getVotingRoom(roomId);
+  if (!room) return null;
+  return getModeHandler('normal').getVoteSummary(room, getChains(roomId) ?? []);
+}
@@ -1,3 +1,5 @@
+import type { QuizPromptCategory } from '../domain/entities.js';
+
 // クイズモードのお題リスト
 // カテゴリ別に整理して、お題を追加しやすくしています
 
@@ -299,6 +301,13 @@ export const QUIZ_PROMPTS: QuizPromptItem[] = [
   ...SEASONS_AND_EVENTS,
 ];
 
+// 選べるお題カテゴリ（QUIZ_PROMPTS_BY_CATEGORY のキー）
+export const QUIZ_CATEGORIES: readonly QuizPromptCategory[] = [
+  'animals', 'foods', 'nature', 'vehicles', 'buildings',
+  'items', 'sportsAndEntertainment', 'occupations', 'bodyParts',
+  'fantasy', 'animeCharacters', 'seasonsAndEvents',
+];
+
 // カテゴリ別に取得したい場合用
 export const QUIZ_PROMPTS_BY_CATEGORY: Record<string, QuizPromptItem[]> = {
   animals: ANIMALS,
@@ -1,21 +1,8 @@
-export type GameMode = 'normal' | 'animation' | 'shiritori' | 'quiz';
+import type { DrawingStroke, GameMode } from '../../../shared/protocol.js';
 
-// 描画ツールタイプ
-export type DrawingToolType = 'brush' | 'eraser' | 'bucket' | 'stamp' | 'line';
-
-// 描画ストローク（タイムラプス用）
-export interface DrawingStroke {
-  tool: DrawingToolType;
-  color: string;
-  brushSize: number;
-  opacity: number;
-  timestamp: number;
-  points?: { x: number; y: number }[];
-  fillPoint?: { x: number; y: number };
-  stampShape?: string;
-  stampBounds?: { x: number; y: number; width: number; height: number };
-  fillStamp?: boolean;
-}
+// ゲームモード・描画ストローク・投票のカテゴリ・提出がなかったときの代わりの内容はWebSocketプロトコルと共通の定義を使う
+export type { GameMode, DrawingToolType, DrawingStroke, VoteAward, VoteCategory } from '../../../shared/protocol.js';
+export { VOTE_CATEGORIES, FALLBACK_DRAWING, FALLBACK_TEXTS, SHOWDOWN_RANK_POINTS, isVoteCandidate } from '../../../shared/protocol.js';
 
 export interface NormalModeSettings {
   promptTimeSec: number;
@@ -61,19 +48,85 @@ export interface QuizModeSettings {
   noWinnerBonus: number;    // 誰も正解しなかった時の親以外への得点
   // カテゴリ選択（空の場合は全カテゴリ）
   selectedCategories: QuizPromptCategory[];
+  // チーム戦: 正解の得点はチームの合計にもなる
+  teamMode: boolean;
+  teamCount: number;
+  // open=誰でも回答, own=親のチームだけ回答, steal=他チームが先に当てたら横取りしてラウンド終了
+  teamAnswerRule: QuizTeamAnswerRule;
+}
+
+export type QuizTeamAnswerRule = 'open' | 'own' | 'steal';
+
+export interface CollabModeSettings {
+  drawingTimeSec: number;
+  lockColor: boolean; // 自分のプレイヤーカラーでしか描けない
+  splitRegions: boolean; // キャンバスを人数分に区切り、自分の範囲にだけ描ける
+}
+
+export interface ImposterModeSettings {
+  rounds: number; // 全員が1画ずつ描く周回数
+  strokeTimeSec: number; // 1画あたりの制限時間
+  voteTimeSec: number;
+  guessTimeSec: number; // 見破られた偽アーティストがお題を当てる時間
+  selectedCategories: QuizPromptCategory[]; // 空の場合は全カテゴリ
+}
+
+export interface CorpseModeSettings {
+  drawingTimeSec: number;
+  segmentCount: number; // 1枚の絵を何段に分けるか（3なら頭・胴体・脚）
+  stripHeightPx: number; // 次の人に見せる、前の段の下端の高さ
+}
+
+export interface MemoryModeSettings {
+  firstDrawingTimeSec: number; // 最初の1枚（自由に描く）の制限時間
+  viewTimeSec: number; // 前の絵を見られる秒数
+  drawingTimeSec: number; // 記憶で描き写す制限時間
+}
+
+export interface CaptionModeSettings {
+  rounds: number;
+  promptSource: 'player' | 'deck'; // player: 順番に1人が絵を描く / deck: クイズのお題をそのまま使う
+  drawingTimeSec: number;
+  captionTimeSec: number;
+  voteTimeSec: number;
+  revealTimeSec: number;
+  winnerBonus: number; // 最多得票のキャプションに加える点（1票ごとに1点とは別）
+  selectedCategories: QuizPromptCategory[]; // 空の場合は全カテゴリ
+}
+
+export interface ShowdownModeSettings {
+  rounds: number;
+  drawingTimeSec: number; // 全員が同じお題を同時に描く時間（短め）
+  judgingTimeSec: number;
+  revealTimeSec: number;
+  guessAuthor: boolean; // 誰が描いたかの予想を受け付け、当たった分をボーナスにする
+  guessBonus: number; // 予想1つ的中あたりの点
+  selectedCategories: QuizPromptCategory[]; // 空の場合は全カテゴリ
 }
 
+export type RoomVisibility = 'public' | 'private';
+
 export interface Room {
   id: string;
   status: 'waiting' | 'playing' | 'finished';
   hostId: string;
   players: Player[];
+  spectators?: Spectator[]; // room.players とは別に管理する（チェーンや提出数の計算に含めない）
   settings: Settings;
   createdAt: Date;
+  lastActivityAt?: Date; // 最後に状態が変化した時刻。アイドルなルームの削除に使う
   currentPhase?: GamePhase;
   currentTurn?: number;
   totalTurns?: number;
   phaseDeadline?: Date;
+  gameId?: string; // 現在（または直前）のゲームのID。アーカイブのキーになる
+  turnOrder?: string[]; // ゲーム開始時の席順（プレイヤーID）。途中で抜けた人の席も残す
+  departedPlayers?: Player[]; // ゲーム中に抜けたプレイヤー。結果発表で名前を出すために残す
+  presenterId?: string; // 結果発表を進めるプレイヤー。未設定ならホストが進める
+  locked?: boolean; // ホストがロックしたルームには新しいプレイヤーが参加できない
+  visibility?: RoomVisibility; // public のルームだけ一覧（GET /api/rooms）に載る。未設定は private
+  hasPassword?: boolean; // 参加にパスワードが必要か（パスワード自体はRoomに含めない）
+  palette?: string[]; // 色を絞るルールでこのゲームに選ばれた色
 }
 
 // プレイヤーカラーパレット（12色、重複禁止）
@@ -98,6 +151,25 @@ export interface Player {
   ready: boolean;
   connected: boolean;
   color: string; // プレイヤーカラー（hex）
+  team?: number; // クイズのチーム戦で所属するチーム（0始まり、未設定ならゲーム開始時に振り分ける）
+}
+
+// 観戦者（ゲームには参加せず、ルーム内の配信だけを受け取る）
+export interface Spectator {
+  id: string;
+  name: string;
+  connected: boolean;
+}
+
+// どのモードにもかけられる描画の縛り（共同キャンバス・エセ芸術家には適用しない）
+export interface GameModifiers {
+  blindDrawing: boolean; // 描いている間キャンバスが見えない
+  limitedInk: boolean;
+  inkLimit: number; // 線の長さの合計（px）
+  restrictedPalette: boolean;
+  paletteSize: number; // ゲーム開始時にランダムで選ぶ色の数
+  mirrored: boolean; // 左右反転したキャンバスに描く
+  oneStroke: boolean; // 一筆書き
 }
 
 export interface Settings {
@@ -107,9 +179,16 @@ export interface Settings {
   animationSettings: AnimationModeSettings;
   shiritoriSettings: ShiritoriModeSettings;
   quizSettings: QuizModeSettings;
+  collabSettings: CollabModeSettings;
+  imposterSettings: ImposterModeSettings;
+  corpseSettings: CorpseModeSettings;
+  memorySettings: MemoryModeSettings;
+  captionSettings: CaptionModeSettings;
+  showdownSettings: ShowdownModeSettings;
+  modifiers: GameModifiers;
 }
 
-export type GamePhase = 'prompt' | 'first-frame' | 'drawing' | 'guessing' | 'result' | 'quiz_prompt' | 'quiz_drawing' | 'quiz_guessing' | 'quiz_reveal';
+export type GamePhase = 'prompt' | 'first-frame' | 'drawing' | 'guessing' | 'result' | 'quiz_prompt' | 'quiz_drawing' | 'quiz_guessing' | 'quiz_reveal' | 'collab_drawing' | 'imposter_drawing' | 'imposter_voting' | 'imposter_guess' | 'memory_viewing' | 'caption_voting' | 'caption_reveal' | 'showdown_judging' | 'showdown_reveal';
 
 export interface Chain {
   id: string;
@@ -127,41 +206,15 @@ export interface Entry {
   submittedAt: Date;
 }
 
-export function createDefaultSettings(): Settings {
-  return {
-    maxPlayers: 12,
-    gameMode: 'normal',
-    normalSettings: {
-      promptTimeSec: 20,
-      drawingTimeSec: 90,
-      guessTimeSec: 50,
-      resultOrder: 'first',
-    },
-    animationSettings: {
-      drawingTimeSec: 90,
-      viewMode: 'sequence',
-      firstFrameMode: 'free',
-      promptTimeSec: 20,
-      frameCount: 0,
-    },
-    shiritoriSettings: {
-      drawingTimeSec: 60,
-      totalDrawings: 12,
-    },
-    quizSettings: {
-      drawingTimeSec: 120,
-      maxWinners: 3,
-      revealTimeSec: 3,
-      totalRounds: 0,
-      quizFormat: 'realtime',
-      revealDrawTimeSec: 15,
-      revealGuessTimeSec: 30,
-      promptDisplayMode: 'immediate',
-      promptViewTimeSec: 5,
-      winnerPoints: [3, 2, 1],
-      drawerBonus: 2,
-      noWinnerBonus: 1,
-      selectedCategories: [], // 空=全カテゴリ
-    },
-  };
+// 終了したゲームの記録（履歴API用）
+export interface ArchivedGame {
+  id: string;
+  roomId: string;
+  visibility?: RoomVisibility; // 遊んだルームの公開設定。未設定（以前のゲーム）は private
+  gameMode: GameMode;
+  settings: Settings;
+  players: Pick<Player, 'id' | 'name' | 'color'>[];
+  finishedAt: Date;
+  // モードごとの結果（normal/animation/corpse/memory: { chains, players }, shiritori: ShiritoriResult, quiz: QuizResult, collab: CollabResult, imposter: ImposterResult, caption: CaptionResult, showdown: ShowdownResult）
+  result: unknown;
 }
@@ -1,4 +1,4 @@
-import type { Chain, DrawingStroke, GamePhase, Room, Settings } from './entities.js';
+import type { Chain, DrawingStroke, GameMode, GamePhase, Room, Settings } from './entities.js';
 
 export interface SubmissionData {
   type: 'text' | 'drawing';
@@ -7,20 +7,57 @@ export interface SubmissionData {
   // Shiritori mode uses these optional fields
   answer?: string;
   imageData?: string;
+  // 段ごとに描くモードで、次の人に見せる下端の帯（画像URL）
+  edgeStrip?: string;
 }
 
 export type ContentPayload =
   | { type: 'text'; payload: string }
   | { type: 'drawing'; payload: string }
   | { type: 'frames'; payload: string[] }
-  | { type: 'frames_with_bg'; payload: string[]; background: string };
+  | { type: 'frames_with_bg'; payload: string[]; background: string }
+  | { type: 'edge_strip'; payload: string | null; segment: number; segmentCount: number }; // payloadは前の段の下端（最初の段はnull）
 
 export interface GameResult {
   chains: Chain[];
   players: Room['players'];
 }
 
+// 設定項目ひとつ分の既定値と正規化（範囲外の値は丸め、不正な値は既定値に戻す）
+export interface SettingRule<V> {
+  default: V;
+  normalize(value: unknown): V;
+}
+
+export type SettingsSchema<T> = { [K in keyof T]-?: SettingRule<T[K]> };
+
+// モードごとの設定が入る Settings のキー（normalSettings など）
+export type ModeSettingsKey = {
+  [K in keyof Settings]: Settings[K] extends object ? K : never;
+}[keyof Settings];
+
+export type ModeSettingsDefinition = {
+  [K in ModeSettingsKey]: { key: K; schema: SettingsSchema<Settings[K]> };
+}[ModeSettingsKey];
+
+// 再接続したプレイヤーに送るモード固有の状態（{ quiz: ... } のようにモード名をキーにする）
+export type ModeRejoinState = Record<string, unknown>;
+
 export interface GameModeHandler {
+  readonly mode: GameMode;
+  readonly settings: ModeSettingsDefinition;
+  // ゲーム開始に必要な人数（省略時は2人）
+  readonly minPlayers?: number;
+  // このフェーズが終わったらターンを1つ進める
+  readonly turnAdvancesAfter: readonly GamePhase[];
+  // 開始時に distributeContent で個別の内容を配るフェーズ
+  readonly contentPhases: readonly GamePhase[];
+  // submit_drawing を受け付けるフェーズ
+  readonly drawingPhases: readonly GamePhase[];
+  // 共通の描画ルール（settings.modifiers）をかけないモード（みんなで1枚を描くなど）
+  readonly ignoresModifiers?: boolean;
+
+  // getNextPhase はここに含まれるフェーズ（または 'result'）だけを返す
   getPhases(room?: Room): GamePhase[];
   getNextPhase(currentPhase: GamePhase, turn: number, totalTurns: number, room?: Room): GamePhase | 'result';
   getTimeLimit(phase: GamePhase, settings: Settings): number;
@@ -28,8 +65,35 @@ export interface GameModeHandler {
   distributeContent(room: Room, chains: Chain[]): Map<string, ContentPayload>;
   handleSubmission(room: Room, playerId: string, data: SubmissionData, chains: Chain[]): boolean;
   generateResult(room: Room, chains: Chain[]): unknown;
+  // generateResult の結果をクライアントへ知らせる
+  announceResult(room: Room, result: unknown): void;
 
   // Optional hooks for modes with different submission rules
   getExpectedSubmitters?(room: Room): string[];
   getRequiredSubmissions?(room: Room, phase: GamePhase): number;
+
+  // 席順でチェーンを回すモード: 途中で抜けたプレイヤーの席（提出を自動で埋める）
+  getVacantSeats?(room: Room): string[];
+  // プレイヤーが抜けて今のフェーズを続けられなくなったら true（待たずに次へ進める）
+  shouldAdvanceOnLeave?(room: Room): boolean;
+
+  // 頻繁に更新されて逐次保存していない状態を定期スナップショットで保存する
+  snapshot?(roomId: string): void;
+
+  // フェーズ開始の通知（phase_changed）の前後に呼ばれる
+  onPhaseStarting?(room: Room, phase: GamePhase): void;
+  onPhaseStarted?(room: Room, phase: GamePhase): void;
+  // turnAdvancesAfter のフェーズが終わり、room.currentTurn を進めた直後に呼ばれる
+  onTurnAdvanced?(room: Room): void;
+  // 提出を受け付けた直後に呼ばれる（書き直しを含む）
+  onSubmitted?(room: Room, playerId: string): void;
+
+  getRejoinState?(room: Room, playerId: string): ModeRejoinState | null;
+
+  // 描画中キャンバスをライブ配信できるプレイヤー
+  getLiveCanvasDrawerId?(room: Room): string | null;
+  recordLiveCanvasKeyframe?(room: Room, imageData: string | null): void;
+
+  // ルーム削除時にモード固有の状態を破棄する
+  cleanup?(roomId: string): void;
 }
@@ -0,0 +1,20 @@
+// 永続化レイヤーの抽象。ユースケースはMapの代わりにこのインターフェース経由で状態を読み書きする。
+// get()で返したオブジェクトを直接書き換えた場合は、set()を呼ぶまで永続化されない。
+export interface Repository<T> {
+  get(id: string): T | undefined;
+  has(id: string): boolean;
+  set(id: string, value: T): void;
+  delete(id: string): void;
+  keys(): string[];
+  values(): T[];
+}
+
+// JSONに変換できない値（Date, Setなど）を保存用の形に変換する
+export interface RepositoryCodec<T> {
+  encode(value: T): unknown;
+  decode(data: unknown): T;
+}
+
+export interface RepositoryFactory {
+  create<T>(namespace: string, codec?: RepositoryCodec<T>): Repository<T>;
+}
@@ -2,11 +2,63 @@ import Fastify from 'fastify';
 import cors from '@fastify/cors';
 import websocket from '@fastify/websocket';
 import { roomRoutes } from './infra/http/roomRoutes.js';
+import { gameRoutes } from './infra/http/gameRoutes.js';
+import { imageRoutes } from './infra/http/imageRoutes.js';
 import { wsHandler } from './infra/ws/wsHandler.js';
+import { markAllPlayersDisconnected } from './application/roomUseCases.js';
+import { resumeActiveGames, startGameSnapshots } from './application/gameUseCases.js';
+import { startRoomReaper } from './application/roomLifecycleUseCases.js';
+import { startArchivePruner } from './application/gameArchiveUseCases.js';
+import { DEFAULT_RATE_LIMIT_CONFIG, parseRateLimitOverrides, type RateLimitConfig } from './infra/ws/rateLimiter.js';
+
+// 正の整数の設定値。壊れた値（NaNになると全ルームの削除や1ms間隔のタイマーになる）は、エラーを出して既定値を使う
+function readPositiveInt(name: string, defaultValue: number): number {
+  const raw = process.env[name];
+  if (!raw) return defaultValue;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    console.error(`Config error: ignoring ${name} (expected a positive integer, got "${raw}")`);
+    return defaultValue;
+  }
+  return value;
+}
 
 const PORT = parseInt(process.env.PORT || '4000', 10);
+const SNAPSHOT_INTERVAL_MS = readPositiveInt('SNAPSHOT_INTERVAL_MS', 5000);
+const MINUTE_MS = 60 * 1000;
+const ROOM_TTL = {
+  waitingMs: readPositiveInt('ROOM_TTL_WAITING_MINUTES', 30) * MINUTE_MS,
+  playingMs: readPositiveInt('ROOM_TTL_PLAYING_MINUTES', 120) * MINUTE_MS,
+  finishedMs: readPositiveInt('ROOM_TTL_FINISHED_MINUTES', 30) * MINUTE_MS,
+};
+const ROOM_REAPER_INTERVAL_MS = readPositiveInt('ROOM_REAPER_INTERVAL_MS', 60000);
+const HOUR_MS = 60 * MINUTE_MS;
+const ARCHIVE_RETENTION = {
+  maxGames: readPositiveInt('ARCHIVE_MAX_GAMES', 500),
+  maxAgeMs: readPositiveInt('ARCHIVE_TTL_HOURS', 168) * HOUR_MS,
+};
+const ARCHIVE_PRUNE_INTERVAL_MS = readPositiveInt('ARCHIVE_PRUNE_INTERVAL_MS', 600000);
+// WS_RATE_LIMITS: イベントごとの制限の上書き（JSON） 例: {"lobby_chat":{"capacity":5,"refillPerSecond":0.5}}
+// 値が壊れていても起動は止めず、エラーを出して既定の制限を使う
+function loadRateLimitOverrides(): RateLimitConfig['limits'] {
+  const result = parseRateLimitOverrides(process.env.WS_RATE_LIMITS || '{}');
+  if (!result.success) {
+    console.error(`Config error: ignoring WS_RATE_LIMITS (${result.error})`);
+    return {};
+  }
+  return result.limits;
+}
+
+const RATE_LIMITS: RateLimitConfig = {
+  ...DEFAULT_RATE_LIMIT_CONFIG,
+  maxFrameBytes: readPositiveInt('WS_MAX_FRAME_BYTES', DEFAULT_RATE_LIMIT_CONFIG.maxFrameBytes),
+  limits: { ...DEFAULT_RATE_LIMIT_CONFIG.limits, ...loadRateLimitOverrides() },
+};
 
 async function main() {
+  markAllPlayersDisconnected();
+
   const fastify = Fastify({
     logger: true,
   });
@@ -15,11 +67,33 @@ async function main() {
   await fastify.register(cors, {
     origin: true,
   });
-  await fastify.register(websocket);
+  await fastify.register(websocket, {
+    // maxFrameBytes を少し超える程度なら読んだうえで rate_limited を返す。大幅に超えるものは読まずに切断する
+    options: { maxPayload: RATE_LIMITS.maxFrameBytes * 2 },
+  });
 
   // Register routes
   await fastify.register(roomRoutes, { prefix: '/api' });
-  await fastify.register(wsHandler);
+  await fastify.register(gameRoutes, { prefix: '/api' });
+  await fastify.register(imageRoutes, { prefix: '/api' });
+  await fastify.register(wsHandler, { rateLimits: RATE_LIMITS });
+
+  // Resume timers of games that were in progress before a restart
+  const resumed = resumeActiveGames();
+  if (resumed.length > 0) {
+    fastify.log.info({ rooms: resumed }, 'Resumed in-progress games');
+  }
+  startGameSnapshots(SNAPSHOT_INTERVAL_MS);
+
+  // Evict rooms that have been idle longer than their TTL
+  startRoomReaper(ROOM_TTL, ROOM_REAPER_INTERVAL_MS, (evicted) => {
+    fastify.log.info({ evicted }, `Evicted ${evicted.length} idle room(s)`);
+  });
+
+  // Drop archived games past the retention limits
+  startArchivePruner(ARCHIVE_RETENTION, ARCHIVE_PRUNE_INTERVAL_MS, (pruned) => {
+    fastify.log.info(`Pruned ${pruned} archived game(s)`);
+  });
 
   try {
     await fastify.listen({ port: PORT, host: '0.0.0.0' });
@@ -0,0 +1,23 @@
+import type { FastifyInstance } from 'fastify';
+import { getArchivedGame, listArchivedGames } from '../../application/gameArchiveUseCases.js';
+
+export async function gameRoutes(fastify: FastifyInstance) {
+  // List finished games (newest first)
+  fastify.get<{ Querystring: { roomId?: string; limit?: string } }>('/games', async (request) => {
+    const { roomId, limit } = request.query;
+    const games = listArchivedGames({
+      roomId: roomId?.toUpperCase(),
+      limit: limit ? parseInt(limit, 10) || undefined : undefined,
+    });
+    return { games };
+  });
+
+  // Get a finished game with its full result
+  fastify.get<{ Params: { gameId: string } }>('/games/:gameId', async (request, reply) => {
+    const game = getArchivedGame(request.params.gameId);
+    if (!game) {
+      return reply.status(404).send({ error: 'Game not found' });
+    }
+    return game;
+  });
+}
@@ -0,0 +1,25 @@
+import type { FastifyInstance } from 'fastify';
+import { readImage } from '../storage/imageStore.js';
+
+export async function imageRoutes(fastify: FastifyInstance) {
+  // Serve a stored drawing by its content hash (immutable, so cache forever)
+  fastify.get<{ Params: { hash: string } }>('/images/:hash', async (request, reply) => {
+    const { hash } = request.params;
+    const etag = `"${hash}"`;
+
+    if (request.headers['if-none-match'] === etag) {
+      return reply.status(304).send();
+    }
+
+    const image = readImage(hash);
+    if (!image) {
+      return reply.status(404).send({ error: 'Image not found' });
+    }
+
+    return reply
+      .header('Content-Type', image.contentType)
+      .header('Cache-Control', 'public, max-age=31536000, immutable')
+      .header('ETag', etag)
+      .send(image.data);
+  });
+}
@@ -1,5 +1,5 @@
 import type { FastifyInstance } from 'fastify';
-import { createRoom, getRoom } from '../../application/roomUseCases.js';
+import { createRoom, getRoom, listPublicRooms, MAX_ROOM_PASSWORD_LENGTH } from '../../application/roomUseCases.js';
 import { getChains, getChain } from '../../application/gameUseCases.js';
 
 export async function roomRoutes(fastify: FastifyInstance) {
@@ -8,9 +8,22 @@ export async function roomRoutes(fastify: FastifyInstance) {
     return { status: 'ok', timestamp: new Date().toISOString() };
   });
 
+  // List public rooms that are waiting for players
+  fastify.get('/rooms', async () => {
+    return { rooms: listPublicRooms() };
+  });
+
   // Create room
-  fastify.post('/rooms', async () => {
-    const room = createRoom();
+  fastify.post<{ Body: { visibility?: unknown; password?: unknown } | null }>('/rooms', async (request, reply) => {
+    const { visibility, password } = request.body ?? {};
+    if (visibility !== undefined && visibility !== 'public' && visibility !== 'private') {
+      return reply.status(400).send({ error: 'visibility must be public or private' });
+    }
+    if (password !== undefined && (typeof password !== 'string' || password.length > MAX_ROOM_PASSWORD_LENGTH)) {
+      return reply.status(400).send({ error: `password must be a string of at most ${MAX_ROOM_PASSWORD_LENGTH} characters` });
+    }
+
+    const room = createRoom({ visibility, password });
     return { roomId: room.id };
   });
 
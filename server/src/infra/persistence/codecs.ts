@@ -0,0 +1,75 @@
+import type { ArchivedGame, Chain, Room } from '../../domain/entities.js';
+import type { RepositoryCodec } from '../../domain/repository.js';
+import type { QuizState } from '../../application/gameModes/quizMode.js';
+
+type Serialized<T> = Omit<T, 'createdAt' | 'lastActivityAt' | 'phaseDeadline' | 'submittedAt'> & {
+  createdAt?: string;
+  lastActivityAt?: string;
+  phaseDeadline?: string;
+  submittedAt?: string;
+};
+
+export const roomCodec: RepositoryCodec<Room> = {
+  encode: (room) => room,
+  decode: (data) => {
+    const room = data as Serialized<Room>;
+    return {
+      ...room,
+      createdAt: new Date(room.createdAt ?? Date.now()),
+      lastActivityAt: new Date(room.lastActivityAt ?? room.createdAt ?? Date.now()),
+      phaseDeadline: room.phaseDeadline ? new Date(room.phaseDeadline) : undefined,
+    };
+  },
+};
+
+export const chainsCodec: RepositoryCodec<Chain[]> = {
+  encode: (chains) => chains,
+  decode: (data) =>
+    (data as Serialized<Chain>[]).map((chain) => ({
+      ...chain,
+      entries: (chain.entries as unknown as Serialized<Chain['entries'][number]>[]).map((entry) => ({
+        ...entry,
+        submittedAt: new Date(entry.submittedAt ?? Date.now()),
+      })),
+    })),
+};
+
+export const archivedGameCodec: RepositoryCodec<ArchivedGame> = {
+  encode: (game) => game,
+  decode: (data) => {
+    const game = data as Omit<ArchivedGame, 'finishedAt'> & { finishedAt: string };
+    return { ...game, finishedAt: new Date(game.finishedAt) };
+  },
+};
+
+// submittedAt を持つレコードの配列（しりとりのギャラリーなど）
+export function datedRecordCodec<T extends { submittedAt: Date }>(): RepositoryCodec<T> {
+  return {
+    encode: (value) => value,
+    decode: (data) => {
+      const record = data as Serialized<T>;
+      return { ...record, submittedAt: new Date(record.submittedAt ?? Date.now()) } as unknown as T;
+    },
+  };
+}
+
+export function datedRecordListCodec<T extends { submittedAt: Date }>(): RepositoryCodec<T[]> {
+  const item = datedRecordCodec<T>();
+  return {
+    encode: (value) => value,
+    decode: (data) => (data as unknown[]).map((d) => item.decode(d)),
+  };
+}
+
+export const quizStateCodec: RepositoryCodec<QuizState> = {
+  encode: (state) => ({ ...state, hasCorrect: [...state.hasCorrect] }),
+  decode: (data) => {
+    const state = data as Omit<QuizState, 'hasCorrect'> & { hasCorrect: string[] };
+    return { ...state, hasCorrect: new Set(state.hasCorrect) };
+  },
+};
+
+export const stringSetCodec: RepositoryCodec<Set<string>> = {
+  encode: (set) => [...set],
+  decode: (data) => new Set(data as string[]),
+};
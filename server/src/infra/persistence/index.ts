@@ -0,0 +1,27 @@
+import type { Repository, RepositoryCodec, RepositoryFactory } from '../../domain/repository.js';
+import { createMemoryRepositoryFactory } from './memoryRepository.js';
+import { createSqliteRepositoryFactory, openSqliteDatabase } from './sqliteRepository.js';
+
+// STORAGE_DRIVER=sqlite でローカルファイルに保存（デフォルトはインメモリ）
+const STORAGE_DRIVER = process.env.STORAGE_DRIVER || 'memory';
+const SQLITE_PATH = process.env.SQLITE_PATH || 'var/paintchain.db';
+
+let factory: RepositoryFactory | null = null;
+
+function getRepositoryFactory(): RepositoryFactory {
+  if (!factory) {
+    factory =
+      STORAGE_DRIVER === 'sqlite'
+        ? createSqliteRepositoryFactory(openSqliteDatabase(SQLITE_PATH))
+        : createMemoryRepositoryFactory();
+  }
+  return factory;
+}
+
+export function createRepository<T>(namespace: string, codec?: RepositoryCodec<T>): Repository<T> {
+  return getRepositoryFactory().create(namespace, codec);
+}
+
+export function getStorageDriver(): string {
+  return STORAGE_DRIVER;
+}
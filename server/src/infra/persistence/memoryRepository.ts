@@ -0,0 +1,38 @@
+import type { Repository, RepositoryFactory } from '../../domain/repository.js';
+
+// デフォルト実装: プロセス内のMapに保持する（再起動で消える）
+export class MemoryRepository<T> implements Repository<T> {
+  private items = new Map<string, T>();
+
+  get(id: string): T | undefined {
+    return this.items.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.items.has(id);
+  }
+
+  set(id: string, value: T): void {
+    this.items.set(id, value);
+  }
+
+  delete(id: string): void {
+    this.items.delete(id);
+  }
+
+  keys(): string[] {
+    return [...this.items.keys()];
+  }
+
+  values(): T[] {
+    return [...this.items.values()];
+  }
+}
+
+export function createMemoryRepositoryFactory(): RepositoryFactory {
+  return {
+    create<T>() {
+      return new MemoryRepository<T>();
+    },
+  };
+}
@@ -0,0 +1,90 @@
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import Database from 'better-sqlite3';
+import type { Repository, RepositoryCodec, RepositoryFactory } from '../../domain/repository.js';
+
+const identityCodec: RepositoryCodec<never> = {
+  encode: (value) => value,
+  decode: (data) => data as never,
+};
+
+// SQLite実装: 読み込みはメモリ上のキャッシュから行い、書き込みはDBへ即時反映する。
+// キャッシュが同じオブジェクトを返すので、既存コードのインプレース更新の挙動はMapと変わらない。
+export class SqliteRepository<T> implements Repository<T> {
+  private cache = new Map<string, T>();
+  private upsertStmt: Database.Statement<[string, string, string, number]>;
+  private deleteStmt: Database.Statement<[string, string]>;
+
+  constructor(
+    db: Database.Database,
+    private namespace: string,
+    private codec: RepositoryCodec<T>
+  ) {
+    this.upsertStmt = db.prepare(
+      `INSERT INTO records (namespace, id, data, updated_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT(namespace, id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at`
+    );
+    this.deleteStmt = db.prepare('DELETE FROM records WHERE namespace = ? AND id = ?');
+
+    const rows = db
+      .prepare('SELECT id, data FROM records WHERE namespace = ?')
+      .all(namespace) as { id: string; data: string }[];
+    for (const row of rows) {
+      try {
+        this.cache.set(row.id, this.codec.decode(JSON.parse(row.data)));
+      } catch (err) {
+        console.error(`Failed to load ${namespace}/${row.id}:`, err);
+      }
+    }
+  }
+
+  get(id: string): T | undefined {
+    return this.cache.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.cache.has(id);
+  }
+
+  set(id: string, value: T): void {
+    this.cache.set(id, value);
+    this.upsertStmt.run(this.namespace, id, JSON.stringify(this.codec.encode(value)), Date.now());
+  }
+
+  delete(id: string): void {
+    this.cache.delete(id);
+    this.deleteStmt.run(this.namespace, id);
+  }
+
+  keys(): string[] {
+    return [...this.cache.keys()];
+  }
+
+  values(): T[] {
+    return [...this.cache.values()];
+  }
+}
+
+export function openSqliteDatabase(filePath: string): Database.Database {
+  mkdirSync(dirname(filePath), { recursive: true });
+  const db = new Database(filePath);
+  db.pragma('journal_mode = WAL');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS records (
+      namespace TEXT NOT NULL,
+      id TEXT NOT NULL,
+      data TEXT NOT NULL,
+      updated_at INTEGER NOT NULL,
+      PRIMARY KEY (namespace, id)
+    )
+  `);
+  return db;
+}
+
+export function createSqliteRepositoryFactory(db: Database.Database): RepositoryFactory {
+  return {
+    create<T>(namespace: string, codec?: RepositoryCodec<T>) {
+      return new SqliteRepository<T>(db, namespace, codec ?? (identityCodec as RepositoryCodec<T>));
+    },
+  };
+}
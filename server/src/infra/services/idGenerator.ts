@@ -8,7 +8,16 @@ export function generateRoomId(): string {
     .slice(0, 6);
 }
 
+export function generateGameId(): string {
+  return randomBytes(12).toString('hex');
+}
+
 export function generatePlayerId(): string {
   // Generate UUID-like ID
   return randomBytes(16).toString('hex');
 }
+
+export function generateSessionToken(): string {
+  // Secret token for rejoining a room; never broadcast to other players
+  return randomBytes(32).toString('base64url');
+}
@@ -0,0 +1,156 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { inflateSync } from 'zlib';
+
+// 画像をSHA-256ハッシュで保存するローカルディスクのブロブストア
+// 同じ画像は1度だけ保存され、エントリーには `/api/images/<hash>` の参照を持たせる
+const IMAGE_STORE_DIR = process.env.IMAGE_STORE_DIR || 'var/images';
+export const IMAGE_ROUTE_PREFIX = '/api/images/';
+
+const DATA_URL_PATTERN = /^data:(image\/[a-z0-9.+-]+);base64,([A-Za-z0-9+/=\s]+)$/i;
+const HASH_PATTERN = /^[a-f0-9]{64}$/;
+
+function getImagePath(hash: string): string {
+  return join(IMAGE_STORE_DIR, hash.slice(0, 2), hash);
+}
+
+export function isImageHash(value: string): boolean {
+  return HASH_PATTERN.test(value);
+}
+
+// data URLの参照を求め、書き込みは save() まで遅らせる。はじかれた提出の画像をディスクに残さないため
+export function prepareImage(dataUrl: string): { ref: string; save: () => void } {
+  const match = DATA_URL_PATTERN.exec(dataUrl);
+  if (!match) return { ref: dataUrl, save: () => {} };
+
+  const data = Buffer.from(match[2], 'base64');
+  const hash = createHash('sha256').update(data).digest('hex');
+  const filePath = getImagePath(hash);
+
+  const save = () => {
+    if (existsSync(filePath)) return;
+    mkdirSync(join(IMAGE_STORE_DIR, hash.slice(0, 2)), { recursive: true });
+    // 書き込み途中のファイルを読まれないよう一時ファイルからrenameする
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    writeFileSync(tmpPath, data);
+    renameSync(tmpPath, filePath);
+  };
+
+  return { ref: `${IMAGE_ROUTE_PREFIX}${hash}`, save };
+}
+
+// data URLを保存して参照を返す。画像でない値（'(timeout)' や既存の参照）はそのまま返す
+export function storeImage(dataUrl: string): string {
+  const image = prepareImage(dataUrl);
+  image.save();
+  return image.ref;
+}
+
+const PNG_SIGNATURE = '89504e470d0a1a0a';
+const PNG_IHDR_LENGTH = 13;
+// フロントエンドのCanvasの大きさ。これより大きい画像は描いた絵ではないので調べない
+const MAX_IMAGE_WIDTH = 800;
+const MAX_IMAGE_HEIGHT = 600;
+// カラータイプ -> 1ピクセルのバイト数（ビット深度8のとき）
+const PNG_BYTES_PER_PIXEL: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+// 何も描かれていない（全ピクセルが同じ色の）PNGか。読めない形式は白紙とみなさない
+export function isBlankImage(dataUrl: string): boolean {
+  const match = DATA_URL_PATTERN.exec(dataUrl);
+  if (!match || match[1].toLowerCase() !== 'image/png') return false;
+
+  const data = Buffer.from(match[2], 'base64');
+  if (data.subarray(0, 8).toString('hex') !== PNG_SIGNATURE) return false;
+
+  let width = 0;
+  let height = 0;
+  let bytesPerPixel = 0;
+  const idat: Buffer[] = [];
+  for (let offset = 8; offset + 8 <= data.length; ) {
+    const length = data.readUInt32BE(offset);
+    const type = data.subarray(offset + 4, offset + 8).toString('ascii');
+    const body = data.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      if (body.length < PNG_IHDR_LENGTH) return false;
+      width = body.readUInt32BE(0);
+      height = body.readUInt32BE(4);
+      const bitDepth = body[8];
+      const interlace = body[12];
+      if (bitDepth !== 8 || interlace !== 0) return false;
+      bytesPerPixel = PNG_BYTES_PER_PIXEL[body[9]] ?? 0;
+    } else if (type === 'IDAT') {
+      idat.push(body);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+  if (!width || !height || !bytesPerPixel) return false;
+  if (width > MAX_IMAGE_WIDTH || height > MAX_IMAGE_HEIGHT) return false;
+
+  // 展開後の大きさは画像の大きさで決まるので、それを超えるもの（圧縮爆弾など）は展開しきらずに捨てる
+  const rowBytes = width * bytesPerPixel;
+  const expectedLength = (rowBytes + 1) * height;
+  let pixels: Buffer;
+  try {
+    pixels = inflateSync(Buffer.concat(idat), { maxOutputLength: expectedLength });
+  } catch {
+    return false;
+  }
+  if (pixels.length < expectedLength) return false;
+
+  // 行ごとのフィルターを戻しながら、最初のピクセルと同じ色か比べる
+  let previous = Buffer.alloc(rowBytes);
+  let first: Buffer | null = null;
+  for (let y = 0; y < height; y++) {
+    const start = y * (rowBytes + 1);
+    const filter = pixels[start];
+    const row = Buffer.from(pixels.subarray(start + 1, start + 1 + rowBytes));
+    for (let i = 0; i < rowBytes; i++) {
+      const left = i >= bytesPerPixel ? row[i - bytesPerPixel] : 0;
+      const up = previous[i];
+      const upLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+      if (filter === 1) row[i] = (row[i] + left) & 0xff;
+      else if (filter === 2) row[i] = (row[i] + up) & 0xff;
+      else if (filter === 3) row[i] = (row[i] + ((left + up) >> 1)) & 0xff;
+      else if (filter === 4) row[i] = (row[i] + paeth(left, up, upLeft)) & 0xff;
+    }
+
+    first ??= row.subarray(0, bytesPerPixel);
+    for (let i = 0; i < rowBytes; i += bytesPerPixel) {
+      if (row.compare(first, 0, bytesPerPixel, i, i + bytesPerPixel) !== 0) return false;
+    }
+    previous = row;
+  }
+  return true;
+}
+
+function detectContentType(data: Buffer): string {
+  if (data.subarray(0, 4).toString('hex') === '89504e47') return 'image/png';
+  if (data.subarray(0, 2).toString('hex') === 'ffd8') return 'image/jpeg';
+  if (data.subarray(0, 4).toString('ascii') === 'GIF8') return 'image/gif';
+  if (data.subarray(0, 4).toString('ascii') === 'RIFF' && data.subarray(8, 12).toString('ascii') === 'WEBP') {
+    return 'image/webp';
+  }
+  return 'application/octet-stream';
+}
+
+export function readImage(hash: string): { data: Buffer; contentType: string } | null {
+  if (!isImageHash(hash)) return null;
+
+  const filePath = getImagePath(hash);
+  if (!existsSync(filePath)) return null;
+
+  const data = readFileSync(filePath);
+  return { data, contentType: detectContentType(data) };
+}
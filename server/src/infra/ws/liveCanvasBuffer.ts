@@ -0,0 +1,40 @@
+import type { DrawingStroke } from '../../domain/entities.js';
+
+export interface LiveCanvasState {
+  drawerId: string;
+  imageData: string | null;
+  strokes: DrawingStroke[];
+}
+
+// ルームごとの描画中キャンバス（最新のキーフレームと、それ以降のストローク）
+// 途中から見始めたプレイヤーに送って追いつかせるために保持する
+export class LiveCanvasBuffer {
+  private drawerId: string | null = null;
+  private imageData: string | null = null;
+  private strokes: DrawingStroke[] = [];
+
+  constructor(private readonly maxStrokes: number) {}
+
+  setKeyframe(drawerId: string, imageData: string | null): void {
+    this.drawerId = drawerId;
+    this.imageData = imageData;
+    this.strokes = [];
+  }
+
+  appendStrokes(drawerId: string, strokes: DrawingStroke[]): void {
+    // 描画者が変わったのにキーフレームが届いていない場合は白紙から積み直す
+    if (drawerId !== this.drawerId) {
+      this.setKeyframe(drawerId, null);
+    }
+    // 上限を超えた分は次のキーフレームで埋まるので捨てる
+    const capacity = this.maxStrokes - this.strokes.length;
+    if (capacity > 0) {
+      this.strokes.push(...strokes.slice(0, capacity));
+    }
+  }
+
+  getState(): LiveCanvasState | null {
+    if (!this.drawerId) return null;
+    return { drawerId: this.drawerId, imageData: this.imageData, strokes: this.strokes };
+  }
+}
@@ -0,0 +1,138 @@
+import type { ClientEventType, RateLimitAction } from '../../../../shared/protocol.js';
+import { isClientEventType } from '../../../../shared/protocolValidation.js';
+
+export interface TokenBucketLimit {
+  capacity: number; // 連続して送れる数
+  refillPerSecond: number; // 1秒あたりに回復する数
+}
+
+export interface RateLimitConfig {
+  maxFrameBytes: number;
+  defaultLimit: TokenBucketLimit;
+  limits: Partial<Record<ClientEventType, TokenBucketLimit>>;
+  warnStrikes: number; // この回数までの違反は警告のみで処理する
+  disconnectStrikes: number; // この回数に達したら切断する（それまでは破棄）
+  strikeResetMs: number; // 違反がこの時間なければ回数をリセットする
+}
+
+export const DEFAULT_RATE_LIMIT_CONFIG: RateLimitConfig = {
+  maxFrameBytes: 6 * 1024 * 1024,
+  defaultLimit: { capacity: 20, refillPerSecond: 5 },
+  limits: {
+    join_room: { capacity: 5, refillPerSecond: 0.2 }, // パスワードの総当たり対策
+    lobby_chat: { capacity: 5, refillPerSecond: 0.5 },
+    submit_quiz_guess: { capacity: 5, refillPerSecond: 1 },
+    live_canvas_strokes: { capacity: 30, refillPerSecond: 15 },
+    live_canvas_keyframe: { capacity: 10, refillPerSecond: 2 },
+    collab_strokes: { capacity: 30, refillPerSecond: 15 },
+    change_color: { capacity: 5, refillPerSecond: 1 },
+    update_settings: { capacity: 10, refillPerSecond: 2 },
+  },
+  warnStrikes: 3,
+  disconnectStrikes: 30,
+  strikeResetMs: 10000,
+};
+
+function isTokenBucketLimit(value: unknown): value is TokenBucketLimit {
+  if (typeof value !== 'object' || value === null) return false;
+  const { capacity, refillPerSecond } = value as Record<string, unknown>;
+  return (
+    typeof capacity === 'number' && Number.isFinite(capacity) && capacity > 0 &&
+    typeof refillPerSecond === 'number' && Number.isFinite(refillPerSecond) && refillPerSecond > 0
+  );
+}
+
+// イベントごとの制限の上書き（JSON）を読み、形が正しいか確かめる
+export function parseRateLimitOverrides(
+  raw: string
+): { success: true; limits: RateLimitConfig['limits'] } | { success: false; error: string } {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { success: false, error: 'Invalid JSON' };
+  }
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { success: false, error: 'Expected an object keyed by event type' };
+  }
+
+  const limits: RateLimitConfig['limits'] = {};
+  for (const [eventType, limit] of Object.entries(data)) {
+    if (!isClientEventType(eventType)) {
+      return { success: false, error: `Unknown event type: ${eventType}` };
+    }
+    if (!isTokenBucketLimit(limit)) {
+      return { success: false, error: `${eventType} needs positive numbers for capacity and refillPerSecond` };
+    }
+    limits[eventType] = { capacity: limit.capacity, refillPerSecond: limit.refillPerSecond };
+  }
+  return { success: true, limits };
+}
+
+export interface RateLimitDecision {
+  action: 'allow' | RateLimitAction;
+  retryAfterMs: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// 接続ごとのレート制限（イベント種別ごとのトークンバケット）
+// 違反が続くと 警告 → 破棄 → 切断 と段階的に厳しくする
+export class ConnectionRateLimiter {
+  private buckets = new Map<string, Bucket>();
+  private strikes = 0;
+  private lastStrikeAt = 0;
+
+  constructor(private readonly config: RateLimitConfig) {}
+
+  // eventType が null のもの（不正なメッセージ）はまとめて既定の制限をかける
+  check(eventType: ClientEventType | null, now = Date.now()): RateLimitDecision {
+    const limit = (eventType && this.config.limits[eventType]) || this.config.defaultLimit;
+    const bucket = this.refill(eventType ?? '*', limit, now);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return { action: 'allow', retryAfterMs: 0 };
+    }
+
+    const retryAfterMs = Math.ceil(((1 - bucket.tokens) / limit.refillPerSecond) * 1000);
+    return { action: this.strike(now), retryAfterMs };
+  }
+
+  // maxFrameBytes を超えるメッセージは中身を読まずに破棄する
+  checkFrameSize(bytes: number, now = Date.now()): RateLimitDecision {
+    if (bytes <= this.config.maxFrameBytes) {
+      return { action: 'allow', retryAfterMs: 0 };
+    }
+    const action = this.strike(now);
+    return { action: action === 'warn' ? 'drop' : action, retryAfterMs: 0 };
+  }
+
+  private refill(eventType: string, limit: TokenBucketLimit, now: number): Bucket {
+    let bucket = this.buckets.get(eventType);
+    if (!bucket) {
+      bucket = { tokens: limit.capacity, updatedAt: now };
+      this.buckets.set(eventType, bucket);
+      return bucket;
+    }
+    const elapsedSeconds = (now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(limit.capacity, bucket.tokens + elapsedSeconds * limit.refillPerSecond);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  private strike(now: number): RateLimitAction {
+    if (now - this.lastStrikeAt > this.config.strikeResetMs) {
+      this.strikes = 0;
+    }
+    this.strikes += 1;
+    this.lastStrikeAt = now;
+
+    if (this.strikes >= this.config.disconnectStrikes) return 'disconnect';
+    if (this.strikes > this.config.warnStrikes) return 'drop';
+    return 'warn';
+  }
+}
@@ -0,0 +1,52 @@
+import { randomBytes } from 'crypto';
+
+interface LoggedEvent {
+  seq: number;
+  data: string; // 送信済みのJSON（seq込み）
+  to: string | null; // 特定のプレイヤー宛てならそのID、全員宛てならnull
+}
+
+// ルームごとのサーバー→クライアントイベントの連番とリングバッファ
+// 再接続したクライアントが最後に受け取ったseqを送ってくれば、取りこぼした分だけ再送できる
+export class RoomEventLog {
+  // サーバー再起動などでseqがリセットされたことをクライアントが区別できるようにするID
+  readonly stream = randomBytes(6).toString('hex');
+  private seq = 0;
+  private events: LoggedEvent[] = [];
+  private bytes = 0;
+
+  constructor(
+    private readonly maxEvents: number,
+    private readonly maxBytes: number
+  ) {}
+
+  get currentSeq(): number {
+    return this.seq;
+  }
+
+  append(event: object, to: string | null): string {
+    this.seq += 1;
+    const data = JSON.stringify({ ...event, seq: this.seq });
+    this.events.push({ seq: this.seq, data, to });
+    this.bytes += data.length;
+
+    while (this.events.length > this.maxEvents || (this.bytes > this.maxBytes && this.events.length > 1)) {
+      const dropped = this.events.shift();
+      if (dropped) this.bytes -= dropped.data.length;
+    }
+    return data;
+  }
+
+  // lastSeqより後のイベントのうち、playerIdが受け取るべきもの
+  // バッファが一周して取りこぼしを埋められない場合はnull（スナップショットで復元する）
+  since(playerId: string, stream: string, lastSeq: number): string[] | null {
+    if (stream !== this.stream || lastSeq > this.seq) return null;
+
+    const oldest = this.events[0]?.seq ?? this.seq + 1;
+    if (lastSeq + 1 < oldest) return null;
+
+    return this.events
+      .filter((e) => e.seq > lastSeq && (e.to === null || e.to === playerId))
+      .map((e) => e.data);
+  }
+}
@@ -1,8 +1,10 @@
 import type { FastifyInstance } from 'fastify';
-import type { WebSocket } from 'ws';
+import type { RawData, WebSocket } from 'ws';
 import {
   addPlayerToRoom,
   removePlayerFromRoom,
+  getPresenterId,
+  passPresenter,
   togglePlayerReady,
   startGame,
   rejoinRoom,
@@ -14,6 +16,14 @@ import {
   selectGameMode,
   reorderPlayers,
   changePlayerColor,
+  kickPlayer,
+  banPlayer,
+  transferHost,
+  setRoomLocked,
+  promoteSpectator,
+  assignTeam,
+  balanceTeams,
+  isSpectator,
 } from '../../application/roomUseCases.js';
 import {
   initializeGame,
@@ -23,17 +33,46 @@ import {
   submitPrompt,
   submitDrawing,
   submitGuess,
-  submitShiritori,
-  submitQuizGuess,
   setGameCallbacks,
-  getChains,
   getPlayerContent,
+  getPlayerModeState,
   hasPlayerSubmitted,
+  handlePlayerLeftGame,
+  cleanupGame,
+  getLiveCanvasDrawerId,
+  recordLiveCanvasKeyframe,
 } from '../../application/gameUseCases.js';
-import type { Room, GamePhase, Chain, GameMode, Settings, DrawingStroke } from '../../domain/entities.js';
+import { submitShiritori } from '../../application/shiritoriUseCases.js';
+import { submitQuizGuess } from '../../application/quizUseCases.js';
+import { addCollabStrokes } from '../../application/collabUseCases.js';
+import { addImposterStroke, guessImposterPrompt, voteImposter } from '../../application/imposterUseCases.js';
+import { voteCaption } from '../../application/captionUseCases.js';
+import { judgeShowdown } from '../../application/showdownUseCases.js';
+import { castVote, closeVoting, getVoteSummary } from '../../application/voteUseCases.js';
+import { setRoomLifecycleCallbacks } from '../../application/roomLifecycleUseCases.js';
+import { issueSessionToken, redeemSessionToken } from '../../application/sessionUseCases.js';
+import type { Room, GamePhase, Chain, Player, Spectator, Settings } from '../../domain/entities.js';
 import type { ContentPayload } from '../../domain/gameMode.js';
-import { QuizModeHandler } from '../../application/gameModes/quizMode.js';
-import { getGameModeHandler } from '../../application/gameModes/index.js';
+import type { QuizClientState, QuizFeedItem, QuizResult } from '../../application/gameModes/quizMode.js';
+import type { ShiritoriDrawingPublic, ShiritoriResult } from '../../application/gameModes/shiritoriMode.js';
+import type { VoteSummary } from '../../application/gameModes/normalMode.js';
+import type { CollabClientState, CollabResult } from '../../application/gameModes/collabMode.js';
+import type { ImposterClientState, ImposterResult } from '../../application/gameModes/imposterMode.js';
+import type { CaptionClientState, CaptionResult } from '../../application/gameModes/captionMode.js';
+import type { ShowdownClientState, ShowdownResult } from '../../application/gameModes/showdownMode.js';
+import {
+  UNSEQUENCED_EVENTS,
+  type ClientEvent,
+  type KickReason,
+  type ProtocolError,
+  type ProtocolTypes,
+  type RateLimitAction,
+  type ServerEvent,
+} from '../../../../shared/protocol.js';
+import { parseClientEvent } from '../../../../shared/protocolValidation.js';
+import { RoomEventLog } from './roomEventLog.js';
+import { LiveCanvasBuffer } from './liveCanvasBuffer.js';
+import { ConnectionRateLimiter, DEFAULT_RATE_LIMIT_CONFIG, type RateLimitConfig, type RateLimitDecision } from './rateLimiter.js';
 
 // Map playerId -> WebSocket
 const playerConnections = new Map<string, WebSocket>();
@@ -42,109 +81,201 @@ const playerRooms = new Map<string, string>();
 // Disconnection timers for graceful handling
 const disconnectTimers = new Map<string, NodeJS.Timeout>();
 
-const DISCONNECT_GRACE_PERIOD = 5000; // 5 seconds
+// Map roomId -> sequenced event buffer for replay on reconnect
+const roomEventLogs = new Map<string, RoomEventLog>();
+// Map roomId -> live canvas of the current drawer, for players who start watching mid-drawing
+const liveCanvases = new Map<string, LiveCanvasBuffer>();
 
-interface WSClientEvent {
-  type:
-    | 'join_room'
-    | 'leave_room'
-    | 'toggle_ready'
-    | 'start_game'
-    | 'mark_ready'
-    | 'unmark_ready'
-    | 'submit_prompt'
-    | 'submit_drawing'
-    | 'submit_guess'
-    | 'submit_shiritori'
-    | 'shiritori_canvas_sync'
-    | 'quiz_canvas_sync'
-    | 'submit_quiz_guess'
-    | 'rejoin_room'
-    | 'result_navigate'
-    | 'animation_unlock'
-    | 'return_to_lobby'
-    | 'update_settings'
-    | 'select_mode'
-    | 'reorder_players'
-    | 'change_color'
-    | 'lobby_chat';
-  payload: {
-    roomId?: string;
-    playerName?: string;
-    playerId?: string;
-    text?: string;
-    imageData?: string;
-    answer?: string;
-    chainIndex?: number;
-    entryIndex?: number;
-    displayOrder?: 'first-to-last' | 'last-to-first';
-    strokes?: DrawingStroke[];
-    settings?: Partial<Settings>;
-    mode?: GameMode;
-    playerIds?: string[];
-    color?: string;
-  };
+const DISCONNECT_GRACE_PERIOD = 5000; // 5 seconds
+const EVENT_LOG_MAX_EVENTS = 256;
+const EVENT_LOG_MAX_BYTES = 4 * 1024 * 1024; // 4MB per room
+const LIVE_CANVAS_MAX_STROKES = 2000; // strokes kept on top of the last keyframe
+const RATE_LIMIT_NOTICE_INTERVAL_MS = 1000; // don't answer every limited message with a notice
+
+// Server-side entity types for the shared protocol definitions
+interface ServerProtocolTypes extends ProtocolTypes {
+  Room: Room;
+  Player: Player;
+  Spectator: Spectator;
+  Settings: Settings;
+  Chain: Chain;
+  GamePhase: GamePhase;
+  GameState: NonNullable<ReturnType<typeof getGameState>>;
+  ContentPayload: ContentPayload;
+  ShiritoriDrawing: ShiritoriDrawingPublic;
+  ShiritoriResult: ShiritoriResult;
+  QuizState: QuizClientState;
+  QuizFeedItem: QuizFeedItem;
+  QuizResult: QuizResult;
+  CollabState: CollabClientState;
+  CollabResult: CollabResult;
+  ImposterState: ImposterClientState;
+  ImposterResult: ImposterResult;
+  CaptionState: CaptionClientState;
+  CaptionResult: CaptionResult;
+  ShowdownState: ShowdownClientState;
+  ShowdownResult: ShowdownResult;
+  RejoinModeState: NonNullable<ReturnType<typeof getPlayerModeState>>;
 }
 
-interface WSServerEvent {
-  type:
-    | 'room_joined'
-    | 'players_updated'
-    | 'game_started'
-    | 'error'
-    | 'phase_changed'
-    | 'submission_received'
-    | 'phase_complete'
-    | 'receive_content'
-    | 'game_result'
-    | 'timer_sync'
-    | 'rejoined'
-    | 'disconnected'
-    | 'result_sync'
-    | 'animation_unlocked'
-    | 'returned_to_lobby'
-    | 'settings_updated'
-    | 'mode_changed'
-    | 'shiritori_drawing_added'
-    | 'shiritori_answer_submitted'
-    | 'shiritori_your_turn'
-    | 'shiritori_result'
-    | 'shiritori_turn'
-    | 'shiritori_canvas_update'
-    | 'quiz_canvas_update'
-    | 'quiz_state'
-    | 'quiz_feed'
-    | 'quiz_round_ended'
-    | 'quiz_result'
-    | 'lobby_chat';
-  payload: unknown;
+type WSClientEvent = ClientEvent<ServerProtocolTypes>;
+type WSServerEvent = ServerEvent<ServerProtocolTypes>;
+
+function sendRaw(ws: WebSocket, data: string) {
+  if (ws.readyState === ws.OPEN) {
+    ws.send(data);
+  }
 }
 
 function send(ws: WebSocket, event: WSServerEvent) {
-  if (ws.readyState === ws.OPEN) {
-    ws.send(JSON.stringify(event));
+  sendRaw(ws, JSON.stringify(event));
+}
+
+function sendError(ws: WebSocket, error: ProtocolError) {
+  send(ws, { type: 'error', payload: error });
+}
+
+const RATE_LIMIT_MESSAGES: Record<RateLimitAction, string> = {
+  warn: '送信が多すぎます。少し間をあけてください',
+  drop: '送信が多すぎるため、一部のメッセージを無視しました',
+  disconnect: '送信が多すぎるため、接続を切断しました',
+};
+
+function sendRateLimited(ws: WebSocket, decision: RateLimitDecision & { action: RateLimitAction }, reason: 'rate' | 'frame_size', event?: string) {
+  send(ws, {
+    type: 'rate_limited',
+    payload: {
+      reason,
+      action: decision.action,
+      event,
+      retryAfterMs: decision.retryAfterMs,
+      message: reason === 'frame_size' ? 'メッセージが大きすぎるため、無視しました' : RATE_LIMIT_MESSAGES[decision.action],
+    },
+  });
+}
+
+function rawByteLength(raw: RawData): number {
+  return Array.isArray(raw) ? raw.reduce((total, chunk) => total + chunk.length, 0) : raw.byteLength;
+}
+
+function getRoomEventLog(roomId: string): RoomEventLog {
+  let log = roomEventLogs.get(roomId);
+  if (!log) {
+    log = new RoomEventLog(EVENT_LOG_MAX_EVENTS, EVENT_LOG_MAX_BYTES);
+    roomEventLogs.set(roomId, log);
+  }
+  return log;
+}
+
+// Serialize a room event, assigning a sequence number unless it is a transient update.
+// Events are logged even for disconnected players so they can be replayed on rejoin.
+function serializeRoomEvent(roomId: string, event: WSServerEvent, to: string | null): string {
+  if (UNSEQUENCED_EVENTS.includes(event.type)) {
+    return JSON.stringify(event);
+  }
+  return getRoomEventLog(roomId).append(event, to);
+}
+
+function getLiveCanvas(roomId: string): LiveCanvasBuffer {
+  let canvas = liveCanvases.get(roomId);
+  if (!canvas) {
+    canvas = new LiveCanvasBuffer(LIVE_CANVAS_MAX_STROKES);
+    liveCanvases.set(roomId, canvas);
   }
+  return canvas;
 }
 
 function sendToPlayer(playerId: string, event: WSServerEvent) {
+  const roomId = playerRooms.get(playerId);
+  const data = roomId ? serializeRoomEvent(roomId, event, playerId) : JSON.stringify(event);
   const ws = playerConnections.get(playerId);
   if (ws) {
-    send(ws, event);
+    sendRaw(ws, data);
   }
 }
 
+// Players and spectators: everyone who receives room broadcasts
+function roomMembers(room: Room): (Player | Spectator)[] {
+  return [...room.players, ...(room.spectators ?? [])];
+}
+
 function broadcastToRoom(room: Room, event: WSServerEvent) {
-  for (const player of room.players) {
-    const ws = playerConnections.get(player.id);
+  const data = serializeRoomEvent(room.id, event, null);
+  for (const member of roomMembers(room)) {
+    const ws = playerConnections.get(member.id);
     if (ws) {
-      send(ws, event);
+      sendRaw(ws, data);
     }
   }
 }
 
+function broadcastPlayersUpdated(room: Room) {
+  broadcastToRoom(room, {
+    type: 'players_updated',
+    payload: { players: room.players, spectators: room.spectators ?? [] },
+  });
+}
+
+// 投票の進み具合と、締め切っていれば集計結果を送る
+function sendVoteSummary(send: (event: WSServerEvent) => void, summary: VoteSummary) {
+  send({ type: 'vote_progress', payload: { votedPlayerIds: summary.votedPlayerIds } });
+  if (summary.awards) {
+    send({ type: 'vote_results', payload: { awards: summary.awards, voterCount: summary.voterCount } });
+  }
+}
+
+// ホスト・発表者の変更を検知するための控え
+function getRoles(room: Room | undefined) {
+  return { hostId: room?.hostId, presenterId: room?.presenterId };
+}
+
+// ホスト・発表者が変わっていたら全員に知らせる
+function broadcastRoleChanges(room: Room, previous: ReturnType<typeof getRoles>) {
+  if (room.hostId !== previous.hostId) {
+    broadcastToRoom(room, { type: 'host_changed', payload: { hostId: room.hostId } });
+  }
+  if (room.presenterId !== previous.presenterId) {
+    broadcastToRoom(room, { type: 'presenter_changed', payload: { presenterId: room.presenterId ?? null } });
+  }
+}
+
+// When the last player left the room was deleted: drop its game state and event log too
+function releaseRoomIfDeleted(roomId: string) {
+  if (!getRoom(roomId)) {
+    cleanupGame(roomId);
+    roomEventLogs.delete(roomId);
+    liveCanvases.delete(roomId);
+  }
+}
+
+// Tell a removed player why, then drop their connection (the room no longer has them)
+function disconnectRemovedPlayer(playerId: string, reason: KickReason) {
+  const timer = disconnectTimers.get(playerId);
+  if (timer) {
+    clearTimeout(timer);
+    disconnectTimers.delete(playerId);
+  }
+  playerRooms.delete(playerId);
+
+  const ws = playerConnections.get(playerId);
+  playerConnections.delete(playerId);
+  if (ws) {
+    send(ws, {
+      type: 'kicked',
+      payload: {
+        reason,
+        message: reason === 'ban' ? 'ホストによってルームから追放されました' : 'ホストによってルームから退出させられました',
+      },
+    });
+    ws.close();
+  }
+}
+
 // Initialize game callbacks
 setGameCallbacks({
   onPhaseChanged: (room: Room, phase: GamePhase, timeRemaining: number, deadline?: Date) => {
+    // The previous drawing is no longer live once the phase moves on
+    liveCanvases.delete(room.id);
     broadcastToRoom(room, {
       type: 'phase_changed',
       payload: {
@@ -163,22 +294,8 @@ setGameCallbacks({
     });
   },
   onPhaseComplete: (room: Room, nextPhase: GamePhase | 'result') => {
-    if (room.settings.gameMode === 'shiritori') {
-      if (nextPhase !== 'result') {
-        broadcastToRoom(room, {
-          type: 'phase_complete',
-          payload: { nextPhase },
-        });
-      }
-      return;
-    }
-    if (nextPhase === 'result') {
-      const chains = getChains(room.id);
-      broadcastToRoom(room, {
-        type: 'game_result',
-        payload: { chains },
-      });
-    } else {
+    // 結果は各モードのハンドラーが announceResult で送る
+    if (nextPhase !== 'result') {
       broadcastToRoom(room, {
         type: 'phase_complete',
         payload: { nextPhase },
@@ -202,7 +319,8 @@ setGameCallbacks({
       type: 'game_result',
       payload: {
         chains,
-        players: room.players,
+        // 途中で抜けたプレイヤーも、描いた絵の作者名を出すために含める
+        players: [...room.players, ...(room.departedPlayers ?? [])],
       },
     });
   },
@@ -260,21 +378,132 @@ setGameCallbacks({
       payload: result,
     });
   },
+  onCollabState: (room: Room, state) => {
+    broadcastToRoom(room, {
+      type: 'collab_state',
+      payload: state,
+    });
+  },
+  onCollabResult: (room: Room, result) => {
+    broadcastToRoom(room, {
+      type: 'collab_result',
+      payload: result,
+    });
+  },
+  onImposterState: (_room: Room, playerId: string, state) => {
+    sendToPlayer(playerId, {
+      type: 'imposter_state',
+      payload: state,
+    });
+  },
+  onImposterResult: (room: Room, result) => {
+    broadcastToRoom(room, {
+      type: 'imposter_result',
+      payload: result,
+    });
+  },
+  onCaptionState: (_room: Room, playerId: string, state) => {
+    sendToPlayer(playerId, {
+      type: 'caption_state',
+      payload: state,
+    });
+  },
+  onCaptionResult: (room: Room, result) => {
+    broadcastToRoom(room, {
+      type: 'caption_result',
+      payload: result,
+    });
+  },
+  onShowdownState: (_room: Room, playerId: string, state) => {
+    sendToPlayer(playerId, {
+      type: 'showdown_state',
+      payload: state,
+    });
+  },
+  onShowdownResult: (room: Room, result) => {
+    broadcastToRoom(room, {
+      type: 'showdown_result',
+      payload: result,
+    });
+  },
 });
 
-export async function wsHandler(fastify: FastifyInstance) {
+// Notify and disconnect everyone before a room is evicted
+setRoomLifecycleCallbacks({
+  onRoomClosing: (room: Room, reason) => {
+    broadcastToRoom(room, {
+      type: 'room_closed',
+      payload: { reason, message: '一定時間操作がなかったため、ルームを閉じました' },
+    });
+
+    for (const player of roomMembers(room)) {
+      const timer = disconnectTimers.get(player.id);
+      if (timer) {
+        clearTimeout(timer);
+        disconnectTimers.delete(player.id);
+      }
+      playerRooms.delete(player.id);
+      playerConnections.get(player.id)?.close();
+      playerConnections.delete(player.id);
+    }
+    roomEventLogs.delete(room.id);
+    liveCanvases.delete(room.id);
+  },
+});
+
+export interface WsHandlerOptions {
+  rateLimits?: RateLimitConfig;
+}
+
+export async function wsHandler(fastify: FastifyInstance, options: WsHandlerOptions) {
+  const rateLimits = options.rateLimits ?? DEFAULT_RATE_LIMIT_CONFIG;
+
   fastify.get('/ws', { websocket: true }, (socket) => {
     let currentPlayerId: string | null = null;
+    const rateLimiter = new ConnectionRateLimiter(rateLimits);
+    let lastRateLimitNotice: { action: RateLimitAction; at: number } | null = null;
+
+    // Escalate per the limiter's decision. Returns false if the message must not be handled.
+    const applyRateLimit = (decision: RateLimitDecision, reason: 'rate' | 'frame_size', event?: string): boolean => {
+      const { action } = decision;
+      if (action === 'allow') return true;
+
+      const now = Date.now();
+      if (lastRateLimitNotice?.action !== action || now - lastRateLimitNotice.at >= RATE_LIMIT_NOTICE_INTERVAL_MS) {
+        lastRateLimitNotice = { action, at: now };
+        sendRateLimited(socket, { ...decision, action }, reason, event);
+      }
+
+      if (action === 'disconnect') {
+        fastify.log.warn({ playerId: currentPlayerId, event, reason }, 'Disconnecting client that exceeded rate limits');
+        socket.close(1008, 'Rate limit exceeded');
+      }
+      return action === 'warn';
+    };
 
     socket.on('message', (raw) => {
+      // Ignore whatever was still in flight after we closed the connection
+      if (socket.readyState !== socket.OPEN) return;
+      if (!applyRateLimit(rateLimiter.checkFrameSize(rawByteLength(raw)), 'frame_size')) return;
+
+      // Reject malformed messages before they reach the handlers
+      const parsed = parseClientEvent<ServerProtocolTypes>(raw.toString());
+      if (!parsed.ok) {
+        if (applyRateLimit(rateLimiter.check(null), 'rate', parsed.error.event)) {
+          sendError(socket, parsed.error);
+        }
+        return;
+      }
+
+      if (!applyRateLimit(rateLimiter.check(parsed.event.type), 'rate', parsed.event.type)) return;
+
       try {
-        const message: WSClientEvent = JSON.parse(raw.toString());
-        handleMessage(socket, message, currentPlayerId, (playerId) => {
+        handleMessage(socket, parsed.event, currentPlayerId, (playerId) => {
           currentPlayerId = playerId;
         });
       } catch (err) {
-        console.error('Failed to parse message:', err);
-        send(socket, { type: 'error', payload: { message: 'Invalid message format' } });
+        console.error(`Failed to handle ${parsed.event.type}:`, err);
+        sendError(socket, { code: 'action_failed', message: 'Internal error', event: parsed.event.type });
       }
     });
 
@@ -283,28 +512,28 @@ export async function wsHandler(fastify: FastifyInstance) {
         const roomId = playerRooms.get(currentPlayerId);
         if (roomId) {
           // Set player as disconnected but don't remove yet
+          // ホストや発表者の役割は、猶予内に戻らず削除されたときに接続中の人へ移る
           const room = setPlayerConnected(roomId, currentPlayerId, false);
           playerConnections.delete(currentPlayerId);
 
           if (room) {
-            broadcastToRoom(room, {
-              type: 'players_updated',
-              payload: { players: room.players },
-            });
+            broadcastPlayersUpdated(room);
 
             // Start grace period timer
             const playerId = currentPlayerId;
             const timer = setTimeout(() => {
               // After grace period, fully remove the player
+              const previousRoles = getRoles(getRoom(roomId));
               const updatedRoom = removePlayerFromRoom(roomId, playerId);
               playerRooms.delete(playerId);
               disconnectTimers.delete(playerId);
 
+              releaseRoomIfDeleted(roomId);
+
               if (updatedRoom) {
-                broadcastToRoom(updatedRoom, {
-                  type: 'players_updated',
-                  payload: { players: updatedRoom.players },
-                });
+                broadcastPlayersUpdated(updatedRoom);
+                broadcastRoleChanges(updatedRoom, previousRoles);
+                handlePlayerLeftGame(roomId);
               }
             }, DISCONNECT_GRACE_PERIOD);
 
@@ -324,28 +553,45 @@ function handleMessage(
 ) {
   switch (message.type) {
     case 'join_room': {
-      const { roomId, playerName } = message.payload;
-      if (!roomId || !playerName) {
-        send(ws, { type: 'error', payload: { message: 'Missing roomId or playerName' } });
-        return;
-      }
-
-      const result = addPlayerToRoom(roomId, playerName);
-      if (!result) {
-        send(ws, { type: 'error', payload: { message: 'Room not found or full' } });
+      const { roomId, playerName, clientId, password, spectate } = message.payload;
+
+      const { room, playerId, error, passwordRequired } = addPlayerToRoom(roomId, playerName, { clientId, password, spectate });
+      if (!room || !playerId) {
+        sendError(ws, {
+          code: passwordRequired ? 'password_required' : 'room_unavailable',
+          message: error ?? 'Cannot join room',
+          event: message.type,
+        });
         return;
       }
 
-      const { room, playerId } = result;
       setPlayerId(playerId);
       playerConnections.set(playerId, ws);
       playerRooms.set(playerId, roomId);
 
-      send(ws, { type: 'room_joined', payload: { room, playerId } });
-      broadcastToRoom(room, {
-        type: 'players_updated',
-        payload: { players: room.players },
+      const eventLog = getRoomEventLog(roomId);
+      const sessionToken = issueSessionToken(roomId, playerId);
+      // Spectators joining mid-game need the current phase to land in the game screen
+      const watching = isSpectator(room, playerId) && room.status === 'playing';
+      send(ws, {
+        type: 'room_joined',
+        payload: {
+          room,
+          playerId,
+          sessionToken,
+          stream: eventLog.stream,
+          seq: eventLog.currentSeq,
+          gameState: watching ? getGameState(roomId) : null,
+          modeState: watching ? getPlayerModeState(roomId, playerId) : null,
+        },
       });
+      if (watching) {
+        const liveCanvas = liveCanvases.get(roomId)?.getState();
+        if (liveCanvas && getLiveCanvasDrawerId(room) === liveCanvas.drawerId) {
+          send(ws, { type: 'live_canvas_keyframe', payload: liveCanvas });
+        }
+      }
+      broadcastPlayersUpdated(room);
       break;
     }
 
@@ -354,15 +600,16 @@ function handleMessage(
       const roomId = playerRooms.get(currentPlayerId);
       if (!roomId) return;
 
+      const previousRoles = getRoles(getRoom(roomId));
       const room = removePlayerFromRoom(roomId, currentPlayerId);
       playerConnections.delete(currentPlayerId);
       playerRooms.delete(currentPlayerId);
+      releaseRoomIfDeleted(roomId);
 
       if (room) {
-        broadcastToRoom(room, {
-          type: 'players_updated',
-          payload: { players: room.players },
-        });
+        broadcastPlayersUpdated(room);
+        broadcastRoleChanges(room, previousRoles);
+        handlePlayerLeftGame(roomId);
       }
       break;
     }
@@ -374,10 +621,7 @@ function handleMessage(
 
       const room = togglePlayerReady(roomId, currentPlayerId);
       if (room) {
-        broadcastToRoom(room, {
-          type: 'players_updated',
-          payload: { players: room.players },
-        });
+        broadcastPlayersUpdated(room);
       }
       break;
     }
@@ -387,7 +631,7 @@ function handleMessage(
       const roomId = playerRooms.get(currentPlayerId);
       if (!roomId) return;
 
-      const room = updateRoomSettings(roomId, currentPlayerId, message.payload.settings ?? {});
+      const room = updateRoomSettings(roomId, currentPlayerId, message.payload.settings);
       if (!room) return;
 
       broadcastToRoom(room, {
@@ -402,10 +646,7 @@ function handleMessage(
       const roomId = playerRooms.get(currentPlayerId);
       if (!roomId) return;
 
-      const mode = message.payload.mode;
-      if (!mode) return;
-
-      const room = selectGameMode(roomId, currentPlayerId, mode as GameMode);
+      const room = selectGameMode(roomId, currentPlayerId, message.payload.mode);
       if (!room) return;
 
       broadcastToRoom(room, {
@@ -425,19 +666,13 @@ function handleMessage(
       const roomId = playerRooms.get(currentPlayerId);
       if (!roomId) return;
 
-      const playerIds = message.payload.playerIds as string[] | undefined;
-      if (!playerIds || !Array.isArray(playerIds)) return;
-
-      const room = reorderPlayers(roomId, currentPlayerId, playerIds);
+      const room = reorderPlayers(roomId, currentPlayerId, message.payload.playerIds);
       if (!room) {
-        send(ws, { type: 'error', payload: { message: 'Cannot reorder players' } });
+        sendError(ws, { code: 'action_failed', message: 'Cannot reorder players', event: message.type });
         return;
       }
 
-      broadcastToRoom(room, {
-        type: 'players_updated',
-        payload: { players: room.players },
-      });
+      broadcastPlayersUpdated(room);
       break;
     }
 
@@ -446,25 +681,121 @@ function handleMessage(
       const roomId = playerRooms.get(currentPlayerId);
       if (!roomId) return;
 
-      const color = message.payload.color;
-      if (!color) {
-        send(ws, { type: 'error', payload: { message: 'Color is required' } });
+      const result = changePlayerColor(roomId, currentPlayerId, message.payload.color);
+      if (!result.success || !result.room) {
+        sendError(ws, { code: 'action_failed', message: result.error ?? 'Cannot change color', event: message.type });
+        return;
+      }
+
+      broadcastPlayersUpdated(result.room);
+      break;
+    }
+
+    case 'kick_player':
+    case 'ban_player': {
+      if (!currentPlayerId) return;
+      const roomId = playerRooms.get(currentPlayerId);
+      if (!roomId) return;
+
+      const { playerId } = message.payload;
+      const previousRoles = getRoles(getRoom(roomId));
+      const reason: KickReason = message.type === 'ban_player' ? 'ban' : 'kick';
+      const result = reason === 'ban'
+        ? banPlayer(roomId, currentPlayerId, playerId)
+        : kickPlayer(roomId, currentPlayerId, playerId);
+      if (!result.success || !result.room) {
+        sendError(ws, { code: 'action_failed', message: result.error ?? 'Cannot remove player', event: message.type });
         return;
       }
 
-      const result = changePlayerColor(roomId, currentPlayerId, color);
+      disconnectRemovedPlayer(playerId, reason);
+      broadcastPlayersUpdated(result.room);
+      broadcastRoleChanges(result.room, previousRoles);
+      handlePlayerLeftGame(roomId);
+      break;
+    }
+
+    case 'transfer_host': {
+      if (!currentPlayerId) return;
+      const roomId = playerRooms.get(currentPlayerId);
+      if (!roomId) return;
+
+      const result = transferHost(roomId, currentPlayerId, message.payload.playerId);
       if (!result.success || !result.room) {
-        send(ws, { type: 'error', payload: { message: result.error ?? 'Cannot change color' } });
+        sendError(ws, { code: 'action_failed', message: result.error ?? 'Cannot transfer host', event: message.type });
         return;
       }
 
       broadcastToRoom(result.room, {
-        type: 'players_updated',
-        payload: { players: result.room.players },
+        type: 'host_changed',
+        payload: { hostId: result.room.hostId },
+      });
+      break;
+    }
+
+    case 'set_room_locked': {
+      if (!currentPlayerId) return;
+      const roomId = playerRooms.get(currentPlayerId);
+      if (!roomId) return;
+
+      const room = setRoomLocked(roomId, currentPlayerId, message.payload.locked);
+      if (!room) {
+        sendError(ws, { code: 'action_failed', message: 'Only the host can lock the room', event: message.type });
+        return;
+      }
+
+      broadcastToRoom(room, {
+        type: 'room_lock_changed',
+        payload: { locked: room.locked ?? false },
       });
       break;
     }
 
+    case 'promote_spectator': {
+      if (!currentPlayerId) return;
+      const roomId = playerRooms.get(currentPlayerId);
+      if (!roomId) return;
+
+      const result = promoteSpectator(roomId, currentPlayerId, message.payload.playerId);
+      if (!result.success || !result.room) {
+        sendError(ws, { code: 'action_failed', message: result.error ?? 'Cannot promote spectator', event: message.type });
+        return;
+      }
+
+      broadcastPlayersUpdated(result.room);
+      break;
+    }
+
+    case 'assign_team': {
+      if (!currentPlayerId) return;
+      const roomId = playerRooms.get(currentPlayerId);
+      if (!roomId) return;
+
+      const result = assignTeam(roomId, currentPlayerId, message.payload.playerId, message.payload.team);
+      if (!result.success || !result.room) {
+        sendError(ws, { code: 'action_failed', message: result.error ?? 'Cannot assign team', event: message.type });
+        return;
+      }
+
+      broadcastPlayersUpdated(result.room);
+      break;
+    }
+
+    case 'balance_teams': {
+      if (!currentPlayerId) return;
+      const roomId = playerRooms.get(currentPlayerId);
+      if (!roomId) return;
+
+      const room = balanceTeams(roomId, currentPlayerId);
+      if (!room) {
+        sendError(ws, { code: 'action_failed', message: 'Cannot balance teams', event: message.type });
+        return;
+      }
+
+      broadcastPlayersUpdated(room);
+      break;
+    }
+
     case 'start_game': {
       if (!currentPlayerId) return;
       const roomId = playerRooms.get(currentPlayerId);
@@ -472,20 +803,20 @@ function handleMessage(
 
       const room = startGame(roomId, currentPlayerId);
       if (!room) {
-        send(ws, { type: 'error', payload: { message: 'Cannot start game' } });
+        sendError(ws, { code: 'action_failed', message: 'Cannot start game', event: message.type });
         return;
       }
 
       // Initialize game and get the initial phase
       const result = initializeGame(roomId);
       if (!result) {
-        send(ws, { type: 'error', payload: { message: 'Failed to initialize game' } });
+        sendError(ws, { code: 'action_failed', message: 'Failed to initialize game', event: message.type });
         return;
       }
 
       broadcastToRoom(room, {
         type: 'game_started',
-        payload: { roomId },
+        payload: { roomId, palette: result.palette ?? null },
       });
 
       // Start the phase determined by the game mode handler
@@ -500,7 +831,7 @@ function handleMessage(
 
       const success = markPlayerReady(roomId, currentPlayerId);
       if (!success) {
-        send(ws, { type: 'error', payload: { message: 'Failed to mark ready' } });
+        sendError(ws, { code: 'action_failed', message: 'Failed to mark ready', event: message.type });
       }
       break;
     }
@@ -512,7 +843,7 @@ function handleMessage(
 
       const success = unmarkPlayerReady(roomId, currentPlayerId);
       if (!success) {
-        send(ws, { type: 'error', payload: { message: 'Failed to unmark ready' } });
+        sendError(ws, { code: 'action_failed', message: 'Failed to unmark ready', event: message.type });
       }
       break;
     }
@@ -523,9 +854,9 @@ function handleMessage(
       if (!roomId) return;
 
       const { text } = message.payload;
-      const success = submitPrompt(roomId, currentPlayerId, text || '');
+      const success = submitPrompt(roomId, currentPlayerId, text);
       if (!success) {
-        send(ws, { type: 'error', payload: { message: 'Failed to submit prompt' } });
+        sendError(ws, { code: 'action_failed', message: 'Failed to submit prompt', event: message.type });
       }
       break;
     }
@@ -535,16 +866,10 @@ function handleMessage(
       const roomId = playerRooms.get(currentPlayerId);
       if (!roomId) return;
 
-      const { imageData, strokes } = message.payload;
-      if (!imageData) {
-        send(ws, { type: 'error', payload: { message: 'Missing image data' } });
-        return;
-      }
-
-      // For MVP, store base64 directly (in production, upload to S3)
-      const success = submitDrawing(roomId, currentPlayerId, imageData, strokes);
+      const { imageData, strokes, edgeStrip } = message.payload;
+      const success = submitDrawing(roomId, currentPlayerId, imageData, strokes, edgeStrip);
       if (!success) {
-        send(ws, { type: 'error', payload: { message: 'Failed to submit drawing' } });
+        sendError(ws, { code: 'action_failed', message: 'Failed to submit drawing', event: message.type });
       }
       break;
     }
@@ -555,9 +880,9 @@ function handleMessage(
       if (!roomId) return;
 
       const { text } = message.payload;
-      const success = submitGuess(roomId, currentPlayerId, text || '');
+      const success = submitGuess(roomId, currentPlayerId, text);
       if (!success) {
-        send(ws, { type: 'error', payload: { message: 'Failed to submit guess' } });
+        sendError(ws, { code: 'action_failed', message: 'Failed to submit guess', event: message.type });
       }
       break;
     }
@@ -568,7 +893,7 @@ function handleMessage(
       if (!roomId) return;
 
       const { text } = message.payload;
-      submitQuizGuess(roomId, currentPlayerId, text || '');
+      submitQuizGuess(roomId, currentPlayerId, text);
       break;
     }
 
@@ -577,70 +902,122 @@ function handleMessage(
       const roomId = playerRooms.get(currentPlayerId);
       if (!roomId) return;
 
-      const { imageData, answer } = message.payload;
+      const { imageData, answer, strokes } = message.payload;
       
       // 絵のみ、または答えのみの提出を許可
       if (!imageData && !answer) {
-        send(ws, { type: 'error', payload: { message: 'Missing both image data and answer' } });
+        sendError(ws, { code: 'invalid_payload', message: 'Missing both image data and answer', event: message.type });
         return;
       }
 
-      const result = submitShiritori(roomId, currentPlayerId, imageData ?? null, answer ?? null);
+      const result = submitShiritori(roomId, currentPlayerId, imageData ?? null, answer ?? null, strokes);
       if (!result.success) {
-        send(ws, { type: 'error', payload: { message: result.error ?? 'Failed to submit shiritori' } });
+        sendError(ws, { code: 'action_failed', message: result.error ?? 'Failed to submit shiritori', event: message.type });
       }
       break;
     }
 
-    case 'shiritori_canvas_sync': {
+    case 'collab_strokes': {
       if (!currentPlayerId) return;
       const roomId = playerRooms.get(currentPlayerId);
       if (!roomId) return;
 
+      const strokes = addCollabStrokes(roomId, currentPlayerId, message.payload.strokes);
       const room = getRoom(roomId);
-      if (!room || room.settings.gameMode !== 'shiritori') return;
+      if (!room || strokes.length === 0) return;
 
-      const { imageData } = message.payload;
-      if (!imageData) return;
+      // One sequenced broadcast so that reconnecting players can replay it; the drawer skips their own strokes
+      broadcastToRoom(room, {
+        type: 'collab_strokes',
+        payload: { playerId: currentPlayerId, strokes },
+      });
+      break;
+    }
 
-      // Broadcast canvas update to all other players in the room
-      for (const player of room.players) {
+    case 'imposter_stroke':
+    case 'imposter_vote':
+    case 'imposter_guess': {
+      if (!currentPlayerId) return;
+      const roomId = playerRooms.get(currentPlayerId);
+      if (!roomId) return;
+
+      const result =
+        message.type === 'imposter_stroke'
+          ? addImposterStroke(roomId, currentPlayerId, message.payload.stroke)
+          : message.type === 'imposter_vote'
+            ? voteImposter(roomId, currentPlayerId, message.payload.suspectId)
+            : guessImposterPrompt(roomId, currentPlayerId, message.payload.text);
+      if (!result.success) {
+        sendError(ws, { code: 'action_failed', message: result.error ?? 'Action failed', event: message.type });
+      }
+      break;
+    }
+
+    case 'caption_vote': {
+      if (!currentPlayerId) return;
+      const roomId = playerRooms.get(currentPlayerId);
+      if (!roomId) return;
+
+      const result = voteCaption(roomId, currentPlayerId, message.payload.captionId);
+      if (!result.success) {
+        sendError(ws, { code: 'action_failed', message: result.error ?? 'Action failed', event: message.type });
+      }
+      break;
+    }
+
+    case 'showdown_judge': {
+      if (!currentPlayerId) return;
+      const roomId = playerRooms.get(currentPlayerId);
+      if (!roomId) return;
+
+      const { ranking, guesses } = message.payload;
+      const result = judgeShowdown(roomId, currentPlayerId, ranking, guesses);
+      if (!result.success) {
+        sendError(ws, { code: 'action_failed', message: result.error ?? 'Action failed', event: message.type });
+      }
+      break;
+    }
+
+    case 'live_canvas_strokes': {
+      if (!currentPlayerId) return;
+      const roomId = playerRooms.get(currentPlayerId);
+      if (!roomId) return;
+
+      const room = getRoom(roomId);
+      if (!room || getLiveCanvasDrawerId(room) !== currentPlayerId) return;
+
+      const { strokes } = message.payload;
+      getLiveCanvas(roomId).appendStrokes(currentPlayerId, strokes);
+
+      // Relay the stroke deltas to everyone but the drawer
+      for (const player of roomMembers(room)) {
         if (player.id !== currentPlayerId) {
           sendToPlayer(player.id, {
-            type: 'shiritori_canvas_update',
-            payload: { drawerId: currentPlayerId, imageData },
+            type: 'live_canvas_strokes',
+            payload: { drawerId: currentPlayerId, strokes },
           });
         }
       }
       break;
     }
 
-    case 'quiz_canvas_sync': {
+    case 'live_canvas_keyframe': {
       if (!currentPlayerId) return;
       const roomId = playerRooms.get(currentPlayerId);
       if (!roomId) return;
 
       const room = getRoom(roomId);
-      if (!room || room.settings.gameMode !== 'quiz') return;
-      if (room.settings.quizSettings.quizFormat !== 'realtime') return;
-      if (room.currentPhase !== 'quiz_drawing') return;
+      if (!room || getLiveCanvasDrawerId(room) !== currentPlayerId) return;
 
       const { imageData } = message.payload;
-      if (!imageData) return;
-
-      const handler = getGameModeHandler(room.settings.gameMode);
-      if (!(handler instanceof QuizModeHandler)) return;
-
-      const drawerId = handler.getDrawerId(roomId);
-      if (!drawerId || drawerId !== currentPlayerId) return;
-
-      handler.setCurrentDrawing(roomId, imageData);
+      getLiveCanvas(roomId).setKeyframe(currentPlayerId, imageData);
+      recordLiveCanvasKeyframe(room, imageData);
 
-      for (const player of room.players) {
+      for (const player of roomMembers(room)) {
         if (player.id !== currentPlayerId) {
           sendToPlayer(player.id, {
-            type: 'quiz_canvas_update',
-            payload: { drawerId: currentPlayerId, imageData },
+            type: 'live_canvas_keyframe',
+            payload: { drawerId: currentPlayerId, imageData, strokes: [] },
           });
         }
       }
@@ -648,11 +1025,15 @@ function handleMessage(
     }
 
     case 'rejoin_room': {
-      const { roomId, playerId } = message.payload;
-      if (!roomId || !playerId) {
-        send(ws, { type: 'error', payload: { message: 'Missing roomId or playerId' } });
+      const { roomId, sessionToken, stream, lastSeq } = message.payload;
+
+      // The token proves this connection owns the seat; it is rotated on every use
+      const session = redeemSessionToken(roomId, sessionToken);
+      if (!session) {
+        sendError(ws, { code: 'rejoin_failed', message: 'Invalid or expired session', event: message.type });
         return;
       }
+      const { playerId } = session;
 
       // Cancel disconnect timer if exists
       const timer = disconnectTimers.get(playerId);
@@ -663,7 +1044,7 @@ function handleMessage(
 
       const result = rejoinRoom(roomId, playerId);
       if (!result) {
-        send(ws, { type: 'error', payload: { message: 'Cannot rejoin room' } });
+        sendError(ws, { code: 'rejoin_failed', message: 'Cannot rejoin room', event: message.type });
         return;
       }
 
@@ -676,6 +1057,11 @@ function handleMessage(
       const gameState = getGameState(roomId);
       const content = getPlayerContent(roomId, playerId);
       const submitted = hasPlayerSubmitted(roomId, playerId);
+      const modeState = getPlayerModeState(roomId, playerId);
+
+      // Replay missed events if the buffer still covers them, otherwise the client restores from the snapshot
+      const eventLog = getRoomEventLog(roomId);
+      const missed = stream !== undefined && lastSeq !== undefined ? eventLog.since(playerId, stream, lastSeq) : null;
 
       // Send rejoin confirmation with full state
       send(ws, {
@@ -684,17 +1070,32 @@ function handleMessage(
           room,
           playerId,
           playerName,
+          sessionToken: session.sessionToken,
+          stream: eventLog.stream,
+          seq: eventLog.currentSeq,
+          resumed: missed ? 'replay' : 'snapshot',
           gameState,
           content,
           hasSubmitted: submitted,
+          modeState,
         },
       });
+      missed?.forEach((data) => sendRaw(ws, data));
+
+      // 結果発表中の投票状況（再送できた場合は含まれている）
+      const voteSummary = missed ? null : getVoteSummary(roomId);
+      if (voteSummary) {
+        sendVoteSummary((event) => send(ws, event), voteSummary);
+      }
+
+      // Live canvas updates are not replayed, so catch up with the last keyframe and the strokes since
+      const liveCanvas = liveCanvases.get(roomId)?.getState();
+      if (liveCanvas && liveCanvas.drawerId !== playerId && getLiveCanvasDrawerId(room) === liveCanvas.drawerId) {
+        send(ws, { type: 'live_canvas_keyframe', payload: liveCanvas });
+      }
 
       // Notify other players
-      broadcastToRoom(room, {
-        type: 'players_updated',
-        payload: { players: room.players },
-      });
+      broadcastPlayersUpdated(room);
       break;
     }
 
@@ -706,11 +1107,10 @@ function handleMessage(
       const room = getRoom(roomId);
       if (!room) return;
 
-      // Only host can control navigation
-      if (room.hostId !== currentPlayerId) return;
+      // Only the presenter (host by default) can control navigation
+      if (getPresenterId(room) !== currentPlayerId) return;
 
       const { chainIndex, entryIndex, displayOrder } = message.payload;
-      if (chainIndex === undefined || entryIndex === undefined) return;
 
       // Broadcast to all players in the room (include displayOrder for sync)
       broadcastToRoom(room, {
@@ -728,11 +1128,10 @@ function handleMessage(
       const room = getRoom(roomId);
       if (!room) return;
 
-      // Only host can unlock animation
-      if (room.hostId !== currentPlayerId) return;
+      // Only the presenter (host by default) can unlock animation
+      if (getPresenterId(room) !== currentPlayerId) return;
 
       const { chainIndex } = message.payload;
-      if (chainIndex === undefined) return;
 
       // Broadcast to all players in the room
       broadcastToRoom(room, {
@@ -742,6 +1141,42 @@ function handleMessage(
       break;
     }
 
+    case 'cast_vote':
+    case 'close_voting': {
+      if (!currentPlayerId) return;
+      const roomId = playerRooms.get(currentPlayerId);
+      if (!roomId) return;
+
+      const result =
+        message.type === 'cast_vote' ? castVote(roomId, currentPlayerId, message.payload) : closeVoting(roomId, currentPlayerId);
+      if (!result.success || !result.room || !result.summary) {
+        sendError(ws, { code: 'action_failed', message: result.error ?? 'Cannot vote', event: message.type });
+        return;
+      }
+
+      const { room } = result;
+      sendVoteSummary((event) => broadcastToRoom(room, event), result.summary);
+      break;
+    }
+
+    case 'pass_presenter': {
+      if (!currentPlayerId) return;
+      const roomId = playerRooms.get(currentPlayerId);
+      if (!roomId) return;
+
+      const result = passPresenter(roomId, currentPlayerId, message.payload.playerId);
+      if (!result.success || !result.room) {
+        sendError(ws, { code: 'action_failed', message: result.error ?? 'Cannot pass presenter', event: message.type });
+        return;
+      }
+
+      broadcastToRoom(result.room, {
+        type: 'presenter_changed',
+        payload: { presenterId: result.room.presenterId ?? null },
+      });
+      break;
+    }
+
     case 'return_to_lobby': {
       if (!currentPlayerId) return;
       const roomId = playerRooms.get(currentPlayerId);
@@ -757,10 +1192,7 @@ function handleMessage(
       });
 
       // Also update other players about the player list (ready status changed)
-      broadcastToRoom(room, {
-        type: 'players_updated',
-        payload: { players: room.players },
-      });
+      broadcastPlayersUpdated(room);
       break;
     }
 
@@ -773,10 +1205,10 @@ function handleMessage(
       if (!room) return;
 
       const { text } = message.payload;
-      if (!text || typeof text !== 'string' || text.trim().length === 0) return;
+      if (text.trim().length === 0) return;
 
-      // Find the player to get their name and color
-      const player = room.players.find((p) => p.id === currentPlayerId);
+      // Find the player to get their name and color (spectators chat in gray)
+      const player = roomMembers(room).find((p) => p.id === currentPlayerId);
       if (!player) return;
 
       // Broadcast to all players in the room
@@ -786,7 +1218,7 @@ function handleMessage(
           id: `${currentPlayerId}-${Date.now()}`,
           playerId: currentPlayerId,
           playerName: player.name,
-          playerColor: player.color,
+          playerColor: 'color' in player ? player.color : '#808080',
           text: text.trim().slice(0, 50), // Limit to 50 characters
           createdAt: Date.now(),
         },
@@ -0,0 +1,312 @@
+// WebSocketプロトコル定義（サーバーとフロントエンドで共有）
+// エンティティの表現は両者で少し違う（サーバーはDate、クライアントはJSONの文字列など）ため、
+// イベントの型は各側の型を ProtocolTypes として受け取るジェネリクスにしている。
+
+export const GAME_MODES = ['normal', 'animation', 'shiritori', 'quiz', 'collab', 'imposter', 'corpse', 'memory', 'caption', 'showdown'] as const;
+export type GameMode = (typeof GAME_MODES)[number];
+
+export const DRAWING_TOOLS = ['brush', 'eraser', 'bucket', 'stamp', 'line'] as const;
+export type DrawingToolType = (typeof DRAWING_TOOLS)[number];
+
+// キャンバスで選べる色（共通ルールで色を絞るときはここから選ぶ）
+export const DRAWING_COLORS = [
+  '#000000', // Black
+  '#FF0000', // Red
+  '#FF69B4', // Pink
+  '#0000FF', // Blue
+  '#00BFFF', // Light Blue (水色)
+  '#00AA00', // Green
+  '#7CFC00', // Yellow Green (黄緑)
+  '#FFCC00', // Yellow
+  '#FF6600', // Orange
+  '#9900FF', // Purple
+  '#8B4513', // Brown
+  '#FFFFFF', // White
+];
+
+// 描画ストローク（タイムラプス用）
+export interface DrawingStroke {
+  tool: DrawingToolType;
+  color: string;
+  brushSize: number;
+  opacity: number; // 0-100
+  timestamp: number; // 描画開始からの経過ミリ秒
+  // ブラシ/消しゴム/ライン用の点群
+  points?: { x: number; y: number }[];
+  // バケツ用
+  fillPoint?: { x: number; y: number };
+  // スタンプ用
+  stampShape?: string;
+  stampBounds?: { x: number; y: number; width: number; height: number };
+  fillStamp?: boolean;
+}
+
+export type ResultDisplayOrder = 'first-to-last' | 'last-to-first';
+
+// 早描き対決で1位・2位・3位に付ける点（showdown_judge の ranking もこの数まで）
+export const SHOWDOWN_RANK_POINTS = [3, 2, 1] as const;
+
+// 結果発表後の投票（ノーマルモード）: drawing=ベスト作品賞, guess=迷回答賞
+export const VOTE_CATEGORIES = ['drawing', 'guess'] as const;
+export type VoteCategory = (typeof VOTE_CATEGORIES)[number];
+
+// 提出がなかった席に代わりに入れる内容（絵は画像の代わりに FALLBACK_DRAWING が入る）
+export const FALLBACK_DRAWING = '(timeout)';
+export const FALLBACK_TEXTS = { timeout: '(時間切れ)', departed: '(退出)' } as const;
+const FALLBACK_PAYLOADS: readonly string[] = [FALLBACK_DRAWING, ...Object.values(FALLBACK_TEXTS)];
+
+// 投票の対象になるエントリーか（サーバーとクライアントで共通）。お題（order 0）と、空や代わりに入れた提出は対象外
+export function isVoteCandidate(entry: { order: number; type: 'text' | 'drawing'; payload: string }, category: VoteCategory): boolean {
+  if (entry.payload === '' || FALLBACK_PAYLOADS.includes(entry.payload)) return false;
+  if (category === 'drawing') return entry.type === 'drawing';
+  return entry.type === 'text' && entry.order > 0;
+}
+
+// 投票で選ばれたエントリー（同票はすべて受賞）
+export interface VoteAward {
+  category: VoteCategory;
+  chainId: string;
+  entryOrder: number;
+  authorId: string;
+  votes: number;
+}
+
+// Lobby Chat
+export interface LobbyChatItem {
+  id: string;
+  playerId: string;
+  playerName: string;
+  playerColor: string;
+  text: string;
+  createdAt: number;
+}
+
+// 各側で定義しているエンティティ型
+export interface ProtocolTypes {
+  Room: unknown;
+  Player: unknown;
+  Spectator: unknown;
+  Settings: unknown;
+  Chain: unknown;
+  GamePhase: string;
+  GameState: unknown;
+  ContentPayload: unknown;
+  ShiritoriDrawing: unknown;
+  ShiritoriResult: unknown;
+  QuizState: unknown;
+  QuizFeedItem: unknown;
+  QuizResult: unknown;
+  CollabState: unknown;
+  CollabResult: unknown;
+  ImposterState: unknown;
+  ImposterResult: unknown;
+  CaptionState: unknown;
+  CaptionResult: unknown;
+  ShowdownState: unknown;
+  ShowdownResult: unknown;
+  RejoinModeState: unknown;
+}
+
+type EmptyPayload = Record<string, never>;
+
+// 描画中キャンバスのライブ配信（しりとり・クイズのrealtime形式）
+// 描画者はストロークを差分で送り、一定間隔でキャンバス全体の画像（キーフレーム）を送る。
+// imageData: null のキーフレームは白紙からの描き始めを表す。
+// サーバーが送るキーフレームの strokes は、途中から見始めた人向けに画像の上へ重ねるストローク。
+
+// Client -> Server
+// join_room の clientId はブラウザごとの固定ID（必須）。ホストがBANしたクライアントの再参加を断るのに使う。
+// spectate: true（またはゲーム中の参加）は観戦者として参加する。観戦者はゲームの合間に promote_spectator でプレイヤーになれる。
+export type ClientEvent<T extends ProtocolTypes> =
+  | { type: 'join_room'; payload: { roomId: string; playerName: string; clientId: string; password?: string; spectate?: boolean } }
+  | { type: 'leave_room'; payload: { roomId?: string } }
+  | { type: 'toggle_ready'; payload: { roomId?: string } }
+  | { type: 'start_game'; payload: { roomId?: string } }
+  | { type: 'mark_ready'; payload: EmptyPayload }
+  | { type: 'unmark_ready'; payload: EmptyPayload }
+  | { type: 'submit_prompt'; payload: { text: string } }
+  | { type: 'submit_drawing'; payload: { imageData: string; strokes?: DrawingStroke[]; edgeStrip?: string } }
+  | { type: 'submit_guess'; payload: { text: string } }
+  | { type: 'submit_shiritori'; payload: { imageData?: string | null; answer?: string | null; strokes?: DrawingStroke[] } }
+  | { type: 'live_canvas_strokes'; payload: { strokes: DrawingStroke[] } }
+  | { type: 'live_canvas_keyframe'; payload: { imageData: string | null } }
+  | { type: 'submit_quiz_guess'; payload: { text: string } }
+  // 共同キャンバスに描いたストローク（サーバーが色・範囲の制限を確認して他のプレイヤーへ中継する）
+  | { type: 'collab_strokes'; payload: { strokes: DrawingStroke[] } }
+  // 偽アーティスト: 自分のターンの1画、偽アーティストだと思う人への投票、見破られた偽アーティストのお題当て
+  | { type: 'imposter_stroke'; payload: { stroke: DrawingStroke } }
+  | { type: 'imposter_vote'; payload: { suspectId: string } }
+  | { type: 'imposter_guess'; payload: { text: string } }
+  // キャプション大喜利: いちばん良いと思うキャプションへの投票（締め切りまでは入れ直せる。自分のキャプションには投票できない）
+  | { type: 'caption_vote'; payload: { captionId: string } }
+  // 早描き対決: 上位の絵の順位（最大 SHOWDOWN_RANK_POINTS の数まで、自分の絵は選べない）と、誰が描いたかの予想。締め切りまでは出し直せる
+  | { type: 'showdown_judge'; payload: { ranking: string[]; guesses?: { drawingId: string; playerId: string }[] } }
+  | { type: 'rejoin_room'; payload: { roomId: string; sessionToken: string; stream?: string; lastSeq?: number } }
+  | { type: 'result_navigate'; payload: { chainIndex: number; entryIndex: number; displayOrder?: ResultDisplayOrder } }
+  | { type: 'animation_unlock'; payload: { chainIndex: number } }
+  // 結果発表の進行役を渡す（ホストか今の発表者のみ）
+  | { type: 'pass_presenter'; payload: { playerId: string } }
+  // 好きな絵・回答への投票（カテゴリごとに1票、締め切りまでは入れ直せる）。自分のエントリーには投票できない
+  | { type: 'cast_vote'; payload: { category: VoteCategory; chainId: string; entryOrder: number } }
+  // 全員の投票を待たずに締め切る（発表者のみ）
+  | { type: 'close_voting'; payload: EmptyPayload }
+  | { type: 'return_to_lobby'; payload: EmptyPayload }
+  | { type: 'update_settings'; payload: { settings: Partial<T['Settings']> } }
+  | { type: 'select_mode'; payload: { mode: GameMode } }
+  | { type: 'reorder_players'; payload: { playerIds: string[] } }
+  | { type: 'change_color'; payload: { color: string } }
+  | { type: 'lobby_chat'; payload: { text: string } }
+  | { type: 'kick_player'; payload: { playerId: string } }
+  | { type: 'ban_player'; payload: { playerId: string } }
+  | { type: 'transfer_host'; payload: { playerId: string } }
+  | { type: 'set_room_locked'; payload: { locked: boolean } }
+  | { type: 'promote_spectator'; payload: { playerId: string } }
+  // クイズのチーム戦のチーム分け（ホストのみ。team: null で未設定に戻す）
+  | { type: 'assign_team'; payload: { playerId: string; team: number | null } }
+  | { type: 'balance_teams'; payload: EmptyPayload };
+
+export type ClientEventType = ClientEvent<ProtocolTypes>['type'];
+
+// エラーコード（クライアントはmessageではなくcodeで分岐する）
+export type ProtocolErrorCode =
+  | 'invalid_json' // JSONとして読めない
+  | 'unknown_event' // 未知のイベントtype
+  | 'invalid_payload' // payloadがスキーマに合わない
+  | 'room_unavailable' // ルームが存在しない・満員
+  | 'password_required' // パスワードが未入力・間違っている
+  | 'rejoin_failed' // 再接続できない
+  | 'action_failed'; // 現在の状態では実行できない操作
+
+export interface ProtocolError {
+  code: ProtocolErrorCode;
+  message: string;
+  event?: string; // 原因になったイベントtype
+  field?: string; // invalid_payload の場合、問題のあったフィールドのパス
+}
+
+// レート制限に引っかかったときの対応
+// warn: 処理はしたが警告、drop: メッセージを破棄、disconnect: 接続を切断
+export type RateLimitAction = 'warn' | 'drop' | 'disconnect';
+
+export interface RateLimitNotice {
+  reason: 'rate' | 'frame_size';
+  action: RateLimitAction;
+  event?: string; // 制限されたイベントtype（frame_sizeの場合は不明）
+  retryAfterMs: number;
+  message: string;
+}
+
+// ホストにルームから外されたときの通知（ban の場合は同じクライアントから再参加できない）
+export type KickReason = 'kick' | 'ban';
+
+// Server -> Client
+// ルーム内のイベントには連番 seq がつく（stream はその連番の系列ID）。
+// room_joined で受け取る sessionToken は再接続（rejoin_room）に必要な秘密の値。
+// 再接続時に stream と最後に受け取った seq を送ると、取りこぼしたイベントが再送される。
+// 再送できない場合は resumed: 'snapshot' となり、rejoined の内容で状態を復元する。
+export type ServerEvent<T extends ProtocolTypes> =
+  | {
+      type: 'room_joined';
+      payload: {
+        room: T['Room'];
+        playerId: string;
+        sessionToken: string;
+        stream: string;
+        seq: number;
+        // ゲーム中に観戦者として参加した場合の現在の状態
+        gameState?: T['GameState'] | null;
+        modeState?: T['RejoinModeState'] | null;
+      };
+    }
+  | {
+      type: 'rejoined';
+      payload: {
+        room: T['Room'];
+        playerId: string;
+        playerName: string;
+        sessionToken: string; // 次回の再接続用（使ったトークンは無効になる）
+        stream: string;
+        seq: number;
+        resumed: 'replay' | 'snapshot';
+        gameState: T['GameState'] | null;
+        content: T['ContentPayload'] | null;
+        hasSubmitted: boolean;
+        modeState?: T['RejoinModeState'] | null;
+      };
+    }
+  | { type: 'players_updated'; payload: { players: T['Player'][]; spectators: T['Spectator'][] } }
+  | { type: 'game_started'; payload: { roomId: string; palette: string[] | null } } // palette: 色を絞るルールで選ばれた色
+  | { type: 'error'; payload: ProtocolError }
+  | {
+      type: 'phase_changed';
+      payload: { phase: T['GamePhase']; timeRemaining: number; deadline?: string; currentTurn?: number; totalTurns?: number };
+    }
+  | { type: 'timer_sync'; payload: { timeRemaining: number } }
+  | { type: 'submission_received'; payload: { playerId: string; submittedCount: number; totalCount: number } }
+  | { type: 'phase_complete'; payload: { nextPhase: T['GamePhase'] } }
+  | { type: 'receive_content'; payload: T['ContentPayload'] }
+  | { type: 'game_result'; payload: { chains: T['Chain'][]; players?: T['Player'][] } }
+  | { type: 'result_sync'; payload: { chainIndex: number; entryIndex: number; displayOrder?: ResultDisplayOrder } }
+  | { type: 'animation_unlocked'; payload: { chainIndex: number } }
+  // votedPlayerIds は投票を終えたプレイヤー
+  | { type: 'vote_progress'; payload: { votedPlayerIds: string[] } }
+  | { type: 'vote_results'; payload: { awards: VoteAward[]; voterCount: number } }
+  | { type: 'returned_to_lobby'; payload: { room: T['Room'] } }
+  | { type: 'settings_updated'; payload: { settings: T['Settings'] } }
+  | { type: 'mode_changed'; payload: { mode: GameMode } }
+  | {
+      type: 'shiritori_turn';
+      payload: {
+        drawerId: string | null;
+        previousLetterHint: string | null;
+        order: number;
+        total: number;
+        gallery: T['ShiritoriDrawing'][];
+      };
+    }
+  | { type: 'shiritori_your_turn'; payload: { previousLetterHint: string | null } }
+  | { type: 'shiritori_drawing_added'; payload: { drawing: T['ShiritoriDrawing']; nextDrawerId: string | null } }
+  | { type: 'shiritori_answer_submitted'; payload: { playerId: string; drawing: T['ShiritoriDrawing'] } }
+  | { type: 'shiritori_result'; payload: T['ShiritoriResult'] }
+  | { type: 'live_canvas_strokes'; payload: { drawerId: string; strokes: DrawingStroke[] } }
+  | { type: 'live_canvas_keyframe'; payload: { drawerId: string; imageData: string | null; strokes: DrawingStroke[] } }
+  | { type: 'quiz_state'; payload: T['QuizState'] }
+  | { type: 'quiz_feed'; payload: { item: T['QuizFeedItem'] } }
+  | {
+      type: 'quiz_round_ended';
+      payload: {
+        prompt: string;
+        winners: { playerId: string; rank: number }[];
+        scores: Record<string, number>;
+        teamScores?: number[]; // チーム戦のみ
+      };
+    }
+  | { type: 'quiz_result'; payload: T['QuizResult'] }
+  | { type: 'collab_state'; payload: T['CollabState'] }
+  | { type: 'collab_strokes'; payload: { playerId: string; strokes: DrawingStroke[] } }
+  | { type: 'collab_result'; payload: T['CollabResult'] }
+  // プレイヤーごとに送る（お題は偽アーティストには含めない）
+  | { type: 'imposter_state'; payload: T['ImposterState'] }
+  | { type: 'imposter_result'; payload: T['ImposterResult'] }
+  // プレイヤーごとに送る（結果発表までは誰のキャプションかを伏せる）
+  | { type: 'caption_state'; payload: T['CaptionState'] }
+  | { type: 'caption_result'; payload: T['CaptionResult'] }
+  // プレイヤーごとに送る（結果発表までは誰の絵かを伏せる）
+  | { type: 'showdown_state'; payload: T['ShowdownState'] }
+  | { type: 'showdown_result'; payload: T['ShowdownResult'] }
+  | { type: 'lobby_chat'; payload: LobbyChatItem }
+  | { type: 'room_closed'; payload: { reason: 'idle'; message: string } }
+  | { type: 'rate_limited'; payload: RateLimitNotice }
+  | { type: 'kicked'; payload: { reason: KickReason; message: string } }
+  | { type: 'host_changed'; payload: { hostId: string } }
+  // null はホストが進行役に戻ったことを表す
+  | { type: 'presenter_changed'; payload: { presenterId: string | null } }
+  | { type: 'room_lock_changed'; payload: { locked: boolean } };
+
+export type ServerEventType = ServerEvent<ProtocolTypes>['type'];
+
+// 実際に送られるメッセージ（連番の対象外のイベントにはseqがない）
+export type ServerMessage<T extends ProtocolTypes> = ServerEvent<T> & { seq?: number };
+
+// 高頻度で最新の状態だけが意味を持つため、連番をつけず再送もしないイベント
+export const UNSEQUENCED_EVENTS: readonly ServerEventType[] = ['timer_sync', 'live_canvas_strokes', 'live_canvas_keyframe'];
@@ -0,0 +1,230 @@
+import {
+  DRAWING_TOOLS,
+  GAME_MODES,
+  SHOWDOWN_RANK_POINTS,
+  VOTE_CATEGORIES,
+  type ClientEvent,
+  type ClientEventType,
+  type ProtocolError,
+  type ProtocolTypes,
+} from './protocol.js';
+
+// 受信したクライアントイベントの実行時バリデーション
+// 依存ライブラリを増やさないよう、必要な分だけの小さなスキーマ関数で構成している
+
+const MAX_NAME_LENGTH = 20;
+const MAX_TEXT_LENGTH = 140;
+const MAX_CHAT_LENGTH = 200;
+const MAX_ID_LENGTH = 64;
+const MAX_IMAGE_DATA_LENGTH = 5 * 1024 * 1024;
+const MAX_STROKES = 5000;
+const MAX_POINTS_PER_STROKE = 20000;
+const MAX_LIVE_STROKES = 200;
+const MAX_PLAYERS = 12;
+const MAX_PASSWORD_LENGTH = 64;
+const MAX_QUIZ_TEAMS = 4;
+
+// 問題のあったフィールドのパスとメッセージ。問題がなければnull
+type Issue = { field: string; message: string };
+type Schema = (value: unknown, path: string) => Issue | null;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function str(options: { min?: number; max: number }): Schema {
+  return (value, path) => {
+    if (typeof value !== 'string') return { field: path, message: 'must be a string' };
+    if (options.min !== undefined && value.length < options.min) {
+      return { field: path, message: `must be at least ${options.min} characters` };
+    }
+    if (value.length > options.max) return { field: path, message: `must be at most ${options.max} characters` };
+    return null;
+  };
+}
+
+function num(options: { int?: boolean; min?: number; max?: number } = {}): Schema {
+  return (value, path) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return { field: path, message: 'must be a number' };
+    if (options.int && !Number.isInteger(value)) return { field: path, message: 'must be an integer' };
+    if (options.min !== undefined && value < options.min) return { field: path, message: `must be >= ${options.min}` };
+    if (options.max !== undefined && value > options.max) return { field: path, message: `must be <= ${options.max}` };
+    return null;
+  };
+}
+
+const bool: Schema = (value, path) => (typeof value === 'boolean' ? null : { field: path, message: 'must be a boolean' });
+
+function oneOf(values: readonly string[]): Schema {
+  return (value, path) =>
+    typeof value === 'string' && values.includes(value)
+      ? null
+      : { field: path, message: `must be one of ${values.join(', ')}` };
+}
+
+function arr(item: Schema, options: { max: number }): Schema {
+  return (value, path) => {
+    if (!Array.isArray(value)) return { field: path, message: 'must be an array' };
+    if (value.length > options.max) return { field: path, message: `must have at most ${options.max} items` };
+    for (let i = 0; i < value.length; i++) {
+      const issue = item(value[i], `${path}[${i}]`);
+      if (issue) return issue;
+    }
+    return null;
+  };
+}
+
+function optional(schema: Schema): Schema & { optional: true } {
+  const wrapped: Schema = (value, path) => (value === undefined ? null : schema(value, path));
+  return Object.assign(wrapped, { optional: true as const });
+}
+
+function nullable(schema: Schema): Schema {
+  return (value, path) => (value === null ? null : schema(value, path));
+}
+
+// 未知のキーは無視する（古いクライアントとの互換のため）
+function obj(shape: Record<string, Schema>): Schema {
+  return (value, path) => {
+    if (!isPlainObject(value)) return { field: path, message: 'must be an object' };
+    for (const [key, schema] of Object.entries(shape)) {
+      const fieldPath = path ? `${path}.${key}` : key;
+      if (value[key] === undefined && !('optional' in schema)) {
+        return { field: fieldPath, message: 'is required' };
+      }
+      const issue = schema(value[key], fieldPath);
+      if (issue) return issue;
+    }
+    return null;
+  };
+}
+
+// 設定の中身はサーバー側でnormalizeSettingsするので、ここでは形だけ確認する
+const anyObject: Schema = (value, path) => (isPlainObject(value) ? null : { field: path, message: 'must be an object' });
+
+const id = str({ min: 1, max: MAX_ID_LENGTH });
+const imageData = str({ min: 1, max: MAX_IMAGE_DATA_LENGTH });
+const point = obj({ x: num(), y: num() });
+
+const drawingStroke = obj({
+  tool: oneOf(DRAWING_TOOLS),
+  color: str({ max: 64 }),
+  brushSize: num({ min: 0 }),
+  opacity: num({ min: 0, max: 100 }),
+  timestamp: num({ min: 0 }),
+  points: optional(arr(point, { max: MAX_POINTS_PER_STROKE })),
+  fillPoint: optional(point),
+  stampShape: optional(str({ max: 64 })),
+  stampBounds: optional(obj({ x: num(), y: num(), width: num(), height: num() })),
+  fillStamp: optional(bool),
+});
+
+const empty = obj({});
+
+const payloadSchemas: Record<ClientEventType, Schema> = {
+  join_room: obj({
+    roomId: id,
+    playerName: str({ min: 1, max: MAX_NAME_LENGTH }),
+    clientId: id,
+    password: optional(str({ max: MAX_PASSWORD_LENGTH })),
+    spectate: optional(bool),
+  }),
+  leave_room: obj({ roomId: optional(id) }),
+  toggle_ready: obj({ roomId: optional(id) }),
+  start_game: obj({ roomId: optional(id) }),
+  mark_ready: empty,
+  unmark_ready: empty,
+  submit_prompt: obj({ text: str({ max: MAX_TEXT_LENGTH }) }),
+  submit_drawing: obj({
+    imageData,
+    strokes: optional(arr(drawingStroke, { max: MAX_STROKES })),
+    edgeStrip: optional(imageData),
+  }),
+  submit_guess: obj({ text: str({ max: MAX_TEXT_LENGTH }) }),
+  submit_shiritori: obj({
+    imageData: optional(nullable(imageData)),
+    answer: optional(nullable(str({ max: MAX_TEXT_LENGTH }))),
+    strokes: optional(arr(drawingStroke, { max: MAX_STROKES })),
+  }),
+  live_canvas_strokes: obj({ strokes: arr(drawingStroke, { max: MAX_LIVE_STROKES }) }),
+  live_canvas_keyframe: obj({ imageData: nullable(imageData) }),
+  submit_quiz_guess: obj({ text: str({ max: MAX_TEXT_LENGTH }) }),
+  collab_strokes: obj({ strokes: arr(drawingStroke, { max: MAX_LIVE_STROKES }) }),
+  imposter_stroke: obj({ stroke: drawingStroke }),
+  imposter_vote: obj({ suspectId: id }),
+  imposter_guess: obj({ text: str({ max: MAX_TEXT_LENGTH }) }),
+  caption_vote: obj({ captionId: id }),
+  showdown_judge: obj({
+    ranking: arr(id, { max: SHOWDOWN_RANK_POINTS.length }),
+    guesses: optional(arr(obj({ drawingId: id, playerId: id }), { max: MAX_PLAYERS })),
+  }),
+  rejoin_room: obj({
+    roomId: id,
+    sessionToken: id,
+    stream: optional(str({ max: MAX_ID_LENGTH })),
+    lastSeq: optional(num({ int: true, min: 0 })),
+  }),
+  result_navigate: obj({
+    chainIndex: num({ int: true, min: 0 }),
+    entryIndex: num({ int: true, min: 0 }),
+    displayOrder: optional(oneOf(['first-to-last', 'last-to-first'])),
+  }),
+  animation_unlock: obj({ chainIndex: num({ int: true, min: 0 }) }),
+  pass_presenter: obj({ playerId: id }),
+  cast_vote: obj({ category: oneOf(VOTE_CATEGORIES), chainId: id, entryOrder: num({ int: true, min: 0 }) }),
+  close_voting: empty,
+  return_to_lobby: empty,
+  update_settings: obj({ settings: anyObject }),
+  select_mode: obj({ mode: oneOf(GAME_MODES) }),
+  reorder_players: obj({ playerIds: arr(id, { max: MAX_PLAYERS }) }),
+  change_color: obj({ color: str({ min: 1, max: 32 }) }),
+  lobby_chat: obj({ text: str({ max: MAX_CHAT_LENGTH }) }),
+  kick_player: obj({ playerId: id }),
+  ban_player: obj({ playerId: id }),
+  transfer_host: obj({ playerId: id }),
+  set_room_locked: obj({ locked: bool }),
+  promote_spectator: obj({ playerId: id }),
+  assign_team: obj({ playerId: id, team: nullable(num({ int: true, min: 0, max: MAX_QUIZ_TEAMS - 1 })) }),
+  balance_teams: empty,
+};
+
+export type ParseResult<T extends ProtocolTypes> =
+  | { ok: true; event: ClientEvent<T> }
+  | { ok: false; error: ProtocolError };
+
+export function isClientEventType(type: unknown): type is ClientEventType {
+  return typeof type === 'string' && Object.prototype.hasOwnProperty.call(payloadSchemas, type);
+}
+
+export function parseClientEvent<T extends ProtocolTypes>(raw: string): ParseResult<T> {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: { code: 'invalid_json', message: 'Invalid message format' } };
+  }
+
+  if (!isPlainObject(data)) {
+    return { ok: false, error: { code: 'invalid_json', message: 'Message must be a JSON object' } };
+  }
+
+  const { type } = data;
+  if (!isClientEventType(type)) {
+    return {
+      ok: false,
+      error: { code: 'unknown_event', message: `Unknown event type: ${String(type)}`, event: typeof type === 'string' ? type : undefined },
+    };
+  }
+
+  // payloadを省略した空イベントも受け付ける
+  const payload = data.payload ?? {};
+  const issue = payloadSchemas[type](payload, '');
+  if (issue) {
+    return {
+      ok: false,
+      error: { code: 'invalid_payload', message: `${issue.field || 'payload'} ${issue.message}`, event: type, field: issue.field },
+    };
+  }
+
+  return { ok: true, event: { type, payload } as ClientEvent<T> };
+}